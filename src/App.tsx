@@ -9,9 +9,18 @@ import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Contacts from "./pages/Contacts";
 import ContactProfile from "./pages/ContactProfile";
+import ContactMergePage from "./pages/ContactMerge";
+import Accounts from "./pages/Accounts";
+import AccountProfile from "./pages/AccountProfile";
 import Purchases from "./pages/Purchases";
+import Products from "./pages/Products";
+import Stock from "./pages/Stock";
 import CompanyUsersPage from "./pages/CompanyUsers";
+import CustomFieldsPage from "./pages/CustomFields";
+import AssignmentRulesPage from "./pages/AssignmentRules";
 import VoucherRulesPage from "./pages/VoucherRules";
+import TrashPage from "./pages/Trash";
+import AuditLogPage from "./pages/AuditLog";
 import NotFound from "./pages/NotFound";
 import ReportsPage from "./pages/Reports";
 
@@ -29,10 +38,19 @@ const App = () => (
             <Route path="/auth" element={<Auth />} />
             <Route path="/dashboard" element={<Dashboard />} />
             <Route path="/contacts" element={<Contacts />} />
+            <Route path="/contacts/merge" element={<ContactMergePage />} />
             <Route path="/contacts/:id" element={<ContactProfile />} />
+            <Route path="/accounts" element={<Accounts />} />
+            <Route path="/accounts/:id" element={<AccountProfile />} />
             <Route path="/purchases" element={<Purchases />} />
+            <Route path="/products" element={<Products />} />
+            <Route path="/stock" element={<Stock />} />
             <Route path="/company/users" element={<CompanyUsersPage />} />
+            <Route path="/company/custom-fields" element={<CustomFieldsPage />} />
+            <Route path="/company/assignment-rules" element={<AssignmentRulesPage />} />
             <Route path="/vouchers" element={<VoucherRulesPage />} />
+            <Route path="/trash" element={<TrashPage />} />
+            <Route path="/audit-log" element={<AuditLogPage />} />
              <Route path="/reports" element={<ReportsPage />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useCompanyUsers } from "@/hooks/useCompanyUsers";
+import { ACCOUNT_KINDS, type Account, type AccountKind } from "@/lib/accounts";
+import { toast } from "sonner";
+
+type Props = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account?: Account | null;
+  onSaved: (id: string) => void;
+};
+
+type FormState = { name: string; kind: AccountKind; notes: string; assigned_user_id: string };
+
+const AccountDialog = ({ open, onOpenChange, account, onSaved }: Props) => {
+  const { user, profile, isAdmin } = useAuth();
+  const { activeUsers } = useCompanyUsers();
+  const [form, setForm] = useState<FormState>({ name: "", kind: "business", notes: "", assigned_user_id: "" });
+  const [assignMembers, setAssignMembers] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(
+      account
+        ? { name: account.name, kind: account.kind, notes: account.notes ?? "", assigned_user_id: account.assigned_user_id ?? "" }
+        : { name: "", kind: "business", notes: "", assigned_user_id: user?.id ?? "" },
+    );
+    setAssignMembers(false);
+  }, [open, account, user?.id]);
+
+  const assigneeChanged = Boolean(account && form.assigned_user_id && form.assigned_user_id !== account.assigned_user_id);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile || !user || !form.name.trim()) return;
+    setSaving(true);
+    try {
+      // only admins choose the assignee; everyone else's new accounts are their own
+      const assignee = isAdmin ? form.assigned_user_id || null : account ? account.assigned_user_id : user.id;
+      const values = { name: form.name.trim(), kind: form.kind, notes: form.notes.trim() || null, assigned_user_id: assignee };
+      let id = account?.id;
+      if (account) {
+        const { error } = await supabase.from("accounts").update({ ...values, updated_at: new Date().toISOString() }).eq("id", account.id);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from("accounts")
+          .insert({ ...values, company_id: profile.company_id, created_by: user.id })
+          .select("id")
+          .single();
+        if (error) throw error;
+        id = data.id;
+      }
+      if (account && assigneeChanged && assignMembers) {
+        const { error } = await supabase
+          .from("contacts")
+          .update({ assigned_user_id: form.assigned_user_id, updated_at: new Date().toISOString() })
+          .eq("account_id", account.id)
+          .is("deleted_at", null);
+        if (error) throw error;
+      }
+      toast.success(account ? "Account updated" : "Account created");
+      onOpenChange(false);
+      if (id) onSaved(id);
+    } catch (err) {
+      console.error(err);
+      toast.error(account ? "Failed to update account" : "Failed to create account");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md w-full">
+        <DialogHeader>
+          <DialogTitle>{account ? "Edit Account" : "Add Account"}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="account-name">Name</Label>
+            <Input id="account-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="e.g. Sharma Traders, The Iyer family" required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="account-kind">Type</Label>
+            <select
+              id="account-kind"
+              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              value={form.kind}
+              onChange={(e) => setForm({ ...form, kind: e.target.value as AccountKind })}
+            >
+              {ACCOUNT_KINDS.map((k) => (
+                <option key={k.value} value={k.value}>{k.label}</option>
+              ))}
+            </select>
+          </div>
+          {isAdmin && (
+            <div className="space-y-2">
+              <Label htmlFor="account-assignee">Assigned User</Label>
+              <select
+                id="account-assignee"
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                value={form.assigned_user_id}
+                onChange={(e) => setForm({ ...form, assigned_user_id: e.target.value })}
+              >
+                <option value="">Unassigned</option>
+                {activeUsers.map((u) => (
+                  <option key={u.id} value={u.id}>{u.full_name || u.email}</option>
+                ))}
+              </select>
+              {assigneeChanged && (
+                <label className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={assignMembers} onChange={(e) => setAssignMembers(e.target.checked)} />
+                  Also assign the account's customer contacts to this user
+                </label>
+              )}
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="account-notes">Notes</Label>
+            <Textarea id="account-notes" value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} rows={3} />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={saving || !form.name.trim()}>{saving ? <Loader2 className="h-4 w-4 animate-spin" /> : account ? "Save" : "Create"}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AccountDialog;
@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import ConfirmDialog from "@/components/ui/confirm-dialog";
+import { Building, Edit2, Loader2, Plus, Search, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { formatINR } from "@/lib/utils";
+import { accountKindLabel, ownsAccount, type Account } from "@/lib/accounts";
+import { toast } from "sonner";
+import AccountDialog from "./AccountDialog";
+
+type AccountRow = Account & {
+  member_count: number;
+  account_revenue: number;
+  assigned_user: { full_name: string | null } | null;
+};
+
+const AccountsList = () => {
+  const { user, profile, isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const [accounts, setAccounts] = useState<AccountRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Account | null>(null);
+  const [accountToDelete, setAccountToDelete] = useState<AccountRow | null>(null);
+
+  const fetchAccounts = useCallback(async () => {
+    if (!profile) return;
+    setLoading(true);
+    try {
+      // member_count and account_revenue are computed fields on accounts
+      const { data, error } = await supabase
+        .from("accounts")
+        .select("id, name, kind, notes, assigned_user_id, created_by, created_at, member_count, account_revenue, assigned_user:profiles!accounts_assigned_user_id_fkey(full_name)")
+        .eq("company_id", profile.company_id)
+        .order("name", { ascending: true });
+      if (error) throw error;
+      setAccounts((data as unknown as AccountRow[]) || []);
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to load accounts");
+    } finally {
+      setLoading(false);
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    void fetchAccounts();
+  }, [fetchAccounts]);
+
+  const visible = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return q ? accounts.filter((a) => a.name.toLowerCase().includes(q)) : accounts;
+  }, [accounts, search]);
+
+  const openAccount = (id: string) => navigate(`/accounts/${id}`, { state: { id } });
+
+  const handleDelete = async () => {
+    if (!accountToDelete) return;
+    try {
+      const { error } = await supabase.from("accounts").delete().eq("id", accountToDelete.id);
+      if (error) throw error;
+      toast.success("Account deleted");
+      void fetchAccounts();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to delete account");
+    } finally {
+      setAccountToDelete(null);
+    }
+  };
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-gradient-primary rounded-2xl">
+              <Building className="h-8 w-8 text-primary-foreground" />
+            </div>
+            <div>
+              <CardTitle>Accounts</CardTitle>
+              <div className="text-sm text-muted-foreground">Businesses and households whose customer contacts buy together</div>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="relative">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input className="pl-8 h-9 sm:w-56" placeholder="Search accounts" value={search} onChange={(e) => setSearch(e.target.value)} />
+            </div>
+            <Button
+              size="sm"
+              onClick={() => {
+                setEditing(null);
+                setDialogOpen(true);
+              }}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Account
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full table-auto">
+              <thead>
+                <tr className="text-left text-sm text-muted-foreground">
+                  <th className="py-2">Name</th>
+                  <th className="py-2">Type</th>
+                  <th className="py-2">Customer Contacts</th>
+                  <th className="py-2">Assigned To</th>
+                  <th className="py-2">Revenue</th>
+                  <th className="py-2 text-right"> </th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((a) => {
+                  const owner = isAdmin || ownsAccount(a, user?.id);
+                  return (
+                    <tr key={a.id} className="border-t cursor-pointer hover:bg-muted/5" onClick={() => openAccount(a.id)}>
+                      <td className="py-2 font-medium">{a.name}</td>
+                      <td className="py-2">{accountKindLabel(a.kind)}</td>
+                      <td className="py-2">{a.member_count}</td>
+                      <td className="py-2">{a.assigned_user?.full_name ?? (a.assigned_user_id ? <span className="text-muted-foreground">Former user</span> : <span className="text-muted-foreground">—</span>)}</td>
+                      <td className="py-2">{owner ? formatINR(Number(a.account_revenue ?? 0)) : <span className="text-muted-foreground">—</span>}</td>
+                      <td className="py-2 text-right">
+                        <div className="inline-flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                          {owner && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0"
+                              aria-label="Edit account"
+                              onClick={() => {
+                                setEditing(a);
+                                setDialogOpen(true);
+                              }}
+                            >
+                              <Edit2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {isAdmin && (
+                            <Button variant="ghost" size="sm" className="h-8 w-8 p-0" aria-label="Delete account" onClick={() => setAccountToDelete(a)}>
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {visible.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="py-8 text-center text-muted-foreground">
+                      {accounts.length === 0 ? "No accounts yet. Add one to group customer contacts who buy together." : "No accounts match your search."}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      <AccountDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        account={editing}
+        onSaved={(id) => (editing ? void fetchAccounts() : openAccount(id))}
+      />
+
+      <ConfirmDialog
+        open={Boolean(accountToDelete)}
+        onOpenChange={(o) => !o && setAccountToDelete(null)}
+        title="Delete account"
+        description={accountToDelete ? `Delete the account "${accountToDelete.name}"? Its ${accountToDelete.member_count} customer contacts stay, without an account.` : undefined}
+        confirmLabel="Delete"
+        onConfirm={handleDelete}
+      />
+    </Card>
+  );
+};
+
+export default AccountsList;
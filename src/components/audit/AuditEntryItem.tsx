@@ -0,0 +1,55 @@
+import { auditActionLabel, auditChanges, auditFieldLabel, auditRecordName, auditTableLabel, formatAuditValue, type AuditEntry } from "@/lib/audit";
+
+type Props = {
+  entry: AuditEntry;
+  // profile ids -> names, so assignment changes read as people rather than uuids
+  names?: Record<string, string>;
+  showRecord?: boolean;
+};
+
+const AuditEntryItem = ({ entry, names = {}, showRecord = false }: Props) => {
+  const changes = auditChanges(entry);
+
+  return (
+    <li className="rounded-md border p-3">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <div className="font-medium">
+          {auditActionLabel(entry)}
+          {showRecord && (
+            <span className="font-normal text-muted-foreground">
+              {" "}
+              {auditTableLabel(entry.table_name).toLowerCase()} {auditRecordName(entry)}
+            </span>
+          )}
+        </div>
+        <div className="text-xs text-muted-foreground">
+          {new Date(entry.changed_at).toLocaleString()} · {entry.actor?.full_name ?? (entry.changed_by ? "Unknown user" : "System")}
+        </div>
+      </div>
+      {changes.length > 0 && (
+        <table className="mt-2 w-full table-auto text-sm">
+          <tbody>
+            {changes.map((c) => (
+              <tr key={c.field} className="align-top">
+                <td className="py-0.5 pr-3 text-muted-foreground whitespace-nowrap">{auditFieldLabel(c.field)}</td>
+                <td className="py-0.5 break-all">
+                  {entry.action === "update" ? (
+                    <>
+                      <span className="line-through text-muted-foreground">{formatAuditValue(c.before, names)}</span>
+                      {" → "}
+                      <span>{formatAuditValue(c.after, names)}</span>
+                    </>
+                  ) : (
+                    formatAuditValue(entry.action === "insert" ? c.after : c.before, names)
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </li>
+  );
+};
+
+export default AuditEntryItem;
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useCompanyUsers } from "@/hooks/useCompanyUsers";
+import type { AuditEntry } from "@/lib/audit";
+import AuditEntryItem from "./AuditEntryItem";
+import { toast } from "sonner";
+
+type Props =
+  // everything recorded against a customer contact, including its purchases and vouchers
+  | { contactId: string; tableName?: never; recordId?: never }
+  // a single row, e.g. one purchase
+  | { contactId?: never; tableName: string; recordId: string };
+
+const HISTORY_LIMIT = 100;
+
+const AuditHistory = ({ contactId, tableName, recordId }: Props) => {
+  const { users } = useCompanyUsers();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const names = useMemo(() => Object.fromEntries(users.map((u) => [u.id, u.full_name || u.email])), [users]);
+
+  const fetchHistory = useCallback(async () => {
+    setLoading(true);
+    try {
+      let query = supabase.from("audit_log").select("*, actor:profiles!audit_log_changed_by_fkey(full_name)");
+      query = contactId ? query.eq("contact_id", contactId) : query.eq("table_name", tableName).eq("record_id", recordId);
+      const { data, error } = await query.order("changed_at", { ascending: false }).limit(HISTORY_LIMIT);
+      if (error) throw error;
+      setEntries((data as unknown as AuditEntry[]) || []);
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to load history");
+    } finally {
+      setLoading(false);
+    }
+  }, [contactId, tableName, recordId]);
+
+  useEffect(() => {
+    void fetchHistory();
+  }, [fetchHistory]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return <div className="py-8 text-center text-muted-foreground">No changes recorded yet.</div>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {entries.map((e) => (
+        <AuditEntryItem key={e.id} entry={e} names={names} showRecord={Boolean(contactId)} />
+      ))}
+    </ul>
+  );
+};
+
+export default AuditHistory;
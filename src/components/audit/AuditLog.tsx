@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { History, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useCompanyUsers } from "@/hooks/useCompanyUsers";
+import { AUDIT_TABLES, type AuditEntry } from "@/lib/audit";
+import AuditEntryItem from "./AuditEntryItem";
+import { toast } from "sonner";
+
+const PAGE_SIZE = 50;
+
+const AuditLog = () => {
+  const { profile, isAdmin } = useAuth();
+  const { users } = useCompanyUsers();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [userFilter, setUserFilter] = useState("");
+  const [tableFilter, setTableFilter] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  const names = useMemo(() => Object.fromEntries(users.map((u) => [u.id, u.full_name || u.email])), [users]);
+
+  const fetchPage = useCallback(
+    async (offset: number) => {
+      if (!profile) return;
+      setLoading(true);
+      try {
+        let query = supabase
+          .from("audit_log")
+          .select("*, actor:profiles!audit_log_changed_by_fkey(full_name)")
+          .eq("company_id", profile.company_id);
+        if (userFilter) query = query.eq("changed_by", userFilter);
+        if (tableFilter) query = query.eq("table_name", tableFilter);
+        // dates are picked in local time; convert the day bounds to timestamps
+        if (fromDate) query = query.gte("changed_at", new Date(`${fromDate}T00:00:00`).toISOString());
+        if (toDate) query = query.lt("changed_at", new Date(new Date(`${toDate}T00:00:00`).getTime() + 24 * 60 * 60 * 1000).toISOString());
+
+        const { data, error } = await query.order("changed_at", { ascending: false }).range(offset, offset + PAGE_SIZE - 1);
+        if (error) throw error;
+        const rows = (data as unknown as AuditEntry[]) || [];
+        setEntries((prev) => (offset === 0 ? rows : [...prev, ...rows]));
+        setHasMore(rows.length === PAGE_SIZE);
+      } catch (err) {
+        console.error(err);
+        toast.error("Failed to load audit log");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [profile, userFilter, tableFilter, fromDate, toDate],
+  );
+
+  useEffect(() => {
+    if (isAdmin) void fetchPage(0);
+  }, [fetchPage, isAdmin]);
+
+  if (!profile) return null;
+
+  if (!isAdmin) {
+    return <div className="text-center py-12 text-muted-foreground">Only admins can view the audit log.</div>;
+  }
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-gradient-primary rounded-2xl">
+            <History className="h-8 w-8 text-primary-foreground" />
+          </div>
+          <div>
+            <CardTitle>Audit Log</CardTitle>
+            <div className="text-sm text-muted-foreground">Every change to customer contacts, purchases, vouchers, voucher rules and products</div>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-4">
+          <select
+            aria-label="Filter by user"
+            className="rounded-md border border-input bg-background px-3 py-2 text-sm h-10"
+            value={userFilter}
+            onChange={(e) => setUserFilter(e.target.value)}
+          >
+            <option value="">All users</option>
+            {users.map((u) => (
+              <option key={u.id} value={u.id}>{u.full_name || u.email}</option>
+            ))}
+          </select>
+          <select
+            aria-label="Filter by record type"
+            className="rounded-md border border-input bg-background px-3 py-2 text-sm h-10"
+            value={tableFilter}
+            onChange={(e) => setTableFilter(e.target.value)}
+          >
+            <option value="">All record types</option>
+            {AUDIT_TABLES.map((t) => (
+              <option key={t.value} value={t.value}>{t.label}</option>
+            ))}
+          </select>
+          <Input type="date" aria-label="From date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+          <Input type="date" aria-label="To date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+        </div>
+
+        <ul className="space-y-2">
+          {entries.map((e) => (
+            <AuditEntryItem key={e.id} entry={e} names={names} showRecord />
+          ))}
+        </ul>
+
+        {loading && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        )}
+        {!loading && entries.length === 0 && <div className="py-8 text-center text-muted-foreground">No changes match these filters</div>}
+        {!loading && hasMore && (
+          <div className="text-center">
+            <Button variant="outline" onClick={() => void fetchPage(entries.length)}>Load more</Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AuditLog;
@@ -0,0 +1,390 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import ConfirmDialog from "@/components/ui/confirm-dialog";
+import { ArrowDown, ArrowUp, Edit2, Loader2, Plus, Shuffle, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { nextAssignees, useAssignmentRules } from "@/hooks/useAssignmentRules";
+import { useCompanyUsers } from "@/hooks/useCompanyUsers";
+import { useCompanyTags } from "@/hooks/useCompanyTags";
+import { INDIAN_STATES } from "@/lib/address";
+import {
+  ASSIGNMENT_STRATEGIES,
+  assignmentStrategyLabel,
+  describeRuleMatch,
+  type AssignmentResult,
+  type AssignmentRule,
+  type AssignmentStrategy,
+} from "@/lib/assignment";
+import { toast } from "sonner";
+
+type FormState = {
+  name: string;
+  strategy: AssignmentStrategy;
+  user_ids: string[];
+  match_city: string;
+  match_state: string;
+  match_tag_id: string;
+  is_active: boolean;
+};
+
+const emptyForm: FormState = { name: "", strategy: "round_robin", user_ids: [], match_city: "", match_state: "", match_tag_id: "", is_active: true };
+
+const SELECT_CLASS = "w-full rounded-md border border-input bg-background px-3 py-2 text-sm";
+
+// how many upcoming assignments the preview walks through
+const PREVIEW_COUNT = 5;
+
+const AssignmentRulesManager = () => {
+  const { profile, isAdmin } = useAuth();
+  const { rules, loading, refresh } = useAssignmentRules();
+  const { users, activeUsers } = useCompanyUsers();
+  const { tags } = useCompanyTags();
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState<AssignmentRule | null>(null);
+  const [form, setForm] = useState<FormState>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [ruleToDelete, setRuleToDelete] = useState<AssignmentRule | null>(null);
+  const [preview, setPreview] = useState({ city: "", state: "", tag_id: "" });
+  const [previewResults, setPreviewResults] = useState<AssignmentResult[] | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+
+  const userName = (id: string) => {
+    const u = users.find((x) => x.id === id);
+    return u ? u.full_name || u.email : "Former user";
+  };
+  const tagName = (id: string) => tags.find((t) => t.id === id)?.name;
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setOpen(true);
+  };
+
+  const openEdit = (r: AssignmentRule) => {
+    setEditing(r);
+    setForm({
+      name: r.name,
+      strategy: r.strategy,
+      user_ids: r.user_ids,
+      match_city: r.match_city ?? "",
+      match_state: r.match_state ?? "",
+      match_tag_id: r.match_tag_id ?? "",
+      is_active: r.is_active,
+    });
+    setOpen(true);
+  };
+
+  const toggleUser = (id: string, checked: boolean) =>
+    setForm((prev) => ({ ...prev, user_ids: checked ? [...prev.user_ids, id] : prev.user_ids.filter((u) => u !== id) }));
+
+  const handleSave = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!profile) return;
+    if (!form.name.trim()) {
+      toast.error("Name is required");
+      return;
+    }
+    if (form.user_ids.length === 0) {
+      toast.error("Pick at least one user to assign customer contacts to");
+      return;
+    }
+
+    const values = {
+      name: form.name.trim(),
+      strategy: form.strategy,
+      // keep the order users appear in the company list so round robin is predictable
+      user_ids: activeUsers.map((u) => u.id).filter((id) => form.user_ids.includes(id)),
+      match_city: form.match_city.trim() || null,
+      match_state: form.match_state || null,
+      match_tag_id: form.match_tag_id || null,
+      is_active: form.is_active,
+    };
+
+    setSaving(true);
+    try {
+      if (editing) {
+        const { error } = await supabase
+          .from("assignment_rules")
+          .update({ ...values, updated_at: new Date().toISOString() })
+          .eq("id", editing.id);
+        if (error) throw error;
+        toast.success("Assignment rule updated");
+      } else {
+        const { error } = await supabase.from("assignment_rules").insert({
+          ...values,
+          company_id: profile.company_id,
+          position: rules.length > 0 ? Math.max(...rules.map((r) => r.position)) + 1 : 0,
+        });
+        if (error) throw error;
+        toast.success("Assignment rule created");
+      }
+      setOpen(false);
+      setPreviewResults(null);
+      void refresh();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to save assignment rule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const move = async (index: number, direction: -1 | 1) => {
+    const a = rules[index];
+    const b = rules[index + direction];
+    if (!a || !b) return;
+    try {
+      const [resA, resB] = await Promise.all([
+        supabase.from("assignment_rules").update({ position: index + direction }).eq("id", a.id),
+        supabase.from("assignment_rules").update({ position: index }).eq("id", b.id),
+      ]);
+      if (resA.error) throw resA.error;
+      if (resB.error) throw resB.error;
+      setPreviewResults(null);
+      void refresh();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to reorder assignment rules");
+    }
+  };
+
+  const handleDeleteConfirmed = async () => {
+    if (!ruleToDelete) return;
+    try {
+      const { error } = await supabase.from("assignment_rules").delete().eq("id", ruleToDelete.id);
+      if (error) throw error;
+      toast.success("Assignment rule deleted");
+      setPreviewResults(null);
+      void refresh();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to delete assignment rule");
+    } finally {
+      setRuleToDelete(null);
+    }
+  };
+
+  const handlePreview = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPreviewing(true);
+    try {
+      const candidate = { city: preview.city.trim() || null, state: preview.state || null, tag_ids: preview.tag_id ? [preview.tag_id] : [] };
+      setPreviewResults(await nextAssignees(Array.from({ length: PREVIEW_COUNT }, () => candidate), true));
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to preview assignment");
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  if (!profile) return null;
+
+  if (!isAdmin) {
+    return <div className="text-center py-12 text-muted-foreground">Only admins can manage assignment rules.</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-md">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <div className="p-3 bg-gradient-primary rounded-2xl">
+                <Shuffle className="h-8 w-8 text-primary-foreground" />
+              </div>
+              <div>
+                <CardTitle>Assignment Rules</CardTitle>
+                <div className="text-sm text-muted-foreground">
+                  Who new customer contacts are assigned to. The first active rule that matches is used; without a match the contact goes to whoever creates it.
+                </div>
+              </div>
+            </div>
+            <Button onClick={openCreate}>
+              <Plus className="mr-2 h-4 w-4" /> New Rule
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full table-auto">
+                <thead>
+                  <tr className="text-left text-sm text-muted-foreground">
+                    <th className="py-2">Name</th>
+                    <th className="py-2">Applies to</th>
+                    <th className="py-2">Strategy</th>
+                    <th className="py-2">Users</th>
+                    <th className="py-2">Active</th>
+                    <th className="py-2 text-right w-40">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rules.map((r, i) => (
+                    <tr key={r.id} className={`border-t ${r.is_active ? "" : "text-muted-foreground"}`}>
+                      <td className="py-2">{r.name}</td>
+                      <td className="py-2 text-sm">{describeRuleMatch(r, tagName)}</td>
+                      <td className="py-2">{assignmentStrategyLabel(r.strategy)}</td>
+                      <td className="py-2 text-sm">{r.user_ids.map(userName).join(", ")}</td>
+                      <td className="py-2">{r.is_active ? "Yes" : "No"}</td>
+                      <td className="py-2 text-right">
+                        <div className="inline-flex items-center justify-end gap-1">
+                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" disabled={i === 0} onClick={() => void move(i, -1)} aria-label={`Move ${r.name} up`}>
+                            <ArrowUp className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" disabled={i === rules.length - 1} onClick={() => void move(i, 1)} aria-label={`Move ${r.name} down`}>
+                            <ArrowDown className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => openEdit(r)} aria-label={`Edit ${r.name}`}>
+                            <Edit2 className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setRuleToDelete(r)} aria-label={`Delete ${r.name}`}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                  {rules.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="py-8 text-center text-muted-foreground">No assignment rules. New customer contacts are assigned to whoever creates them.</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-md">
+        <CardHeader>
+          <CardTitle>Preview</CardTitle>
+          <div className="text-sm text-muted-foreground">See who the next customer contacts like this would be assigned to. Nothing is assigned.</div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handlePreview} className="grid gap-3 sm:grid-cols-4">
+            <Input aria-label="City" placeholder="City" value={preview.city} onChange={(e) => setPreview({ ...preview, city: e.target.value })} />
+            <select aria-label="State" className={SELECT_CLASS} value={preview.state} onChange={(e) => setPreview({ ...preview, state: e.target.value })}>
+              <option value="">Any state</option>
+              {INDIAN_STATES.map((s) => (
+                <option key={s} value={s}>{s}</option>
+              ))}
+            </select>
+            <select aria-label="Tag" className={SELECT_CLASS} value={preview.tag_id} onChange={(e) => setPreview({ ...preview, tag_id: e.target.value })}>
+              <option value="">No tag</option>
+              {tags.map((t) => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+            </select>
+            <Button type="submit" disabled={previewing}>{previewing ? <Loader2 className="h-4 w-4 animate-spin" /> : "Preview"}</Button>
+          </form>
+
+          {previewResults && (
+            previewResults[0]?.userId ? (
+              <div className="space-y-1 text-sm">
+                <div className="text-muted-foreground">
+                  Matches <span className="font-medium text-foreground">{rules.find((r) => r.id === previewResults[0].ruleId)?.name ?? "a rule"}</span>. The next {previewResults.length} would go to:
+                </div>
+                <ol className="list-decimal pl-6">
+                  {previewResults.map((res, i) => (
+                    <li key={i}>{res.userId ? userName(res.userId) : "Whoever creates it"}</li>
+                  ))}
+                </ol>
+              </div>
+            ) : (
+              <div className="text-sm text-muted-foreground">
+                {previewResults[0]?.ruleId ? "The matching rule has no users still in the company" : "No active rule matches"}, so the customer contact would be assigned to whoever creates it.
+              </div>
+            )
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-lg w-full">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Assignment Rule" : "New Assignment Rule"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="ar-name">Name</Label>
+              <Input id="ar-name" placeholder="e.g. Pune walk-ins" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Applies to customer contacts where</Label>
+              <div className="grid gap-3 sm:grid-cols-3">
+                <Input aria-label="City" placeholder="Any city" value={form.match_city} onChange={(e) => setForm({ ...form, match_city: e.target.value })} />
+                <select aria-label="State" className={SELECT_CLASS} value={form.match_state} onChange={(e) => setForm({ ...form, match_state: e.target.value })}>
+                  <option value="">Any state</option>
+                  {INDIAN_STATES.map((s) => (
+                    <option key={s} value={s}>{s}</option>
+                  ))}
+                </select>
+                <select aria-label="Tag" className={SELECT_CLASS} value={form.match_tag_id} onChange={(e) => setForm({ ...form, match_tag_id: e.target.value })}>
+                  <option value="">Any tags</option>
+                  {tags.map((t) => (
+                    <option key={t.id} value={t.id}>{t.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="text-xs text-muted-foreground">Leave all three empty to match every new customer contact.</div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="ar-strategy">Assign</Label>
+              <select id="ar-strategy" className={SELECT_CLASS} value={form.strategy} onChange={(e) => setForm({ ...form, strategy: e.target.value as AssignmentStrategy })}>
+                {ASSIGNMENT_STRATEGIES.map((s) => (
+                  <option key={s.value} value={s.value}>{s.label}: {s.description.toLowerCase()}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Users</Label>
+              <div className="max-h-48 space-y-1 overflow-y-auto rounded-md border p-2">
+                {activeUsers.map((u) => (
+                  <label key={u.id} className="flex items-center gap-2 text-sm">
+                    <input type="checkbox" checked={form.user_ids.includes(u.id)} onChange={(e) => toggleUser(u.id, e.target.checked)} />
+                    {u.full_name || u.email}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={form.is_active} onChange={(e) => setForm({ ...form, is_active: e.target.checked })} />
+              Active
+            </label>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setOpen(false)} disabled={saving}>Cancel</Button>
+              <Button type="submit" disabled={saving}>{saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={Boolean(ruleToDelete)}
+        onOpenChange={(open) => !open && setRuleToDelete(null)}
+        title="Delete assignment rule"
+        description={`"${ruleToDelete?.name ?? ""}" will no longer assign new customer contacts. Contacts it already assigned keep their assignee.`}
+        confirmLabel="Delete"
+        onConfirm={handleDeleteConfirmed}
+      />
+    </div>
+  );
+};
+
+export default AssignmentRulesManager;
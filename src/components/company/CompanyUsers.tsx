@@ -1,15 +1,20 @@
 import { useEffect, useState, useCallback } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Users, Loader2 } from "lucide-react";
+import { Users, Loader2, UserMinus } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
+import { useCompanyCountry } from "@/hooks/useCompanyCountry";
+import { useCompanyUsers, type CompanyUser } from "@/hooks/useCompanyUsers";
+import { PHONE_COUNTRIES } from "@/lib/phone";
 import { toast } from "sonner";
+import OffboardUserDialog from "./OffboardUserDialog";
 
 type ProfileRow = {
   id: string;
   full_name: string | null;
   email: string;
+  deactivated_at: string | null;
   role?: string | null;
 };
 
@@ -17,6 +22,10 @@ const CompanyUsers = () => {
   const { profile, isAdmin } = useAuth();
   const [users, setUsers] = useState<ProfileRow[]>([]);
   const [loading, setLoading] = useState(true);
+  const { country, refresh: refreshCountry } = useCompanyCountry();
+  const [savingCountry, setSavingCountry] = useState(false);
+  const { activeUsers, refresh: refreshCompanyUsers } = useCompanyUsers();
+  const [offboarding, setOffboarding] = useState<CompanyUser | null>(null);
 
   const fetchUsers = useCallback(async () => {
     if (!profile) return;
@@ -24,19 +33,19 @@ const CompanyUsers = () => {
     try {
       const { data: profiles, error } = await supabase
         .from("profiles")
-        .select("id, full_name, email")
+        .select("id, full_name, email, deactivated_at")
         .eq("company_id", profile.company_id)
         .order("full_name", { ascending: true });
 
       if (error) throw error;
 
-      const rows = (profiles || []) as Array<{ id: string; full_name: string | null; email: string }>;
+      const rows = (profiles || []) as Array<{ id: string; full_name: string | null; email: string; deactivated_at: string | null }>;
 
       // fetch roles for each user
       const withRoles = await Promise.all(
         rows.map(async (r) => {
           const { data: roleData } = await supabase.from("user_roles").select("role").eq("user_id", r.id).single();
-          return { id: r.id, full_name: r.full_name, email: r.email, role: roleData?.role ?? null } as ProfileRow;
+          return { ...r, role: roleData?.role ?? null } as ProfileRow;
         }),
       );
 
@@ -78,20 +87,68 @@ const CompanyUsers = () => {
     }
   };
 
+  const reactivate = async (userId: string) => {
+    try {
+      const { error } = await supabase.rpc("reactivate_user", { _user_id: userId });
+      if (error) throw error;
+      toast.success("User reactivated");
+      void fetchUsers();
+      void refreshCompanyUsers();
+    } catch (err: unknown) {
+      console.error(err);
+      toast.error("Failed to reactivate user");
+    }
+  };
+
+  const changeCountry = async (code: string) => {
+    setSavingCountry(true);
+    try {
+      const { error } = await supabase.rpc("set_default_country", { _country: code });
+      if (error) throw error;
+      toast.success("Default country updated");
+      await refreshCountry();
+    } catch (err: unknown) {
+      console.error(err);
+      toast.error("Failed to update default country");
+    } finally {
+      setSavingCountry(false);
+    }
+  };
+
   if (!profile) return null;
 
   return (
     <Card className="shadow-md">
       <CardHeader>
-        <div className="flex items-center gap-4">
-          <div className="p-3 bg-gradient-primary rounded-2xl">
-            <Users className="h-8 w-8 text-primary-foreground" />
-          </div>
-          <div>
-            <CardTitle>Company Users</CardTitle>
-            <div className="text-sm text-muted-foreground">Manage user access and roles for your company</div>
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-gradient-primary rounded-2xl">
+              <Users className="h-8 w-8 text-primary-foreground" />
+            </div>
+            <div>
+              <CardTitle>Company Users</CardTitle>
+              <div className="text-sm text-muted-foreground">Manage user access and roles for your company</div>
+            </div>
           </div>
+          {isAdmin && (
+            <div className="flex items-center gap-2 text-sm">
+              <label htmlFor="default-country" className="whitespace-nowrap">Default country</label>
+              <select
+                id="default-country"
+                className="rounded-md border border-input bg-background px-3 py-2 text-sm h-9 w-56"
+                value={country}
+                disabled={savingCountry}
+                onChange={(e) => void changeCountry(e.target.value)}
+              >
+                {PHONE_COUNTRIES.map((c) => (
+                  <option key={c.code} value={c.code}>{c.label}</option>
+                ))}
+              </select>
+              {savingCountry && <Loader2 className="h-4 w-4 animate-spin" />}
+            </div>
+          )}
         </div>
+        {isAdmin && <div className="text-xs text-muted-foreground mt-2 sm:text-right">Phone numbers typed without a country code are read as numbers from this country.</div>}
       </CardHeader>
       <CardContent>
         {loading ? (
@@ -111,14 +168,21 @@ const CompanyUsers = () => {
               </thead>
               <tbody>
                 {users.map((u) => (
-                  <tr key={u.id} className="border-t">
+                  <tr key={u.id} className={`border-t ${u.deactivated_at ? "text-muted-foreground" : ""}`}>
                     <td className="py-2">{u.full_name ?? "—"}</td>
                     <td className="py-2">{u.email}</td>
-                    <td className="py-2">{u.role === "admin" ? "Admin" : "User"}</td>
+                    <td className="py-2">
+                      {u.role === "admin" ? "Admin" : "User"}
+                      {u.deactivated_at && <span className="ml-2 text-xs">(deactivated {new Date(u.deactivated_at).toLocaleDateString()})</span>}
+                    </td>
                     <td className="py-2">
                       {isAdmin && (
                         <div className="flex gap-2">
-                          {u.role === "admin" ? (
+                          {u.deactivated_at ? (
+                            <Button variant="outline" size="sm" onClick={() => void reactivate(u.id)}>
+                              Reactivate
+                            </Button>
+                          ) : u.role === "admin" ? (
                             <Button variant="outline" size="sm" onClick={() => demote(u.id)}>
                               Demote
                             </Button>
@@ -127,6 +191,12 @@ const CompanyUsers = () => {
                               Promote
                             </Button>
                           )}
+                          {u.id !== profile.id && (
+                            <Button variant="ghost" size="sm" onClick={() => setOffboarding(u)}>
+                              <UserMinus className="mr-2 h-4 w-4" />
+                              {u.deactivated_at ? "Transfer" : "Offboard"}
+                            </Button>
+                          )}
                         </div>
                       )}
                     </td>
@@ -142,6 +212,17 @@ const CompanyUsers = () => {
           </div>
         )}
       </CardContent>
+
+      <OffboardUserDialog
+        open={Boolean(offboarding)}
+        onOpenChange={(o) => !o && setOffboarding(null)}
+        user={offboarding}
+        recipients={activeUsers.filter((u) => u.id !== offboarding?.id)}
+        onDone={() => {
+          void fetchUsers();
+          void refreshCompanyUsers();
+        }}
+      />
     </Card>
   );
 };
@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import ConfirmDialog from "@/components/ui/confirm-dialog";
+import { ArrowDown, ArrowUp, Edit2, ListPlus, Loader2, Plus, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { CUSTOM_FIELD_TYPES, customFieldKey, type CustomFieldDefinition, type CustomFieldType } from "@/lib/customFields";
+import { toast } from "sonner";
+
+type FormState = {
+  label: string;
+  field_type: CustomFieldType;
+  options: string;
+  is_required: boolean;
+};
+
+const emptyForm: FormState = { label: "", field_type: "text", options: "", is_required: false };
+
+const CustomFieldsManager = () => {
+  const { profile, isAdmin } = useAuth();
+  const { fields, loading, refresh } = useCustomFields();
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState<CustomFieldDefinition | null>(null);
+  const [form, setForm] = useState<FormState>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [fieldToDelete, setFieldToDelete] = useState<CustomFieldDefinition | null>(null);
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setOpen(true);
+  };
+
+  const openEdit = (f: CustomFieldDefinition) => {
+    setEditing(f);
+    setForm({ label: f.label, field_type: f.field_type, options: f.options.join(", "), is_required: f.is_required });
+    setOpen(true);
+  };
+
+  const handleSave = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!profile) return;
+    if (!form.label.trim()) {
+      toast.error("Label is required");
+      return;
+    }
+    const options = form.options
+      .split(",")
+      .map((o) => o.trim())
+      .filter(Boolean);
+    if (form.field_type === "select" && options.length === 0) {
+      toast.error("Dropdown fields need at least one option");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editing) {
+        // key and type stay fixed: existing contact values are stored under the key in that type
+        const { error } = await supabase
+          .from("custom_field_definitions")
+          .update({ label: form.label.trim(), options, is_required: form.is_required, updated_at: new Date().toISOString() })
+          .eq("id", editing.id);
+        if (error) throw error;
+        toast.success("Custom field updated");
+      } else {
+        const key = customFieldKey(form.label);
+        if (fields.some((f) => f.key === key)) {
+          toast.error(`A field with the key "${key}" already exists`);
+          return;
+        }
+        const { error } = await supabase.from("custom_field_definitions").insert({
+          company_id: profile.company_id,
+          key,
+          label: form.label.trim(),
+          field_type: form.field_type,
+          options: form.field_type === "select" ? options : [],
+          is_required: form.is_required,
+          position: fields.length > 0 ? Math.max(...fields.map((f) => f.position)) + 1 : 0,
+        });
+        if (error) throw error;
+        toast.success("Custom field created");
+      }
+      setOpen(false);
+      void refresh();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to save custom field");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const move = async (index: number, direction: -1 | 1) => {
+    const a = fields[index];
+    const b = fields[index + direction];
+    if (!a || !b) return;
+    try {
+      // positions may collide for older rows, so write explicit indexes rather than swapping values
+      const [resA, resB] = await Promise.all([
+        supabase.from("custom_field_definitions").update({ position: index + direction }).eq("id", a.id),
+        supabase.from("custom_field_definitions").update({ position: index }).eq("id", b.id),
+      ]);
+      if (resA.error) throw resA.error;
+      if (resB.error) throw resB.error;
+      void refresh();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to reorder custom fields");
+    }
+  };
+
+  const handleDeleteConfirmed = async () => {
+    if (!fieldToDelete) return;
+    try {
+      const { error } = await supabase.from("custom_field_definitions").delete().eq("id", fieldToDelete.id);
+      if (error) throw error;
+      toast.success("Custom field deleted");
+      void refresh();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to delete custom field");
+    } finally {
+      setFieldToDelete(null);
+    }
+  };
+
+  if (!profile) return null;
+
+  if (!isAdmin) {
+    return <div className="text-center py-12 text-muted-foreground">Only admins can manage custom fields.</div>;
+  }
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-gradient-primary rounded-2xl">
+              <ListPlus className="h-8 w-8 text-primary-foreground" />
+            </div>
+            <div>
+              <CardTitle>Custom Fields</CardTitle>
+              <div className="text-sm text-muted-foreground">Extra details your company records on every customer contact</div>
+            </div>
+          </div>
+          <Button onClick={openCreate}>
+            <Plus className="mr-2 h-4 w-4" /> New Field
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full table-auto">
+              <thead>
+                <tr className="text-left text-sm text-muted-foreground">
+                  <th className="py-2">Label</th>
+                  <th className="py-2">Key</th>
+                  <th className="py-2">Type</th>
+                  <th className="py-2">Options</th>
+                  <th className="py-2">Required</th>
+                  <th className="py-2 text-right w-40">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fields.map((f, i) => (
+                  <tr key={f.id} className="border-t">
+                    <td className="py-2">{f.label}</td>
+                    <td className="py-2 font-mono text-sm">{f.key}</td>
+                    <td className="py-2">{CUSTOM_FIELD_TYPES.find((t) => t.value === f.field_type)?.label ?? f.field_type}</td>
+                    <td className="py-2 text-sm">{f.options.length > 0 ? f.options.join(", ") : <span className="text-muted-foreground">—</span>}</td>
+                    <td className="py-2">{f.is_required ? "Yes" : "No"}</td>
+                    <td className="py-2 text-right">
+                      <div className="inline-flex items-center justify-end gap-1">
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" disabled={i === 0} onClick={() => void move(i, -1)} aria-label={`Move ${f.label} up`}>
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" disabled={i === fields.length - 1} onClick={() => void move(i, 1)} aria-label={`Move ${f.label} down`}>
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => openEdit(f)} aria-label={`Edit ${f.label}`}>
+                          <Edit2 className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setFieldToDelete(f)} aria-label={`Delete ${f.label}`}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+                {fields.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="py-8 text-center text-muted-foreground">No custom fields defined</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md w-full">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Custom Field" : "New Custom Field"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="cf-label">Label</Label>
+              <Input id="cf-label" value={form.label} onChange={(e) => setForm({ ...form, label: e.target.value })} />
+              {!editing && form.label.trim() && <div className="text-xs text-muted-foreground">Key: {customFieldKey(form.label)}</div>}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="cf-type">Type</Label>
+              <select
+                id="cf-type"
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                value={form.field_type}
+                disabled={Boolean(editing)}
+                onChange={(e) => setForm({ ...form, field_type: e.target.value as CustomFieldType })}
+              >
+                {CUSTOM_FIELD_TYPES.map((t) => (
+                  <option key={t.value} value={t.value}>{t.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {form.field_type === "select" && (
+              <div className="space-y-2">
+                <Label htmlFor="cf-options">Options</Label>
+                <Input id="cf-options" placeholder="e.g. Indiranagar, Koramangala, Whitefield" value={form.options} onChange={(e) => setForm({ ...form, options: e.target.value })} />
+                <div className="text-xs text-muted-foreground">Separate options with commas</div>
+              </div>
+            )}
+
+            {form.field_type !== "boolean" && (
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={form.is_required} onChange={(e) => setForm({ ...form, is_required: e.target.checked })} />
+                Required
+              </label>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setOpen(false)} disabled={saving}>Cancel</Button>
+              <Button type="submit" disabled={saving}>{saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={Boolean(fieldToDelete)}
+        onOpenChange={(open) => !open && setFieldToDelete(null)}
+        title="Delete custom field"
+        description={`"${fieldToDelete?.label ?? ""}" will no longer appear on customer contacts. Values already saved are kept but hidden.`}
+        confirmLabel="Delete"
+        onConfirm={handleDeleteConfirmed}
+      />
+    </Card>
+  );
+};
+
+export default CustomFieldsManager;
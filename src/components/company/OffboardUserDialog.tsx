@@ -0,0 +1,209 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { CompanyUser } from "@/hooks/useCompanyUsers";
+import { toast } from "sonner";
+
+type Props = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  user: CompanyUser | null;
+  // active users other than the one leaving
+  recipients: CompanyUser[];
+  onDone: () => void;
+};
+
+type Holdings = {
+  contacts: Array<{ id: string; name: string }>;
+  contactCount: number;
+  taskCount: number;
+  voucherCount: number;
+  accountCount: number;
+};
+
+const LISTED_CONTACTS = 10;
+
+const plural = (n: number, one: string, many: string) => `${n} ${n === 1 ? one : many}`;
+
+const OffboardUserDialog = ({ open, onOpenChange, user, recipients, onDone }: Props) => {
+  const { profile } = useAuth();
+  const [holdings, setHoldings] = useState<Holdings | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [mode, setMode] = useState<"one" | "spread">("one");
+  const [toUserId, setToUserId] = useState("");
+  const [spreadIds, setSpreadIds] = useState<string[]>([]);
+  const [deactivate, setDeactivate] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || !user || !profile) return;
+    setMode("one");
+    setToUserId("");
+    setSpreadIds([]);
+    setDeactivate(!user.deactivated_at);
+    setHoldings(null);
+    setLoading(true);
+    void (async () => {
+      try {
+        // the same rule offboard_user uses: assigned to them, or unassigned and created by them
+        const [contactsRes, tasksRes, vouchersRes, accountsRes] = await Promise.all([
+          supabase
+            .from("contacts")
+            .select("id, name", { count: "exact" })
+            .eq("company_id", profile.company_id)
+            .or(`assigned_user_id.eq.${user.id},and(assigned_user_id.is.null,created_by.eq.${user.id})`)
+            .order("name", { ascending: true })
+            .limit(LISTED_CONTACTS),
+          supabase.from("tasks").select("id", { count: "exact", head: true }).eq("company_id", profile.company_id).eq("assigned_to", user.id).eq("status", "open"),
+          supabase.from("vouchers").select("id", { count: "exact", head: true }).eq("company_id", profile.company_id).eq("issued_by", user.id).eq("status", "active"),
+          supabase.from("accounts").select("id", { count: "exact", head: true }).eq("company_id", profile.company_id).eq("assigned_user_id", user.id),
+        ]);
+        if (contactsRes.error) throw contactsRes.error;
+        if (tasksRes.error) throw tasksRes.error;
+        if (vouchersRes.error) throw vouchersRes.error;
+        if (accountsRes.error) throw accountsRes.error;
+        setHoldings({
+          contacts: contactsRes.data ?? [],
+          contactCount: contactsRes.count ?? 0,
+          taskCount: tasksRes.count ?? 0,
+          voucherCount: vouchersRes.count ?? 0,
+          accountCount: accountsRes.count ?? 0,
+        });
+      } catch (err) {
+        console.error(err);
+        toast.error("Failed to load what this user owns");
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [open, user, profile]);
+
+  const targets = mode === "one" ? (toUserId ? [toUserId] : []) : recipients.map((u) => u.id).filter((id) => spreadIds.includes(id));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || targets.length === 0) return;
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc("offboard_user", { _user_id: user.id, _to_user_ids: targets, _deactivate: deactivate });
+      if (error) throw error;
+      const moved = data as { contacts: number; tasks: number; vouchers: number; accounts: number };
+      toast.success(
+        `Transferred ${plural(moved.contacts, "customer contact", "customer contacts")}, ${plural(moved.accounts, "account", "accounts")}, ${plural(moved.tasks, "open task", "open tasks")} and ${plural(moved.vouchers, "voucher", "vouchers")}`,
+      );
+      onOpenChange(false);
+      onDone();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to offboard user");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const name = user ? user.full_name || user.email : "";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg w-full">
+        <DialogHeader>
+          <DialogTitle>Offboard {name}</DialogTitle>
+          <DialogDescription>Hand everything {name} owns to other users. Each customer contact's history records the transfer.</DialogDescription>
+        </DialogHeader>
+
+        {loading || !holdings ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="rounded-md border p-3 text-sm space-y-2">
+              <div className="grid grid-cols-4 gap-2 text-center">
+                <div>
+                  <div className="text-2xl font-semibold">{holdings.contactCount}</div>
+                  <div className="text-muted-foreground">Customer contacts</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-semibold">{holdings.accountCount}</div>
+                  <div className="text-muted-foreground">Accounts</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-semibold">{holdings.taskCount}</div>
+                  <div className="text-muted-foreground">Open tasks</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-semibold">{holdings.voucherCount}</div>
+                  <div className="text-muted-foreground">Issued vouchers</div>
+                </div>
+              </div>
+              {holdings.contacts.length > 0 && (
+                <div className="text-muted-foreground">
+                  {holdings.contacts.map((c) => c.name).join(", ")}
+                  {holdings.contactCount > holdings.contacts.length && ` and ${holdings.contactCount - holdings.contacts.length} more`}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Transfer to</Label>
+              <label className="flex items-center gap-2 text-sm">
+                <input type="radio" name="offboard-mode" checked={mode === "one"} onChange={() => setMode("one")} />
+                One user
+              </label>
+              {mode === "one" && (
+                <select
+                  aria-label="Transfer to user"
+                  className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  value={toUserId}
+                  onChange={(e) => setToUserId(e.target.value)}
+                >
+                  <option value="">Select a user</option>
+                  {recipients.map((u) => (
+                    <option key={u.id} value={u.id}>{u.full_name || u.email}</option>
+                  ))}
+                </select>
+              )}
+              <label className="flex items-center gap-2 text-sm">
+                <input type="radio" name="offboard-mode" checked={mode === "spread"} onChange={() => setMode("spread")} />
+                Spread across several users in turn
+              </label>
+              {mode === "spread" && (
+                <div className="max-h-48 space-y-1 overflow-y-auto rounded-md border p-2">
+                  {recipients.map((u) => (
+                    <label key={u.id} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={spreadIds.includes(u.id)}
+                        onChange={(e) => setSpreadIds((prev) => (e.target.checked ? [...prev, u.id] : prev.filter((id) => id !== u.id)))}
+                      />
+                      {u.full_name || u.email}
+                    </label>
+                  ))}
+                </div>
+              )}
+              {recipients.length === 0 && <div className="text-xs text-muted-foreground">There is no other active user to transfer to.</div>}
+            </div>
+
+            {!user?.deactivated_at && (
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={deactivate} onChange={(e) => setDeactivate(e.target.checked)} />
+                Deactivate {name} so they can no longer sign in to company data
+              </label>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button type="submit" disabled={saving || targets.length === 0}>{saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Transfer"}</Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OffboardUserDialog;
@@ -0,0 +1,65 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { INDIAN_STATES, isIndia, type AddressForm } from "@/lib/address";
+import { lookupPincode } from "@/lib/pincodes";
+
+type Props = {
+  value: AddressForm;
+  onChange: (value: AddressForm) => void;
+  error?: string | null;
+};
+
+const AddressInputs = ({ value, onChange, error }: Props) => {
+  const india = isIndia(value.country);
+
+  const setPincode = (pincode: string) => {
+    const info = india ? lookupPincode(pincode) : null;
+    // a recognised PIN decides the state; the city only fills an empty field
+    onChange(info ? { ...value, pincode, state: info.state, city: value.city || info.city || "" } : { ...value, pincode });
+  };
+
+  return (
+    <fieldset className="space-y-2">
+      <legend className="text-sm font-medium leading-none mb-2">Address</legend>
+      <Input aria-label="Address line 1" placeholder="House / flat, street" value={value.address_line1} onChange={(e) => onChange({ ...value, address_line1: e.target.value })} />
+      <Input aria-label="Address line 2" placeholder="Area, landmark" value={value.address_line2} onChange={(e) => onChange({ ...value, address_line2: e.target.value })} />
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="pincode" className="text-xs text-muted-foreground">{india ? "PIN code" : "Postal code"}</Label>
+          <Input id="pincode" inputMode={india ? "numeric" : undefined} maxLength={india ? 7 : undefined} value={value.pincode} onChange={(e) => setPincode(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="city" className="text-xs text-muted-foreground">City</Label>
+          <Input id="city" value={value.city} onChange={(e) => onChange({ ...value, city: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="state" className="text-xs text-muted-foreground">State</Label>
+          {india ? (
+            <select
+              id="state"
+              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm h-10"
+              value={value.state}
+              onChange={(e) => onChange({ ...value, state: e.target.value })}
+            >
+              <option value="">—</option>
+              {/* keep a migrated value that is not in the list selectable */}
+              {value.state && !INDIAN_STATES.includes(value.state) && <option value={value.state}>{value.state}</option>}
+              {INDIAN_STATES.map((s) => (
+                <option key={s} value={s}>{s}</option>
+              ))}
+            </select>
+          ) : (
+            <Input id="state" value={value.state} onChange={(e) => onChange({ ...value, state: e.target.value })} />
+          )}
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="country" className="text-xs text-muted-foreground">Country</Label>
+          <Input id="country" value={value.country} onChange={(e) => onChange({ ...value, country: e.target.value })} />
+        </div>
+      </div>
+      {error && <div className="text-xs text-destructive">{error}</div>}
+    </fieldset>
+  );
+};
+
+export default AddressInputs;
@@ -0,0 +1,56 @@
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import type { BulkResult } from "@/lib/bulk";
+
+type Props = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  results: BulkResult<{ id: string; name: string }>[];
+};
+
+const BulkResultDialog = ({ open, onOpenChange, title, results }: Props) => {
+  const failed = results.filter((r) => !r.ok);
+  const succeeded = results.length - failed.length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg w-full">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3 text-sm">
+          <div>
+            {succeeded} of {results.length} customer contacts succeeded
+            {failed.length > 0 && <span className="text-destructive">, {failed.length} failed</span>}.
+          </div>
+          {failed.length > 0 && (
+            <div className="max-h-72 overflow-y-auto rounded-md border">
+              <table className="w-full table-auto">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="px-3 py-2">Customer Contact</th>
+                    <th className="px-3 py-2">Error</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {failed.map((r) => (
+                    <tr key={r.item.id} className="border-t">
+                      <td className="px-3 py-2">{r.item.name}</td>
+                      <td className="px-3 py-2 text-destructive">{r.error}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BulkResultDialog;
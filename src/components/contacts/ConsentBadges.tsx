@@ -0,0 +1,35 @@
+import { cn } from "@/lib/utils";
+import { CONSENT_CHANNELS, type ConsentState } from "@/lib/consents";
+
+type Props = {
+  state?: ConsentState;
+  // also show channels that were never asked, e.g. on the profile page
+  showUnknown?: boolean;
+  className?: string;
+};
+
+const STATUS_CLASSES = {
+  granted: "bg-green-100 text-green-800 border-green-200",
+  withdrawn: "bg-red-50 text-red-700 border-red-200 line-through",
+  unknown: "bg-muted text-muted-foreground border-transparent",
+};
+
+const ConsentBadges = ({ state = {}, showUnknown = false, className }: Props) => {
+  const channels = CONSENT_CHANNELS.filter((c) => showUnknown || state[c.value]);
+  if (channels.length === 0) return null;
+  return (
+    <span className={cn("inline-flex flex-wrap gap-1", className)}>
+      {channels.map((c) => {
+        const status = state[c.value] ?? "unknown";
+        const title = status === "granted" ? "Opted in" : status === "withdrawn" ? "Opted out" : "Not asked";
+        return (
+          <span key={c.value} title={`${c.label}: ${title}`} className={cn("rounded-full border px-2 py-0.5 text-xs font-medium", STATUS_CLASSES[status])}>
+            {c.label}
+          </span>
+        );
+      })}
+    </span>
+  );
+};
+
+export default ConsentBadges;
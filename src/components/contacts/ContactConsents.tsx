@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  CONSENT_CHANNELS,
+  CONSENT_SOURCES,
+  consentChannelLabel,
+  consentSourceLabel,
+  type ConsentChannel,
+  type ConsentState,
+  type ConsentStatus,
+  type ContactConsent,
+} from "@/lib/consents";
+import ConsentBadges from "./ConsentBadges";
+import { toast } from "sonner";
+
+type Props = {
+  contactId: string;
+  canEdit: boolean;
+  // lets the profile page refresh what it knows about consent (e.g. for issuing vouchers)
+  onChange?: () => void;
+};
+
+type FormState = { channel: ConsentChannel; status: ConsentStatus; source: string; note: string };
+
+const newForm = (): FormState => ({ channel: "whatsapp", status: "granted", source: "in_store", note: "" });
+
+const SELECT_CLASS = "w-full rounded-md border border-input bg-background px-3 py-2 text-sm h-10";
+
+const ContactConsents = ({ contactId, canEdit, onChange }: Props) => {
+  const { user, profile } = useAuth();
+  const [history, setHistory] = useState<ContactConsent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<FormState>(newForm);
+  const [saving, setSaving] = useState(false);
+
+  const fetchHistory = useCallback(async () => {
+    if (!profile) return;
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("contact_consents")
+        .select("*, captor:profiles!contact_consents_captured_by_fkey(full_name)")
+        .eq("contact_id", contactId)
+        .eq("company_id", profile.company_id)
+        .order("captured_at", { ascending: false })
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      setHistory((data as unknown as ContactConsent[]) || []);
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to load consent history");
+    } finally {
+      setLoading(false);
+    }
+  }, [contactId, profile]);
+
+  useEffect(() => {
+    void fetchHistory();
+  }, [fetchHistory]);
+
+  // history is newest first, so the first row seen per channel is its current status
+  const current = history.reduce<ConsentState>((acc, row) => (acc[row.channel] ? acc : { ...acc, [row.channel]: row.status }), {});
+
+  const handleRecord = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !profile) return;
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("contact_consents").insert({
+        company_id: profile.company_id,
+        contact_id: contactId,
+        channel: form.channel,
+        status: form.status,
+        source: form.source,
+        note: form.note.trim() || null,
+        captured_by: user.id,
+      });
+      if (error) throw error;
+      toast.success(`${consentChannelLabel(form.channel)} consent ${form.status === "granted" ? "recorded" : "withdrawn"}`);
+      setForm(newForm());
+      await fetchHistory();
+      onChange?.();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to record consent");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-md mt-4">
+      <CardHeader>
+        <CardTitle>Marketing Consent</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ConsentBadges state={current} showUnknown />
+
+        {canEdit && (
+          <form onSubmit={handleRecord} className="grid gap-3 rounded-md border p-3">
+            <div className="grid gap-3 sm:grid-cols-3">
+              <select aria-label="Channel" className={SELECT_CLASS} value={form.channel} onChange={(e) => setForm({ ...form, channel: e.target.value as ConsentChannel })}>
+                {CONSENT_CHANNELS.map((c) => (
+                  <option key={c.value} value={c.value}>{c.label}</option>
+                ))}
+              </select>
+              <select aria-label="Status" className={SELECT_CLASS} value={form.status} onChange={(e) => setForm({ ...form, status: e.target.value as ConsentStatus })}>
+                <option value="granted">Opted in</option>
+                <option value="withdrawn">Opted out</option>
+              </select>
+              <select aria-label="Source" className={SELECT_CLASS} value={form.source} onChange={(e) => setForm({ ...form, source: e.target.value })}>
+                {CONSENT_SOURCES.map((s) => (
+                  <option key={s.value} value={s.value}>{s.label}</option>
+                ))}
+              </select>
+            </div>
+            <Input placeholder="Note (optional), e.g. form reference" value={form.note} onChange={(e) => setForm({ ...form, note: e.target.value })} />
+            <div>
+              <Button type="submit" disabled={saving}>{saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Record consent"}</Button>
+            </div>
+          </form>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : history.length === 0 ? (
+          <div className="py-4 text-center text-sm text-muted-foreground">No consent recorded for this customer contact yet.</div>
+        ) : (
+          <ul className="space-y-2">
+            {history.map((row) => (
+              <li key={row.id} className="rounded-md border p-3 text-sm">
+                <div className="font-medium">
+                  {consentChannelLabel(row.channel)} {row.status === "granted" ? "opted in" : "opted out"}
+                  <span className="font-normal text-muted-foreground"> · {consentSourceLabel(row.source)}</span>
+                </div>
+                {row.note && <div className="mt-1 whitespace-pre-wrap">{row.note}</div>}
+                <div className="mt-1 text-xs text-muted-foreground">
+                  {new Date(row.captured_at).toLocaleString()}
+                  {row.captor?.full_name && ` by ${row.captor.full_name}`}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ContactConsents;
@@ -3,21 +3,36 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Loader2, Trash2 } from "lucide-react";
+import { AlertTriangle, Loader2, Trash2 } from "lucide-react";
 import ConfirmDialog from "@/components/ui/confirm-dialog";
 import { supabase } from "@/integrations/supabase/client";
-import type { Database } from "@/integrations/supabase/types";
+import type { Database, Json } from "@/integrations/supabase/types";
 import { useAuth } from "@/hooks/useAuth";
 import { toast } from "sonner";
+import { isValidEmail } from "@/lib/utils";
+import { duplicateCandidateFilter, findDuplicates, type DuplicateMatch } from "@/lib/duplicates";
+import { asCustomFieldValues, validateCustomFields, type CustomFieldValues } from "@/lib/customFields";
+import { addressFromForm, addressToForm, emptyAddressForm, validateAddress, type AddressFields } from "@/lib/address";
+import { formatPhone, toE164 } from "@/lib/phone";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { useCompanyCountry } from "@/hooks/useCompanyCountry";
+import { useCompanyTags } from "@/hooks/useCompanyTags";
+import { useAccounts } from "@/hooks/useAccounts";
+import { nextAssignees } from "@/hooks/useAssignmentRules";
+import TagChip from "@/components/tags/TagChip";
+import TagPicker from "@/components/tags/TagPicker";
+import CustomFieldInputs from "./CustomFieldInputs";
+import AddressInputs from "./AddressInputs";
 
-interface Contact {
+interface Contact extends Partial<AddressFields> {
   id: string;
   name: string;
   email: string | null;
   phone: string | null;
-  address: string | null;
   assigned_user_id?: string | null;
   created_by?: string | null;
+  account_id?: string | null;
+  custom_fields?: Json;
 }
 
 interface ContactDialogProps {
@@ -31,33 +46,59 @@ const ContactDialog = ({ open, onClose, contact }: ContactDialogProps) => {
   const [loading, setLoading] = useState(false);
   const [companyUsers, setCompanyUsers] = useState<Array<{ id: string; full_name: string | null }>>([]);
   const [assignedUserId, setAssignedUserId] = useState<string | null>(null);
+  // new contacts go through the company's assignment rules unless an admin picks someone
+  const [autoAssign, setAutoAssign] = useState(true);
+  // tags picked while creating, so tag-based assignment rules can match
+  const [newTagIds, setNewTagIds] = useState<string[]>([]);
+  const { tags, createTag } = useCompanyTags();
+  const { accounts } = useAccounts();
+  const [accountId, setAccountId] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     name: "",
     email: "",
     phone: "",
-    address: "",
   });
+  const [address, setAddress] = useState(emptyAddressForm);
+  const [addressError, setAddressError] = useState<string | null>(null);
   const [confirmOpen, setConfirmOpen] = useState(false);
+  // likely duplicates found on create; a second submit means "create anyway"
+  const [duplicateMatches, setDuplicateMatches] = useState<DuplicateMatch[]>([]);
+  const { fields: customFields } = useCustomFields();
+  const { country } = useCompanyCountry();
+  const [customValues, setCustomValues] = useState<CustomFieldValues>({});
+  const [customErrors, setCustomErrors] = useState<Record<string, string>>({});
 
   useEffect(() => {
     if (contact) {
       setFormData({
         name: contact.name,
         email: contact.email || "",
-        phone: contact.phone || "",
-        address: contact.address || "",
+        phone: formatPhone(contact.phone, country),
       });
+      setAddress(addressToForm(contact));
       setAssignedUserId(contact.assigned_user_id || null);
+      setAccountId(contact.account_id ?? null);
+      setCustomValues(asCustomFieldValues(contact.custom_fields));
     } else {
       setFormData({
         name: "",
         email: "",
         phone: "",
-        address: "",
       });
+      setAddress(emptyAddressForm());
       setAssignedUserId(user?.id ?? null);
+      setAccountId(null);
+      setCustomValues({});
     }
-  }, [contact, open, user?.id]);
+    setAutoAssign(true);
+    setNewTagIds([]);
+    setCustomErrors({});
+    setAddressError(null);
+  }, [contact, open, user?.id, country]);
+
+  useEffect(() => {
+    setDuplicateMatches([]);
+  }, [formData.name, formData.email, formData.phone, open]);
 
   useEffect(() => {
     // fetch company users for admin assignment
@@ -67,6 +108,7 @@ const ContactDialog = ({ open, onClose, contact }: ContactDialogProps) => {
         .from("profiles")
         .select("id, full_name")
         .eq("company_id", profile.company_id)
+        .is("deactivated_at", null)
         .order("full_name", { ascending: true });
 
       if (error) {
@@ -87,19 +129,59 @@ const ContactDialog = ({ open, onClose, contact }: ContactDialogProps) => {
       toast.error("Name is required");
       return;
     }
-    if (formData.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
+    if (formData.email && !isValidEmail(formData.email)) {
       toast.error("Enter a valid email address");
       return;
     }
+    const phone = formData.phone.trim() ? toE164(formData.phone, country) : null;
+    if (formData.phone.trim() && !phone) {
+      toast.error("Enter a valid phone number");
+      return;
+    }
+    const addressFields = addressFromForm(address);
+    const addressProblem = validateAddress(addressFields);
+    setAddressError(addressProblem);
+    if (addressProblem) {
+      toast.error(addressProblem);
+      return;
+    }
+    const fieldErrors = validateCustomFields(customFields, customValues);
+    setCustomErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) {
+      toast.error(Object.values(fieldErrors)[0]);
+      return;
+    }
+    // keep values of fields that were deleted since, so re-adding a field brings them back
+    const customFieldsPayload = { ...asCustomFieldValues(contact?.custom_fields), ...customValues } as Json;
     setLoading(true);
 
     try {
+      // only contacts sharing the email, phone or a name prefix can match, so fetch just those
+      const candidateFilter = duplicateCandidateFilter(formData);
+      if (!contact && duplicateMatches.length === 0 && candidateFilter) {
+        const { data: existing, error: existingErr } = await supabase
+          .from("contacts")
+          .select("id, name, email, phone")
+          .eq("company_id", profile.company_id)
+          .is("deleted_at", null)
+          .or(candidateFilter);
+        if (existingErr) throw existingErr;
+
+        const matches = findDuplicates(formData, existing ?? []);
+        if (matches.length > 0) {
+          setDuplicateMatches(matches);
+          return;
+        }
+      }
+
       if (contact) {
         const updatePayload: Partial<Database["public"]["Tables"]["contacts"]["Update"]> = {
           name: formData.name,
           email: formData.email || null,
-          phone: formData.phone || null,
-          address: formData.address || null,
+          phone,
+          ...addressFields,
+          custom_fields: customFieldsPayload,
+          account_id: accountId,
         };
 
         // only admins can change assignment
@@ -115,21 +197,45 @@ const ContactDialog = ({ open, onClose, contact }: ContactDialogProps) => {
         if (error) throw error;
   toast.success("Customer contact updated successfully");
       } else {
+        // admins can assign to any company user; otherwise a matching assignment rule
+        // decides, and without one (or when the rules cannot be read) the creator keeps the contact
+        let assignee = isAdmin && !autoAssign ? assignedUserId ?? user.id : user.id;
+        if (!isAdmin || autoAssign) {
+          try {
+            const [picked] = await nextAssignees([{ city: addressFields.city, state: addressFields.state, tag_ids: newTagIds }]);
+            if (picked?.userId) assignee = picked.userId;
+          } catch (err) {
+            console.error(err);
+          }
+        }
+
         const toInsert: Database["public"]["Tables"]["contacts"]["Insert"] = {
           company_id: profile.company_id,
           created_by: user.id,
-          // admins can assign to any company user; regular users only assign to themselves
-          assigned_user_id: isAdmin ? assignedUserId ?? user.id : user.id,
+          assigned_user_id: assignee,
           name: formData.name,
           email: formData.email || null,
-          phone: formData.phone || null,
-          address: formData.address || null,
+          phone,
+          ...addressFields,
+          custom_fields: customFieldsPayload,
+          account_id: accountId,
         };
 
-        const { error } = await supabase.from("contacts").insert(toInsert);
+        const { data: created, error } = await supabase.from("contacts").insert(toInsert).select("id").single();
 
         if (error) throw error;
-  toast.success("Customer contact created successfully");
+        if (newTagIds.length > 0) {
+          const { error: tagError } = await supabase
+            .from("contact_tags")
+            .insert(newTagIds.map((tagId) => ({ contact_id: created.id, tag_id: tagId, company_id: profile.company_id, created_by: user.id })));
+          if (tagError) throw tagError;
+        }
+        if (assignee !== user.id) {
+          const assigneeName = companyUsers.find((u) => u.id === assignee)?.full_name;
+          toast.success(`Customer contact created and assigned to ${assigneeName || "a teammate"}`);
+        } else {
+          toast.success("Customer contact created successfully");
+        }
       }
 
       onClose(true);
@@ -154,9 +260,10 @@ const ContactDialog = ({ open, onClose, contact }: ContactDialogProps) => {
     if (!contact) return;
     setLoading(true);
     try {
-      const { error } = await supabase.from("contacts").delete().eq("id", contact.id);
+      const { data: trashed, error } = await supabase.rpc("trash_records", { _kind: "contact", _ids: [contact.id] });
       if (error) throw error;
-      toast.success("Customer contact deleted successfully");
+      if (!trashed) throw new Error("You don't have permission to delete this customer contact");
+      toast.success("Customer contact moved to trash");
       onClose(true);
     } catch (err: unknown) {
       if (err instanceof Error) toast.error(err.message);
@@ -168,7 +275,7 @@ const ContactDialog = ({ open, onClose, contact }: ContactDialogProps) => {
 
   return (
     <Dialog open={open} onOpenChange={() => onClose()}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{contact ? "Edit Customer Contact" : "Add New Customer Contact"}</DialogTitle>
           <DialogDescription>
@@ -204,27 +311,65 @@ const ContactDialog = ({ open, onClose, contact }: ContactDialogProps) => {
               type="tel"
               value={formData.phone}
               onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+              onBlur={() => {
+                const e164 = toE164(formData.phone, country);
+                if (e164) setFormData({ ...formData, phone: formatPhone(e164, country) });
+              }}
             />
           </div>
 
+          <AddressInputs value={address} onChange={setAddress} error={addressError} />
+
+          <CustomFieldInputs fields={customFields} values={customValues} onChange={setCustomValues} errors={customErrors} />
+
           <div className="space-y-2">
-            <Label htmlFor="address">Address</Label>
-            <Input
-              id="address"
-              value={formData.address}
-              onChange={(e) => setFormData({ ...formData, address: e.target.value })}
-            />
+            <Label htmlFor="account">Account</Label>
+            <select
+              id="account"
+              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              value={accountId ?? ""}
+              onChange={(e) => setAccountId(e.target.value || null)}
+            >
+              <option value="">No account</option>
+              {accounts.map((a) => (
+                <option key={a.id} value={a.id}>{a.name}</option>
+              ))}
+            </select>
           </div>
 
+          {!contact && (
+            <div className="space-y-2">
+              <Label>Tags</Label>
+              <div className="flex flex-wrap items-center gap-1">
+                {tags
+                  .filter((t) => newTagIds.includes(t.id))
+                  .map((t) => (
+                    <TagChip key={t.id} tag={t} onRemove={() => setNewTagIds((prev) => prev.filter((id) => id !== t.id))} />
+                  ))}
+                <TagPicker
+                  label="Add tags"
+                  tags={tags}
+                  selectedIds={newTagIds}
+                  onToggle={(tag, selected) => setNewTagIds((prev) => (selected ? [...prev, tag.id] : prev.filter((id) => id !== tag.id)))}
+                  onCreate={createTag}
+                />
+              </div>
+            </div>
+          )}
+
           {isAdmin && (
             <div className="space-y-2">
               <Label htmlFor="assigned">Assigned User</Label>
               <select
                 id="assigned"
                 className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
-                value={assignedUserId ?? ""}
-                onChange={(e) => setAssignedUserId(e.target.value || null)}
+                value={!contact && autoAssign ? "auto" : assignedUserId ?? ""}
+                onChange={(e) => {
+                  setAutoAssign(e.target.value === "auto");
+                  setAssignedUserId(e.target.value === "auto" ? null : e.target.value || null);
+                }}
               >
+                {!contact && <option value="auto">Automatic (assignment rules)</option>}
                 <option value="">Unassigned</option>
                 {companyUsers.map((u) => (
                   <option key={u.id} value={u.id}>
@@ -235,6 +380,29 @@ const ContactDialog = ({ open, onClose, contact }: ContactDialogProps) => {
             </div>
           )}
 
+          {duplicateMatches.length > 0 && (
+            <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+              <div className="flex items-center gap-2 font-medium">
+                <AlertTriangle className="h-4 w-4" />
+                This customer may already exist
+              </div>
+              <ul className="mt-2 space-y-1">
+                {duplicateMatches.slice(0, 5).map((m) => (
+                  <li key={m.contact.id}>
+                    <a href={`/contacts/${m.contact.id}`} target="_blank" rel="noreferrer" className="font-medium underline">
+                      {m.contact.name}
+                    </a>
+                    {[m.contact.email, m.contact.phone].filter(Boolean).length > 0 && (
+                      <span> · {[m.contact.email, formatPhone(m.contact.phone, country)].filter(Boolean).join(" · ")}</span>
+                    )}
+                    <span className="text-amber-700"> ({m.reasons.join(", ")})</span>
+                  </li>
+                ))}
+              </ul>
+              <div className="mt-2 text-xs">Check the existing record first. Submit again to create this customer contact anyway.</div>
+            </div>
+          )}
+
           <DialogFooter className="gap-2 sm:gap-0">
             {contact && (isAdmin || contact.created_by === user?.id || contact.assigned_user_id === user?.id) && (
               <Button
@@ -253,7 +421,7 @@ const ContactDialog = ({ open, onClose, contact }: ContactDialogProps) => {
             </Button>
             <Button type="submit" disabled={loading}>
               {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              {contact ? "Update" : "Create"}
+              {contact ? "Update" : duplicateMatches.length > 0 ? "Create anyway" : "Create"}
             </Button>
           </DialogFooter>
         </form>
@@ -261,7 +429,7 @@ const ContactDialog = ({ open, onClose, contact }: ContactDialogProps) => {
           open={confirmOpen}
           onOpenChange={(open) => setConfirmOpen(open)}
           title="Delete customer contact"
-          description="Are you sure you want to delete this customer contact? This action cannot be undone."
+          description="Are you sure you want to delete this customer contact? An admin can restore it from the trash."
           confirmLabel="Delete"
           onConfirm={handleDeleteConfirmed}
         />
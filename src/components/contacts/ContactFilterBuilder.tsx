@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, X } from "lucide-react";
+import {
+  DAY_COUNT_OPS,
+  EMPTY_FILTER,
+  FILTER_OP_LABELS,
+  encodeContactFilter,
+  newCondition,
+  type ContactFilter,
+  type FilterCondition,
+  type FilterFieldDef,
+  type FilterOp,
+} from "@/lib/contactFilters";
+
+type Props = {
+  fields: FilterFieldDef[];
+  // the filter currently applied to the list; edits stay local until applied
+  value: ContactFilter;
+  onApply: (filter: ContactFilter) => void;
+};
+
+const SELECT_CLASS = "rounded-md border border-input bg-background px-3 py-2 text-sm h-9";
+
+const ContactFilterBuilder = ({ fields, value, onApply }: Props) => {
+  const [draft, setDraft] = useState<ContactFilter>(value);
+  const appliedKey = encodeContactFilter(value);
+  const [syncedKey, setSyncedKey] = useState(appliedKey);
+
+  // picking a saved view or following a link replaces whatever was being edited
+  if (syncedKey !== appliedKey) {
+    setSyncedKey(appliedKey);
+    setDraft(value);
+  }
+
+  const updateCondition = (index: number, next: FilterCondition) =>
+    setDraft((prev) => ({ ...prev, conditions: prev.conditions.map((c, i) => (i === index ? next : c)) }));
+
+  const removeCondition = (index: number) => setDraft((prev) => ({ ...prev, conditions: prev.conditions.filter((_, i) => i !== index) }));
+
+  const addCondition = () => {
+    if (fields.length === 0) return;
+    setDraft((prev) => ({ ...prev, conditions: [...prev.conditions, newCondition(fields[0])] }));
+  };
+
+  const changeField = (index: number, key: string) => {
+    const def = fields.find((f) => f.key === key);
+    if (def) updateCondition(index, newCondition(def));
+  };
+
+  const changeOp = (index: number, condition: FilterCondition, op: FilterOp) => {
+    // a day count and a date don't convert into each other
+    const sameInput = DAY_COUNT_OPS.includes(op) === DAY_COUNT_OPS.includes(condition.op);
+    updateCondition(index, sameInput ? { ...condition, op } : { field: condition.field, op, value: "" });
+  };
+
+  const clear = () => {
+    setDraft(EMPTY_FILTER);
+    onApply(EMPTY_FILTER);
+  };
+
+  const renderValue = (def: FilterFieldDef, condition: FilterCondition, index: number) => {
+    const { op } = condition;
+    if (op === "is_empty" || op === "is_not_empty") return null;
+    const set = (patch: Partial<FilterCondition>) => updateCondition(index, { ...condition, ...patch });
+
+    if (def.options && (op === "is" || op === "is_not")) {
+      return (
+        <select aria-label={`${def.label} value`} className={SELECT_CLASS} value={condition.value ?? ""} onChange={(e) => set({ value: e.target.value })}>
+          {def.kind !== "boolean" && <option value="">Select...</option>}
+          {def.options.map((o) => (
+            <option key={o.value} value={o.value}>{o.label}</option>
+          ))}
+        </select>
+      );
+    }
+
+    if (DAY_COUNT_OPS.includes(op)) {
+      return (
+        <div className="flex items-center gap-2">
+          <Input aria-label="Days" className="h-9 w-24" type="number" min="0" step="1" value={condition.value ?? ""} onChange={(e) => set({ value: e.target.value })} />
+          <span className="text-sm text-muted-foreground">days</span>
+        </div>
+      );
+    }
+
+    const type = def.kind === "number" ? "number" : def.kind === "date" ? "date" : "text";
+    if (op === "between") {
+      return (
+        <div className="flex items-center gap-2">
+          <Input aria-label="From" className="h-9 w-36" type={type} value={condition.value ?? ""} onChange={(e) => set({ value: e.target.value })} />
+          <span className="text-sm text-muted-foreground">and</span>
+          <Input aria-label="To" className="h-9 w-36" type={type} value={condition.value2 ?? ""} onChange={(e) => set({ value2: e.target.value })} />
+        </div>
+      );
+    }
+    return <Input aria-label={`${def.label} value`} className="h-9 w-48" type={type} value={condition.value ?? ""} onChange={(e) => set({ value: e.target.value })} />;
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border bg-muted/30 p-4">
+      <div className="flex items-center gap-2 text-sm">
+        <span>Show customer contacts matching</span>
+        <select aria-label="Match" className={SELECT_CLASS} value={draft.match} onChange={(e) => setDraft({ ...draft, match: e.target.value as ContactFilter["match"] })}>
+          <option value="all">all</option>
+          <option value="any">any</option>
+        </select>
+        <span>of these conditions</span>
+      </div>
+
+      {draft.conditions.map((condition, index) => {
+        const def = fields.find((f) => f.key === condition.field);
+        return (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <select aria-label="Field" className={SELECT_CLASS} value={condition.field} onChange={(e) => changeField(index, e.target.value)}>
+              {!def && <option value={condition.field}>Unknown field</option>}
+              {fields.map((f) => (
+                <option key={f.key} value={f.key}>{f.label}</option>
+              ))}
+            </select>
+            {def && (
+              <select aria-label="Condition" className={SELECT_CLASS} value={condition.op} onChange={(e) => changeOp(index, condition, e.target.value as FilterOp)}>
+                {def.ops.map((op) => (
+                  <option key={op} value={op}>{FILTER_OP_LABELS[op]}</option>
+                ))}
+              </select>
+            )}
+            {def && renderValue(def, condition, index)}
+            <Button type="button" size="sm" variant="ghost" onClick={() => removeCondition(index)} aria-label="Remove condition">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+      {draft.conditions.length === 0 && <div className="text-sm text-muted-foreground">No conditions yet. Every customer contact is shown.</div>}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="button" size="sm" variant="outline" onClick={addCondition}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add condition
+        </Button>
+        <div className="ml-auto flex gap-2">
+          <Button type="button" size="sm" variant="ghost" onClick={clear} disabled={value.conditions.length === 0 && draft.conditions.length === 0}>
+            Clear
+          </Button>
+          <Button type="button" size="sm" onClick={() => onApply(draft)}>Apply filters</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContactFilterBuilder;
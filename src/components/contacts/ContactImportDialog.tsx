@@ -0,0 +1,503 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { parseCsv } from "@/lib/csv";
+import { parseVCards } from "@/lib/vcard";
+import { isValidEmail } from "@/lib/utils";
+import { normalizeEmail, normalizePhone } from "@/lib/duplicates";
+import { toE164 } from "@/lib/phone";
+import { useCompanyCountry } from "@/hooks/useCompanyCountry";
+import { nextAssignees } from "@/hooks/useAssignmentRules";
+import { fillFromPincode, isIndia, matchIndianState, parseAddress, validateAddress } from "@/lib/address";
+import { toast } from "sonner";
+
+type ContactInsert = Database["public"]["Tables"]["contacts"]["Insert"];
+
+type ImportField = "name" | "email" | "phone" | "address" | "city" | "state" | "pincode" | "country" | "assigned_user_id";
+
+const FIELDS: Array<{ key: ImportField; label: string; aliases: string[] }> = [
+  { key: "name", label: "Name *", aliases: ["name", "full name", "customer", "customer name", "contact name"] },
+  { key: "email", label: "Email", aliases: ["email", "e-mail", "email address", "mail"] },
+  { key: "phone", label: "Phone", aliases: ["phone", "mobile", "phone number", "contact number", "mobile number", "tel"] },
+  { key: "address", label: "Address", aliases: ["address", "street address", "location", "address line 1"] },
+  { key: "city", label: "City", aliases: ["city", "town", "district"] },
+  { key: "state", label: "State", aliases: ["state", "province", "region"] },
+  { key: "pincode", label: "PIN Code", aliases: ["pin", "pincode", "pin code", "postal code", "zip", "zip code"] },
+  { key: "country", label: "Country", aliases: ["country"] },
+  { key: "assigned_user_id", label: "Assigned User", aliases: ["assigned user", "assigned to", "assignee", "owner", "assigned_user_id"] },
+];
+
+const emptyMapping = () => Object.fromEntries(FIELDS.map((f) => [f.key, null])) as Record<ImportField, number | null>;
+
+const BATCH_SIZE = 100;
+// PostgREST returns at most 1000 rows per request, so existing contacts are read in pages
+const EXISTING_PAGE = 1000;
+
+type RowStatus = "ready" | "invalid" | "duplicate" | "imported" | "failed";
+
+type PreparedRow = {
+  rowNumber: number;
+  payload: ContactInsert;
+  // no assignee in the file, so the company's assignment rules pick one at import time
+  autoAssign?: boolean;
+  status: RowStatus;
+  message?: string;
+};
+
+type Step = "upload" | "map" | "review" | "done";
+
+type Source = "csv" | "vcf";
+
+// vCards are turned into rows under these headers, which the aliases above map automatically
+const VCARD_HEADERS = ["Name", "Email", "Phone", "Address", "City", "State", "PIN Code", "Country"];
+
+const isVCardFile = (file: File, text: string) => /\.vcf$/i.test(file.name) || /^\uFEFF?BEGIN:VCARD/i.test(text.trimStart());
+
+interface ContactImportDialogProps {
+  open: boolean;
+  onClose: (refresh?: boolean) => void;
+}
+
+const normalizeHeader = (h: string) => h.trim().toLowerCase().replace(/[_\s]+/g, " ");
+
+// pre-select columns whose header matches a known alias
+const guessMapping = (head: string[]) => {
+  const guessed = emptyMapping();
+  head.forEach((h, idx) => {
+    const norm = normalizeHeader(h);
+    const field = FIELDS.find((f) => f.aliases.includes(norm));
+    if (field && guessed[field.key] === null) guessed[field.key] = idx;
+  });
+  return guessed;
+};
+
+const ContactImportDialog = ({ open, onClose }: ContactImportDialogProps) => {
+  const { user, profile, isAdmin } = useAuth();
+  const { country: defaultCountry } = useCompanyCountry();
+  const [step, setStep] = useState<Step>("upload");
+  const [source, setSource] = useState<Source>("csv");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<Record<ImportField, number | null>>(emptyMapping);
+  const [prepared, setPrepared] = useState<PreparedRow[]>([]);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  useEffect(() => {
+    if (!open) {
+      setStep("upload");
+      setSource("csv");
+      setFileName("");
+      setHeaders([]);
+      setDataRows([]);
+      setMapping(emptyMapping());
+      setPrepared([]);
+      setSkipDuplicates(true);
+      setProgress(0);
+    }
+  }, [open]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const text = await file.text();
+      setFileName(file.name);
+
+      // a vCard's fields are already known, so it skips column mapping and goes straight to the dry run
+      if (isVCardFile(file, text)) {
+        const cards = parseVCards(text);
+        if (cards.length === 0) {
+          toast.error("No contact cards found in the vCard file");
+          return;
+        }
+        const rows = cards.map((c) => [
+          c.name,
+          c.email ?? "",
+          c.phone ?? "",
+          c.address ? [c.address.street, c.address.extended].filter(Boolean).join(", ") : "",
+          c.address?.city ?? "",
+          c.address?.region ?? "",
+          c.address?.postalCode ?? "",
+          c.address?.country ?? "",
+        ]);
+        const guessed = guessMapping(VCARD_HEADERS);
+        setSource("vcf");
+        setHeaders(VCARD_HEADERS);
+        setDataRows(rows);
+        setMapping(guessed);
+        await runDryRun(rows, guessed, "vcf");
+        return;
+      }
+
+      const rows = parseCsv(text);
+      if (rows.length < 2) {
+        toast.error("The CSV needs a header row and at least one customer row");
+        return;
+      }
+      const [head, ...rest] = rows;
+      setSource("csv");
+      setHeaders(head);
+      setDataRows(rest);
+
+      const guessed = guessMapping(head);
+      if (!isAdmin) guessed.assigned_user_id = null;
+      setMapping(guessed);
+      setStep("map");
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not read the file");
+    }
+  };
+
+  // dry run: validate every row and flag would-be duplicates without writing anything
+  const runDryRun = async (rowsIn = dataRows, map = mapping, from = source) => {
+    if (!user || !profile) return;
+    const cell = (row: string[], field: ImportField) => {
+      const idx = map[field];
+      if (idx === null || idx === undefined) return "";
+      return (row[idx] ?? "").trim();
+    };
+    if (map.name === null) {
+      toast.error("Map a column to Name before continuing");
+      return;
+    }
+    setWorking(true);
+    try {
+      const profilesRes = await supabase.from("profiles").select("id, full_name, email").eq("company_id", profile.company_id).is("deactivated_at", null);
+      if (profilesRes.error) throw profilesRes.error;
+
+      // keyed to the existing contact's name so the review can say who a row clashes with
+      const existingEmails = new Map<string, string>();
+      const existingPhones = new Map<string, string>();
+      for (let offset = 0; ; offset += EXISTING_PAGE) {
+        const { data, error } = await supabase
+          .from("contacts")
+          .select("id, name, email, phone")
+          .eq("company_id", profile.company_id)
+          .is("deleted_at", null)
+          .order("id", { ascending: true })
+          .range(offset, offset + EXISTING_PAGE - 1);
+        if (error) throw error;
+        (data ?? []).forEach((c) => {
+          if (c.email) existingEmails.set(normalizeEmail(c.email), c.name);
+          if (c.phone) existingPhones.set(normalizePhone(c.phone), c.name);
+        });
+        if (!data || data.length < EXISTING_PAGE) break;
+      }
+
+      // assigned user column may hold a profile id, email or full name
+      const profileLookup = new Map<string, string>();
+      (profilesRes.data ?? []).forEach((p) => {
+        profileLookup.set(p.id.toLowerCase(), p.id);
+        if (p.email) profileLookup.set(p.email.toLowerCase(), p.id);
+        if (p.full_name) profileLookup.set(p.full_name.toLowerCase(), p.id);
+      });
+
+      const seenEmails = new Set<string>();
+      const seenPhones = new Set<string>();
+
+      const rows: PreparedRow[] = rowsIn.map((row, i) => {
+        // CSV: +2 for the header row and 1-based spreadsheet numbering; vCard: the card's position in the file
+        const rowNumber = from === "vcf" ? i + 1 : i + 2;
+        const name = cell(row, "name");
+        const email = cell(row, "email");
+        const phoneRaw = cell(row, "phone");
+        const phone = phoneRaw ? toE164(phoneRaw, defaultCountry) : null;
+        // the address column is split like a typed address; dedicated columns win over its parts
+        const parsed = parseAddress(cell(row, "address"));
+        const country = cell(row, "country") || parsed.country;
+        const stateRaw = cell(row, "state");
+        const address = fillFromPincode({
+          ...parsed,
+          city: cell(row, "city") || parsed.city,
+          state: stateRaw ? (isIndia(country) && matchIndianState(stateRaw)) || stateRaw : parsed.state,
+          pincode: cell(row, "pincode").replace(/\s/g, "") || parsed.pincode,
+          country,
+        });
+        const assignedRaw = isAdmin ? cell(row, "assigned_user_id") : "";
+
+        const payload: ContactInsert = {
+          company_id: profile.company_id,
+          created_by: user.id,
+          assigned_user_id: user.id,
+          name,
+          email: email || null,
+          phone,
+          ...address,
+        };
+
+        if (!name) return { rowNumber, payload, status: "invalid", message: "Name is required" };
+        if (email && !isValidEmail(email)) return { rowNumber, payload, status: "invalid", message: `Invalid email address "${email}"` };
+        if (phoneRaw && !phone) return { rowNumber, payload, status: "invalid", message: `Invalid phone number "${phoneRaw}"` };
+        const addressProblem = validateAddress(address);
+        if (addressProblem) return { rowNumber, payload, status: "invalid", message: addressProblem };
+
+        if (assignedRaw) {
+          const resolved = profileLookup.get(assignedRaw.toLowerCase());
+          if (!resolved) return { rowNumber, payload, status: "invalid", message: `Unknown assigned user "${assignedRaw}"` };
+          payload.assigned_user_id = resolved;
+        }
+
+        const emailKey = normalizeEmail(email);
+        const phoneKey = normalizePhone(phone);
+        let duplicate: string | undefined;
+        if (emailKey && existingEmails.has(emailKey)) duplicate = `Email ${email} already belongs to ${existingEmails.get(emailKey)}`;
+        else if (phoneKey && existingPhones.has(phoneKey)) duplicate = `Phone ${phoneRaw} already belongs to ${existingPhones.get(phoneKey)}`;
+        else if (emailKey && seenEmails.has(emailKey)) duplicate = `Email ${email} appears earlier in this file`;
+        else if (phoneKey && seenPhones.has(phoneKey)) duplicate = `Phone ${phoneRaw} appears earlier in this file`;
+
+        if (emailKey) seenEmails.add(emailKey);
+        if (phoneKey) seenPhones.add(phoneKey);
+
+        const autoAssign = !assignedRaw;
+        if (duplicate) return { rowNumber, payload, autoAssign, status: "duplicate", message: duplicate };
+        return { rowNumber, payload, autoAssign, status: "ready" };
+      });
+
+      setPrepared(rows);
+      setStep("review");
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to validate the import");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const counts = useMemo(() => {
+    const c: Record<RowStatus, number> = { ready: 0, invalid: 0, duplicate: 0, imported: 0, failed: 0 };
+    prepared.forEach((r) => (c[r.status] += 1));
+    return c;
+  }, [prepared]);
+
+  // rows without an assignee in the file go through the assignment rules, one call per batch;
+  // rows no rule matches, or all of them if the rules can't be read, stay with the importer
+  const assignBatch = async (batch: PreparedRow[]) => {
+    const unassigned = batch.filter((r) => r.autoAssign);
+    let picks: Array<string | null> = [];
+    try {
+      picks = (await nextAssignees(unassigned.map((r) => ({ city: r.payload.city, state: r.payload.state })))).map((p) => p.userId);
+    } catch (err) {
+      console.error(err);
+    }
+    return batch.map((r) => {
+      const picked = r.autoAssign ? picks[unassigned.indexOf(r)] : null;
+      return picked ? { ...r.payload, assigned_user_id: picked } : r.payload;
+    });
+  };
+
+  const handleImport = async () => {
+    const toImport = prepared.filter((r) => r.status === "ready" || (!skipDuplicates && r.status === "duplicate"));
+    if (toImport.length === 0) {
+      toast.error("There are no rows to import");
+      return;
+    }
+    setWorking(true);
+    setProgress(0);
+
+    const results = new Map<number, { status: RowStatus; message?: string }>();
+
+    for (let start = 0; start < toImport.length; start += BATCH_SIZE) {
+      const batch = toImport.slice(start, start + BATCH_SIZE);
+      const payloads = await assignBatch(batch);
+      const { error } = await supabase.from("contacts").insert(payloads);
+
+      if (!error) {
+        batch.forEach((r) => results.set(r.rowNumber, { status: "imported" }));
+      } else {
+        // a single bad row rejects the whole batch; retry one by one to pinpoint it
+        for (const [i, r] of batch.entries()) {
+          const { error: rowError } = await supabase.from("contacts").insert(payloads[i]);
+          results.set(r.rowNumber, rowError ? { status: "failed", message: rowError.message } : { status: "imported" });
+        }
+      }
+      setProgress(Math.min(start + batch.length, toImport.length));
+    }
+
+    setPrepared((prev) =>
+      prev.map((r) => {
+        const res = results.get(r.rowNumber);
+        if (res) return { ...r, status: res.status, message: res.message };
+        if (r.status === "duplicate") return { ...r, message: `Skipped: ${r.message}` };
+        return r;
+      }),
+    );
+
+    const imported = Array.from(results.values()).filter((r) => r.status === "imported").length;
+    if (imported === toImport.length) toast.success(`Imported ${imported} customer contacts`);
+    else toast.error(`Imported ${imported} of ${toImport.length} customer contacts`);
+
+    setWorking(false);
+    setStep("done");
+  };
+
+  const statusLabel = (s: RowStatus) => {
+    switch (s) {
+      case "ready":
+        return "Ready";
+      case "invalid":
+        return "Invalid";
+      case "duplicate":
+        return "Duplicate";
+      case "imported":
+        return "Imported";
+      case "failed":
+        return "Failed";
+    }
+  };
+
+  const statusClass = (s: RowStatus) => (s === "invalid" || s === "failed" ? "text-destructive" : s === "duplicate" ? "text-amber-600" : "text-muted-foreground");
+
+  const importCount = counts.ready + (skipDuplicates ? 0 : counts.duplicate);
+
+  return (
+    <Dialog open={open} onOpenChange={() => !working && onClose(step === "done")}>
+      <DialogContent className="sm:max-w-3xl w-full">
+        <DialogHeader>
+          <DialogTitle>Import Customer Contacts</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a CSV file with one customer contact per row, or a vCard (.vcf) file with one or more contact cards."}
+            {step === "map" && `Match the columns in ${fileName} to customer contact fields.`}
+            {step === "review" && "Dry run complete. Nothing has been saved yet."}
+            {step === "done" && "Import finished. Review the result for each row below."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-2">
+            <Label htmlFor="csv-file">CSV or vCard file</Label>
+            <Input id="csv-file" type="file" accept=".csv,text/csv,.vcf,text/vcard,text/x-vcard" onChange={(e) => void handleFile(e.target.files?.[0])} />
+            <div className="text-xs text-muted-foreground">A CSV's first row must contain column headers. vCards are read for name, email, phone and address.</div>
+            {working && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Checking {fileName}…
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-4">
+            <div className="grid gap-3 sm:grid-cols-2">
+              {FIELDS.filter((f) => isAdmin || f.key !== "assigned_user_id").map((f) => (
+                <div key={f.key} className="space-y-1">
+                  <Label htmlFor={`map-${f.key}`}>{f.label}</Label>
+                  <select
+                    id={`map-${f.key}`}
+                    className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    value={mapping[f.key] ?? ""}
+                    onChange={(e) => setMapping({ ...mapping, [f.key]: e.target.value === "" ? null : Number(e.target.value) })}
+                  >
+                    <option value="">Do not import</option>
+                    {headers.map((h, idx) => (
+                      <option key={idx} value={idx}>{h || `Column ${idx + 1}`}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            {isAdmin && (
+              <div className="text-xs text-muted-foreground">Assigned User accepts a user's email, full name or id. Empty cells are assigned to you.</div>
+            )}
+            <div className="text-sm text-muted-foreground">{dataRows.length} rows found</div>
+          </div>
+        )}
+
+        {(step === "review" || step === "done") && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-4 text-sm">
+              {step === "review" ? (
+                <>
+                  <span>Ready: <strong>{counts.ready}</strong></span>
+                  <span>Duplicates: <strong>{counts.duplicate}</strong></span>
+                  <span>Invalid: <strong>{counts.invalid}</strong></span>
+                </>
+              ) : (
+                <>
+                  <span>Imported: <strong>{counts.imported}</strong></span>
+                  <span>Failed: <strong>{counts.failed}</strong></span>
+                  <span>Skipped: <strong>{counts.duplicate + counts.invalid}</strong></span>
+                </>
+              )}
+            </div>
+
+            {step === "review" && counts.duplicate > 0 && (
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)} />
+                Skip rows that look like duplicates
+              </label>
+            )}
+
+            <div className="max-h-80 overflow-y-auto border rounded-md">
+              <table className="w-full table-auto text-sm">
+                <thead className="sticky top-0 bg-background">
+                  <tr className="text-left text-muted-foreground">
+                    <th className="px-3 py-2">{source === "vcf" ? "Card" : "Row"}</th>
+                    <th className="px-3 py-2">Name</th>
+                    <th className="px-3 py-2">Email</th>
+                    <th className="px-3 py-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {prepared.map((r) => (
+                    <tr key={r.rowNumber} className="border-t">
+                      <td className="px-3 py-2">{r.rowNumber}</td>
+                      <td className="px-3 py-2">{r.payload.name || <span className="text-muted-foreground">—</span>}</td>
+                      <td className="px-3 py-2">{r.payload.email ?? <span className="text-muted-foreground">—</span>}</td>
+                      <td className={`px-3 py-2 ${statusClass(r.status)}`}>
+                        {statusLabel(r.status)}
+                        {r.message && <div className="text-xs">{r.message}</div>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {working && (
+              <div className="text-sm text-muted-foreground">Importing {progress} of {importCount}…</div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "map" && (
+            <>
+              <Button type="button" variant="outline" onClick={() => setStep("upload")} disabled={working}>Back</Button>
+              <Button type="button" onClick={() => void runDryRun()} disabled={working}>
+                {working && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Run dry run
+              </Button>
+            </>
+          )}
+          {step === "review" && (
+            <>
+              <Button type="button" variant="outline" onClick={() => setStep(source === "vcf" ? "upload" : "map")} disabled={working}>Back</Button>
+              <Button type="button" onClick={() => void handleImport()} disabled={working || importCount === 0}>
+                {working && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import {importCount} {importCount === 1 ? "contact" : "contacts"}
+              </Button>
+            </>
+          )}
+          {step === "done" && (
+            <Button type="button" onClick={() => onClose(true)}>Close</Button>
+          )}
+          {step === "upload" && (
+            <Button type="button" variant="outline" onClick={() => onClose()}>Cancel</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ContactImportDialog;
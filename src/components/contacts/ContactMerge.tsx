@@ -0,0 +1,267 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2, GitMerge } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import ConfirmDialog from "@/components/ui/confirm-dialog";
+import { groupDuplicates } from "@/lib/duplicates";
+import { toast } from "sonner";
+
+type MergeContact = {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  created_at: string;
+  purchases: Array<{ count: number }>;
+  vouchers: Array<{ count: number }>;
+};
+
+type MergeRecord = {
+  id: string;
+  merged_at: string;
+  merged_contact: { name?: string; email?: string | null; phone?: string | null } | null;
+  purchases_moved: number;
+  vouchers_moved: number;
+  survivor: { id: string; name: string } | null;
+};
+
+type GroupSelection = { survivorId: string; mergeIds: string[] };
+
+const countOf = (rel: Array<{ count: number }> | undefined) => rel?.[0]?.count ?? 0;
+
+const ContactMerge = () => {
+  const { profile, isAdmin } = useAuth();
+  const [contacts, setContacts] = useState<MergeContact[]>([]);
+  const [history, setHistory] = useState<MergeRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selections, setSelections] = useState<Record<string, GroupSelection>>({});
+  const [pendingGroup, setPendingGroup] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    if (!profile) return;
+    setLoading(true);
+    try {
+      const [contactsRes, historyRes] = await Promise.all([
+        supabase
+          .from("contacts")
+          .select("id, name, email, phone, created_at, purchases(count), vouchers(count)")
+          .eq("company_id", profile.company_id)
+          .is("deleted_at", null)
+          .is("purchases.deleted_at", null)
+          .order("created_at", { ascending: true }),
+        supabase
+          .from("contact_merges")
+          .select("id, merged_at, merged_contact, purchases_moved, vouchers_moved, survivor:contacts(id, name)")
+          .eq("company_id", profile.company_id)
+          .order("merged_at", { ascending: false })
+          .limit(20),
+      ]);
+      if (contactsRes.error) throw contactsRes.error;
+      if (historyRes.error) throw historyRes.error;
+      setContacts((contactsRes.data as unknown as MergeContact[]) || []);
+      setHistory((historyRes.data as unknown as MergeRecord[]) || []);
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to load duplicate customer contacts");
+    } finally {
+      setLoading(false);
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    void fetchData();
+  }, [fetchData]);
+
+  const groups = useMemo(() => groupDuplicates(contacts), [contacts]);
+  const groupKey = (group: MergeContact[]) => group.map((c) => c.id).sort().join(":");
+
+  // default survivor: the contact with the most purchases, oldest first on ties
+  const selectionFor = (group: MergeContact[]): GroupSelection => {
+    const existing = selections[groupKey(group)];
+    if (existing) return existing;
+    const survivor = [...group].sort((a, b) => countOf(b.purchases) - countOf(a.purchases))[0];
+    return { survivorId: survivor.id, mergeIds: group.filter((c) => c.id !== survivor.id).map((c) => c.id) };
+  };
+
+  const updateSelection = (group: MergeContact[], next: GroupSelection) => {
+    setSelections((prev) => ({ ...prev, [groupKey(group)]: next }));
+  };
+
+  const handleMerge = async () => {
+    const group = groups.find((g) => groupKey(g) === pendingGroup);
+    if (!group) return;
+    const sel = selectionFor(group);
+    try {
+      const { error } = await supabase.rpc("merge_contacts", { _survivor_id: sel.survivorId, _duplicate_ids: sel.mergeIds });
+      if (error) throw error;
+      toast.success(`Merged ${sel.mergeIds.length} customer ${sel.mergeIds.length === 1 ? "contact" : "contacts"}`);
+      setSelections((prev) => {
+        const next = { ...prev };
+        delete next[groupKey(group)];
+        return next;
+      });
+      void fetchData();
+    } catch (err: unknown) {
+      console.error(err);
+      const msg = err && typeof err === "object" && "message" in err ? String((err as { message: unknown }).message) : String(err);
+      toast.error(msg || "Failed to merge customer contacts");
+    } finally {
+      setPendingGroup(null);
+    }
+  };
+
+  if (!isAdmin) {
+    return <div className="text-center py-12 text-muted-foreground">Only admins can merge customer contacts.</div>;
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const pending = groups.find((g) => groupKey(g) === pendingGroup);
+  const pendingSelection = pending ? selectionFor(pending) : null;
+  const pendingSurvivor = pending?.find((c) => c.id === pendingSelection?.survivorId);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Likely Duplicates</CardTitle>
+          <div className="text-sm text-muted-foreground">
+            Contacts sharing an email or phone number, or with very similar names. Pick the record to keep; purchases and vouchers of the others move onto it.
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {groups.length === 0 && <div className="py-8 text-center text-muted-foreground">No likely duplicates found</div>}
+          {groups.map((group) => {
+            const key = groupKey(group);
+            const sel = selectionFor(group);
+            return (
+              <div key={key} className="rounded-md border p-3">
+                <table className="w-full table-auto text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="py-2 w-16">Keep</th>
+                      <th className="py-2 w-16">Merge</th>
+                      <th className="py-2">Name</th>
+                      <th className="py-2">Email</th>
+                      <th className="py-2">Phone</th>
+                      <th className="py-2">Purchases</th>
+                      <th className="py-2">Vouchers</th>
+                      <th className="py-2">Created</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {group.map((c) => (
+                      <tr key={c.id} className="border-t">
+                        <td className="py-2">
+                          <input
+                            type="radio"
+                            name={`survivor-${key}`}
+                            checked={sel.survivorId === c.id}
+                            onChange={() =>
+                              updateSelection(group, { survivorId: c.id, mergeIds: group.filter((g) => g.id !== c.id).map((g) => g.id) })
+                            }
+                            aria-label={`Keep ${c.name}`}
+                          />
+                        </td>
+                        <td className="py-2">
+                          <input
+                            type="checkbox"
+                            disabled={sel.survivorId === c.id}
+                            checked={sel.mergeIds.includes(c.id)}
+                            onChange={(e) =>
+                              updateSelection(group, {
+                                survivorId: sel.survivorId,
+                                mergeIds: e.target.checked ? [...sel.mergeIds, c.id] : sel.mergeIds.filter((id) => id !== c.id),
+                              })
+                            }
+                            aria-label={`Merge ${c.name}`}
+                          />
+                        </td>
+                        <td className="py-2">
+                          <Link to={`/contacts/${c.id}`} className="font-medium hover:underline">{c.name}</Link>
+                        </td>
+                        <td className="py-2">{c.email ?? <span className="text-muted-foreground">—</span>}</td>
+                        <td className="py-2">{c.phone ?? <span className="text-muted-foreground">—</span>}</td>
+                        <td className="py-2">{countOf(c.purchases)}</td>
+                        <td className="py-2">{countOf(c.vouchers)}</td>
+                        <td className="py-2">{new Date(c.created_at).toLocaleDateString()}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div className="mt-3 flex justify-end">
+                  <Button size="sm" onClick={() => setPendingGroup(key)} disabled={sel.mergeIds.length === 0}>
+                    <GitMerge className="mr-2 h-4 w-4" />
+                    Merge {sel.mergeIds.length} into kept record
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Merge History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full table-auto text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-2">Merged Contact</th>
+                  <th className="py-2">Kept Record</th>
+                  <th className="py-2">Purchases Moved</th>
+                  <th className="py-2">Vouchers Moved</th>
+                  <th className="py-2">Merged At</th>
+                </tr>
+              </thead>
+              <tbody>
+                {history.map((h) => (
+                  <tr key={h.id} className="border-t">
+                    <td className="py-2">
+                      {h.merged_contact?.name ?? "—"}
+                      {h.merged_contact?.email && <div className="text-xs text-muted-foreground">{h.merged_contact.email}</div>}
+                    </td>
+                    <td className="py-2">
+                      {h.survivor ? <Link to={`/contacts/${h.survivor.id}`} className="hover:underline">{h.survivor.name}</Link> : <span className="text-muted-foreground">Deleted</span>}
+                    </td>
+                    <td className="py-2">{h.purchases_moved}</td>
+                    <td className="py-2">{h.vouchers_moved}</td>
+                    <td className="py-2">{new Date(h.merged_at).toLocaleString()}</td>
+                  </tr>
+                ))}
+                {history.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="py-8 text-center text-muted-foreground">No merges yet</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <ConfirmDialog
+        open={Boolean(pendingGroup)}
+        onOpenChange={(open) => !open && setPendingGroup(null)}
+        title="Merge customer contacts"
+        description={`${pendingSelection?.mergeIds.length ?? 0} customer contact(s) will be merged into ${pendingSurvivor?.name ?? "the kept record"}. Their purchases and vouchers move to the kept record and the merged records are deleted.`}
+        confirmLabel="Merge"
+        onConfirm={handleMerge}
+      />
+    </div>
+  );
+};
+
+export default ContactMerge;
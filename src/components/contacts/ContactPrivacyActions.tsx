@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import ConfirmDialog from "@/components/ui/confirm-dialog";
+import { Download, Loader2, UserX } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { exportJson } from "@/lib/export";
+import { toast } from "sonner";
+
+type Props = {
+  contact: { id: string; name: string; erased_at?: string | null };
+  onErased: () => void;
+};
+
+// Admin-only answers to a customer's data requests: a copy of everything held
+// about them, and erasure of their personal details. Purchases and vouchers
+// survive erasure so revenue and voucher reports keep their totals.
+const ContactPrivacyActions = ({ contact, onErased }: Props) => {
+  const { profile } = useAuth();
+  const [exporting, setExporting] = useState(false);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  const handleExport = async () => {
+    if (!profile) return;
+    setExporting(true);
+    try {
+      const [contactRes, tagsRes, purchasesRes, vouchersRes, activitiesRes, tasksRes, consentsRes, mergesRes, auditRes] = await Promise.all([
+        supabase.from("contacts").select("*").eq("id", contact.id).eq("company_id", profile.company_id).single(),
+        supabase.from("contact_tags").select("tag:tags(name)").eq("contact_id", contact.id),
+        // trashed purchases are still held about the customer, so they are included
+        supabase.from("purchases").select("*, purchase_items(*)").eq("contact_id", contact.id).eq("company_id", profile.company_id).order("purchase_date"),
+        supabase.from("vouchers").select("*, voucher_rule:voucher_rules(name)").eq("contact_id", contact.id).eq("company_id", profile.company_id).order("issued_at"),
+        supabase.from("contact_activities").select("*").eq("contact_id", contact.id).order("occurred_at"),
+        supabase.from("tasks").select("*").eq("contact_id", contact.id).order("due_date"),
+        supabase.from("contact_consents").select("*").eq("contact_id", contact.id).order("captured_at"),
+        supabase.from("contact_merges").select("*").eq("survivor_id", contact.id).order("merged_at"),
+        supabase.from("audit_log").select("*").eq("contact_id", contact.id).order("changed_at"),
+      ]);
+      const failed = [contactRes, tagsRes, purchasesRes, vouchersRes, activitiesRes, tasksRes, consentsRes, mergesRes, auditRes].find((r) => r.error);
+      if (failed) throw failed.error;
+
+      exportJson(
+        {
+          exported_at: new Date().toISOString(),
+          exported_by: profile.email,
+          contact: contactRes.data,
+          tags: ((tagsRes.data as unknown as Array<{ tag: { name: string } | null }>) || []).map((r) => r.tag?.name).filter(Boolean),
+          purchases: purchasesRes.data,
+          vouchers: vouchersRes.data,
+          activities: activitiesRes.data,
+          tasks: tasksRes.data,
+          consents: consentsRes.data,
+          merged_records: mergesRes.data,
+          history: auditRes.data,
+        },
+        `customer-data-${contact.id}`
+      );
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to export customer data");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleErase = async () => {
+    try {
+      const { error } = await supabase.rpc("erase_contact", { _contact_id: contact.id });
+      if (error) throw error;
+      toast.success("Personal data erased");
+      onErased();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to erase personal data");
+    }
+  };
+
+  return (
+    <Card className="shadow-md mt-4">
+      <CardHeader>
+        <CardTitle>Data Privacy</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">Respond to the customer's request for a copy of their data, or to be forgotten.</p>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => void handleExport()} disabled={exporting}>
+            {exporting ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Download className="h-4 w-4 mr-2" />}
+            Download data (JSON)
+          </Button>
+          {!contact.erased_at && (
+            <Button variant="destructive" onClick={() => setConfirmOpen(true)}>
+              <UserX className="h-4 w-4 mr-2" />
+              Erase personal data
+            </Button>
+          )}
+        </div>
+        <ConfirmDialog
+          open={confirmOpen}
+          onOpenChange={setConfirmOpen}
+          title="Erase personal data"
+          description={`This permanently removes ${contact.name}'s name, email, phone, address, custom fields, notes and tasks, including from the change history. Purchases and vouchers are kept without their personal details so reports don't change. This cannot be undone.`}
+          confirmLabel="Erase"
+          onConfirm={handleErase}
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ContactPrivacyActions;
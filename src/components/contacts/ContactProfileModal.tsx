@@ -7,13 +7,16 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 import { formatINR } from "@/lib/utils";
+import { netAmount } from "@/lib/orders";
+import { formatAddress, type AddressFields } from "@/lib/address";
+import { formatPhone } from "@/lib/phone";
+import { useCompanyCountry } from "@/hooks/useCompanyCountry";
 
-type Contact = {
+type Contact = AddressFields & {
   id: string;
   name: string;
   email: string | null;
   phone: string | null;
-  address: string | null;
   company_id: string;
   created_by?: string | null;
   assigned_user_id?: string | null;
@@ -23,6 +26,7 @@ type Purchase = {
   id: string;
   item: string;
   amount: number;
+  refunded_amount: number;
   purchase_date: string;
 };
 
@@ -43,6 +47,7 @@ interface Props {
 
 const ContactProfileModal = ({ open, onOpenChange, contactId }: Props) => {
   const { profile, user, isAdmin } = useAuth();
+  const { country } = useCompanyCountry();
   const [loading, setLoading] = useState(true);
   const [contact, setContact] = useState<Contact | null>(null);
   const [purchases, setPurchases] = useState<Purchase[]>([]);
@@ -57,6 +62,7 @@ const ContactProfileModal = ({ open, onOpenChange, contactId }: Props) => {
         .select("*")
         .eq("id", contactId)
         .eq("company_id", profile.company_id)
+        .is("deleted_at", null)
         .single();
 
       if (contactError) throw contactError;
@@ -66,6 +72,7 @@ const ContactProfileModal = ({ open, onOpenChange, contactId }: Props) => {
         .select("*")
         .eq("contact_id", contactId)
         .eq("company_id", profile.company_id)
+        .is("deleted_at", null)
         .order("purchase_date", { ascending: false });
 
       if (purchasesError) throw purchasesError;
@@ -94,7 +101,7 @@ const ContactProfileModal = ({ open, onOpenChange, contactId }: Props) => {
     if (open) void fetch();
   }, [open, fetch]);
 
-  const totalSpend = purchases.reduce((s, p) => s + Number(p.amount || 0), 0);
+  const totalSpend = purchases.reduce((s, p) => s + netAmount(p), 0);
 
   const canSeePII = (() => {
     if (!user) return false;
@@ -136,7 +143,10 @@ const ContactProfileModal = ({ open, onOpenChange, contactId }: Props) => {
                         {purchases.map((p) => (
                           <tr key={p.id} className="border-t">
                             <td className="py-2">{p.item}</td>
-                            <td className="py-2">{formatINR(p.amount)}</td>
+                            <td className="py-2">
+                              {formatINR(netAmount(p))}
+                              {Number(p.refunded_amount) > 0 && <div className="text-xs text-muted-foreground">{formatINR(p.refunded_amount)} refunded</div>}
+                            </td>
                             <td className="py-2">{new Date(p.purchase_date).toLocaleDateString()}</td>
                           </tr>
                         ))}
@@ -175,14 +185,14 @@ const ContactProfileModal = ({ open, onOpenChange, contactId }: Props) => {
                   {canSeePII && contact.phone && (
                     <div>
                       <div className="text-sm text-muted-foreground">Phone</div>
-                      <div className="font-medium">{contact.phone}</div>
+                      <div className="font-medium">{formatPhone(contact.phone, country)}</div>
                     </div>
                   )}
 
-                  {canSeePII && contact.address && (
+                  {canSeePII && formatAddress(contact) && (
                     <div>
                       <div className="text-sm text-muted-foreground">Address</div>
-                      <div className="font-medium">{contact.address}</div>
+                      <div className="font-medium">{formatAddress(contact)}</div>
                     </div>
                   )}
 
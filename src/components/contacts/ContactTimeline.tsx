@@ -0,0 +1,353 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import ConfirmDialog from "@/components/ui/confirm-dialog";
+import { ArrowRightLeft, CalendarDays, Edit2, Gift, Loader2, Mail, Phone, Pin, PinOff, ShoppingBag, StickyNote, Ticket, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { cn, formatINR } from "@/lib/utils";
+import { ACTIVITY_TYPES, activityTypeLabel, isSystemActivity, toDateTimeLocal, type ActivityType, type ContactActivity, type SystemActivityType } from "@/lib/activities";
+import { toast } from "sonner";
+
+type TimelinePurchase = {
+  id: string;
+  item: string;
+  amount: number;
+  purchase_date: string;
+  created_by?: string | null;
+};
+
+type TimelineVoucher = {
+  id: string;
+  code: string;
+  issued_at: string;
+  issued_by?: string | null;
+  redeemed_at: string | null;
+  redeemed_by?: string | null;
+  voucher_rule?: { name?: string } | null;
+};
+
+type Props = {
+  contactId: string;
+  // purchases and vouchers are already loaded (and access-checked) by the profile page
+  purchases: TimelinePurchase[];
+  vouchers: TimelineVoucher[];
+  canAdd: boolean;
+};
+
+type TimelineEntry = {
+  key: string;
+  kind: ActivityType | SystemActivityType | "purchase" | "voucher_issued" | "voucher_redeemed";
+  at: string;
+  title: string;
+  body?: string;
+  authorId?: string | null;
+  activity?: ContactActivity;
+};
+
+const ICONS = {
+  note: StickyNote,
+  call: Phone,
+  meeting: CalendarDays,
+  email: Mail,
+  transfer: ArrowRightLeft,
+  purchase: ShoppingBag,
+  voucher_issued: Ticket,
+  voucher_redeemed: Gift,
+};
+
+type FormState = { activity_type: ActivityType; body: string; occurred_at: string };
+
+const newForm = (): FormState => ({ activity_type: "note", body: "", occurred_at: toDateTimeLocal(new Date()) });
+
+const ContactTimeline = ({ contactId, purchases, vouchers, canAdd }: Props) => {
+  const { user, profile, isAdmin } = useAuth();
+  const [activities, setActivities] = useState<ContactActivity[]>([]);
+  const [authors, setAuthors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<FormState>(newForm);
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState<ContactActivity | null>(null);
+  const [editForm, setEditForm] = useState<FormState>(newForm);
+  const [activityToDelete, setActivityToDelete] = useState<ContactActivity | null>(null);
+
+  const fetchActivities = useCallback(async () => {
+    if (!profile) return;
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("contact_activities")
+        .select("*")
+        .eq("contact_id", contactId)
+        .eq("company_id", profile.company_id)
+        .order("occurred_at", { ascending: false });
+      if (error) throw error;
+      setActivities((data as ContactActivity[]) || []);
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to load activity timeline");
+    } finally {
+      setLoading(false);
+    }
+  }, [contactId, profile]);
+
+  useEffect(() => {
+    void fetchActivities();
+  }, [fetchActivities]);
+
+  const entries = useMemo<TimelineEntry[]>(() => {
+    const list: TimelineEntry[] = activities.map((a) => ({
+      key: `activity-${a.id}`,
+      kind: a.activity_type,
+      at: a.occurred_at,
+      title: activityTypeLabel(a.activity_type),
+      body: a.body,
+      authorId: a.created_by,
+      activity: a,
+    }));
+    for (const p of purchases) {
+      list.push({ key: `purchase-${p.id}`, kind: "purchase", at: p.purchase_date, title: `Purchased ${p.item}`, body: formatINR(p.amount), authorId: p.created_by });
+    }
+    for (const v of vouchers) {
+      const rule = v.voucher_rule?.name ? ` (${v.voucher_rule.name})` : "";
+      list.push({ key: `voucher-${v.id}`, kind: "voucher_issued", at: v.issued_at, title: `Voucher ${v.code} issued${rule}`, authorId: v.issued_by });
+      if (v.redeemed_at) {
+        list.push({ key: `redeem-${v.id}`, kind: "voucher_redeemed", at: v.redeemed_at, title: `Voucher ${v.code} redeemed`, authorId: v.redeemed_by });
+      }
+    }
+    return list.sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
+  }, [activities, purchases, vouchers]);
+
+  const pinned = entries.filter((e) => e.activity?.is_pinned);
+  const unpinned = entries.filter((e) => !e.activity?.is_pinned);
+
+  // author ids come from three tables, so names are looked up in one go
+  useEffect(() => {
+    const ids = Array.from(new Set(entries.map((e) => e.authorId).filter(Boolean) as string[])).filter((id) => !(id in authors));
+    if (ids.length === 0) return;
+    void (async () => {
+      const { data, error } = await supabase.from("profiles").select("id, full_name").in("id", ids);
+      if (error) {
+        console.error(error);
+        return;
+      }
+      setAuthors((prev) => {
+        // unknown ids are recorded too so they are not requested again
+        const next = { ...prev, ...Object.fromEntries(ids.map((id) => [id, ""])) };
+        for (const p of (data as Array<{ id: string; full_name: string | null }>) || []) next[p.id] = p.full_name ?? "";
+        return next;
+      });
+    })();
+  }, [entries, authors]);
+
+  const canModify = (a: ContactActivity) => !isSystemActivity(a.activity_type) && Boolean(isAdmin || a.created_by === user?.id);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile || !user || !form.body.trim()) return;
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("contact_activities").insert({
+        company_id: profile.company_id,
+        contact_id: contactId,
+        activity_type: form.activity_type,
+        body: form.body.trim(),
+        occurred_at: new Date(form.occurred_at).toISOString(),
+        created_by: user.id,
+      });
+      if (error) throw error;
+      toast.success(`${activityTypeLabel(form.activity_type)} added`);
+      setForm(newForm());
+      void fetchActivities();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to add activity");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openEdit = (a: ContactActivity) => {
+    setEditing(a);
+    setEditForm({ activity_type: a.activity_type as ActivityType, body: a.body, occurred_at: toDateTimeLocal(a.occurred_at) });
+  };
+
+  const handleUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing || !editForm.body.trim()) return;
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from("contact_activities")
+        .update({
+          activity_type: editForm.activity_type,
+          body: editForm.body.trim(),
+          occurred_at: new Date(editForm.occurred_at).toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", editing.id);
+      if (error) throw error;
+      toast.success("Activity updated");
+      setEditing(null);
+      void fetchActivities();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to update activity");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const togglePin = async (a: ContactActivity) => {
+    try {
+      const { error } = await supabase.from("contact_activities").update({ is_pinned: !a.is_pinned }).eq("id", a.id);
+      if (error) throw error;
+      setActivities((prev) => prev.map((x) => (x.id === a.id ? { ...x, is_pinned: !a.is_pinned } : x)));
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to update pin");
+    }
+  };
+
+  const handleDeleteConfirmed = async () => {
+    if (!activityToDelete) return;
+    try {
+      const { error } = await supabase.from("contact_activities").delete().eq("id", activityToDelete.id);
+      if (error) throw error;
+      toast.success("Activity deleted");
+      void fetchActivities();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to delete activity");
+    } finally {
+      setActivityToDelete(null);
+    }
+  };
+
+  const renderEntry = (entry: TimelineEntry) => {
+    const Icon = ICONS[entry.kind];
+    const a = entry.activity;
+    const author = entry.authorId ? authors[entry.authorId] : null;
+    return (
+      <li key={entry.key} className={cn("flex gap-3 rounded-md border p-3", a?.is_pinned && "border-amber-300 bg-amber-50")}>
+        <div className={cn("mt-0.5 rounded-full p-2 h-8 w-8 flex items-center justify-center", a ? "bg-primary/10 text-primary" : "bg-muted text-muted-foreground")}>
+          <Icon className="h-4 w-4" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <div className="font-medium">{entry.title}</div>
+              <div className="text-xs text-muted-foreground">
+                {new Date(entry.at).toLocaleString()}
+                {author ? ` · ${author}` : ""}
+                {a && a.updated_at !== a.created_at ? " · edited" : ""}
+              </div>
+            </div>
+            {a && canModify(a) && (
+              <div className="inline-flex items-center gap-1 shrink-0">
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => void togglePin(a)} aria-label={a.is_pinned ? "Unpin" : "Pin"}>
+                  {a.is_pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                </Button>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => openEdit(a)} aria-label="Edit activity">
+                  <Edit2 className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setActivityToDelete(a)} aria-label="Delete activity">
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            )}
+          </div>
+          {entry.body && <div className={cn("mt-1 text-sm", a ? "whitespace-pre-wrap" : "text-muted-foreground")}>{entry.body}</div>}
+        </div>
+      </li>
+    );
+  };
+
+  const typeSelect = (value: ActivityType, onChange: (v: ActivityType) => void, id: string) => (
+    <select id={id} className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm" value={value} onChange={(e) => onChange(e.target.value as ActivityType)}>
+      {ACTIVITY_TYPES.map((t) => (
+        <option key={t.value} value={t.value}>{t.label}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <Card className="shadow-md mt-4">
+      <CardHeader>
+        <CardTitle>Activity Timeline</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canAdd && (
+          <form onSubmit={handleAdd} className="grid gap-3 rounded-md border p-3">
+            <div className="grid gap-3 sm:grid-cols-2">
+              {typeSelect(form.activity_type, (v) => setForm({ ...form, activity_type: v }), "activity-type")}
+              <Input type="datetime-local" aria-label="When" value={form.occurred_at} onChange={(e) => setForm({ ...form, occurred_at: e.target.value })} required />
+            </div>
+            <Textarea placeholder="What happened?" value={form.body} onChange={(e) => setForm({ ...form, body: e.target.value })} rows={3} required />
+            <div>
+              <Button type="submit" disabled={saving || !form.body.trim()}>{saving ? <Loader2 className="h-4 w-4 animate-spin" /> : `Add ${activityTypeLabel(form.activity_type).toLowerCase()}`}</Button>
+            </div>
+          </form>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            {pinned.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-sm text-muted-foreground">Pinned</div>
+                <ul className="space-y-2">{pinned.map(renderEntry)}</ul>
+              </div>
+            )}
+            <ul className="space-y-2">{unpinned.map(renderEntry)}</ul>
+            {entries.length === 0 && <div className="py-8 text-center text-muted-foreground">No activity recorded for this customer contact yet.</div>}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={Boolean(editing)} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-md w-full">
+          <DialogHeader>
+            <DialogTitle>Edit Activity</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleUpdate} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-activity-type">Type</Label>
+              {typeSelect(editForm.activity_type, (v) => setEditForm({ ...editForm, activity_type: v }), "edit-activity-type")}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-activity-when">When</Label>
+              <Input id="edit-activity-when" type="datetime-local" value={editForm.occurred_at} onChange={(e) => setEditForm({ ...editForm, occurred_at: e.target.value })} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-activity-body">Details</Label>
+              <Textarea id="edit-activity-body" value={editForm.body} onChange={(e) => setEditForm({ ...editForm, body: e.target.value })} rows={4} required />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditing(null)} disabled={saving}>Cancel</Button>
+              <Button type="submit" disabled={saving}>{saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={Boolean(activityToDelete)}
+        onOpenChange={(open) => !open && setActivityToDelete(null)}
+        title="Delete activity"
+        description="This timeline entry will be permanently removed."
+        confirmLabel="Delete"
+        onConfirm={handleDeleteConfirmed}
+      />
+    </Card>
+  );
+};
+
+export default ContactTimeline;
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import ConfirmDialog from "@/components/ui/confirm-dialog";
+import { Loader2, Save, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import type { ContactView } from "@/hooks/useContactViews";
+import { toast } from "sonner";
+
+type Props = {
+  views: ContactView[];
+  activeView: ContactView | null;
+  // the applied filter no longer matches the active view's
+  modified: boolean;
+  // the URL names a view that was deleted or is not shared with this user
+  missing: boolean;
+  canSave: boolean;
+  onSelect: (id: string | null) => void;
+  onSave: (name: string, shared: boolean) => Promise<void>;
+  onDelete: (view: ContactView) => Promise<void>;
+};
+
+const ContactViewsBar = ({ views, activeView, modified, missing, canSave, onSelect, onSave, onDelete }: Props) => {
+  const { user, isAdmin } = useAuth();
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [shared, setShared] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+
+  const mine = views.filter((v) => v.created_by === user?.id);
+  const others = views.filter((v) => v.created_by !== user?.id);
+  const ownsActive = Boolean(activeView && activeView.created_by === user?.id);
+  const canDelete = Boolean(activeView && (ownsActive || (activeView.is_shared && isAdmin)));
+
+  const openSave = () => {
+    // saving from your own view offers to update it; from anyone else's, to copy it
+    setName(ownsActive && activeView ? activeView.name : "");
+    setShared(ownsActive && activeView ? activeView.is_shared : false);
+    setSaveOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setSaving(true);
+    try {
+      await onSave(name, shared);
+      setSaveOpen(false);
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to save view");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <select
+        aria-label="Saved view"
+        className="rounded-md border border-input bg-background px-3 py-2 text-sm h-9 sm:w-56"
+        value={activeView?.id ?? ""}
+        onChange={(e) => onSelect(e.target.value || null)}
+      >
+        <option value="">All customer contacts</option>
+        {mine.length > 0 && (
+          <optgroup label="My views">
+            {mine.map((v) => (
+              <option key={v.id} value={v.id}>{v.is_shared ? `${v.name} (shared)` : v.name}</option>
+            ))}
+          </optgroup>
+        )}
+        {others.length > 0 && (
+          <optgroup label="Shared with the company">
+            {others.map((v) => (
+              <option key={v.id} value={v.id}>{v.name}</option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+      {modified && <span className="text-muted-foreground">Modified</span>}
+      {missing && <span className="text-destructive">This saved view no longer exists or isn't shared with you.</span>}
+      <Button size="sm" variant="outline" onClick={openSave} disabled={!canSave}>
+        <Save className="mr-2 h-4 w-4" />
+        Save view
+      </Button>
+      {canDelete && (
+        <Button size="sm" variant="ghost" className="text-destructive" onClick={() => setDeleteOpen(true)}>
+          <Trash2 className="mr-2 h-4 w-4" />
+          Delete view
+        </Button>
+      )}
+
+      <Dialog open={saveOpen} onOpenChange={setSaveOpen}>
+        <DialogContent className="sm:max-w-md w-full">
+          <DialogHeader>
+            <DialogTitle>Save view</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="view-name">Name</Label>
+              <Input id="view-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Big spenders, no visit in 90 days" required />
+              {mine.some((v) => v.name.toLowerCase() === name.trim().toLowerCase()) && (
+                <div className="text-xs text-muted-foreground">This replaces your saved view with the same name.</div>
+              )}
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={shared} onChange={(e) => setShared(e.target.checked)} />
+              Share with everyone in the company
+            </label>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setSaveOpen(false)}>Cancel</Button>
+              <Button type="submit" disabled={saving || !name.trim()}>{saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={deleteOpen}
+        onOpenChange={setDeleteOpen}
+        title="Delete view"
+        description={activeView ? `Delete the saved view "${activeView.name}"?${activeView.is_shared ? " It is removed for everyone in the company." : ""}` : undefined}
+        onConfirm={async () => {
+          if (!activeView) return;
+          try {
+            await onDelete(activeView);
+          } catch (err) {
+            console.error(err);
+            toast.error("Failed to delete view");
+          }
+        }}
+      />
+    </div>
+  );
+};
+
+export default ContactViewsBar;
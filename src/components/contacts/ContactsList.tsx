@@ -1,101 +1,242 @@
-import { useState, useEffect, useCallback } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Loader2 } from "lucide-react";
-import { Plus, Search, Edit2, Trash2 } from "lucide-react";
+import { Plus, Search, Edit2, Trash2, Upload, GitMerge, ChevronDown, ChevronUp, Download, Ticket, UserCheck, SlidersHorizontal } from "lucide-react";
 import { toast } from "sonner";
 import ContactDialog from "./ContactDialog";
+import ContactImportDialog from "./ContactImportDialog";
+import BulkResultDialog from "./BulkResultDialog";
 import ConfirmDialog from "@/components/ui/confirm-dialog";
+import { Pagination, PaginationContent, PaginationEllipsis, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from "@/components/ui/pagination";
+import { cn } from "@/lib/utils";
+import ExportMenu from "@/components/ui/export-menu";
+import { exportRows, exportVCards, type ExportColumn, type ExportFormat } from "@/lib/export";
+import { toVCards } from "@/lib/vcard";
+import TagChip from "@/components/tags/TagChip";
+import TagPicker from "@/components/tags/TagPicker";
+import { useCompanyTags } from "@/hooks/useCompanyTags";
+import type { Tag } from "@/lib/tags";
+import type { Json } from "@/integrations/supabase/types";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { asCustomFieldValues, formatCustomFieldValue } from "@/lib/customFields";
+import { useCompanyUsers } from "@/hooks/useCompanyUsers";
+import { runBulk, type BulkResult } from "@/lib/bulk";
+import { generateVoucherCode } from "@/lib/vouchers";
+import { INDIAN_STATES, type AddressFields } from "@/lib/address";
+import { formatPhone, phoneDigits, toE164 } from "@/lib/phone";
+import { useCompanyCountry } from "@/hooks/useCompanyCountry";
+import { fetchConsentStates, useConsentStates } from "@/hooks/useConsentStates";
+import { marketingConsent, type ConsentState } from "@/lib/consents";
+import ConsentBadges from "./ConsentBadges";
+import ContactFilterBuilder from "./ContactFilterBuilder";
+import ContactViewsBar from "./ContactViewsBar";
+import { useContactViews, type ContactView } from "@/hooks/useContactViews";
+import {
+  EMPTY_FILTER,
+  contactFilterFields,
+  decodeContactFilter,
+  encodeContactFilter,
+  filterExpressions,
+  type ContactFilter,
+} from "@/lib/contactFilters";
 
-interface Contact {
+interface Contact extends AddressFields {
   id: string;
   name: string;
   email: string | null;
   phone: string | null;
-  address: string | null;
   created_at: string;
   assigned_user_id?: string | null;
   created_by?: string | null;
+  account_id?: string | null;
   profiles?: {
     full_name: string | null;
   };
-  // populated only for admin view
-  assigned_user_name?: string | null;
+  assigned_user?: { full_name: string | null } | null;
+  contact_tags?: Array<{ tag: Tag | null }>;
+  custom_fields?: Json;
 }
 
+type SortColumn = "name" | "created_at" | "assigned_user";
+
+const PAGE_SIZES = [10, 25, 50, 100];
+const EXPORT_BATCH = 1000;
+
+// zero-based page indexes to show, with null marking a gap
+const pageNumbers = (page: number, pageCount: number): Array<number | null> => {
+  if (pageCount <= 7) return Array.from({ length: pageCount }, (_, i) => i);
+  const pages = new Set([0, pageCount - 1, page - 1, page, page + 1].filter((n) => n >= 0 && n < pageCount));
+  const sorted = Array.from(pages).sort((a, b) => a - b);
+  return sorted.flatMap((n, i) => (i > 0 && n - sorted[i - 1] > 1 ? [null, n] : [n]));
+};
+
+const contactTags = (contact: Contact) => (contact.contact_tags ?? []).map((ct) => ct.tag).filter(Boolean) as Tag[];
+
 const ContactsList = () => {
   const { profile, isAdmin, user } = useAuth();
+  const { country } = useCompanyCountry();
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loaded, setLoaded] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(25);
+  const [total, setTotal] = useState(0);
+  const latestRequest = useRef(0);
+  const [sort, setSort] = useState<{ column: SortColumn; ascending: boolean }>({ column: "created_at", ascending: false });
   const [dialogOpen, setDialogOpen] = useState(false);
   const [selectedContact, setSelectedContact] = useState<Contact | null>(null);
   const [confirmOpen, setConfirmOpen] = useState(false);
   const [contactToDelete, setContactToDelete] = useState<Contact | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [tagFilter, setTagFilter] = useState<string>("");
+  const [stateFilter, setStateFilter] = useState("");
+  const [cityFilter, setCityFilter] = useState("");
+  const [debouncedCity, setDebouncedCity] = useState("");
+  // selection survives paging so bulk actions can span several pages
+  const [selected, setSelected] = useState<Record<string, Contact>>({});
+  const [bulkAssignee, setBulkAssignee] = useState("");
+  const [bulkRuleId, setBulkRuleId] = useState("");
+  const [activeRules, setActiveRules] = useState<Array<{ id: string; name: string }>>([]);
+  const [bulkBusy, setBulkBusy] = useState(false);
+  const [bulkDeleteOpen, setBulkDeleteOpen] = useState(false);
+  // consent looked up before a bulk voucher run that includes contacts with no record
+  const [bulkConsent, setBulkConsent] = useState<{ states: Record<string, ConsentState>; unknown: number } | null>(null);
+  const [bulkResults, setBulkResults] = useState<{ title: string; results: BulkResult<Contact>[] } | null>(null);
+  const { users: companyUsers, activeUsers } = useCompanyUsers();
+  const { tags, createTag } = useCompanyTags();
+  const { fields: customFields } = useCustomFields();
+  const { states: consentStates } = useConsentStates(contacts.map((c) => c.id));
+  const [fieldFilter, setFieldFilter] = useState<{ key: string; value: string }>({ key: "", value: "" });
+  const filterField = customFields.find((f) => f.key === fieldFilter.key) ?? null;
 
-  const fetchContacts = useCallback(async (term?: string) => {
-    if (!profile) return;
-    setLoading(true);
+  // The filter builder's state lives in the URL so a view can be bookmarked:
+  // ?view=<id> opens a saved view, ?filter=<json> holds an unsaved or edited filter.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { views, loading: viewsLoading, saveView, deleteView } = useContactViews();
+  const viewId = searchParams.get("view");
+  const filterParam = searchParams.get("filter");
+  const activeView = viewId ? views.find((v) => v.id === viewId) ?? null : null;
+  const urlFilter = useMemo(() => decodeContactFilter(filterParam), [filterParam]);
+  const advancedFilter = urlFilter ?? activeView?.filter ?? EMPTY_FILTER;
+  // wait for saved views before listing, rather than flashing every contact first
+  const viewPending = Boolean(viewId && !urlFilter && viewsLoading);
+  const [filtersOpen, setFiltersOpen] = useState(() => Boolean(filterParam));
+  const filterFields = useMemo(
+    () => contactFilterFields(customFields, companyUsers.map((u) => ({ value: u.id, label: u.full_name || u.email })), isAdmin),
+    [customFields, companyUsers, isAdmin],
+  );
+  const filterExprs = useMemo(() => filterExpressions(advancedFilter, filterFields), [advancedFilter, filterFields]);
 
-    try {
-      let query = supabase.from("contacts").select("*").eq("company_id", profile.company_id);
+  // filters shared by the paged list and the export, which pulls every matching row
+  const buildQuery = useCallback(
+    (count: boolean) => {
+      if (!profile || viewPending) return null;
+      // the !inner alias restricts rows to the filtered tag while contact_tags still returns every tag
+      const columns = [
+        "*",
+        "contact_tags(tag:tags(id, name, color))",
+        "assigned_user:profiles!contacts_assigned_user_id_fkey(full_name)",
+        ...(tagFilter ? ["tag_filter:contact_tags!inner(tag_id)"] : []),
+      ].join(", ");
+      let query = supabase
+        .from("contacts")
+        .select(columns, count ? { count: "exact" } : undefined)
+        .eq("company_id", profile.company_id)
+        .is("deleted_at", null);
 
-      if (term && term.trim()) {
-        const t = term.trim();
-        query = query.or(`name.ilike.%${t}%,email.ilike.%${t}%,phone.ilike.%${t}%`);
+      // users only see contacts they created or are assigned to
+      if (!isAdmin && user) {
+        query = query.or(`created_by.eq.${user.id},assigned_user_id.eq.${user.id}`);
       }
 
-      query = query.order("created_at", { ascending: false });
+      if (tagFilter) {
+        query = query.eq("tag_filter.tag_id", tagFilter);
+      }
 
-      const { data, error } = await query;
+      if (stateFilter) {
+        query = query.eq("state", stateFilter);
+      }
+
+      if (debouncedCity) {
+        query = query.ilike("city", `%${debouncedCity}%`);
+      }
+
+      if (debouncedSearch) {
+        const t = debouncedSearch;
+        // free-text custom fields are searched alongside the built-in columns
+        const customSearch = customFields
+          .filter((f) => f.field_type === "text" || f.field_type === "select")
+          .map((f) => `custom_fields->>${f.key}.ilike.%${t}%`);
+        // phones are stored as E.164, so match a typed number by its digits rather than as written
+        const digits = phoneDigits(t);
+        const phoneSearch = digits.length >= 4 ? [`phone.ilike.%${toE164(t, country) ?? digits}%`] : [];
+        query = query.or([`name.ilike.%${t}%`, `email.ilike.%${t}%`, ...phoneSearch, ...customSearch].join(","));
+      }
+
+      if (filterField && fieldFilter.value !== "") {
+        const path = `custom_fields->>${filterField.key}`;
+        if (filterField.field_type === "text") query = query.filter(path, "ilike", `%${fieldFilter.value}%`);
+        // contacts saved before a yes/no field existed have no value, which reads as "no"
+        else if (filterField.field_type === "boolean" && fieldFilter.value === "false") query = query.or(`${path}.is.null,${path}.eq.false`);
+        else query = query.filter(path, "eq", fieldFilter.value);
+      }
+
+      // "all" stacks one or= per condition, which PostgREST ANDs together; "any" puts them in a single or=
+      if (filterExprs.length > 0) {
+        if (advancedFilter.match === "any") query = query.or(filterExprs.join(","));
+        else filterExprs.forEach((expr) => (query = query.or(expr)));
+      }
+
+      const orderColumn = sort.column === "assigned_user" ? "assigned_user(full_name)" : sort.column;
+      return query.order(orderColumn, { ascending: sort.ascending, nullsFirst: false }).order("id", { ascending: true });
+    },
+    [profile, viewPending, isAdmin, user, country, tagFilter, stateFilter, debouncedCity, debouncedSearch, customFields, filterField, fieldFilter.value, filterExprs, advancedFilter.match, sort],
+  );
+
+  const fetchContacts = useCallback(async () => {
+    const query = buildQuery(true);
+    if (!query) return;
+    const requestId = ++latestRequest.current;
+    setLoading(true);
+
+    try {
+      const from = page * pageSize;
+      const { data, error, count } = await query.range(from, from + pageSize - 1);
+      // a newer page/filter request has started; drop this response
+      if (requestId !== latestRequest.current) return;
 
       if (error) {
         toast.error("Failed to load customer contacts");
         console.error(error);
         setContacts([]);
+        setTotal(0);
+      } else if ((data ?? []).length === 0 && page > 0 && (count ?? 0) > 0) {
+        // the last page emptied (e.g. after a delete); step back to the new last page
+        setPage(Math.ceil((count ?? 0) / pageSize) - 1);
       } else {
-        const rows = (data as Contact[]) || [];
-
-        // keep access rules (users still see contacts they created or are assigned to)
-        const visible: Contact[] = isAdmin
-          ? rows
-          : rows.filter((c) => c.created_by === user?.id || c.assigned_user_id === user?.id);
-
-        // if admin, fetch assigned user names to show in the table
-        if (isAdmin && visible.length > 0) {
-          try {
-            const assignedIds = Array.from(new Set(visible.map((c) => c.assigned_user_id).filter(Boolean) as string[]));
-            if (assignedIds.length > 0) {
-              const { data: usersData, error: usersErr } = await supabase.from("profiles").select("id, full_name").in("id", assignedIds);
-              if (!usersErr && usersData) {
-                const map = (usersData as Array<{ id: string; full_name: string | null }>).reduce<Record<string, string>>((acc, u) => {
-                  acc[u.id] = u.full_name ?? "";
-                  return acc;
-                }, {});
-                const withNames = visible.map((c) => ({ ...c, assigned_user_name: c.assigned_user_id ? map[c.assigned_user_id] ?? null : null }));
-                setContacts(withNames);
-              } else {
-                setContacts(visible);
-              }
-            } else {
-              setContacts(visible);
-            }
-          } catch (err) {
-            console.error(err);
-            setContacts(visible);
-          }
-        } else {
-          setContacts(visible);
-        }
+        const rows = (data as unknown as Contact[]) || [];
+        setContacts(rows);
+        setTotal(count ?? 0);
+        // refresh selected rows that are on this page so bulk exports use current values
+        setSelected((prev) => {
+          const stale = rows.filter((c) => prev[c.id]);
+          return stale.length === 0 ? prev : { ...prev, ...Object.fromEntries(stale.map((c) => [c.id, c])) };
+        });
       }
     } finally {
-      setLoading(false);
+      if (requestId === latestRequest.current) {
+        setLoading(false);
+        setLoaded(true);
+      }
     }
-  }, [profile, isAdmin, user?.id]);
+  }, [buildQuery, page, pageSize]);
 
   useEffect(() => {
     void fetchContacts();
@@ -103,15 +244,247 @@ const ContactsList = () => {
 
   // debounce search
   useEffect(() => {
-    const id = setTimeout(() => void fetchContacts(searchTerm), 300);
+    const id = setTimeout(() => {
+      setDebouncedSearch(searchTerm.trim());
+      setDebouncedCity(cityFilter.trim());
+    }, 300);
     return () => clearTimeout(id);
-  }, [searchTerm, fetchContacts]);
+  }, [searchTerm, cityFilter]);
 
-  const filteredContacts = contacts.filter((contact) =>
-    contact.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    contact.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    contact.phone?.includes(searchTerm),
-  );
+  // any change to what is listed starts again from the first page
+  useEffect(() => {
+    setPage(0);
+    setSelected({});
+  }, [debouncedSearch, tagFilter, stateFilter, debouncedCity, fieldFilter, filterExprs, advancedFilter.match, sort, pageSize]);
+
+  const selectView = (id: string | null) => {
+    setSearchParams(id ? { view: id } : {});
+  };
+
+  const applyFilter = (filter: ContactFilter) => {
+    const next = new URLSearchParams(searchParams);
+    // matching the open view again drops the edit from the URL
+    if (encodeContactFilter(filter) === encodeContactFilter(activeView?.filter ?? EMPTY_FILTER)) next.delete("filter");
+    else next.set("filter", encodeContactFilter(filter));
+    setSearchParams(next);
+  };
+
+  const handleSaveView = async (name: string, shared: boolean) => {
+    const view = await saveView(name, advancedFilter, shared);
+    if (!view) return;
+    toast.success(`Saved view "${view.name}"`);
+    setSearchParams({ view: view.id });
+  };
+
+  const handleDeleteView = async (view: ContactView) => {
+    await deleteView(view.id);
+    toast.success(`Deleted view "${view.name}"`);
+    setSearchParams({});
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  const toggleSort = (column: SortColumn) => {
+    setSort((prev) => (prev.column === column ? { column, ascending: !prev.ascending } : { column, ascending: column === "name" }));
+  };
+
+  const sortIcon = (column: SortColumn) =>
+    sort.column === column ? (sort.ascending ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />) : null;
+
+  const exportColumns = (): ExportColumn<Contact>[] => [
+    { header: "Name", value: (c) => c.name },
+    { header: "Email", value: (c) => c.email },
+    { header: "Phone", value: (c) => c.phone },
+    { header: "Address Line 1", value: (c) => c.address_line1 },
+    { header: "Address Line 2", value: (c) => c.address_line2 },
+    { header: "City", value: (c) => c.city },
+    { header: "State", value: (c) => c.state },
+    { header: "PIN Code", value: (c) => c.pincode },
+    { header: "Country", value: (c) => c.country },
+    { header: "Tags", value: (c) => contactTags(c).map((t) => t.name).join(", ") },
+    ...customFields.map((def) => ({
+      header: def.label,
+      value: (c: Contact) => {
+        const v = asCustomFieldValues(c.custom_fields)[def.key];
+        return v === undefined || v === null ? null : formatCustomFieldValue(def, v);
+      },
+    })),
+    ...(isAdmin ? [{ header: "Assigned To", value: (c: Contact) => c.assigned_user?.full_name ?? (c.assigned_user_id ? "Former user" : null) }] : []),
+    { header: "Created", value: (c) => new Date(c.created_at).toLocaleDateString() },
+  ];
+
+  const handleExport = async (format: ExportFormat) => {
+    // export every matching contact, not just the current page
+    try {
+      const rows: Contact[] = [];
+      for (let from = 0; ; from += EXPORT_BATCH) {
+        const query = buildQuery(false);
+        if (!query) return;
+        const { data, error } = await query.range(from, from + EXPORT_BATCH - 1);
+        if (error) throw error;
+        rows.push(...((data as unknown as Contact[]) || []));
+        if (!data || data.length < EXPORT_BATCH) break;
+      }
+      await exportRows(rows, exportColumns(), "customer-contacts", format);
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to export customer contacts");
+    }
+  };
+
+  const selectedContacts = Object.values(selected);
+  const selectedContactIds = selectedContacts.map((c) => c.id);
+  const allVisibleSelected = contacts.length > 0 && contacts.every((c) => selected[c.id]);
+
+  const toggleSelected = (contact: Contact, checked: boolean) => {
+    setSelected((prev) => {
+      const next = { ...prev };
+      if (checked) next[contact.id] = contact;
+      else delete next[contact.id];
+      return next;
+    });
+  };
+
+  const toggleAllVisible = (checked: boolean) => {
+    setSelected((prev) => {
+      const next = { ...prev };
+      for (const c of contacts) {
+        if (checked) next[c.id] = c;
+        else delete next[c.id];
+      }
+      return next;
+    });
+  };
+
+  // active rules are only needed once something is selected
+  const hasSelection = selectedContactIds.length > 0;
+  useEffect(() => {
+    if (!hasSelection || !profile || activeRules.length > 0) return;
+    void (async () => {
+      const { data, error } = await supabase
+        .from("voucher_rules")
+        .select("id, name")
+        .eq("company_id", profile.company_id)
+        .eq("is_active", true)
+        .order("created_at", { ascending: false });
+      if (error) {
+        console.error(error);
+        return;
+      }
+      setActiveRules((data as Array<{ id: string; name: string }>) || []);
+    })();
+  }, [hasSelection, profile, activeRules.length]);
+
+  // runs a per-contact action over the selection and reports rows that failed
+  const runBulkAction = async (title: string, action: (contact: Contact) => Promise<void>) => {
+    setBulkBusy(true);
+    try {
+      const results = await runBulk(selectedContacts, action);
+      const failed = results.filter((r) => !r.ok);
+      if (failed.length === 0) {
+        toast.success(`${title}: ${results.length} customer contacts done`);
+      } else {
+        setBulkResults({ title, results });
+      }
+      // keep failed rows selected so they can be retried
+      setSelected(Object.fromEntries(failed.map((r) => [r.item.id, r.item])));
+      void fetchContacts();
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  // update/delete return no error when RLS filters the row out, so check a row came back
+  const expectRow = (data: unknown[] | null) => {
+    if (!data || data.length === 0) throw new Error("You don't have permission to change this customer contact");
+  };
+
+  const handleBulkReassign = async () => {
+    if (!bulkAssignee) return;
+    await runBulkAction("Reassign", async (contact) => {
+      const { data, error } = await supabase
+        .from("contacts")
+        .update({ assigned_user_id: bulkAssignee, updated_at: new Date().toISOString() })
+        .eq("id", contact.id)
+        .select("id");
+      if (error) throw error;
+      expectRow(data);
+    });
+    setBulkAssignee("");
+  };
+
+  const handleBulkIssueVoucher = async () => {
+    if (!bulkRuleId) return;
+    let states: Record<string, ConsentState>;
+    try {
+      states = await fetchConsentStates(selectedContacts.map((c) => c.id));
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to check marketing consent");
+      return;
+    }
+    const unknown = selectedContacts.filter((c) => marketingConsent(states[c.id]) === "unknown").length;
+    if (unknown > 0) setBulkConsent({ states, unknown });
+    else await issueBulkVouchers(states);
+  };
+
+  const issueBulkVouchers = async (states: Record<string, ConsentState>) => {
+    if (!bulkRuleId || !profile || !user) return;
+    await runBulkAction("Issue voucher", async (contact) => {
+      if (marketingConsent(states[contact.id]) === "opted_out") throw new Error("Opted out of marketing messages");
+      const { error } = await supabase.from("vouchers").insert({
+        code: generateVoucherCode(),
+        company_id: profile.company_id,
+        contact_id: contact.id,
+        issued_by: user.id,
+        voucher_rule_id: bulkRuleId,
+        status: "active",
+      });
+      if (error) throw error;
+    });
+    setBulkRuleId("");
+  };
+
+  const handleBulkDelete = async () => {
+    await runBulkAction("Delete", async (contact) => {
+      const { data: trashed, error } = await supabase.rpc("trash_records", { _kind: "contact", _ids: [contact.id] });
+      if (error) throw error;
+      if (!trashed) throw new Error("You don't have permission to delete this customer contact");
+    });
+  };
+
+  const handleDownloadSelected = async () => {
+    try {
+      await exportRows(selectedContacts, exportColumns(), "customer-contacts-selected", "csv");
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to export customer contacts");
+    }
+  };
+
+  const handleDownloadSelectedVCards = () => {
+    exportVCards(toVCards(selectedContacts), "customer-contacts-selected");
+  };
+
+  const handleBulkTag = async (tag: Tag, add: boolean) => {
+    if (!profile || !user || selectedContactIds.length === 0) return;
+    try {
+      if (add) {
+        const rows = selectedContactIds.map((contactId) => ({ contact_id: contactId, tag_id: tag.id, company_id: profile.company_id, created_by: user.id }));
+        const { error } = await supabase.from("contact_tags").upsert(rows, { onConflict: "contact_id,tag_id", ignoreDuplicates: true });
+        if (error) throw error;
+        toast.success(`Tagged ${selectedContactIds.length} customer contacts with "${tag.name}"`);
+      } else {
+        const { error } = await supabase.from("contact_tags").delete().eq("tag_id", tag.id).in("contact_id", selectedContactIds);
+        if (error) throw error;
+        toast.success(`Removed "${tag.name}" from ${selectedContactIds.length} customer contacts`);
+      }
+      void fetchContacts();
+    } catch (err) {
+      console.error(err);
+      toast.error(add ? "Failed to tag customer contacts" : "Failed to untag customer contacts");
+    }
+  };
 
   const handleEdit = (contact: Contact) => {
     setSelectedContact(contact);
@@ -136,7 +509,7 @@ const ContactsList = () => {
     if (refresh) void fetchContacts();
   };
 
-  if (loading) {
+  if (!loaded) {
     // show skeleton table to make initial load feel static
     return (
       <div className="space-y-6">
@@ -189,26 +562,210 @@ const ContactsList = () => {
             className="pl-10"
           />
         </div>
+        <select
+          aria-label="Filter by tag"
+          className="rounded-md border border-input bg-background px-3 py-2 text-sm h-10 sm:w-48"
+          value={tagFilter}
+          onChange={(e) => setTagFilter(e.target.value)}
+        >
+          <option value="">All tags</option>
+          {tags.map((t) => (
+            <option key={t.id} value={t.id}>{t.name}</option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          <select
+            aria-label="Filter by state"
+            className="rounded-md border border-input bg-background px-3 py-2 text-sm h-10 sm:w-40"
+            value={stateFilter}
+            onChange={(e) => setStateFilter(e.target.value)}
+          >
+            <option value="">All states</option>
+            {INDIAN_STATES.map((s) => (
+              <option key={s} value={s}>{s}</option>
+            ))}
+          </select>
+          <Input aria-label="Filter by city" className="h-10 sm:w-32" placeholder="City" value={cityFilter} onChange={(e) => setCityFilter(e.target.value)} />
+        </div>
+        {customFields.length > 0 && (
+          <div className="flex gap-2">
+            <select
+              aria-label="Filter by custom field"
+              className="rounded-md border border-input bg-background px-3 py-2 text-sm h-10 sm:w-40"
+              value={fieldFilter.key}
+              onChange={(e) => setFieldFilter({ key: e.target.value, value: "" })}
+            >
+              <option value="">Any field</option>
+              {customFields.map((f) => (
+                <option key={f.id} value={f.key}>{f.label}</option>
+              ))}
+            </select>
+            {filterField && (filterField.field_type === "select" || filterField.field_type === "boolean") && (
+              <select
+                aria-label={`${filterField.label} value`}
+                className="rounded-md border border-input bg-background px-3 py-2 text-sm h-10 sm:w-40"
+                value={fieldFilter.value}
+                onChange={(e) => setFieldFilter({ ...fieldFilter, value: e.target.value })}
+              >
+                <option value="">Any</option>
+                {filterField.field_type === "boolean" ? (
+                  <>
+                    <option value="true">Yes</option>
+                    <option value="false">No</option>
+                  </>
+                ) : (
+                  filterField.options.map((o) => (
+                    <option key={o} value={o}>{o}</option>
+                  ))
+                )}
+              </select>
+            )}
+            {filterField && filterField.field_type !== "select" && filterField.field_type !== "boolean" && (
+              <Input
+                aria-label={`${filterField.label} value`}
+                className="h-10 sm:w-40"
+                type={filterField.field_type === "number" ? "number" : filterField.field_type === "date" ? "date" : "text"}
+                placeholder={filterField.field_type === "text" ? "Contains..." : "Equals..."}
+                value={fieldFilter.value}
+                onChange={(e) => setFieldFilter({ ...fieldFilter, value: e.target.value })}
+              />
+            )}
+          </div>
+        )}
+        {isAdmin && (
+          <Button variant="outline" onClick={() => navigate("/contacts/merge")}>
+            <GitMerge className="mr-2 h-4 w-4" />
+            Merge Duplicates
+          </Button>
+        )}
+        <Button variant={filtersOpen ? "secondary" : "outline"} onClick={() => setFiltersOpen((open) => !open)}>
+          <SlidersHorizontal className="mr-2 h-4 w-4" />
+          Filters{advancedFilter.conditions.length > 0 && ` (${advancedFilter.conditions.length})`}
+        </Button>
+        <ExportMenu onExport={handleExport} disabled={total === 0} />
+        <Button variant="outline" onClick={() => setImportOpen(true)}>
+          <Upload className="mr-2 h-4 w-4" />
+          Import
+        </Button>
         <Button onClick={handleAdd}>
           <Plus className="mr-2 h-4 w-4" />
           Add Customer Contact
         </Button>
       </div>
 
-      <div className="overflow-x-auto bg-card p-4 rounded-md shadow-sm">
+      <ContactViewsBar
+        views={views}
+        activeView={activeView}
+        modified={Boolean(activeView && urlFilter)}
+        missing={Boolean(viewId && !viewsLoading && !activeView)}
+        canSave={advancedFilter.conditions.length > 0}
+        onSelect={selectView}
+        onSave={handleSaveView}
+        onDelete={handleDeleteView}
+      />
+
+      {filtersOpen && <ContactFilterBuilder fields={filterFields} value={advancedFilter} onApply={applyFilter} />}
+
+      {hasSelection && (
+        <div className="flex flex-wrap items-center gap-3 rounded-md border bg-muted/30 px-4 py-2 text-sm">
+          <span className="font-medium">{selectedContactIds.length} selected</span>
+          <TagPicker label="Add tag" tags={tags} selectedIds={[]} onToggle={(tag) => handleBulkTag(tag, true)} onCreate={createTag} disabled={bulkBusy} />
+          <TagPicker label="Remove tag" tags={tags} selectedIds={[]} onToggle={(tag) => handleBulkTag(tag, false)} disabled={bulkBusy} />
+          {isAdmin && (
+            <div className="flex items-center gap-2">
+              <select
+                aria-label="Reassign to"
+                className="rounded-md border border-input bg-background px-2 py-1 text-sm h-9"
+                value={bulkAssignee}
+                onChange={(e) => setBulkAssignee(e.target.value)}
+              >
+                <option value="">Reassign to...</option>
+                {activeUsers.map((u) => (
+                  <option key={u.id} value={u.id}>{u.full_name || u.email}</option>
+                ))}
+              </select>
+              <Button size="sm" variant="outline" disabled={!bulkAssignee || bulkBusy} onClick={() => void handleBulkReassign()}>
+                <UserCheck className="mr-2 h-4 w-4" />
+                Reassign
+              </Button>
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <select
+              aria-label="Voucher rule"
+              className="rounded-md border border-input bg-background px-2 py-1 text-sm h-9"
+              value={bulkRuleId}
+              onChange={(e) => setBulkRuleId(e.target.value)}
+            >
+              <option value="">Voucher rule...</option>
+              {activeRules.map((r) => (
+                <option key={r.id} value={r.id}>{r.name}</option>
+              ))}
+            </select>
+            <Button size="sm" variant="outline" disabled={!bulkRuleId || bulkBusy} onClick={() => void handleBulkIssueVoucher()}>
+              <Ticket className="mr-2 h-4 w-4" />
+              Issue voucher
+            </Button>
+          </div>
+          <Button size="sm" variant="outline" disabled={bulkBusy} onClick={() => void handleDownloadSelected()}>
+            <Download className="mr-2 h-4 w-4" />
+            Download CSV
+          </Button>
+          <Button size="sm" variant="outline" disabled={bulkBusy} onClick={handleDownloadSelectedVCards}>
+            <Download className="mr-2 h-4 w-4" />
+            Download vCards
+          </Button>
+          <Button size="sm" variant="outline" className="text-destructive" disabled={bulkBusy} onClick={() => setBulkDeleteOpen(true)}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete
+          </Button>
+          {bulkBusy && <Loader2 className="h-4 w-4 animate-spin text-primary" />}
+          <Button size="sm" variant="ghost" onClick={() => setSelected({})} disabled={bulkBusy}>Clear selection</Button>
+        </div>
+      )}
+
+      <div className={cn("overflow-x-auto bg-card p-4 rounded-md shadow-sm", loading && "opacity-60")}>
         <table className="min-w-full divide-y divide-border">
           <thead>
                 <tr className="text-sm text-muted-foreground">
-                  <th className="px-4 py-3 text-left">Name</th>
+                  <th className="px-4 py-3 text-left w-10">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4"
+                      checked={allVisibleSelected}
+                      onChange={(e) => toggleAllVisible(e.target.checked)}
+                      aria-label="Select all customer contacts"
+                    />
+                  </th>
+                  <th className="px-4 py-3 text-left">
+                    <button className="inline-flex items-center gap-1" onClick={() => toggleSort("name")}>
+                      Name
+                      {sortIcon("name")}
+                    </button>
+                  </th>
                   <th className="px-4 py-3 text-left">Email</th>
                   <th className="px-4 py-3 text-left">Phone</th>
-                  {isAdmin && <th className="px-4 py-3 text-left">Assigned To</th>}
-                  <th className="px-4 py-3 text-left">Created</th>
+                  <th className="px-4 py-3 text-left">Tags</th>
+                  <th className="px-4 py-3 text-left">Consent</th>
+                  {isAdmin && (
+                    <th className="px-4 py-3 text-left">
+                      <button className="inline-flex items-center gap-1" onClick={() => toggleSort("assigned_user")}>
+                        Assigned To
+                        {sortIcon("assigned_user")}
+                      </button>
+                    </th>
+                  )}
+                  <th className="px-4 py-3 text-left">
+                    <button className="inline-flex items-center gap-1" onClick={() => toggleSort("created_at")}>
+                      Created
+                      {sortIcon("created_at")}
+                    </button>
+                  </th>
                   <th className="px-4 py-3 text-left">Actions</th>
                 </tr>
           </thead>
           <tbody className="divide-y">
-            {filteredContacts.map((contact) => (
+            {contacts.map((contact) => (
               <tr
                 key={contact.id}
                 className="hover:bg-muted/5 cursor-pointer"
@@ -219,11 +776,31 @@ const ContactsList = () => {
                   if (e.key === "Enter" || e.key === " ") handleRowClick(contact);
                 }}
               >
+                <td className="px-4 py-3" onClick={(e) => e.stopPropagation()}>
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4"
+                    checked={Boolean(selected[contact.id])}
+                    onChange={(e) => toggleSelected(contact, e.target.checked)}
+                    aria-label={`Select ${contact.name}`}
+                  />
+                </td>
                 <td className="px-4 py-3">{contact.name}</td>
                 <td className="px-4 py-3">{contact.email ?? <span className="text-muted-foreground">—</span>}</td>
-                <td className="px-4 py-3">{contact.phone ?? <span className="text-muted-foreground">—</span>}</td>
+                <td className="px-4 py-3">{contact.phone ? formatPhone(contact.phone, country) : <span className="text-muted-foreground">—</span>}</td>
+                <td className="px-4 py-3">
+                  <div className="flex flex-wrap gap-1">
+                    {contactTags(contact).slice(0, 3).map((t) => (
+                      <TagChip key={t.id} tag={t} />
+                    ))}
+                    {contactTags(contact).length > 3 && <span className="text-xs text-muted-foreground">+{contactTags(contact).length - 3}</span>}
+                  </div>
+                </td>
+                <td className="px-4 py-3">
+                  <ConsentBadges state={consentStates[contact.id]} />
+                </td>
                 {isAdmin && (
-                  <td className="px-4 py-3">{contact.assigned_user_name ?? (contact.assigned_user_id ? contact.assigned_user_id : <span className="text-muted-foreground">—</span>)}</td>
+                  <td className="px-4 py-3">{contact.assigned_user?.full_name ?? (contact.assigned_user_id ? <span className="text-muted-foreground">Former user</span> : <span className="text-muted-foreground">—</span>)}</td>
                 )}
                 <td className="px-4 py-3">{new Date(contact.created_at).toLocaleDateString()}</td>
                 <td className="px-4 py-3">
@@ -263,29 +840,90 @@ const ContactsList = () => {
                 </td>
               </tr>
             ))}
-            {filteredContacts.length === 0 && (
+            {contacts.length === 0 && (
               <tr>
-                <td colSpan={5} className="py-8 text-center text-muted-foreground">No customer contacts found</td>
+                <td colSpan={isAdmin ? 9 : 8} className="py-8 text-center text-muted-foreground">No customer contacts found</td>
               </tr>
             )}
           </tbody>
         </table>
       </div>
 
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between text-sm text-muted-foreground">
+        <div className="flex items-center gap-2">
+          <span>
+            {total === 0 ? "0" : `${page * pageSize + 1}–${Math.min(total, (page + 1) * pageSize)}`} of {total}
+          </span>
+          <select
+            aria-label="Rows per page"
+            className="rounded-md border border-input bg-background px-2 py-1 text-sm"
+            value={pageSize}
+            onChange={(e) => setPageSize(Number(e.target.value))}
+          >
+            {PAGE_SIZES.map((n) => (
+              <option key={n} value={n}>{n} per page</option>
+            ))}
+          </select>
+        </div>
+        {pageCount > 1 && (
+          <Pagination className="mx-0 w-auto justify-end">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  aria-disabled={page === 0}
+                  className={cn(page === 0 && "pointer-events-none opacity-50")}
+                  onClick={(e) => { e.preventDefault(); setPage((p) => Math.max(0, p - 1)); }}
+                />
+              </PaginationItem>
+              {pageNumbers(page, pageCount).map((n, i) =>
+                n === null ? (
+                  <PaginationItem key={`gap-${i}`}>
+                    <PaginationEllipsis />
+                  </PaginationItem>
+                ) : (
+                  <PaginationItem key={n}>
+                    <PaginationLink href="#" isActive={n === page} onClick={(e) => { e.preventDefault(); setPage(n); }}>
+                      {n + 1}
+                    </PaginationLink>
+                  </PaginationItem>
+                ),
+              )}
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  aria-disabled={page >= pageCount - 1}
+                  className={cn(page >= pageCount - 1 && "pointer-events-none opacity-50")}
+                  onClick={(e) => { e.preventDefault(); setPage((p) => Math.min(pageCount - 1, p + 1)); }}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </div>
+
       <ContactDialog open={dialogOpen} onClose={handleDialogClose} contact={selectedContact} />
+      <ContactImportDialog
+        open={importOpen}
+        onClose={(refresh) => {
+          setImportOpen(false);
+          if (refresh) void fetchContacts();
+        }}
+      />
       <ConfirmDialog
         open={confirmOpen}
         onOpenChange={(open) => setConfirmOpen(open)}
         title="Delete customer contact"
-        description="Are you sure you want to delete this customer contact? This action cannot be undone."
+        description="Are you sure you want to delete this customer contact? An admin can restore it from the trash."
         confirmLabel="Delete"
         onConfirm={async () => {
           if (!contactToDelete) return;
           setConfirmOpen(false);
           try {
-            const { error } = await supabase.from("contacts").delete().eq("id", contactToDelete.id);
+            const { data: trashed, error } = await supabase.rpc("trash_records", { _kind: "contact", _ids: [contactToDelete.id] });
             if (error) throw error;
-            toast.success("Customer contact deleted");
+            if (!trashed) throw new Error("You don't have permission to delete this customer contact");
+            toast.success("Customer contact moved to trash");
             void fetchContacts();
           } catch (err) {
             console.error(err);
@@ -295,6 +933,28 @@ const ContactsList = () => {
           }
         }}
       />
+      <ConfirmDialog
+        open={bulkDeleteOpen}
+        onOpenChange={setBulkDeleteOpen}
+        title="Delete customer contacts"
+        description={`Delete ${selectedContactIds.length} selected customer contacts? An admin can restore them from the trash.`}
+        confirmLabel="Delete"
+        onConfirm={handleBulkDelete}
+      />
+      <ConfirmDialog
+        open={Boolean(bulkConsent)}
+        onOpenChange={(open) => !open && setBulkConsent(null)}
+        title="No marketing consent"
+        description={`${bulkConsent?.unknown ?? 0} of the selected customer contacts have no marketing consent recorded. Issue vouchers to them anyway? Customer contacts who opted out are skipped.`}
+        confirmLabel="Issue anyway"
+        onConfirm={() => (bulkConsent ? issueBulkVouchers(bulkConsent.states) : undefined)}
+      />
+      <BulkResultDialog
+        open={Boolean(bulkResults)}
+        onOpenChange={(open) => !open && setBulkResults(null)}
+        title={bulkResults?.title ?? ""}
+        results={bulkResults?.results ?? []}
+      />
       {/* Contact profile is now a dedicated page at /contacts/:id; modal removed */}
     </div>
   );
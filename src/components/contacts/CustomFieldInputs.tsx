@@ -0,0 +1,63 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { parseCustomFieldInput, type CustomFieldDefinition, type CustomFieldValues } from "@/lib/customFields";
+
+type Props = {
+  fields: CustomFieldDefinition[];
+  values: CustomFieldValues;
+  onChange: (values: CustomFieldValues) => void;
+  errors?: Record<string, string>;
+};
+
+const CustomFieldInputs = ({ fields, values, onChange, errors = {} }: Props) => {
+  const set = (def: CustomFieldDefinition, raw: string | boolean) => onChange({ ...values, [def.key]: parseCustomFieldInput(def, raw) });
+
+  return (
+    <>
+      {fields.map((def) => {
+        const id = `cf-${def.key}`;
+        const value = values[def.key];
+        const label = `${def.label}${def.is_required && def.field_type !== "boolean" ? " *" : ""}`;
+
+        return (
+          <div key={def.id} className="space-y-2">
+            {def.field_type === "boolean" ? (
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <input id={id} type="checkbox" checked={value === true} onChange={(e) => set(def, e.target.checked)} />
+                {def.label}
+              </label>
+            ) : (
+              <>
+                <Label htmlFor={id}>{label}</Label>
+                {def.field_type === "select" ? (
+                  <select
+                    id={id}
+                    className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    value={typeof value === "string" ? value : ""}
+                    onChange={(e) => set(def, e.target.value)}
+                  >
+                    <option value="">—</option>
+                    {def.options.map((o) => (
+                      <option key={o} value={o}>{o}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <Input
+                    id={id}
+                    type={def.field_type === "number" ? "number" : def.field_type === "date" ? "date" : "text"}
+                    step={def.field_type === "number" ? "any" : undefined}
+                    value={value === null || value === undefined ? "" : String(value)}
+                    onChange={(e) => set(def, e.target.value)}
+                  />
+                )}
+              </>
+            )}
+            {errors[def.key] && <div className="text-xs text-destructive">{errors[def.key]}</div>}
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+export default CustomFieldInputs;
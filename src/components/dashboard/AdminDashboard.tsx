@@ -1,9 +1,11 @@
 import DashboardLayout from "./DashboardLayout";
 import ContactsList from "@/components/contacts/ContactsList";
+import TasksPanel from "@/components/tasks/TasksPanel";
 
 const AdminDashboard = () => {
   return (
     <DashboardLayout title="Admin Dashboard">
+      <TasksPanel title="Company Tasks" scope="company" />
       <ContactsList />
     </DashboardLayout>
   );
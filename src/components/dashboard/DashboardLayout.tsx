@@ -57,9 +57,18 @@ const DashboardLayout = ({ children, title }: DashboardLayoutProps) => {
                       <Link to="/contacts">
                         <Button variant="ghost" className="justify-start text-white hover:bg-white/10 rounded-md px-3 py-2">Customer Contacts</Button>
                       </Link>
+                      <Link to="/accounts">
+                        <Button variant="ghost" className="justify-start text-white hover:bg-white/10 rounded-md px-3 py-2">Accounts</Button>
+                      </Link>
                       <Link to="/purchases">
                         <Button variant="ghost" className="justify-start text-white hover:bg-white/10 rounded-md px-3 py-2">Purchases</Button>
                       </Link>
+                      <Link to="/products">
+                        <Button variant="ghost" className="justify-start text-white hover:bg-white/10 rounded-md px-3 py-2">Products</Button>
+                      </Link>
+                      <Link to="/stock">
+                        <Button variant="ghost" className="justify-start text-white hover:bg-white/10 rounded-md px-3 py-2">Stock</Button>
+                      </Link>
                       {/* Record Purchase moved into Purchases page; link removed to avoid duplication */}
                       {isAdmin && (
                         <>
@@ -69,6 +78,18 @@ const DashboardLayout = ({ children, title }: DashboardLayoutProps) => {
                           <Link to="/company/users">
                             <Button variant="ghost" className="justify-start text-white hover:bg-white/10 rounded-md px-3 py-2">Company Users</Button>
                           </Link>
+                          <Link to="/company/custom-fields">
+                            <Button variant="ghost" className="justify-start text-white hover:bg-white/10 rounded-md px-3 py-2">Custom Fields</Button>
+                          </Link>
+                          <Link to="/company/assignment-rules">
+                            <Button variant="ghost" className="justify-start text-white hover:bg-white/10 rounded-md px-3 py-2">Assignment Rules</Button>
+                          </Link>
+                          <Link to="/audit-log">
+                            <Button variant="ghost" className="justify-start text-white hover:bg-white/10 rounded-md px-3 py-2">Audit Log</Button>
+                          </Link>
+                          <Link to="/trash">
+                            <Button variant="ghost" className="justify-start text-white hover:bg-white/10 rounded-md px-3 py-2">Trash</Button>
+                          </Link>
                         </>
                       )}
                       <Link to="/reports">
@@ -1,9 +1,11 @@
 import DashboardLayout from "./DashboardLayout";
 import ContactsList from "@/components/contacts/ContactsList";
+import TasksPanel from "@/components/tasks/TasksPanel";
 
 const UserDashboard = () => {
   return (
     <DashboardLayout title="My Dashboard">
+      <TasksPanel title="My Tasks" scope="mine" />
       <ContactsList />
     </DashboardLayout>
   );
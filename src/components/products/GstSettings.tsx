@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Receipt } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useGstSettings } from "@/hooks/useGstSettings";
+import { INDIAN_STATES } from "@/lib/address";
+import { isGstinFormat } from "@/lib/gst";
+import { toast } from "sonner";
+
+const GstSettings = () => {
+  const { isAdmin } = useAuth();
+  const { settings, loading, refresh } = useGstSettings();
+  const [gstin, setGstin] = useState("");
+  const [state, setState] = useState("");
+  const [inclusive, setInclusive] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setGstin(settings.gstin ?? "");
+    setState(settings.gst_state ?? "");
+    setInclusive(settings.prices_include_tax);
+  }, [settings]);
+
+  const dirty = gstin.trim().toUpperCase() !== (settings.gstin ?? "") || state !== (settings.gst_state ?? "") || inclusive !== settings.prices_include_tax;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (gstin.trim() && !isGstinFormat(gstin)) return toast.error("A GSTIN is 15 characters, starting with the two-digit state code");
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc("set_gst_settings", { _gstin: gstin, _state: state, _prices_include_tax: inclusive });
+      if (error) throw error;
+      toast.success("GST settings updated");
+      await refresh();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to update GST settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-gradient-primary rounded-2xl">
+            <Receipt className="h-8 w-8 text-primary-foreground" />
+          </div>
+          <div>
+            <CardTitle>GST</CardTitle>
+            <div className="text-sm text-muted-foreground">
+              Sales to customers in your registered state are taxed as CGST + SGST, to other states and abroad as IGST
+            </div>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <form onSubmit={handleSave} className="grid gap-3 md:grid-cols-12 md:items-end">
+            <div className="space-y-2 md:col-span-4">
+              <Label htmlFor="gstin">GSTIN</Label>
+              <Input id="gstin" className="font-mono uppercase" maxLength={15} value={gstin} onChange={(e) => setGstin(e.target.value)} disabled={!isAdmin} />
+            </div>
+            <div className="space-y-2 md:col-span-4">
+              <Label htmlFor="gst-state">Registered state</Label>
+              <select
+                id="gst-state"
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                value={state}
+                onChange={(e) => setState(e.target.value)}
+                disabled={!isAdmin}
+              >
+                <option value="">Not set</option>
+                {INDIAN_STATES.map((s) => (
+                  <option key={s} value={s}>{s}</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-sm md:col-span-3 md:pb-2">
+              <input type="checkbox" checked={inclusive} onChange={(e) => setInclusive(e.target.checked)} disabled={!isAdmin} />
+              Prices include GST
+            </label>
+            {isAdmin && (
+              <div className="md:col-span-1 flex justify-end">
+                <Button type="submit" size="sm" variant="outline" disabled={saving || !dirty}>
+                  {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+                </Button>
+              </div>
+            )}
+            <div className="text-xs text-muted-foreground md:col-span-12">
+              The pricing mode is the default for new orders and can be changed on each one. Until the registered state is set, every sale is taxed as CGST + SGST.
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GstSettings;
@@ -0,0 +1,312 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import ConfirmDialog from "@/components/ui/confirm-dialog";
+import ExportMenu from "@/components/ui/export-menu";
+import { Edit2, Loader2, Package, Plus, Search, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useProducts } from "@/hooks/useProducts";
+import { formatINR } from "@/lib/utils";
+import { productKey, type Product } from "@/lib/products";
+import { exportRows, type ExportColumn, type ExportFormat } from "@/lib/export";
+import { toast } from "sonner";
+
+type FormState = {
+  sku: string;
+  name: string;
+  category: string;
+  unit_price: string;
+  tax_rate: string;
+  active: boolean;
+};
+
+const emptyForm: FormState = { sku: "", name: "", category: "", unit_price: "", tax_rate: "0", active: true };
+
+const ProductCatalog = () => {
+  const { profile, user, isAdmin } = useAuth();
+  const { products, loading, refresh } = useProducts();
+  const [search, setSearch] = useState("");
+  const [category, setCategory] = useState("");
+  const [showInactive, setShowInactive] = useState(false);
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState<Product | null>(null);
+  const [form, setForm] = useState<FormState>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [productToDelete, setProductToDelete] = useState<Product | null>(null);
+
+  const categories = useMemo(
+    () => Array.from(new Set(products.map((p) => p.category).filter((c): c is string => Boolean(c)))).sort((a, b) => a.localeCompare(b)),
+    [products],
+  );
+
+  const visible = useMemo(() => {
+    const key = productKey(search);
+    return products.filter(
+      (p) =>
+        (showInactive || p.active) &&
+        (!category || p.category === category) &&
+        (!key || productKey(`${p.name} ${p.sku}`).includes(key)),
+    );
+  }, [products, search, category, showInactive]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setOpen(true);
+  };
+
+  const openEdit = (p: Product) => {
+    setEditing(p);
+    setForm({
+      sku: p.sku,
+      name: p.name,
+      category: p.category ?? "",
+      unit_price: String(p.unit_price),
+      tax_rate: String(p.tax_rate),
+      active: p.active,
+    });
+    setOpen(true);
+  };
+
+  const handleSave = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!profile || !user) return;
+    const sku = form.sku.trim();
+    const name = form.name.trim();
+    if (!sku) return toast.error("SKU is required");
+    if (!name) return toast.error("Name is required");
+    const price = Number(form.unit_price);
+    if (form.unit_price.trim() === "" || isNaN(price) || price < 0) return toast.error("Enter a valid unit price");
+    const tax = Number(form.tax_rate || 0);
+    if (isNaN(tax) || tax < 0 || tax > 100) return toast.error("Enter a tax rate between 0 and 100");
+    if (products.some((p) => p.id !== editing?.id && p.sku.toLowerCase() === sku.toLowerCase())) {
+      return toast.error(`SKU "${sku}" is already in the catalog`);
+    }
+    // a second spelling of an existing product is what the catalog is meant to prevent
+    const twin = products.find((p) => p.id !== editing?.id && productKey(p.name) === productKey(name));
+    if (twin) return toast.error(`"${twin.name}" (${twin.sku}) is already in the catalog`);
+
+    const values = { sku, name, category: form.category.trim() || null, unit_price: price, tax_rate: tax, active: form.active };
+    setSaving(true);
+    try {
+      if (editing) {
+        const { error } = await supabase.from("products").update({ ...values, updated_at: new Date().toISOString() }).eq("id", editing.id);
+        if (error) throw error;
+        toast.success("Product updated");
+      } else {
+        const { error } = await supabase.from("products").insert({ ...values, company_id: profile.company_id, created_by: user.id });
+        if (error) throw error;
+        toast.success("Product added");
+      }
+      setOpen(false);
+      void refresh();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to save product");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteConfirmed = async () => {
+    if (!productToDelete) return;
+    try {
+      const { error } = await supabase.from("products").delete().eq("id", productToDelete.id);
+      if (error) throw error;
+      toast.success("Product deleted");
+      void refresh();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to delete product");
+    } finally {
+      setProductToDelete(null);
+    }
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    const columns: ExportColumn<Product>[] = [
+      { header: "SKU", value: (p) => p.sku },
+      { header: "Name", value: (p) => p.name },
+      { header: "Category", value: (p) => p.category ?? "" },
+      { header: "Unit Price", value: (p) => Number(p.unit_price) },
+      { header: "GST Rate (%)", value: (p) => Number(p.tax_rate) },
+      { header: "Active", value: (p) => (p.active ? "Yes" : "No") },
+    ];
+    try {
+      await exportRows(visible, columns, "price-list", format);
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to export price list");
+    }
+  };
+
+  if (!profile) return null;
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-gradient-primary rounded-2xl">
+              <Package className="h-8 w-8 text-primary-foreground" />
+            </div>
+            <div>
+              <CardTitle>Products</CardTitle>
+              <div className="text-sm text-muted-foreground">The catalog and price list used when recording purchases</div>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <ExportMenu onExport={handleExport} disabled={loading || visible.length === 0} />
+            {isAdmin && (
+              <Button onClick={openCreate}>
+                <Plus className="mr-2 h-4 w-4" /> New Product
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="relative flex-1 min-w-48">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground h-4 w-4" />
+            <Input className="pl-10" placeholder="Search by name or SKU..." value={search} onChange={(e) => setSearch(e.target.value)} />
+          </div>
+          <select
+            aria-label="Category"
+            className="rounded-md border border-input bg-background px-3 py-2 text-sm"
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+          >
+            <option value="">All categories</option>
+            {categories.map((c) => (
+              <option key={c} value={c}>{c}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={showInactive} onChange={(e) => setShowInactive(e.target.checked)} />
+            Show inactive
+          </label>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full table-auto">
+              <thead>
+                <tr className="text-left text-sm text-muted-foreground">
+                  <th className="py-2">SKU</th>
+                  <th className="py-2">Name</th>
+                  <th className="py-2">Category</th>
+                  <th className="py-2">Unit Price</th>
+                  <th className="py-2">GST Rate</th>
+                  <th className="py-2">Status</th>
+                  {isAdmin && <th className="py-2 text-right w-28">Actions</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((p) => (
+                  <tr key={p.id} className={`border-t${p.active ? "" : " text-muted-foreground"}`}>
+                    <td className="py-2 font-mono text-sm">{p.sku}</td>
+                    <td className="py-2">{p.name}</td>
+                    <td className="py-2">{p.category ?? <span className="text-muted-foreground">—</span>}</td>
+                    <td className="py-2">{formatINR(p.unit_price)}</td>
+                    <td className="py-2">{Number(p.tax_rate)}%</td>
+                    <td className="py-2">{p.active ? "Active" : "Inactive"}</td>
+                    {isAdmin && (
+                      <td className="py-2 text-right">
+                        <div className="inline-flex items-center justify-end gap-1">
+                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => openEdit(p)} aria-label={`Edit ${p.name}`}>
+                            <Edit2 className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setProductToDelete(p)} aria-label={`Delete ${p.name}`}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+                {visible.length === 0 && (
+                  <tr>
+                    <td colSpan={isAdmin ? 7 : 6} className="py-8 text-center text-muted-foreground">
+                      {products.length === 0 ? "No products in the catalog yet" : "No products match"}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md w-full">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Product" : "New Product"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="product-sku">SKU</Label>
+                <Input id="product-sku" value={form.sku} onChange={(e) => setForm({ ...form, sku: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="product-category">Category</Label>
+                <Input id="product-category" list="product-categories" value={form.category} onChange={(e) => setForm({ ...form, category: e.target.value })} />
+                <datalist id="product-categories">
+                  {categories.map((c) => (
+                    <option key={c} value={c} />
+                  ))}
+                </datalist>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="product-name">Name</Label>
+              <Input id="product-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="product-price">Unit Price</Label>
+                <Input id="product-price" type="number" step="0.01" min="0" value={form.unit_price} onChange={(e) => setForm({ ...form, unit_price: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="product-tax">GST Rate (%)</Label>
+                <Input id="product-tax" type="number" step="0.01" min="0" max="100" value={form.tax_rate} onChange={(e) => setForm({ ...form, tax_rate: e.target.value })} />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={form.active} onChange={(e) => setForm({ ...form, active: e.target.checked })} />
+              Active — offered when recording purchases
+            </label>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setOpen(false)} disabled={saving}>Cancel</Button>
+              <Button type="submit" disabled={saving}>{saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={Boolean(productToDelete)}
+        onOpenChange={(open) => !open && setProductToDelete(null)}
+        title="Delete product"
+        description={`"${productToDelete?.name ?? ""}" will be removed from the catalog. Past purchases keep the item name but are no longer linked to it, and any stock tracking for it ends. Mark it inactive instead to keep both.`}
+        confirmLabel="Delete"
+        onConfirm={handleDeleteConfirmed}
+      />
+    </Card>
+  );
+};
+
+export default ProductCatalog;
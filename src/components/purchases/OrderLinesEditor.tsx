@@ -0,0 +1,172 @@
+import { useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AlertTriangle, Plus, X } from "lucide-react";
+import { formatINR } from "@/lib/utils";
+import { useProducts } from "@/hooks/useProducts";
+import { useStockItems } from "@/hooks/useStockItems";
+import ProductPicker from "./ProductPicker";
+import { emptyOrderLine, lineTotal, orderTotals, type OrderLineForm } from "@/lib/orders";
+import { GST_RATES, supplyLabel, taxTotals } from "@/lib/gst";
+import { matchProduct } from "@/lib/products";
+
+type Props = {
+  lines: OrderLineForm[];
+  onChange: (lines: OrderLineForm[]) => void;
+  disabled?: boolean;
+  // units of each product this order already took from stock, when editing it
+  reserved?: Record<string, number>;
+  // whether the prices entered already include GST
+  pricesIncludeTax: boolean;
+  onPricesIncludeTaxChange: (value: boolean) => void;
+  // a sale to another state is taxed as IGST instead of CGST + SGST
+  interState: boolean;
+};
+
+const OrderLinesEditor = ({ lines, onChange, disabled, reserved, pricesIncludeTax, onPricesIncludeTaxChange, interState }: Props) => {
+  const { products } = useProducts();
+  const { stockItems } = useStockItems();
+  const totals = orderTotals(lines);
+  const tax = taxTotals(
+    lines.map((l) => ({ amount: lineTotal(l), rate: Number(l.tax_rate) || 0 })),
+    pricesIncludeTax,
+    interState,
+  );
+
+  // save_purchase links a typed item that names a catalog product, so its stock counts too
+  const stockProductIds = useMemo(
+    () => new Map(lines.map((l) => [l.key, l.product_id ?? matchProduct(products, l.product)?.id ?? null])),
+    [lines, products],
+  );
+
+  // a product may be on several lines, so compare the order's total units with what is on hand
+  const shortages = useMemo(() => {
+    const wanted = new Map<string, number>();
+    lines.forEach((l) => {
+      const id = stockProductIds.get(l.key);
+      if (id) wanted.set(id, (wanted.get(id) ?? 0) + (Number(l.quantity) || 0));
+    });
+    const short = new Map<string, number>();
+    stockItems.forEach((s) => {
+      const available = s.on_hand + (reserved?.[s.product_id] ?? 0);
+      if ((wanted.get(s.product_id) ?? 0) > available) short.set(s.product_id, available);
+    });
+    return short;
+  }, [lines, stockProductIds, stockItems, reserved]);
+
+  const update = (key: string, patch: Partial<OrderLineForm>) => onChange(lines.map((l) => (l.key === key ? { ...l, ...patch } : l)));
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto">
+        <table className="w-full table-auto text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground">
+              <th className="py-1 pr-2 font-medium min-w-40">Item</th>
+              <th className="py-1 pr-2 font-medium w-20">Qty</th>
+              <th className="py-1 pr-2 font-medium w-28">Unit Price</th>
+              <th className="py-1 pr-2 font-medium w-28">Discount</th>
+              <th className="py-1 pr-2 font-medium w-24">GST %</th>
+              <th className="py-1 pr-2 font-medium w-28 text-right">Line Total</th>
+              <th className="py-1 w-8"> </th>
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map((l, i) => (
+              <tr key={l.key}>
+                <td className="py-1 pr-2">
+                  <ProductPicker
+                    label={`Item ${i + 1}`}
+                    products={products}
+                    productId={l.product_id}
+                    product={l.product}
+                    // the catalog price is only a starting point; it can be changed per line
+                    onSelect={(p) => update(l.key, { product_id: p.id, product: p.name, unit_price: String(p.unit_price), tax_rate: String(p.tax_rate) })}
+                    onFreeText={(name) => update(l.key, { product_id: null, product: name })}
+                    disabled={disabled}
+                  />
+                  {shortages.has(stockProductIds.get(l.key) ?? "") && (
+                    <div className="mt-1 flex items-center gap-1 text-xs text-amber-600">
+                      <AlertTriangle className="h-3 w-3" />
+                      {Math.max(shortages.get(stockProductIds.get(l.key) ?? "") ?? 0, 0)} in stock
+                    </div>
+                  )}
+                </td>
+                <td className="py-1 pr-2">
+                  <Input aria-label={`Quantity ${i + 1}`} type="number" step="1" min="1" value={l.quantity} onChange={(e) => update(l.key, { quantity: e.target.value })} disabled={disabled} />
+                </td>
+                <td className="py-1 pr-2">
+                  <Input aria-label={`Unit price ${i + 1}`} type="number" step="0.01" min="0" value={l.unit_price} onChange={(e) => update(l.key, { unit_price: e.target.value })} disabled={disabled} />
+                </td>
+                <td className="py-1 pr-2">
+                  <Input aria-label={`Discount ${i + 1}`} type="number" step="0.01" min="0" placeholder="0" value={l.discount} onChange={(e) => update(l.key, { discount: e.target.value })} disabled={disabled} />
+                </td>
+                <td className="py-1 pr-2">
+                  <Input
+                    aria-label={`GST rate ${i + 1}`}
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="100"
+                    list="gst-rates"
+                    value={l.tax_rate}
+                    onChange={(e) => update(l.key, { tax_rate: e.target.value })}
+                    disabled={disabled}
+                  />
+                </td>
+                <td className="py-1 pr-2 text-right whitespace-nowrap">{formatINR(lineTotal(l))}</td>
+                <td className="py-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    aria-label={`Remove line ${i + 1}`}
+                    onClick={() => onChange(lines.filter((x) => x.key !== l.key))}
+                    disabled={disabled || lines.length === 1}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <datalist id="gst-rates">
+          {GST_RATES.map((r) => (
+            <option key={r} value={r} />
+          ))}
+        </datalist>
+      </div>
+      {shortages.size > 0 && (
+        <div className="text-sm text-amber-600">This order sells more than is in stock. It can still be recorded; the stock level will go below zero.</div>
+      )}
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="space-y-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => onChange([...lines, emptyOrderLine()])} disabled={disabled}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add line
+          </Button>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={pricesIncludeTax} onChange={(e) => onPricesIncludeTaxChange(e.target.checked)} disabled={disabled} />
+            Prices include GST
+          </label>
+        </div>
+        <div className="text-sm text-right space-y-0.5">
+          <div className="text-muted-foreground">
+            {totals.units} {totals.units === 1 ? "unit" : "units"} · Subtotal {formatINR(totals.subtotal)}
+            {totals.discount > 0 && ` · Discount ${formatINR(totals.discount)}`}
+          </div>
+          <div className="text-muted-foreground">
+            Taxable {formatINR(tax.taxable)} ·{" "}
+            {interState ? `IGST ${formatINR(tax.igst)}` : `CGST ${formatINR(tax.cgst)} · SGST ${formatINR(tax.sgst)}`}
+          </div>
+          <div className="text-xs text-muted-foreground">{supplyLabel(interState)}</div>
+          <div className="font-semibold">Total {formatINR(tax.total)}</div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrderLinesEditor;
@@ -0,0 +1,105 @@
+import { useEffect, useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Loader2, Phone } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useCompanyCountry } from "@/hooks/useCompanyCountry";
+import { formatPhone, phoneDigits, toE164 } from "@/lib/phone";
+import { toast } from "sonner";
+
+export type PhoneMatch = { id: string; name: string; phone: string | null; city: string | null };
+
+type Props = {
+  onSelect: (contact: PhoneMatch) => void;
+};
+
+// the fewest digits worth searching on; shorter input matches too many customers
+const MIN_DIGITS = 4;
+
+const PhoneLookup = ({ onSelect }: Props) => {
+  const { profile, isAdmin, user } = useAuth();
+  const { country } = useCompanyCountry();
+  const [term, setTerm] = useState("");
+  const [matches, setMatches] = useState<PhoneMatch[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [searched, setSearched] = useState(false);
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    const digits = phoneDigits(term);
+    if (!profile || digits.length < MIN_DIGITS) {
+      setMatches([]);
+      setSearched(false);
+      return;
+    }
+
+    const id = setTimeout(async () => {
+      const requestId = ++latestRequest.current;
+      setSearching(true);
+      try {
+        // a complete number is matched exactly; a partial one by its digits
+        const e164 = toE164(term, country);
+        let query = supabase
+          .from("contacts")
+          .select("id, name, phone, city")
+          .eq("company_id", profile.company_id)
+          .is("deleted_at", null);
+        // stored numbers carry a country code instead of a trunk 0, so drop leading zeros
+        query = e164 ? query.eq("phone", e164) : query.ilike("phone", `%${digits.replace(/^0+/, "")}%`);
+        if (!isAdmin && user) {
+          query = query.or(`created_by.eq.${user.id},assigned_user_id.eq.${user.id}`);
+        }
+        const { data, error } = await query.order("name", { ascending: true }).limit(10);
+        if (requestId !== latestRequest.current) return;
+        if (error) throw error;
+        setMatches((data as PhoneMatch[]) || []);
+        setSearched(true);
+      } catch (err) {
+        console.error(err);
+        toast.error("Failed to look up phone number");
+      } finally {
+        if (requestId === latestRequest.current) setSearching(false);
+      }
+    }, 300);
+    return () => clearTimeout(id);
+  }, [term, country, profile, isAdmin, user]);
+
+  const select = (contact: PhoneMatch) => {
+    onSelect(contact);
+    setTerm("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Phone className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground h-4 w-4" />
+        <Input
+          type="tel"
+          className="pl-10"
+          aria-label="Find customer by phone"
+          placeholder="Find customer by phone..."
+          value={term}
+          onChange={(e) => setTerm(e.target.value)}
+        />
+        {searching && <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+      {matches.length > 0 && (
+        <ul className="divide-y rounded-md border">
+          {matches.map((c) => (
+            <li key={c.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+              <div>
+                <div className="font-medium">{c.name}</div>
+                <div className="text-xs text-muted-foreground">{[formatPhone(c.phone, country), c.city].filter(Boolean).join(" · ")}</div>
+              </div>
+              <Button type="button" size="sm" variant="outline" onClick={() => select(c)}>Select</Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {searched && !searching && matches.length === 0 && <div className="text-sm text-muted-foreground">No customer contact with this phone number</div>}
+    </div>
+  );
+};
+
+export default PhoneLookup;
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { Check, ChevronsUpDown, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { cn, formatINR } from "@/lib/utils";
+import { matchProduct, productKey, type Product } from "@/lib/products";
+
+type Props = {
+  products: Product[];
+  productId: string | null;
+  product: string;
+  onSelect: (product: Product) => void;
+  // a one-off item that is not in the catalog
+  onFreeText: (name: string) => void;
+  label?: string;
+  disabled?: boolean;
+};
+
+// spelling and punctuation are ignored, so "tshirt" finds "T-Shirt"
+const filterProducts = (value: string, search: string) => (productKey(value).includes(productKey(search)) ? 1 : 0);
+
+const ProductPicker = ({ products, productId, product, onSelect, onFreeText, label = "Item", disabled }: Props) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+
+  const active = products.filter((p) => p.active);
+  const typed = search.trim();
+  const catalogMatch = typed ? matchProduct(active, typed) : undefined;
+
+  const choose = (p: Product) => {
+    onSelect(p);
+    setSearch("");
+    setOpen(false);
+  };
+
+  const keepTyped = () => {
+    // a name that is already in the catalog is recorded as that product
+    if (catalogMatch) choose(catalogMatch);
+    else {
+      onFreeText(typed);
+      setSearch("");
+      setOpen(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" role="combobox" aria-label={label} className="w-full justify-between font-normal" disabled={disabled}>
+          <span className={cn("truncate", !product && "text-muted-foreground")}>{product || "Choose an item"}</span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="start">
+        <Command filter={filterProducts}>
+          <CommandInput
+            placeholder="Search by name or SKU..."
+            value={search}
+            onValueChange={setSearch}
+            onKeyDown={(e) => {
+              // Enter with nothing highlighted keeps what was typed
+              if (e.key === "Enter" && typed && active.every((p) => !filterProducts(`${p.name} ${p.sku} ${p.category ?? ""}`, typed))) {
+                e.preventDefault();
+                keepTyped();
+              }
+            }}
+          />
+          <CommandList>
+            <CommandEmpty>No products in the catalog match</CommandEmpty>
+            <CommandGroup>
+              {active.map((p) => (
+                <CommandItem key={p.id} value={`${p.name} ${p.sku} ${p.category ?? ""}`} onSelect={() => choose(p)}>
+                  <Check className={cn("mr-2 h-4 w-4", productId === p.id ? "opacity-100" : "opacity-0")} />
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate">{p.name}</div>
+                    <div className="text-xs text-muted-foreground">{[p.sku, p.category].filter(Boolean).join(" · ")}</div>
+                  </div>
+                  <span className="ml-2 text-xs">{formatINR(p.unit_price)}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+        {typed && !catalogMatch && (
+          <div className="border-t p-2">
+            <Button type="button" size="sm" variant="ghost" className="w-full justify-start" onClick={keepTyped}>
+              <Plus className="mr-2 h-4 w-4" />
+              Use "{typed}" as a one-off item
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ProductPicker;
@@ -5,6 +5,13 @@ import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Loader2 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import AuditHistory from "@/components/audit/AuditHistory";
+import OrderLinesEditor from "./OrderLinesEditor";
+import type { Json } from "@/integrations/supabase/types";
+import { emptyOrderLine, orderLineForm, toOrderLines, validateOrderLines, type OrderLineForm } from "@/lib/orders";
+import { isInterState } from "@/lib/gst";
+import { useGstSettings } from "@/hooks/useGstSettings";
 import { toast } from "sonner";
 
 type Props = {
@@ -15,11 +22,16 @@ type Props = {
 };
 
 const PurchaseDialog = ({ open, onOpenChange, purchaseId, onSaved }: Props) => {
+  const { settings: gst } = useGstSettings();
   const [loading, setLoading] = useState(false);
   const [fetching, setFetching] = useState(false);
-  const [item, setItem] = useState("");
-  const [amount, setAmount] = useState<string>("");
-  const [quantity, setQuantity] = useState<number | "">(1);
+  const [contactId, setContactId] = useState("");
+  const [lines, setLines] = useState<OrderLineForm[]>(() => [emptyOrderLine()]);
+  const [reserved, setReserved] = useState<Record<string, number>>({});
+  const [pricesIncludeTax, setPricesIncludeTax] = useState(true);
+  const [customer, setCustomer] = useState<{ state: string | null; country: string | null } | null>(null);
+  // an order with refunds is kept as it was sold; corrections go through further refunds
+  const [refunded, setRefunded] = useState(false);
   const [date, setDate] = useState<string>(new Date().toISOString().slice(0, 10));
 
   useEffect(() => {
@@ -27,14 +39,34 @@ const PurchaseDialog = ({ open, onOpenChange, purchaseId, onSaved }: Props) => {
       if (!purchaseId) return;
       setFetching(true);
       try {
-        const { data, error } = await supabase.from("purchases").select("*").eq("id", purchaseId).single();
-        if (error) throw error;
-        const p = data as any;
-        setItem(p.item || "");
-        setQuantity(p.quantity ?? 1);
-        // stored amount is total (amount = unitPrice * quantity); show unit price in UI
-        const unit = p.quantity ? Number(p.amount ?? 0) / Number(p.quantity) : Number(p.amount ?? 0);
-        setAmount(unit ? String(unit) : "");
+        const [purchaseRes, itemsRes, movementsRes] = await Promise.all([
+          supabase.from("purchases").select("*, contact:contacts(state, country)").eq("id", purchaseId).single(),
+          supabase.from("purchase_items").select("product_id, product, quantity, unit_price, discount, tax_rate").eq("purchase_id", purchaseId).order("position", { ascending: true }),
+          supabase.from("stock_movements").select("change, stock_item:stock_items(product_id)").eq("purchase_id", purchaseId).in("reason", ["sale", "sale_reversal"]),
+        ]);
+        if (purchaseRes.error) throw purchaseRes.error;
+        if (itemsRes.error) throw itemsRes.error;
+        if (movementsRes.error) throw movementsRes.error;
+        const p = purchaseRes.data;
+        setContactId(p.contact_id);
+        setRefunded(Number(p.refunded_amount) > 0);
+        setPricesIncludeTax(p.prices_include_tax);
+        setCustomer(p.contact);
+        const items = itemsRes.data ?? [];
+        // the stock this order already took is free to sell again on it; that is
+        // what its movements say, since an order placed before a product was
+        // tracked never took any
+        const held: Record<string, number> = {};
+        (movementsRes.data ?? []).forEach((m) => {
+          const productId = m.stock_item?.product_id;
+          if (productId) held[productId] = (held[productId] ?? 0) - m.change;
+        });
+        setReserved(held);
+        setLines(
+          items.length > 0
+            ? items.map((i) => orderLineForm({ product_id: i.product_id, product: i.product, quantity: i.quantity, unit_price: Number(i.unit_price), discount: Number(i.discount), tax_rate: Number(i.tax_rate) }))
+            : [emptyOrderLine()],
+        );
         setDate(p.purchase_date ? p.purchase_date.slice(0, 10) : new Date().toISOString().slice(0, 10));
       } catch (err) {
         console.error(err);
@@ -47,9 +79,12 @@ const PurchaseDialog = ({ open, onOpenChange, purchaseId, onSaved }: Props) => {
     if (open && purchaseId) void load();
     if (!open) {
       // reset
-      setItem("");
-      setAmount("");
-      setQuantity(1);
+      setContactId("");
+      setLines([emptyOrderLine()]);
+      setReserved({});
+      setRefunded(false);
+      setPricesIncludeTax(true);
+      setCustomer(null);
       setDate(new Date().toISOString().slice(0, 10));
     }
   }, [open, purchaseId]);
@@ -57,16 +92,19 @@ const PurchaseDialog = ({ open, onOpenChange, purchaseId, onSaved }: Props) => {
   const handleSave = async (e?: React.FormEvent) => {
     e?.preventDefault();
     if (!purchaseId) return;
-    if (!item.trim()) return toast.error("Item is required");
-    const unit = Number(amount);
-    if (isNaN(unit) || unit <= 0) return toast.error("Enter a valid amount");
-    const qty = typeof quantity === "number" ? quantity : Number(quantity);
-    if (!Number.isInteger(qty) || qty <= 0) return toast.error("Enter a valid quantity");
+    const problem = validateOrderLines(lines);
+    if (problem) return toast.error(problem);
 
     setLoading(true);
     try {
-      const total = unit * qty;
-      const { error } = await supabase.from("purchases").update({ item: item.trim(), amount: total, quantity: qty, purchase_date: date }).eq("id", purchaseId);
+      // replaces every line of the order and recomputes its totals
+      const { error } = await supabase.rpc("save_purchase", {
+        _purchase_id: purchaseId,
+        _contact_id: contactId,
+        _purchase_date: date,
+        _items: toOrderLines(lines) as unknown as Json,
+        _prices_include_tax: pricesIncludeTax,
+      });
       if (error) throw error;
       toast.success("Purchase updated");
       onOpenChange(false);
@@ -81,7 +119,7 @@ const PurchaseDialog = ({ open, onOpenChange, purchaseId, onSaved }: Props) => {
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-md w-full">
+      <DialogContent className="sm:max-w-3xl w-full">
         <DialogHeader>
           <DialogTitle>{purchaseId ? "Edit Purchase" : "Purchase"}</DialogTitle>
         </DialogHeader>
@@ -91,33 +129,43 @@ const PurchaseDialog = ({ open, onOpenChange, purchaseId, onSaved }: Props) => {
             <Loader2 className="h-6 w-6 animate-spin text-primary" />
           </div>
         ) : (
-          <form onSubmit={handleSave} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="item">Item</Label>
-              <Input id="item" value={item} onChange={(e) => setItem(e.target.value)} required />
-            </div>
+          <Tabs defaultValue="details">
+            <TabsList className="mb-2">
+              <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
+            <TabsContent value="details">
+              <form onSubmit={handleSave} className="space-y-4">
+                {refunded && (
+                  <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+                    This order has refunds, so it can no longer be edited. Record another refund to correct it.
+                  </div>
+                )}
+                <OrderLinesEditor
+                  lines={lines}
+                  onChange={setLines}
+                  disabled={loading || refunded}
+                  reserved={reserved}
+                  pricesIncludeTax={pricesIncludeTax}
+                  onPricesIncludeTaxChange={setPricesIncludeTax}
+                  interState={isInterState(gst.gst_state, customer)}
+                />
 
-            <div className="grid grid-cols-2 gap-3">
-              <div>
-                <Label htmlFor="amount">Unit Amount</Label>
-                <Input id="amount" type="number" step="0.01" min="0" value={amount} onChange={(e) => setAmount(e.target.value)} required />
-              </div>
-              <div>
-                <Label htmlFor="qty">Quantity</Label>
-                <Input id="qty" type="number" step="1" min="1" value={quantity === "" ? "" : String(quantity)} onChange={(e) => setQuantity(e.target.value === "" ? "" : Number(e.target.value))} required />
-              </div>
-            </div>
+                <div>
+                  <Label htmlFor="date">Date</Label>
+                  <Input id="date" type="date" value={date} onChange={(e) => setDate(e.target.value)} disabled={refunded} required />
+                </div>
 
-            <div>
-              <Label htmlFor="date">Date</Label>
-              <Input id="date" type="date" value={date} onChange={(e) => setDate(e.target.value)} required />
-            </div>
-
-            <DialogFooter>
-              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>Cancel</Button>
-              <Button type="submit" disabled={loading}>{loading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}</Button>
-            </DialogFooter>
-          </form>
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>Cancel</Button>
+                  <Button type="submit" disabled={loading || refunded}>{loading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}</Button>
+                </DialogFooter>
+              </form>
+            </TabsContent>
+            <TabsContent value="history" className="max-h-[60vh] overflow-y-auto">
+              {purchaseId && <AuditHistory tableName="purchases" recordId={purchaseId} />}
+            </TabsContent>
+          </Tabs>
         )}
       </DialogContent>
     </Dialog>
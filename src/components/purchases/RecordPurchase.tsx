@@ -1,36 +1,52 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
-import type { Database } from "@/integrations/supabase/types";
+import type { Database, Json } from "@/integrations/supabase/types";
 import { useAuth } from "@/hooks/useAuth";
+import { useGstSettings } from "@/hooks/useGstSettings";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
+import PhoneLookup, { type PhoneMatch } from "./PhoneLookup";
+import OrderLinesEditor from "./OrderLinesEditor";
+import { emptyOrderLine, toOrderLines, validateOrderLines, type OrderLineForm } from "@/lib/orders";
+import { isInterState } from "@/lib/gst";
 import { toast } from "sonner";
 
 type ContactOption = { id: string; name: string };
+type CustomerLocation = { state: string | null; country: string | null };
 
 type Props = {
+  // records for this customer contact only, without offering the picker
+  contactId?: string;
   onSaved?: () => void;
 };
 
-const RecordPurchase = ({ onSaved }: Props) => {
+const RecordPurchase = ({ contactId: fixedContactId, onSaved }: Props) => {
   const { user, profile, isAdmin } = useAuth();
+  const { settings: gst } = useGstSettings();
   const [contacts, setContacts] = useState<ContactOption[]>([]);
   const [contactPage, setContactPage] = useState(0);
   const pageSize = 20;
   const [hasMoreContacts, setHasMoreContacts] = useState(false);
   
   const [loadingContacts, setLoadingContacts] = useState(false);
-  const [contactId, setContactId] = useState<string>("");
-  const [item, setItem] = useState("");
-  const [amount, setAmount] = useState<string>("");
-  const [quantity, setQuantity] = useState<string>("1");
+  const [contactId, setContactId] = useState<string>(fixedContactId ?? "");
+  const [lines, setLines] = useState<OrderLineForm[]>(() => [emptyOrderLine()]);
+  // null until changed on this order, so the company's pricing mode applies
+  const [pricesIncludeTax, setPricesIncludeTax] = useState<boolean | null>(null);
+  // the customer's state decides between CGST + SGST and IGST
+  const [customer, setCustomer] = useState<CustomerLocation | null>(null);
+  // bumped after each save so the lines editor reloads stock levels
+  const [saved, setSaved] = useState(0);
   const [date, setDate] = useState<string>(new Date().toISOString().slice(0, 10));
   const [loading, setLoading] = useState(false);
+  // a buyer found by phone may not be on the loaded page of the dropdown yet
+  const [lookedUp, setLookedUp] = useState<ContactOption | null>(null);
+  const contactOptions = lookedUp && !contacts.some((c) => c.id === lookedUp.id) ? [lookedUp, ...contacts] : contacts;
 
   useEffect(() => {
     const fetchContacts = async (page = 0) => {
-      if (!profile) return;
+      if (!profile || fixedContactId) return;
 
       type ContactRow = Database["public"]["Tables"]["contacts"]["Row"];
 
@@ -39,6 +55,7 @@ const RecordPurchase = ({ onSaved }: Props) => {
         .from("contacts")
         .select("id, name, created_by, assigned_user_id")
         .eq("company_id", profile.company_id)
+        .is("deleted_at", null)
         .order("name", { ascending: true })
         .range(page * pageSize, page * pageSize + pageSize - 1);
 
@@ -69,7 +86,26 @@ const RecordPurchase = ({ onSaved }: Props) => {
     };
 
     void fetchContacts(contactPage);
-  }, [profile, isAdmin, user, contactPage, contactId]);
+  }, [profile, isAdmin, user, contactPage, contactId, fixedContactId]);
+
+  useEffect(() => {
+    if (fixedContactId) setContactId(fixedContactId);
+  }, [fixedContactId]);
+
+  useEffect(() => {
+    setCustomer(null);
+    if (!contactId) return;
+    void (async () => {
+      const { data, error } = await supabase.from("contacts").select("state, country").eq("id", contactId).single();
+      if (error) console.error(error);
+      else setCustomer(data);
+    })();
+  }, [contactId]);
+
+  const handlePhoneMatch = (match: PhoneMatch) => {
+    setLookedUp({ id: match.id, name: match.name });
+    setContactId(match.id);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -79,18 +115,9 @@ const RecordPurchase = ({ onSaved }: Props) => {
       toast.error("Please select a customer contact");
       return;
     }
-    if (!item.trim()) {
-      toast.error("Item is required");
-      return;
-    }
-    const amt = Number(amount);
-    if (isNaN(amt) || amt <= 0) {
-      toast.error("Enter a valid amount");
-      return;
-    }
-    const qty = Number(quantity);
-    if (!Number.isInteger(qty) || qty <= 0) {
-      toast.error("Enter a valid quantity");
+    const problem = validateOrderLines(lines);
+    if (problem) {
+      toast.error(problem);
       return;
     }
     if (!date) {
@@ -101,23 +128,20 @@ const RecordPurchase = ({ onSaved }: Props) => {
     setLoading(true);
 
     try {
-      // store total amount = unit price * quantity
-      const toInsert: Database["public"]["Tables"]["purchases"]["Insert"] = {
-        company_id: profile.company_id,
-        contact_id: contactId,
-        created_by: user.id,
-        item: item.trim(),
-        amount: amt * qty,
-        quantity: qty,
-        purchase_date: date,
-      };
-
-      const { error } = await supabase.from("purchases").insert(toInsert);
+      // the order header totals are worked out from the lines by save_purchase
+      const { error } = await supabase.rpc("save_purchase", {
+        _purchase_id: null,
+        _contact_id: contactId,
+        _purchase_date: date,
+        _items: toOrderLines(lines) as unknown as Json,
+        _prices_include_tax: pricesIncludeTax ?? gst.prices_include_tax,
+      });
       if (error) throw error;
 
       toast.success("Purchase recorded successfully");
-      setItem("");
-      setAmount("");
+      setLines([emptyOrderLine()]);
+      setPricesIncludeTax(null);
+      setSaved((n) => n + 1);
       setDate(new Date().toISOString().slice(0, 10));
       if (onSaved) onSaved();
     } catch (err: unknown) {
@@ -129,56 +153,56 @@ const RecordPurchase = ({ onSaved }: Props) => {
   };
 
   return (
-    <form onSubmit={handleSubmit} className="grid gap-3 md:grid-cols-12">
-      {/* Row 1: Contact (left) and Item (right) */}
-      <div className="md:col-span-8">
-        <Label htmlFor="contact" className="text-sm font-medium">Customer Contact</Label>
-        <select
-          id="contact"
-          className="mt-1 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
-          value={contactId}
-          onChange={(e) => setContactId(e.target.value)}
-        >
-          <option value="" disabled>Select a customer contact</option>
-          {contacts.map((c) => (
-            <option key={c.id} value={c.id}>{c.name}</option>
-          ))}
-        </select>
-        <div className="mt-2 text-xs text-muted-foreground flex items-center justify-between">
-          <div>{contacts.length === 0 ? "No customer contacts" : `${contacts.length} shown`}</div>
-          <div>{hasMoreContacts && (
-            <Button size="sm" onClick={() => setContactPage((p) => p + 1)} disabled={loadingContacts}>
-              {loadingContacts ? "Loading..." : "Load more"}
-            </Button>
-          )}</div>
+    <div className="space-y-3">
+      {!fixedContactId && <PhoneLookup onSelect={handlePhoneMatch} />}
+      <form onSubmit={handleSubmit} className="grid gap-3 md:grid-cols-12">
+        {!fixedContactId && (
+          <div className="md:col-span-12">
+            <Label htmlFor="contact" className="text-sm font-medium">Customer Contact</Label>
+            <select
+              id="contact"
+              className="mt-1 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              value={contactId}
+              onChange={(e) => setContactId(e.target.value)}
+            >
+              <option value="" disabled>Select a customer contact</option>
+              {contactOptions.map((c) => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+            <div className="mt-2 text-xs text-muted-foreground flex items-center justify-between">
+              <div>{contacts.length === 0 ? "No customer contacts" : `${contacts.length} shown`}</div>
+              <div>{hasMoreContacts && (
+                <Button size="sm" onClick={() => setContactPage((p) => p + 1)} disabled={loadingContacts}>
+                  {loadingContacts ? "Loading..." : "Load more"}
+                </Button>
+              )}</div>
+            </div>
+          </div>
+        )}
+
+        <div className="md:col-span-12">
+          <OrderLinesEditor
+            key={saved}
+            lines={lines}
+            onChange={setLines}
+            disabled={loading}
+            pricesIncludeTax={pricesIncludeTax ?? gst.prices_include_tax}
+            onPricesIncludeTaxChange={setPricesIncludeTax}
+            interState={isInterState(gst.gst_state, customer)}
+          />
+        </div>
+
+        <div className="md:col-span-4">
+          <Label htmlFor="date" className="text-sm font-medium">Date</Label>
+          <Input id="date" type="date" className="mt-1 h-10" value={date} onChange={(e) => setDate(e.target.value)} required />
+        </div>
+
+        <div className="md:col-span-8 flex items-end justify-end">
+          <Button type="submit" className="h-10" disabled={loading}>{loading ? "Recording..." : "Record Purchase"}</Button>
         </div>
-      </div>
-
-      <div className="md:col-span-4">
-        <Label htmlFor="item" className="text-sm font-medium">Item</Label>
-        <Input id="item" className="mt-1 h-10" value={item} onChange={(e) => setItem(e.target.value)} required />
-      </div>
-
-      {/* Row 2: Amount, Date, Action */}
-      <div className="md:col-span-3">
-        <Label htmlFor="amount" className="text-sm font-medium">Amount</Label>
-        <Input id="amount" type="number" step="0.01" min="0" className="mt-1 h-10" value={amount} onChange={(e) => setAmount(e.target.value)} required />
-      </div>
-
-      <div className="md:col-span-3">
-        <Label htmlFor="quantity" className="text-sm font-medium">Quantity</Label>
-        <Input id="quantity" type="number" step="1" min="1" className="mt-1 h-10" value={quantity} onChange={(e) => setQuantity(e.target.value)} required />
-      </div>
-
-      <div className="md:col-span-3">
-        <Label htmlFor="date" className="text-sm font-medium">Date</Label>
-        <Input id="date" type="date" className="mt-1 h-10" value={date} onChange={(e) => setDate(e.target.value)} required />
-      </div>
-
-      <div className="md:col-span-3 flex items-center justify-end">
-        <Button type="submit" className="h-10" disabled={loading}>{loading ? "Recording..." : "Record Purchase"}</Button>
-      </div>
-    </form>
+      </form>
+    </div>
   );
 };
 
@@ -0,0 +1,276 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { formatINR } from "@/lib/utils";
+import { netAmount } from "@/lib/orders";
+import { toast } from "sonner";
+
+type Props = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  purchaseId: string | null;
+  onSaved?: () => void;
+};
+
+type Order = { id: string; item: string; amount: number; refunded_amount: number; purchase_date: string };
+type Line = {
+  id: string;
+  product_id: string | null;
+  product: string;
+  quantity: number;
+  taxable_value: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  position: number;
+};
+type Refund = {
+  id: string;
+  purchase_item_id: string | null;
+  amount: number;
+  quantity: number;
+  restocked: boolean;
+  reason: string;
+  refund_date: string;
+  actor?: { full_name: string | null } | null;
+};
+
+const REASONS = ["Damaged or faulty", "Wrong size or item", "Changed mind", "Price adjustment", "Late delivery"];
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const RefundDialog = ({ open, onOpenChange, purchaseId, onSaved }: Props) => {
+  const [order, setOrder] = useState<Order | null>(null);
+  const [lines, setLines] = useState<Line[]>([]);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [trackedProducts, setTrackedProducts] = useState<Set<string>>(new Set());
+  const [fetching, setFetching] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [lineId, setLineId] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [date, setDate] = useState(today());
+  const [restock, setRestock] = useState(true);
+
+  useEffect(() => {
+    if (!open || !purchaseId) return;
+    setLineId("");
+    setQuantity("");
+    setAmount("");
+    setReason("");
+    setDate(today());
+    setRestock(true);
+    setFetching(true);
+    void (async () => {
+      try {
+        const [orderRes, linesRes, refundsRes] = await Promise.all([
+          supabase.from("purchases").select("id, item, amount, refunded_amount, purchase_date").eq("id", purchaseId).single(),
+          supabase.from("purchase_items").select("id, product_id, product, quantity, taxable_value, cgst, sgst, igst, position").eq("purchase_id", purchaseId).order("position", { ascending: true }),
+          supabase
+            .from("purchase_refunds")
+            .select("id, purchase_item_id, amount, quantity, restocked, reason, refund_date, actor:profiles!purchase_refunds_created_by_fkey(full_name)")
+            .eq("purchase_id", purchaseId)
+            .order("created_at", { ascending: true }),
+        ]);
+        if (orderRes.error) throw orderRes.error;
+        if (linesRes.error) throw linesRes.error;
+        if (refundsRes.error) throw refundsRes.error;
+        setOrder(orderRes.data);
+        setLines(linesRes.data ?? []);
+        setRefunds((refundsRes.data as Refund[]) || []);
+
+        const productIds = (linesRes.data ?? []).map((l) => l.product_id).filter((id): id is string => Boolean(id));
+        if (productIds.length > 0) {
+          const { data, error } = await supabase.from("stock_items").select("product_id").in("product_id", productIds);
+          if (error) throw error;
+          setTrackedProducts(new Set((data ?? []).map((s) => s.product_id)));
+        } else {
+          setTrackedProducts(new Set());
+        }
+      } catch (err) {
+        console.error(err);
+        toast.error("Failed to load purchase");
+      } finally {
+        setFetching(false);
+      }
+    })();
+  }, [open, purchaseId]);
+
+  const refundable = order ? netAmount(order) : 0;
+  const line = lines.find((l) => l.id === lineId);
+  const returnedUnits = (id: string) => refunds.filter((r) => r.purchase_item_id === id).reduce((s, r) => s + r.quantity, 0);
+  const returnable = line ? line.quantity - returnedUnits(line.id) : 0;
+  const canRestock = Boolean(line?.product_id && trackedProducts.has(line.product_id));
+
+  // suggest what the returned units were charged, discount and GST included, but never more than is left
+  const suggestAmount = (l: Line | undefined, qty: string) => {
+    const units = Number(qty);
+    if (!l || !Number.isInteger(units) || units <= 0) return;
+    const charged = ((Number(l.taxable_value) + Number(l.cgst) + Number(l.sgst) + Number(l.igst)) / l.quantity) * units;
+    setAmount(String(Math.min(Math.round(charged * 100) / 100, refundable)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order) return;
+    const amt = Number(amount);
+    if (amount.trim() === "" || isNaN(amt) || amt <= 0) return toast.error("Enter the amount refunded");
+    if (amt > refundable + 0.005) return toast.error(`Only ${formatINR(refundable)} is left to refund on this order`);
+    const qty = quantity.trim() === "" ? 0 : Number(quantity);
+    if (!Number.isInteger(qty) || qty < 0) return toast.error("Enter a whole number of units");
+    if (line && qty > returnable) return toast.error(`Only ${returnable} of ${line.product} can still be returned`);
+    if (!reason.trim()) return toast.error("Give a reason for the refund");
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc("refund_purchase", {
+        _purchase_id: order.id,
+        _amount: amt,
+        _reason: reason.trim(),
+        _refund_date: date || undefined,
+        _purchase_item_id: line?.id,
+        _quantity: line ? qty : 0,
+        _restock: canRestock && restock,
+      });
+      if (error) throw error;
+      toast.success(`Refunded ${formatINR(amt)}`);
+      onOpenChange(false);
+      if (onSaved) onSaved();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to record refund");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg w-full">
+        <DialogHeader>
+          <DialogTitle>Refund</DialogTitle>
+          {order && (
+            <DialogDescription>
+              {order.item} · {new Date(order.purchase_date).toLocaleDateString()} · {formatINR(order.amount)}
+              {Number(order.refunded_amount) > 0 && `, ${formatINR(order.refunded_amount)} already refunded`}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {fetching || !order ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : refundable <= 0 ? (
+          <div className="py-4 text-sm text-muted-foreground">This order has been refunded in full.</div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="refund-line">Returned item</Label>
+              <select
+                id="refund-line"
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                value={lineId}
+                onChange={(e) => {
+                  setLineId(e.target.value);
+                  setQuantity("");
+                }}
+              >
+                <option value="">Nothing returned (refund on the order)</option>
+                {lines.map((l) => {
+                  const left = l.quantity - returnedUnits(l.id);
+                  return (
+                    <option key={l.id} value={l.id} disabled={left <= 0}>
+                      {l.product} — {left} of {l.quantity} returnable
+                    </option>
+                  );
+                })}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {line && (
+                <div className="space-y-2">
+                  <Label htmlFor="refund-qty">Units returned</Label>
+                  <Input
+                    id="refund-qty"
+                    type="number"
+                    step="1"
+                    min="0"
+                    max={returnable}
+                    value={quantity}
+                    onChange={(e) => {
+                      setQuantity(e.target.value);
+                      suggestAmount(line, e.target.value);
+                    }}
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="refund-amount">Amount refunded</Label>
+                <Input id="refund-amount" type="number" step="0.01" min="0" max={refundable} value={amount} onChange={(e) => setAmount(e.target.value)} />
+                <div className="text-xs text-muted-foreground">Up to {formatINR(refundable)}</div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="refund-reason">Reason</Label>
+                <Input id="refund-reason" list="refund-reasons" value={reason} onChange={(e) => setReason(e.target.value)} />
+                <datalist id="refund-reasons">
+                  {REASONS.map((r) => (
+                    <option key={r} value={r} />
+                  ))}
+                </datalist>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="refund-date">Date</Label>
+                <Input id="refund-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+              </div>
+            </div>
+
+            {canRestock && Number(quantity) > 0 && (
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={restock} onChange={(e) => setRestock(e.target.checked)} />
+                Put the returned units back into stock
+              </label>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>Cancel</Button>
+              <Button type="submit" disabled={saving}>{saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Refund"}</Button>
+            </DialogFooter>
+          </form>
+        )}
+
+        {refunds.length > 0 && (
+          <div className="border-t pt-3">
+            <h4 className="text-sm font-semibold mb-2">Refunds so far</h4>
+            <ul className="space-y-1 text-sm">
+              {refunds.map((r) => {
+                const refundedLine = lines.find((l) => l.id === r.purchase_item_id);
+                return (
+                  <li key={r.id} className="flex justify-between gap-3">
+                    <span className="text-muted-foreground">
+                      {new Date(r.refund_date).toLocaleDateString()} · {r.reason}
+                      {refundedLine && r.quantity > 0 && ` · ${r.quantity} × ${refundedLine.product}${r.restocked ? " restocked" : ""}`}
+                      {r.actor?.full_name && ` · by ${r.actor.full_name}`}
+                    </span>
+                    <span className="font-medium whitespace-nowrap">{formatINR(r.amount)}</span>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RefundDialog;
@@ -0,0 +1,113 @@
+import { Fragment, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { formatINR } from "@/lib/utils";
+import { netAmount } from "@/lib/orders";
+import { accountKindLabel } from "@/lib/accounts";
+
+type AccountContact = { id: string; name: string; account_id?: string | null };
+type AccountPurchase = { id: string; amount?: number | string; refunded_amount?: number | string; contacts?: { id?: string } | null };
+type ReportAccount = { id: string; name: string; kind: string };
+
+interface Props {
+  accounts: ReportAccount[];
+  contacts: AccountContact[];
+  purchases: AccountPurchase[];
+}
+
+type MemberRow = { id: string; name: string; purchases: number; revenue: number };
+
+const NO_ACCOUNT = "none";
+
+const AccountReport = ({ accounts, contacts, purchases }: Props) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const rows = useMemo(() => {
+    // individual revenue first, then rolled up into each member's account
+    const byContact = new Map<string, MemberRow>(contacts.map((c) => [c.id, { id: c.id, name: c.name, purchases: 0, revenue: 0 }]));
+    purchases.forEach((p) => {
+      const m = p.contacts?.id ? byContact.get(p.contacts.id) : undefined;
+      if (!m) return;
+      m.purchases += 1;
+      m.revenue += netAmount(p);
+    });
+
+    const groups = new Map<string, { label: string; kind?: string; members: MemberRow[] }>();
+    accounts.forEach((a) => groups.set(a.id, { label: a.name, kind: a.kind, members: [] }));
+    groups.set(NO_ACCOUNT, { label: "No account", members: [] });
+    contacts.forEach((c) => {
+      const g = groups.get(c.account_id ?? NO_ACCOUNT) ?? groups.get(NO_ACCOUNT);
+      const m = byContact.get(c.id);
+      if (g && m) g.members.push(m);
+    });
+
+    return Array.from(groups.entries())
+      .filter(([, g]) => g.members.length > 0)
+      .map(([key, g]) => ({
+        key,
+        ...g,
+        members: [...g.members].sort((a, b) => b.revenue - a.revenue),
+        purchases: g.members.reduce((s, m) => s + m.purchases, 0),
+        revenue: g.members.reduce((s, m) => s + m.revenue, 0),
+      }))
+      .sort((a, b) => (a.key === NO_ACCOUNT ? 1 : b.key === NO_ACCOUNT ? -1 : b.revenue - a.revenue));
+  }, [accounts, contacts, purchases]);
+
+  return (
+    <div className="bg-card p-4 rounded-md shadow-sm">
+      <h3 className="text-lg font-semibold mb-4">Revenue by account</h3>
+      <div className="overflow-x-auto max-h-96 overflow-y-auto">
+        <table className="min-w-full divide-y divide-border">
+          <thead>
+            <tr className="text-sm text-muted-foreground">
+              <th className="px-4 py-2 text-left">Account</th>
+              <th className="px-4 py-2 text-left">Customer Contacts</th>
+              <th className="px-4 py-2 text-left">Purchases</th>
+              <th className="px-4 py-2 text-left">Account Revenue</th>
+              <th className="px-4 py-2 text-left">Top Customer</th>
+              <th className="px-4 py-2 text-left">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+              <Fragment key={r.key}>
+                <tr className="hover:bg-muted/5">
+                  <td className={`px-4 py-2${r.key === NO_ACCOUNT ? " text-muted-foreground" : ""}`}>
+                    {r.label}
+                    {r.kind && <span className="ml-2 text-xs text-muted-foreground">{accountKindLabel(r.kind)}</span>}
+                  </td>
+                  <td className="px-4 py-2">{r.members.length}</td>
+                  <td className="px-4 py-2">{r.purchases}</td>
+                  <td className="px-4 py-2">{r.key === NO_ACCOUNT ? "—" : formatINR(r.revenue)}</td>
+                  <td className="px-4 py-2">{r.members[0] ? `${r.members[0].name} (${formatINR(r.members[0].revenue)})` : "—"}</td>
+                  <td className="px-4 py-2">
+                    <Button size="sm" variant="ghost" onClick={() => setExpanded(expanded === r.key ? null : r.key)}>
+                      {expanded === r.key ? "Hide" : "View"}
+                    </Button>
+                  </td>
+                </tr>
+                {expanded === r.key &&
+                  r.members.map((m) => (
+                    <tr key={`${r.key}-${m.id}`} className="text-sm text-muted-foreground">
+                      <td className="px-4 py-1 pl-8">{m.name}</td>
+                      <td className="px-4 py-1" />
+                      <td className="px-4 py-1">{m.purchases}</td>
+                      <td className="px-4 py-1">{formatINR(m.revenue)} individual</td>
+                      <td className="px-4 py-1">{r.key !== NO_ACCOUNT && r.revenue > 0 ? `${Math.round((m.revenue / r.revenue) * 100)}% of the account` : ""}</td>
+                      <td className="px-4 py-1" />
+                    </tr>
+                  ))}
+              </Fragment>
+            ))}
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-4 py-8 text-center text-muted-foreground">No customer contacts yet.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AccountReport;
@@ -0,0 +1,125 @@
+import { useMemo, useState } from "react";
+import { formatINR } from "@/lib/utils";
+import { matchProduct, productKey, type Product } from "@/lib/products";
+
+type ReportLine = { product_id?: string | null; product: string; quantity: number; taxable_value?: number | string | null };
+type ReportPurchase = { id: string; purchase_items?: ReportLine[] | null };
+
+interface Props {
+  products: Product[];
+  purchases: ReportPurchase[];
+}
+
+type Row = {
+  key: string;
+  label: string;
+  sku?: string;
+  category?: string | null;
+  // other spellings that were counted as this product
+  variants: Set<string>;
+  orders: Set<string>;
+  units: number;
+  revenue: number;
+};
+
+const UNCATEGORISED = "Uncategorised";
+
+const ProductReport = ({ products, purchases }: Props) => {
+  const [groupBy, setGroupBy] = useState<"product" | "category">("product");
+
+  const rows = useMemo(() => {
+    const byId = new Map(products.map((p) => [p.id, p]));
+    const groups = new Map<string, Row>();
+
+    purchases.forEach((purchase) => {
+      (purchase.purchase_items ?? []).forEach((line) => {
+        // linked lines use their product; free text is matched to the catalog by name or SKU,
+        // and whatever is left is grouped by its name with spacing and punctuation ignored
+        const product = (line.product_id && byId.get(line.product_id)) || matchProduct(products, line.product);
+        let key: string;
+        let label: string;
+        if (groupBy === "category") {
+          label = product?.category || UNCATEGORISED;
+          key = `category:${label}`;
+        } else if (product) {
+          key = product.id;
+          label = product.name;
+        } else {
+          key = `text:${productKey(line.product)}`;
+          label = line.product;
+        }
+
+        let row = groups.get(key);
+        if (!row) {
+          row = { key, label, variants: new Set(), orders: new Set(), units: 0, revenue: 0 };
+          if (groupBy === "product" && product) {
+            row.sku = product.sku;
+            row.category = product.category;
+          }
+          groups.set(key, row);
+        }
+        if (groupBy === "product" && line.product !== row.label) row.variants.add(line.product);
+        row.orders.add(purchase.id);
+        row.units += Number(line.quantity ?? 0);
+        // the taxable value, so orders priced with and without GST add up alike
+        row.revenue += Number(line.taxable_value ?? 0);
+      });
+    });
+
+    return Array.from(groups.values()).sort((a, b) => b.revenue - a.revenue);
+  }, [products, purchases, groupBy]);
+
+  return (
+    <div className="bg-card p-4 rounded-md shadow-sm">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-lg font-semibold">Revenue by {groupBy === "product" ? "product" : "category"}</h3>
+        <select
+          aria-label="Group products by"
+          className="rounded-md border border-input bg-background px-3 py-2 text-sm"
+          value={groupBy}
+          onChange={(e) => setGroupBy(e.target.value as "product" | "category")}
+        >
+          <option value="product">Product</option>
+          <option value="category">Category</option>
+        </select>
+      </div>
+      <p className="text-xs text-muted-foreground mb-4">Taxable value of the lines sold, before GST.</p>
+      <div className="overflow-x-auto max-h-96 overflow-y-auto">
+        <table className="min-w-full divide-y divide-border">
+          <thead>
+            <tr className="text-sm text-muted-foreground">
+              <th className="px-4 py-2 text-left">{groupBy === "product" ? "Product" : "Category"}</th>
+              {groupBy === "product" && <th className="px-4 py-2 text-left">SKU</th>}
+              {groupBy === "product" && <th className="px-4 py-2 text-left">Category</th>}
+              <th className="px-4 py-2 text-left">Orders</th>
+              <th className="px-4 py-2 text-left">Units</th>
+              <th className="px-4 py-2 text-left">Revenue</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+              <tr key={r.key} className="hover:bg-muted/5">
+                <td className="px-4 py-2">
+                  {r.label}
+                  {r.variants.size > 0 && <div className="text-xs text-muted-foreground">Also recorded as {Array.from(r.variants).join(", ")}</div>}
+                </td>
+                {groupBy === "product" && <td className="px-4 py-2 font-mono text-sm">{r.sku ?? <span className="text-muted-foreground">Not in catalog</span>}</td>}
+                {groupBy === "product" && <td className="px-4 py-2">{r.category ?? "—"}</td>}
+                <td className="px-4 py-2">{r.orders.size}</td>
+                <td className="px-4 py-2">{r.units}</td>
+                <td className="px-4 py-2">{formatINR(r.revenue)}</td>
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={groupBy === "product" ? 6 : 4} className="px-4 py-8 text-center text-muted-foreground">No purchases yet.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ProductReport;
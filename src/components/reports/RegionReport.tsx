@@ -0,0 +1,94 @@
+import { useMemo, useState } from "react";
+import { formatINR } from "@/lib/utils";
+import { netAmount } from "@/lib/orders";
+
+type RegionContact = { id: string; city?: string | null; state?: string | null };
+type RegionPurchase = { id: string; amount?: number | string; refunded_amount?: number | string; contacts?: { id?: string } | null };
+
+type GroupBy = "state" | "city";
+
+interface Props {
+  contacts: RegionContact[];
+  purchases: RegionPurchase[];
+}
+
+const UNKNOWN = "Not set";
+
+const RegionReport = ({ contacts, purchases }: Props) => {
+  const [groupBy, setGroupBy] = useState<GroupBy>("state");
+
+  const rows = useMemo(() => {
+    // cities are free text; group them case-insensitively and show them with their state
+    const keyOf = (c: RegionContact) => {
+      if (groupBy === "state") return { key: c.state || UNKNOWN, label: c.state || UNKNOWN };
+      if (!c.city) return { key: UNKNOWN, label: UNKNOWN };
+      return { key: `${c.city.trim().toLowerCase()}|${c.state ?? ""}`, label: c.state ? `${c.city.trim()}, ${c.state}` : c.city.trim() };
+    };
+
+    const groups = new Map<string, { label: string; contacts: number; purchases: number; revenue: number }>();
+    const regionOfContact = new Map<string, string>();
+    contacts.forEach((c) => {
+      const { key, label } = keyOf(c);
+      regionOfContact.set(c.id, key);
+      const g = groups.get(key) ?? { label, contacts: 0, purchases: 0, revenue: 0 };
+      g.contacts += 1;
+      groups.set(key, g);
+    });
+    purchases.forEach((p) => {
+      const g = p.contacts?.id ? groups.get(regionOfContact.get(p.contacts.id) ?? "") : undefined;
+      if (!g) return;
+      g.purchases += 1;
+      g.revenue += netAmount(p);
+    });
+
+    return Array.from(groups.entries())
+      .map(([key, g]) => ({ key, ...g }))
+      .sort((a, b) => (a.key === UNKNOWN ? 1 : b.key === UNKNOWN ? -1 : b.revenue - a.revenue || b.contacts - a.contacts));
+  }, [contacts, purchases, groupBy]);
+
+  return (
+    <div className="bg-card p-4 rounded-md shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold">Customers by region</h3>
+        <select
+          aria-label="Group by"
+          className="rounded-md border border-input bg-background px-3 py-2 text-sm"
+          value={groupBy}
+          onChange={(e) => setGroupBy(e.target.value as GroupBy)}
+        >
+          <option value="state">By state</option>
+          <option value="city">By city</option>
+        </select>
+      </div>
+      <div className="overflow-x-auto max-h-96 overflow-y-auto">
+        <table className="min-w-full divide-y divide-border">
+          <thead>
+            <tr className="text-sm text-muted-foreground">
+              <th className="px-4 py-2 text-left">{groupBy === "state" ? "State" : "City"}</th>
+              <th className="px-4 py-2 text-left">Customer Contacts</th>
+              <th className="px-4 py-2 text-left">Purchases</th>
+              <th className="px-4 py-2 text-left">Revenue</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+              <tr key={r.key} className="hover:bg-muted/5">
+                <td className={`px-4 py-2${r.key === UNKNOWN ? " text-muted-foreground" : ""}`}>{r.label}</td>
+                <td className="px-4 py-2">{r.contacts}</td>
+                <td className="px-4 py-2">{r.purchases}</td>
+                <td className="px-4 py-2">{formatINR(r.revenue)}</td>
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={4} className="px-4 py-8 text-center text-muted-foreground">No customer contacts yet</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default RegionReport;
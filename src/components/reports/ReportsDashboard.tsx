@@ -2,15 +2,37 @@ import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
-import { Users, ShoppingCart, Coins, Loader2 } from "lucide-react";
+import { Users, ShoppingCart, Coins, Loader2, Undo2 } from "lucide-react";
 import { formatINR } from "@/lib/utils";
+import { netAmount } from "@/lib/orders";
 import { toast } from "sonner";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import RegionReport from "./RegionReport";
+import AccountReport from "./AccountReport";
+import ProductReport from "./ProductReport";
+import TaxReport from "./TaxReport";
+import type { Product } from "@/lib/products";
+
+// PostgREST returns at most this many rows a request, and the reports (the
+// GST summary above all) need every row, so lists are read a page at a time
+const REPORT_PAGE = 1000;
+
+const fetchAllRows = async <T,>(page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>) => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += REPORT_PAGE) {
+    const { data, error } = await page(from, from + REPORT_PAGE - 1);
+    if (error) return { data: null, error };
+    rows.push(...(data ?? []));
+    if (!data || data.length < REPORT_PAGE) return { data: rows, error: null };
+  }
+};
 
 interface Stats {
   totalContacts: number;
   totalPurchases: number;
+  grossRevenue: number;
+  totalRefunds: number;
   totalRevenue: number;
 }
 
@@ -19,12 +41,16 @@ const ReportsDashboard = () => {
   const [stats, setStats] = useState<Stats>({
     totalContacts: 0,
     totalPurchases: 0,
+    grossRevenue: 0,
+    totalRefunds: 0,
     totalRevenue: 0,
   });
   const [loading, setLoading] = useState(true);
-  const [userStats, setUserStats] = useState<Array<{ id: string; name: string; contacts: number; purchases: number; revenue: number }>>([]);
-  const [contactsList, setContactsList] = useState<Array<{ id: string; name: string; created_by?: string | null; assigned_user_id?: string | null }>>([]);
-  const [purchasesList, setPurchasesList] = useState<Array<{ id: string; amount?: number | string; contacts?: { id?: string; created_by?: string | null; assigned_user_id?: string | null; name?: string } | null; item?: string; purchase_date?: string }>>([]);
+  const [userStats, setUserStats] = useState<Array<{ id: string; name: string; contacts: number; purchases: number; refunds: number; revenue: number }>>([]);
+  const [contactsList, setContactsList] = useState<Array<{ id: string; name: string; created_by?: string | null; assigned_user_id?: string | null; city?: string | null; state?: string | null; account_id?: string | null }>>([]);
+  const [accountsList, setAccountsList] = useState<Array<{ id: string; name: string; kind: string }>>([]);
+  const [purchasesList, setPurchasesList] = useState<Array<{ id: string; amount?: number | string; refunded_amount?: number | string; contacts?: { id?: string; created_by?: string | null; assigned_user_id?: string | null; name?: string } | null; item?: string; purchase_date?: string; purchase_items?: Array<{ id: string; product_id: string | null; product: string; quantity: number; tax_rate: number; taxable_value: number; cgst: number; sgst: number; igst: number }>; purchase_refunds?: Array<{ amount: number; refund_date: string; purchase_item_id: string | null }> }>>([]);
+  const [productsList, setProductsList] = useState<Product[]>([]);
   const [profilesList, setProfilesList] = useState<Array<{ id: string; full_name?: string | null }>>([]);
   const [selectedUser, setSelectedUser] = useState<string | null>(null);
 
@@ -36,20 +62,34 @@ const ReportsDashboard = () => {
 
       try {
         // Fetch company-wide contacts and purchases (with contact info)
-        const [contactsRes, purchasesRes, profilesRes] = await Promise.all([
+        const [contactsRes, purchasesRes, profilesRes, accountsRes, productsRes] = await Promise.all([
           // include name on contacts so UI lists/types have it
-          supabase.from("contacts").select("id, name, created_by, assigned_user_id").eq("company_id", profile.company_id),
+          fetchAllRows((from, to) =>
+            supabase.from("contacts").select("id, name, created_by, assigned_user_id, city, state, account_id").eq("company_id", profile.company_id).is("deleted_at", null).order("id").range(from, to),
+          ),
           // include nested contact name for purchases
-          supabase.from("purchases").select("id, amount, item, purchase_date, contacts(id, name, created_by, assigned_user_id)").eq("company_id", profile.company_id),
+          fetchAllRows((from, to) =>
+            supabase
+              .from("purchases")
+              .select("id, amount, refunded_amount, item, purchase_date, contacts(id, name, created_by, assigned_user_id), purchase_items(id, product_id, product, quantity, tax_rate, taxable_value, cgst, sgst, igst), purchase_refunds(amount, refund_date, purchase_item_id)")
+              .eq("company_id", profile.company_id)
+              .is("deleted_at", null)
+              .order("id")
+              .range(from, to),
+          ),
           supabase.from("profiles").select("id, full_name").eq("company_id", profile.company_id),
+          supabase.from("accounts").select("id, name, kind").eq("company_id", profile.company_id),
+          supabase.from("products").select("id, sku, name, category, unit_price, tax_rate, active").eq("company_id", profile.company_id),
         ]);
 
         if (contactsRes.error) throw contactsRes.error;
         if (purchasesRes.error) throw purchasesRes.error;
         if (profilesRes.error) throw profilesRes.error;
+        if (accountsRes.error) throw accountsRes.error;
+        if (productsRes.error) throw productsRes.error;
 
-  const contacts = (contactsRes.data as Array<{ id: string; name?: string | null; created_by?: string | null; assigned_user_id?: string | null }>) || [];
-  const purchases = (purchasesRes.data as Array<{ id: string; amount?: number | string; item?: string | null; purchase_date?: string | null; contacts?: { id?: string; name?: string | null; created_by?: string | null; assigned_user_id?: string | null } | null }>) || [];
+  const contacts = (contactsRes.data as Array<{ id: string; name?: string | null; created_by?: string | null; assigned_user_id?: string | null; city?: string | null; state?: string | null; account_id?: string | null }>) || [];
+  const purchases = (purchasesRes.data as Array<{ id: string; amount?: number | string; refunded_amount?: number | string; item?: string | null; purchase_date?: string | null; contacts?: { id?: string; name?: string | null; created_by?: string | null; assigned_user_id?: string | null } | null; purchase_items?: Array<{ id: string; product_id: string | null; product: string; quantity: number; tax_rate: number; taxable_value: number; cgst: number; sgst: number; igst: number }>; purchase_refunds?: Array<{ amount: number; refund_date: string; purchase_item_id: string | null }> }>) || [];
         const profiles = (profilesRes.data as Array<{ id: string; full_name?: string | null }>) || [];
 
         // fetch roles for the fetched profiles to exclude admin accounts from per-user stats
@@ -75,9 +115,10 @@ const ReportsDashboard = () => {
         // Company totals
         const totalContacts = contacts.length;
         const totalPurchases = purchases.length;
-        const totalRevenue = purchases.reduce((sum, p) => sum + Number(p.amount ?? 0), 0);
+        const grossRevenue = purchases.reduce((sum, p) => sum + Number(p.amount ?? 0), 0);
+        const totalRefunds = purchases.reduce((sum, p) => sum + Number(p.refunded_amount ?? 0), 0);
 
-        setStats({ totalContacts, totalPurchases, totalRevenue });
+        setStats({ totalContacts, totalPurchases, grossRevenue, totalRefunds, totalRevenue: grossRevenue - totalRefunds });
 
         // Build per-user stats
         // exclude admin profiles from per-user reporting
@@ -85,8 +126,9 @@ const ReportsDashboard = () => {
         const perUser = visibleProfiles.map((prof) => {
           const userContacts = contacts.filter((c) => c.created_by === prof.id || c.assigned_user_id === prof.id);
           const userPurchases = purchases.filter((p) => p.contacts && (p.contacts.created_by === prof.id || p.contacts.assigned_user_id === prof.id));
-          const revenue = userPurchases.reduce((s, p) => s + Number(p.amount ?? 0), 0);
-          return { id: prof.id, name: prof.full_name || "(no name)", contacts: userContacts.length, purchases: userPurchases.length, revenue };
+          const refunds = userPurchases.reduce((s, p) => s + Number(p.refunded_amount ?? 0), 0);
+          const revenue = userPurchases.reduce((s, p) => s + netAmount(p), 0);
+          return { id: prof.id, name: prof.full_name || "(no name)", contacts: userContacts.length, purchases: userPurchases.length, refunds, revenue };
         });
 
   setUserStats(perUser.sort((a, b) => b.revenue - a.revenue));
@@ -95,14 +137,17 @@ const ReportsDashboard = () => {
   // ensure every contact has a name (avoid TypeScript required-name mismatch)
   setContactsList(contacts.map((c) => ({ ...c, name: c.name ?? "(no name)" })));
   setPurchasesList(purchases);
+  setAccountsList(accountsRes.data || []);
+  setProductsList(productsRes.data || []);
 
         // If not admin, scope the displayed stats to the current user
         if (!isAdmin && user) {
           const meContacts = contacts.filter((c) => c.created_by === user.id || c.assigned_user_id === user.id).length;
-          const mePurchases = purchases.filter((p) => p.contacts && (p.contacts.created_by === user.id || p.contacts.assigned_user_id === user.id)).length;
-          const meRevenue = purchases.filter((p) => p.contacts && (p.contacts.created_by === user.id || p.contacts.assigned_user_id === user.id)).reduce((s, p) => s + Number(p.amount ?? 0), 0);
+          const mine = purchases.filter((p) => p.contacts && (p.contacts.created_by === user.id || p.contacts.assigned_user_id === user.id));
+          const meGross = mine.reduce((s, p) => s + Number(p.amount ?? 0), 0);
+          const meRefunds = mine.reduce((s, p) => s + Number(p.refunded_amount ?? 0), 0);
 
-          setStats({ totalContacts: meContacts, totalPurchases: mePurchases, totalRevenue: meRevenue });
+          setStats({ totalContacts: meContacts, totalPurchases: mine.length, grossRevenue: meGross, totalRefunds: meRefunds, totalRevenue: meGross - meRefunds });
         }
       } catch (error: unknown) {
         toast.error("Failed to load statistics");
@@ -126,7 +171,7 @@ const ReportsDashboard = () => {
 
   return (
     <div className="space-y-4">
-      <div className="grid gap-4 md:grid-cols-3">
+      <div className="grid gap-4 md:grid-cols-3 xl:grid-cols-5">
       <Card className="shadow-md">
         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
           <CardTitle className="text-sm font-medium">Total Customer Contacts</CardTitle>
@@ -155,18 +200,64 @@ const ReportsDashboard = () => {
 
       <Card className="shadow-md">
         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">Total Revenue</CardTitle>
+          <CardTitle className="text-sm font-medium">Gross Revenue</CardTitle>
+          <div className="p-2 bg-success/10 rounded-lg">
+            <Coins className="h-4 w-4 text-success" />
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="text-2xl font-bold">{formatINR(stats.grossRevenue)}</div>
+          <p className="text-xs text-muted-foreground mt-1">Everything charged</p>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-md">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-sm font-medium">Refunds</CardTitle>
+          <div className="p-2 bg-destructive/10 rounded-lg">
+            <Undo2 className="h-4 w-4 text-destructive" />
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="text-2xl font-bold">{formatINR(stats.totalRefunds)}</div>
+          <p className="text-xs text-muted-foreground mt-1">Paid back to customers</p>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-md">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-sm font-medium">Net Revenue</CardTitle>
           <div className="p-2 bg-success/10 rounded-lg">
             <Coins className="h-4 w-4 text-success" />
           </div>
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold">{formatINR(stats.totalRevenue)}</div>
-          <p className="text-xs text-muted-foreground mt-1">Lifetime revenue</p>
+          <p className="text-xs text-muted-foreground mt-1">Lifetime revenue after refunds</p>
         </CardContent>
       </Card>
       </div>
 
+      <RegionReport
+        contacts={isAdmin ? contactsList : contactsList.filter((c) => c.created_by === user?.id || c.assigned_user_id === user?.id)}
+        purchases={purchasesList}
+      />
+
+      <AccountReport
+        accounts={accountsList}
+        contacts={isAdmin ? contactsList : contactsList.filter((c) => c.created_by === user?.id || c.assigned_user_id === user?.id)}
+        purchases={purchasesList}
+      />
+
+      <ProductReport
+        products={productsList}
+        purchases={isAdmin ? purchasesList : purchasesList.filter((p) => p.contacts && (p.contacts.created_by === user?.id || p.contacts.assigned_user_id === user?.id))}
+      />
+
+      <TaxReport
+        purchases={isAdmin ? purchasesList : purchasesList.filter((p) => p.contacts && (p.contacts.created_by === user?.id || p.contacts.assigned_user_id === user?.id))}
+      />
+
       {/* If admin, show per-user breakdown */}
       {isAdmin ? (
         <div className="bg-card p-4 rounded-md shadow-sm">
@@ -178,7 +269,8 @@ const ReportsDashboard = () => {
                   <th className="px-4 py-2 text-left">User</th>
                   <th className="px-4 py-2 text-left">Customer Contacts</th>
                   <th className="px-4 py-2 text-left">Purchases</th>
-                  <th className="px-4 py-2 text-left">Revenue</th>
+                  <th className="px-4 py-2 text-left">Refunds</th>
+                  <th className="px-4 py-2 text-left">Net Revenue</th>
                   <th className="px-4 py-2 text-left">Actions</th>
                 </tr>
               </thead>
@@ -188,6 +280,7 @@ const ReportsDashboard = () => {
                     <td className="px-4 py-2">{u.name}</td>
                     <td className="px-4 py-2">{u.contacts}</td>
                     <td className="px-4 py-2">{u.purchases}</td>
+                    <td className="px-4 py-2">{formatINR(u.refunds)}</td>
                     <td className="px-4 py-2">{formatINR(u.revenue)}</td>
                     <td className="px-4 py-2">
                       <Button size="sm" variant="ghost" onClick={() => setSelectedUser(u.id)}>View</Button>
@@ -209,7 +302,7 @@ const ReportsDashboard = () => {
                   const prof = profilesList.find((p) => p.id === selectedUser);
                   const userContacts = contactsList.filter((c) => c.created_by === selectedUser || c.assigned_user_id === selectedUser);
                   const userPurchases = purchasesList.filter((p) => p.contacts && (p.contacts.created_by === selectedUser || p.contacts.assigned_user_id === selectedUser));
-                  const revenue = userPurchases.reduce((s, p) => s + Number(p.amount ?? 0), 0);
+                  const revenue = userPurchases.reduce((s, p) => s + netAmount(p), 0);
 
                   return (
                     <div className="space-y-4">
@@ -219,7 +312,7 @@ const ReportsDashboard = () => {
                           <div className="font-medium">{prof?.full_name ?? "(no name)"}</div>
                         </div>
                         <div className="text-right">
-                          <div className="text-sm text-muted-foreground">Revenue</div>
+                          <div className="text-sm text-muted-foreground">Net Revenue</div>
                           <div className="font-bold">{formatINR(revenue)}</div>
                         </div>
                       </div>
@@ -248,7 +341,7 @@ const ReportsDashboard = () => {
                               {userPurchases.slice(0, 50).map((p) => (
                                 <tr key={p.id} className="border-t">
                                   <td className="px-3 py-2">{p.item}</td>
-                                  <td className="px-3 py-2">{formatINR(Number(p.amount ?? 0))}</td>
+                                  <td className="px-3 py-2">{formatINR(netAmount(p))}</td>
                                   <td className="px-3 py-2">{p.purchase_date ? new Date(p.purchase_date).toLocaleDateString() : "-"}</td>
                                 </tr>
                               ))}
@@ -289,7 +382,7 @@ const ReportsDashboard = () => {
                   {purchasesList.filter((p) => p.contacts && (p.contacts.created_by === user?.id || p.contacts.assigned_user_id === user?.id)).slice(0, 50).map((p) => (
                     <tr key={p.id} className="border-t">
                       <td className="px-3 py-2">{p.item}</td>
-                      <td className="px-3 py-2">{formatINR(Number(p.amount ?? 0))}</td>
+                      <td className="px-3 py-2">{formatINR(netAmount(p))}</td>
                       <td className="px-3 py-2">{p.purchase_date ? new Date(p.purchase_date).toLocaleDateString() : "-"}</td>
                     </tr>
                   ))}
@@ -0,0 +1,184 @@
+import { Fragment, useMemo } from "react";
+import ExportMenu from "@/components/ui/export-menu";
+import { formatINR } from "@/lib/utils";
+import { exportRows, type ExportColumn, type ExportFormat } from "@/lib/export";
+import { refundShares } from "@/lib/gst";
+import { toast } from "sonner";
+
+type TaxLine = {
+  id?: string;
+  tax_rate?: number | string | null;
+  taxable_value?: number | string | null;
+  cgst?: number | string | null;
+  sgst?: number | string | null;
+  igst?: number | string | null;
+};
+type TaxRefund = { amount: number | string; refund_date: string; purchase_item_id?: string | null };
+type TaxPurchase = { id: string; purchase_date?: string | null; purchase_items?: TaxLine[] | null; purchase_refunds?: TaxRefund[] | null };
+
+interface Props {
+  purchases: TaxPurchase[];
+}
+
+type Totals = { taxable: number; cgst: number; sgst: number; igst: number };
+type RateRow = Totals & { month: string; rate: number; orders: Set<string> };
+
+const emptyTotals = (): Totals => ({ taxable: 0, cgst: 0, sgst: 0, igst: 0 });
+
+const lineTotals = (line: TaxLine): Totals => ({
+  taxable: Number(line.taxable_value ?? 0),
+  cgst: Number(line.cgst ?? 0),
+  sgst: Number(line.sgst ?? 0),
+  igst: Number(line.igst ?? 0),
+});
+
+// sign is -1 to take an amount off
+const addTo = (t: Totals, amounts: Totals, sign = 1) => {
+  t.taxable += sign * amounts.taxable;
+  t.cgst += sign * amounts.cgst;
+  t.sgst += sign * amounts.sgst;
+  t.igst += sign * amounts.igst;
+};
+
+// to the paisa, so a fully refunded amount shows as ₹0.00 rather than -₹0.00
+const toPaisa = (n: number) => Math.round(n * 100) / 100 || 0;
+
+const monthLabel = (month: string) => new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, { month: "long", year: "numeric" });
+
+const TaxReport = ({ purchases }: Props) => {
+  // newest month first, and within a month each rate from lowest to highest
+  const months = useMemo(() => {
+    const rows = new Map<string, RateRow>();
+    const rowFor = (month: string, rate: number) => {
+      const key = `${month}|${rate}`;
+      let row = rows.get(key);
+      if (!row) {
+        row = { month, rate, orders: new Set(), ...emptyTotals() };
+        rows.set(key, row);
+      }
+      return row;
+    };
+
+    purchases.forEach((p) => {
+      const lines = (p.purchase_items ?? []).map((line) => ({ ...lineTotals(line), id: line.id, rate: Number(line.tax_rate ?? 0) }));
+      if (p.purchase_date) {
+        const month = p.purchase_date.slice(0, 7);
+        lines.forEach((line) => {
+          const row = rowFor(month, line.rate);
+          row.orders.add(p.id);
+          addTo(row, line);
+        });
+      }
+      // a refund comes off in the month it was given, from the line it was
+      // against or else from every line of the order
+      (p.purchase_refunds ?? []).forEach((refund) => {
+        const against = refund.purchase_item_id ? lines.filter((l) => l.id === refund.purchase_item_id) : lines;
+        refundShares(against, Number(refund.amount)).forEach((share) => addTo(rowFor(refund.refund_date.slice(0, 7), share.line.rate), share, -1));
+      });
+    });
+
+    const byMonth = new Map<string, { month: string; rates: RateRow[]; total: Totals }>();
+    Array.from(rows.values()).forEach((r) => {
+      r.taxable = toPaisa(r.taxable);
+      r.cgst = toPaisa(r.cgst);
+      r.sgst = toPaisa(r.sgst);
+      r.igst = toPaisa(r.igst);
+      const m = byMonth.get(r.month) ?? { month: r.month, rates: [], total: emptyTotals() };
+      m.rates.push(r);
+      m.total.taxable += r.taxable;
+      m.total.cgst += r.cgst;
+      m.total.sgst += r.sgst;
+      m.total.igst += r.igst;
+      byMonth.set(r.month, m);
+    });
+    return Array.from(byMonth.values())
+      .map((m) => ({ ...m, rates: m.rates.sort((a, b) => a.rate - b.rate) }))
+      .sort((a, b) => b.month.localeCompare(a.month));
+  }, [purchases]);
+
+  const handleExport = async (format: ExportFormat) => {
+    const columns: ExportColumn<RateRow>[] = [
+      { header: "Month", value: (r) => r.month },
+      { header: "GST Rate (%)", value: (r) => r.rate },
+      { header: "Orders", value: (r) => r.orders.size },
+      { header: "Taxable Value", value: (r) => Math.round(r.taxable * 100) / 100 },
+      { header: "CGST", value: (r) => Math.round(r.cgst * 100) / 100 },
+      { header: "SGST", value: (r) => Math.round(r.sgst * 100) / 100 },
+      { header: "IGST", value: (r) => Math.round(r.igst * 100) / 100 },
+      { header: "Total GST", value: (r) => Math.round((r.cgst + r.sgst + r.igst) * 100) / 100 },
+    ];
+    try {
+      await exportRows(
+        months.flatMap((m) => m.rates),
+        columns,
+        "gst-summary",
+        format,
+      );
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to export GST summary");
+    }
+  };
+
+  return (
+    <div className="bg-card p-4 rounded-md shadow-sm">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-lg font-semibold">GST by rate and month</h3>
+        <ExportMenu onExport={handleExport} disabled={months.length === 0} />
+      </div>
+      <p className="text-xs text-muted-foreground mb-4">Tax charged on orders by order date, less refunds by the date they were given.</p>
+      <div className="overflow-x-auto max-h-96 overflow-y-auto">
+        <table className="min-w-full divide-y divide-border">
+          <thead>
+            <tr className="text-sm text-muted-foreground">
+              <th className="px-4 py-2 text-left">Month</th>
+              <th className="px-4 py-2 text-left">Rate</th>
+              <th className="px-4 py-2 text-left">Orders</th>
+              <th className="px-4 py-2 text-left">Taxable Value</th>
+              <th className="px-4 py-2 text-left">CGST</th>
+              <th className="px-4 py-2 text-left">SGST</th>
+              <th className="px-4 py-2 text-left">IGST</th>
+              <th className="px-4 py-2 text-left">Total GST</th>
+            </tr>
+          </thead>
+          <tbody>
+            {months.map((m) => (
+              <Fragment key={m.month}>
+                {m.rates.map((r, i) => (
+                  <tr key={`${m.month}-${r.rate}`} className="hover:bg-muted/5">
+                    <td className="px-4 py-2">{i === 0 ? monthLabel(m.month) : ""}</td>
+                    <td className="px-4 py-2">{r.rate}%</td>
+                    <td className="px-4 py-2">{r.orders.size}</td>
+                    <td className="px-4 py-2">{formatINR(r.taxable)}</td>
+                    <td className="px-4 py-2">{formatINR(r.cgst)}</td>
+                    <td className="px-4 py-2">{formatINR(r.sgst)}</td>
+                    <td className="px-4 py-2">{formatINR(r.igst)}</td>
+                    <td className="px-4 py-2">{formatINR(r.cgst + r.sgst + r.igst)}</td>
+                  </tr>
+                ))}
+                {m.rates.length > 1 && (
+                  <tr className="font-medium border-b">
+                    <td className="px-4 py-2" />
+                    <td className="px-4 py-2" colSpan={2}>All rates</td>
+                    <td className="px-4 py-2">{formatINR(m.total.taxable)}</td>
+                    <td className="px-4 py-2">{formatINR(m.total.cgst)}</td>
+                    <td className="px-4 py-2">{formatINR(m.total.sgst)}</td>
+                    <td className="px-4 py-2">{formatINR(m.total.igst)}</td>
+                    <td className="px-4 py-2">{formatINR(m.total.cgst + m.total.sgst + m.total.igst)}</td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+            {months.length === 0 && (
+              <tr>
+                <td colSpan={8} className="px-4 py-8 text-center text-muted-foreground">No purchases yet.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default TaxReport;
@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
+import { stockReasonLabel, type StockItem, type StockMovement } from "@/lib/stock";
+import { toast } from "sonner";
+
+type Props = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item: StockItem | null;
+};
+
+type LedgerRow = StockMovement & { purchase?: { item: string; purchase_date: string } | null };
+
+const StockLedgerDialog = ({ open, onOpenChange, item }: Props) => {
+  const [rows, setRows] = useState<LedgerRow[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open || !item) return;
+    setLoading(true);
+    void (async () => {
+      try {
+        const { data, error } = await supabase
+          .from("stock_movements")
+          .select(
+            "id, change, balance_after, reason, purchase_id, note, created_at, actor:profiles!stock_movements_created_by_fkey(full_name), purchase:purchases!stock_movements_purchase_id_fkey(item, purchase_date)",
+          )
+          .eq("stock_item_id", item.id)
+          .order("created_at", { ascending: false })
+          .limit(200);
+        if (error) throw error;
+        setRows((data as LedgerRow[]) || []);
+      } catch (err) {
+        console.error(err);
+        toast.error("Failed to load stock ledger");
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [open, item]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl w-full">
+        <DialogHeader>
+          <DialogTitle>Stock ledger</DialogTitle>
+          <DialogDescription>
+            {item?.product?.name} ({item?.product?.sku}) · {item?.on_hand ?? 0} on hand
+          </DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto">
+            <table className="w-full table-auto text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-2">When</th>
+                  <th className="py-2">Movement</th>
+                  <th className="py-2 text-right">Change</th>
+                  <th className="py-2 text-right">Balance</th>
+                  <th className="py-2 pl-4">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((m) => (
+                  <tr key={m.id} className="border-t align-top">
+                    <td className="py-2 whitespace-nowrap">{new Date(m.created_at).toLocaleString()}</td>
+                    <td className="py-2">{stockReasonLabel(m.reason)}</td>
+                    <td className={cn("py-2 text-right font-medium", m.change < 0 ? "text-destructive" : "text-green-700")}>{m.change > 0 ? `+${m.change}` : m.change}</td>
+                    <td className="py-2 text-right">{m.balance_after}</td>
+                    <td className="py-2 pl-4 text-muted-foreground">
+                      {m.purchase && <div>Order of {new Date(m.purchase.purchase_date).toLocaleDateString()}: {m.purchase.item}</div>}
+                      {m.note && <div>{m.note}</div>}
+                      {m.actor?.full_name && <div className="text-xs">by {m.actor.full_name}</div>}
+                    </td>
+                  </tr>
+                ))}
+                {rows.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="py-8 text-center text-muted-foreground">No stock movements yet</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StockLedgerDialog;
@@ -0,0 +1,298 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import ConfirmDialog from "@/components/ui/confirm-dialog";
+import { AlertTriangle, Boxes, Edit2, History, Loader2, PackagePlus, Plus, Search, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useProducts } from "@/hooks/useProducts";
+import { useStockItems } from "@/hooks/useStockItems";
+import { cn } from "@/lib/utils";
+import { productKey } from "@/lib/products";
+import { STOCK_STATUS_LABELS, stockStatus, type StockItem, type StockStatus } from "@/lib/stock";
+import StockMovementDialog from "./StockMovementDialog";
+import StockLedgerDialog from "./StockLedgerDialog";
+import { toast } from "sonner";
+
+const STATUS_CLASSES: Record<StockStatus, string> = {
+  out: "bg-red-50 text-red-700 border-red-200",
+  low: "bg-amber-50 text-amber-800 border-amber-200",
+  ok: "bg-green-100 text-green-800 border-green-200",
+};
+
+type FormState = { product_id: string; opening_stock: string; low_stock_threshold: string };
+
+const emptyForm: FormState = { product_id: "", opening_stock: "0", low_stock_threshold: "" };
+
+const StockList = () => {
+  const { profile, isAdmin } = useAuth();
+  const { products } = useProducts();
+  const { stockItems, loading, refresh } = useStockItems();
+  const [search, setSearch] = useState("");
+  const [lowOnly, setLowOnly] = useState(false);
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState<StockItem | null>(null);
+  const [form, setForm] = useState<FormState>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [moving, setMoving] = useState<StockItem | null>(null);
+  const [ledgerFor, setLedgerFor] = useState<StockItem | null>(null);
+  const [itemToUntrack, setItemToUntrack] = useState<StockItem | null>(null);
+
+  const untracked = useMemo(() => {
+    const tracked = new Set(stockItems.map((s) => s.product_id));
+    return products.filter((p) => p.active && !tracked.has(p.id));
+  }, [products, stockItems]);
+
+  const lowCount = stockItems.filter((s) => stockStatus(s) !== "ok").length;
+
+  const visible = useMemo(() => {
+    const key = productKey(search);
+    return stockItems.filter(
+      (s) => (!lowOnly || stockStatus(s) !== "ok") && (!key || productKey(`${s.product?.name ?? ""} ${s.product?.sku ?? ""}`).includes(key)),
+    );
+  }, [stockItems, search, lowOnly]);
+
+  const openTrack = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setOpen(true);
+  };
+
+  const openEdit = (s: StockItem) => {
+    setEditing(s);
+    setForm({ product_id: s.product_id, opening_stock: "", low_stock_threshold: s.low_stock_threshold === null ? "" : String(s.low_stock_threshold) });
+    setOpen(true);
+  };
+
+  const handleSave = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    const threshold = form.low_stock_threshold.trim() === "" ? null : Number(form.low_stock_threshold);
+    if (threshold !== null && (!Number.isInteger(threshold) || threshold < 0)) return toast.error("Enter a whole number for the low-stock level");
+
+    setSaving(true);
+    try {
+      if (editing) {
+        const { error } = await supabase
+          .from("stock_items")
+          .update({ low_stock_threshold: threshold, updated_at: new Date().toISOString() })
+          .eq("id", editing.id);
+        if (error) throw error;
+        toast.success("Low-stock level updated");
+      } else {
+        if (!form.product_id) return toast.error("Choose a product");
+        const opening = Number(form.opening_stock || 0);
+        if (!Number.isInteger(opening) || opening < 0) return toast.error("Enter a whole number of units on hand");
+        const { error } = await supabase.rpc("track_stock_item", {
+          _product_id: form.product_id,
+          _opening_stock: opening,
+          _low_stock_threshold: threshold ?? undefined,
+        });
+        if (error) throw error;
+        toast.success("Stock tracking started");
+      }
+      setOpen(false);
+      void refresh();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to save stock item");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUntrackConfirmed = async () => {
+    if (!itemToUntrack) return;
+    try {
+      const { error } = await supabase.from("stock_items").delete().eq("id", itemToUntrack.id);
+      if (error) throw error;
+      toast.success("Stock tracking stopped");
+      void refresh();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to stop tracking stock");
+    } finally {
+      setItemToUntrack(null);
+    }
+  };
+
+  if (!profile) return null;
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-gradient-primary rounded-2xl">
+              <Boxes className="h-8 w-8 text-primary-foreground" />
+            </div>
+            <div>
+              <CardTitle>Stock</CardTitle>
+              <div className="text-sm text-muted-foreground">Units on hand for tracked products; sales take stock automatically</div>
+            </div>
+          </div>
+          {isAdmin && (
+            <Button onClick={openTrack} disabled={untracked.length === 0}>
+              <Plus className="mr-2 h-4 w-4" /> Track Product
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {lowCount > 0 && (
+          <div className="flex items-center gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+            <AlertTriangle className="h-4 w-4" />
+            {lowCount === 1 ? "1 product is" : `${lowCount} products are`} low on stock or sold out
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="relative flex-1 min-w-48">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground h-4 w-4" />
+            <Input className="pl-10" placeholder="Search by name or SKU..." value={search} onChange={(e) => setSearch(e.target.value)} />
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={lowOnly} onChange={(e) => setLowOnly(e.target.checked)} />
+            Low stock only
+          </label>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full table-auto">
+              <thead>
+                <tr className="text-left text-sm text-muted-foreground">
+                  <th className="py-2">Product</th>
+                  <th className="py-2">SKU</th>
+                  <th className="py-2 text-right">On Hand</th>
+                  <th className="py-2 text-right">Low-stock Level</th>
+                  <th className="py-2 pl-4">Status</th>
+                  <th className="py-2 text-right w-40">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((s) => {
+                  const status = stockStatus(s);
+                  return (
+                    <tr key={s.id} className="border-t">
+                      <td className="py-2">
+                        {s.product?.name ?? "—"}
+                        {s.product && !s.product.active && <span className="ml-2 text-xs text-muted-foreground">Inactive</span>}
+                      </td>
+                      <td className="py-2 font-mono text-sm">{s.product?.sku}</td>
+                      <td className="py-2 text-right font-medium">{s.on_hand}</td>
+                      <td className="py-2 text-right">{s.low_stock_threshold ?? <span className="text-muted-foreground">—</span>}</td>
+                      <td className="py-2 pl-4">
+                        <span className={cn("rounded-full border px-2 py-0.5 text-xs font-medium", STATUS_CLASSES[status])}>{STOCK_STATUS_LABELS[status]}</span>
+                      </td>
+                      <td className="py-2 text-right">
+                        <div className="inline-flex items-center justify-end gap-1">
+                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setLedgerFor(s)} aria-label={`Ledger for ${s.product?.name ?? "stock item"}`}>
+                            <History className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setMoving(s)} aria-label={`Update stock of ${s.product?.name ?? "stock item"}`}>
+                            <PackagePlus className="h-4 w-4" />
+                          </Button>
+                          {isAdmin && (
+                            <>
+                              <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => openEdit(s)} aria-label={`Edit low-stock level of ${s.product?.name ?? "stock item"}`}>
+                                <Edit2 className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setItemToUntrack(s)} aria-label={`Stop tracking ${s.product?.name ?? "stock item"}`}>
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {visible.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="py-8 text-center text-muted-foreground">
+                      {stockItems.length === 0 ? "No products are tracked yet" : "No tracked products match"}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md w-full">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Low-stock Level" : "Track Product"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            {editing ? (
+              <div className="text-sm">{editing.product?.name}</div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="stock-product">Product</Label>
+                  <select
+                    id="stock-product"
+                    className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    value={form.product_id}
+                    onChange={(e) => setForm({ ...form, product_id: e.target.value })}
+                  >
+                    <option value="">Choose a product</option>
+                    {untracked.map((p) => (
+                      <option key={p.id} value={p.id}>{p.name} ({p.sku})</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="stock-opening">Units on hand now</Label>
+                  <Input id="stock-opening" type="number" step="1" min="0" value={form.opening_stock} onChange={(e) => setForm({ ...form, opening_stock: e.target.value })} />
+                  <div className="text-xs text-muted-foreground">Only sales recorded from now on take stock</div>
+                </div>
+              </>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="stock-threshold">Low-stock level</Label>
+              <Input
+                id="stock-threshold"
+                type="number"
+                step="1"
+                min="0"
+                placeholder="No warning"
+                value={form.low_stock_threshold}
+                onChange={(e) => setForm({ ...form, low_stock_threshold: e.target.value })}
+              />
+              <div className="text-xs text-muted-foreground">Flag the product when this many units or fewer are left</div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setOpen(false)} disabled={saving}>Cancel</Button>
+              <Button type="submit" disabled={saving}>{saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <StockMovementDialog open={Boolean(moving)} onOpenChange={(o) => !o && setMoving(null)} item={moving} onSaved={() => void refresh()} />
+      <StockLedgerDialog open={Boolean(ledgerFor)} onOpenChange={(o) => !o && setLedgerFor(null)} item={ledgerFor} />
+
+      <ConfirmDialog
+        open={Boolean(itemToUntrack)}
+        onOpenChange={(open) => !open && setItemToUntrack(null)}
+        title="Stop tracking stock"
+        description={`Sales of "${itemToUntrack?.product?.name ?? ""}" will no longer take stock, and its stock ledger will be deleted.`}
+        confirmLabel="Stop tracking"
+        onConfirm={handleUntrackConfirmed}
+      />
+    </Card>
+  );
+};
+
+export default StockList;
@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { StockItem } from "@/lib/stock";
+import { toast } from "sonner";
+
+type Props = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item: StockItem | null;
+  onSaved: () => void;
+};
+
+// returns add units back; an adjustment adds, removes or sets the level to a fresh count
+type Mode = "return" | "add" | "remove" | "count";
+
+const StockMovementDialog = ({ open, onOpenChange, item, onSaved }: Props) => {
+  const { isAdmin } = useAuth();
+  const [mode, setMode] = useState<Mode>("return");
+  const [quantity, setQuantity] = useState("");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setMode("return");
+    setQuantity("");
+    setNote("");
+  }, [open]);
+
+  const qty = Number(quantity);
+  const change = !item || quantity.trim() === "" ? 0 : mode === "remove" ? -qty : mode === "count" ? qty - item.on_hand : qty;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!item) return;
+    if (quantity.trim() === "" || !Number.isInteger(qty) || qty < 0 || (mode !== "count" && qty === 0)) {
+      toast.error("Enter a whole number of units");
+      return;
+    }
+    if (change === 0) {
+      toast.error(`${item.product?.name ?? "This product"} already has ${item.on_hand} on hand`);
+      return;
+    }
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc("adjust_stock", {
+        _stock_item_id: item.id,
+        _change: change,
+        _reason: mode === "return" ? "return" : "adjustment",
+        _note: note.trim() || undefined,
+      });
+      if (error) throw error;
+      toast.success(`${item.product?.name ?? "Stock"} now has ${data} on hand`);
+      onOpenChange(false);
+      onSaved();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to update stock");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md w-full">
+        <DialogHeader>
+          <DialogTitle>Update stock</DialogTitle>
+          <DialogDescription>
+            {item?.product?.name} · {item?.on_hand ?? 0} on hand
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="stock-mode">Change</Label>
+            <select
+              id="stock-mode"
+              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              value={mode}
+              onChange={(e) => setMode(e.target.value as Mode)}
+            >
+              <option value="return">Customer return (adds units)</option>
+              {isAdmin && <option value="add">Add units (delivery, found)</option>}
+              {isAdmin && <option value="remove">Remove units (damaged, lost)</option>}
+              {isAdmin && <option value="count">Set to a stock count</option>}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="stock-qty">{mode === "count" ? "Units counted" : "Units"}</Label>
+            <Input id="stock-qty" type="number" step="1" min="0" value={quantity} onChange={(e) => setQuantity(e.target.value)} />
+            {change !== 0 && item && (
+              <div className="text-xs text-muted-foreground">
+                {change > 0 ? `+${change}` : change} → {item.on_hand + change} on hand
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="stock-note">Note</Label>
+            <Input id="stock-note" placeholder="Optional" value={note} onChange={(e) => setNote(e.target.value)} />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>Cancel</Button>
+            <Button type="submit" disabled={saving}>{saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StockMovementDialog;
@@ -0,0 +1,30 @@
+import { X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { tagColorClass, type Tag } from "@/lib/tags";
+
+type Props = {
+  tag: Tag;
+  onRemove?: () => void;
+  className?: string;
+};
+
+const TagChip = ({ tag, onRemove, className }: Props) => (
+  <span className={cn("inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium", tagColorClass(tag.color), className)}>
+    {tag.name}
+    {onRemove && (
+      <button
+        type="button"
+        className="rounded-full hover:bg-black/10"
+        onClick={(e) => {
+          e.stopPropagation();
+          onRemove();
+        }}
+        aria-label={`Remove tag ${tag.name}`}
+      >
+        <X className="h-3 w-3" />
+      </button>
+    )}
+  </span>
+);
+
+export default TagChip;
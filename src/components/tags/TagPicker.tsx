@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Check, Plus, Tag as TagIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { cn } from "@/lib/utils";
+import { TAG_COLORS, tagColorClass, type Tag } from "@/lib/tags";
+import { toast } from "sonner";
+
+type Props = {
+  tags: Tag[];
+  selectedIds: string[];
+  onToggle: (tag: Tag, selected: boolean) => Promise<void> | void;
+  onCreate?: (name: string, color: string) => Promise<Tag | null>;
+  label?: string;
+  disabled?: boolean;
+};
+
+const colorKeys = Object.keys(TAG_COLORS);
+
+const TagPicker = ({ tags, selectedIds, onToggle, onCreate, label = "Tags", disabled }: Props) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [color, setColor] = useState(colorKeys[0]);
+
+  const exactMatch = tags.some((t) => t.name.toLowerCase() === search.trim().toLowerCase());
+
+  const handleCreate = async () => {
+    if (!onCreate || !search.trim()) return;
+    try {
+      const tag = await onCreate(search, color);
+      if (tag && !selectedIds.includes(tag.id)) await onToggle(tag, true);
+      setSearch("");
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to create tag");
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" size="sm" variant="outline" disabled={disabled}>
+          <TagIcon className="mr-2 h-4 w-4" />
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Find or create a tag..." value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>No tags found</CommandEmpty>
+            <CommandGroup>
+              {tags.map((t) => {
+                const selected = selectedIds.includes(t.id);
+                return (
+                  <CommandItem key={t.id} value={t.name} onSelect={() => void onToggle(t, !selected)}>
+                    <Check className={cn("mr-2 h-4 w-4", selected ? "opacity-100" : "opacity-0")} />
+                    <span className={cn("rounded-full border px-2 py-0.5 text-xs", tagColorClass(t.color))}>{t.name}</span>
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+        {onCreate && search.trim() && !exactMatch && (
+          <div className="border-t p-2 space-y-2">
+            <div className="flex gap-1">
+              {colorKeys.map((c) => (
+                <button
+                  key={c}
+                  type="button"
+                  className={cn("h-5 w-5 rounded-full border", TAG_COLORS[c], color === c && "ring-2 ring-primary ring-offset-1")}
+                  onClick={() => setColor(c)}
+                  aria-label={`Use ${c}`}
+                />
+              ))}
+            </div>
+            <Button type="button" size="sm" variant="ghost" className="w-full justify-start" onClick={() => void handleCreate()}>
+              <Plus className="mr-2 h-4 w-4" />
+              Create "{search.trim()}"
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TagPicker;
@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useCompanyUsers } from "@/hooks/useCompanyUsers";
+import { TASK_STATUSES, todayISODate, type Task, type TaskStatus } from "@/lib/tasks";
+import { toast } from "sonner";
+
+type Props = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // new tasks are created against a contact; existing tasks keep theirs
+  contactId?: string | null;
+  task?: Task | null;
+  onSaved?: () => void;
+};
+
+const TaskDialog = ({ open, onOpenChange, contactId, task, onSaved }: Props) => {
+  const { user, profile } = useAuth();
+  const { users } = useCompanyUsers();
+  const [title, setTitle] = useState("");
+  const [notes, setNotes] = useState("");
+  const [dueDate, setDueDate] = useState(todayISODate());
+  const [assignedTo, setAssignedTo] = useState("");
+  const [status, setStatus] = useState<TaskStatus>("open");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    if (task) {
+      setTitle(task.title);
+      setNotes(task.notes ?? "");
+      setDueDate(task.due_date);
+      setAssignedTo(task.assigned_to);
+      setStatus(task.status);
+    } else {
+      setTitle("");
+      setNotes("");
+      setDueDate(todayISODate());
+      setAssignedTo(user?.id ?? "");
+      setStatus("open");
+    }
+  }, [open, task, user?.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !profile) return;
+    if (!title.trim()) {
+      toast.error("Title is required");
+      return;
+    }
+    if (!assignedTo) {
+      toast.error("Choose who the task is for");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (task) {
+        const { error } = await supabase
+          .from("tasks")
+          .update({
+            title: title.trim(),
+            notes: notes.trim() || null,
+            due_date: dueDate,
+            assigned_to: assignedTo,
+            status,
+            completed_at: status === "open" ? null : task.completed_at ?? new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", task.id);
+        if (error) throw error;
+        toast.success("Task updated");
+      } else {
+        const { error } = await supabase.from("tasks").insert({
+          company_id: profile.company_id,
+          contact_id: contactId ?? null,
+          title: title.trim(),
+          notes: notes.trim() || null,
+          due_date: dueDate,
+          assigned_to: assignedTo,
+          created_by: user.id,
+        });
+        if (error) throw error;
+        toast.success("Task created");
+      }
+      onOpenChange(false);
+      onSaved?.();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to save task");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md w-full">
+        <DialogHeader>
+          <DialogTitle>{task ? "Edit Task" : "New Task"}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="task-title">Title *</Label>
+            <Input id="task-title" placeholder="e.g. Call back about the order" value={title} onChange={(e) => setTitle(e.target.value)} required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="task-due">Due Date *</Label>
+            <Input id="task-due" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="task-assignee">Assign To *</Label>
+            <select
+              id="task-assignee"
+              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              value={assignedTo}
+              onChange={(e) => setAssignedTo(e.target.value)}
+              required
+            >
+              <option value="">Select a user</option>
+              {users
+                .filter((u) => !u.deactivated_at || u.id === assignedTo)
+                .map((u) => (
+                  <option key={u.id} value={u.id}>{u.full_name || u.email}{u.id === user?.id ? " (me)" : ""}</option>
+                ))}
+            </select>
+          </div>
+          {task && (
+            <div className="space-y-2">
+              <Label htmlFor="task-status">Status</Label>
+              <select
+                id="task-status"
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                value={status}
+                onChange={(e) => setStatus(e.target.value as TaskStatus)}
+              >
+                {TASK_STATUSES.map((s) => (
+                  <option key={s.value} value={s.value}>{s.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="task-notes">Notes</Label>
+            <Textarea id="task-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>Cancel</Button>
+            <Button type="submit" disabled={saving}>{saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TaskDialog;
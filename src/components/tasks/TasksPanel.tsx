@@ -0,0 +1,247 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import ConfirmDialog from "@/components/ui/confirm-dialog";
+import { CheckSquare, Edit2, Loader2, Plus, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useCompanyUsers } from "@/hooks/useCompanyUsers";
+import { cn } from "@/lib/utils";
+import { formatDueDate, isTaskDueToday, isTaskOverdue, type Task } from "@/lib/tasks";
+import TaskDialog from "./TaskDialog";
+import { toast } from "sonner";
+
+type Props = {
+  title?: string;
+  // "mine" lists tasks assigned to the signed-in user; "company" lists every task the viewer can see
+  scope: "mine" | "company";
+  // when set, only tasks for this contact are listed and new tasks are linked to it
+  contactId?: string;
+  canCreate?: boolean;
+};
+
+type StatusFilter = "open" | "done" | "all";
+
+const TasksPanel = ({ title = "Tasks", scope, contactId, canCreate = false }: Props) => {
+  const { user, profile, isAdmin } = useAuth();
+  const { users } = useCompanyUsers();
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("open");
+  const [assigneeFilter, setAssigneeFilter] = useState("");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [taskToDelete, setTaskToDelete] = useState<Task | null>(null);
+
+  const showAssignee = scope === "company";
+
+  const fetchTasks = useCallback(async () => {
+    if (!profile || !user) return;
+    setLoading(true);
+    try {
+      let query = supabase
+        .from("tasks")
+        .select("*, contact:contacts(id, name, deleted_at), assignee:profiles!tasks_assigned_to_fkey(id, full_name)")
+        .eq("company_id", profile.company_id);
+
+      if (contactId) query = query.eq("contact_id", contactId);
+      if (scope === "mine") query = query.eq("assigned_to", user.id);
+      else if (assigneeFilter) query = query.eq("assigned_to", assigneeFilter);
+      if (statusFilter !== "all") query = query.eq("status", statusFilter);
+
+      const { data, error } = await query.order("due_date", { ascending: statusFilter === "open" }).order("created_at", { ascending: false });
+      if (error) throw error;
+      setTasks((data as unknown as Task[]) || []);
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to load tasks");
+    } finally {
+      setLoading(false);
+    }
+  }, [profile, user, contactId, scope, assigneeFilter, statusFilter]);
+
+  useEffect(() => {
+    void fetchTasks();
+  }, [fetchTasks]);
+
+  const toggleDone = async (task: Task) => {
+    const done = task.status !== "done";
+    try {
+      const { error } = await supabase
+        .from("tasks")
+        .update({ status: done ? "done" : "open", completed_at: done ? new Date().toISOString() : null, updated_at: new Date().toISOString() })
+        .eq("id", task.id);
+      if (error) throw error;
+      void fetchTasks();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to update task");
+    }
+  };
+
+  const handleDeleteConfirmed = async () => {
+    if (!taskToDelete) return;
+    try {
+      const { error } = await supabase.from("tasks").delete().eq("id", taskToDelete.id);
+      if (error) throw error;
+      toast.success("Task deleted");
+      void fetchTasks();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to delete task");
+    } finally {
+      setTaskToDelete(null);
+    }
+  };
+
+  const overdueCount = tasks.filter(isTaskOverdue).length;
+
+  return (
+    <Card className="shadow-md mb-6">
+      <CardHeader>
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center gap-2">
+            <CheckSquare className="h-5 w-5 text-primary" />
+            <CardTitle>{title}</CardTitle>
+            {overdueCount > 0 && (
+              <span className="inline-flex items-center rounded-full bg-destructive/10 px-2 py-0.5 text-xs font-semibold text-destructive">{overdueCount} overdue</span>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {showAssignee && isAdmin && (
+              <select
+                aria-label="Filter by assignee"
+                className="rounded-md border border-input bg-background px-3 py-2 text-sm h-9"
+                value={assigneeFilter}
+                onChange={(e) => setAssigneeFilter(e.target.value)}
+              >
+                <option value="">Everyone</option>
+                {users.map((u) => (
+                  <option key={u.id} value={u.id}>{u.full_name || u.email}</option>
+                ))}
+              </select>
+            )}
+            <select
+              aria-label="Filter by status"
+              className="rounded-md border border-input bg-background px-3 py-2 text-sm h-9"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+            >
+              <option value="open">Open</option>
+              <option value="done">Done</option>
+              <option value="all">All</option>
+            </select>
+            {canCreate && (
+              <Button size="sm" onClick={() => { setEditingTask(null); setDialogOpen(true); }}>
+                <Plus className="mr-2 h-4 w-4" /> New Task
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full table-auto">
+              <thead>
+                <tr className="text-left text-sm text-muted-foreground">
+                  <th className="py-2 w-8"></th>
+                  <th className="py-2">Task</th>
+                  {!contactId && <th className="py-2">Customer Contact</th>}
+                  {showAssignee && <th className="py-2">Assigned To</th>}
+                  <th className="py-2">Due</th>
+                  <th className="py-2 text-right w-24">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tasks.map((t) => {
+                  const overdue = isTaskOverdue(t);
+                  const canDelete = isAdmin || t.created_by === user?.id;
+                  return (
+                    <tr key={t.id} className={cn("border-t", overdue && "bg-destructive/5")}>
+                      <td className="py-2">
+                        <input
+                          type="checkbox"
+                          aria-label={t.status === "done" ? `Reopen ${t.title}` : `Complete ${t.title}`}
+                          checked={t.status === "done"}
+                          disabled={t.status === "cancelled"}
+                          onChange={() => void toggleDone(t)}
+                        />
+                      </td>
+                      <td className="py-2">
+                        <div className={cn("font-medium", t.status !== "open" && "line-through text-muted-foreground")}>{t.title}</div>
+                        {t.notes && <div className="text-xs text-muted-foreground line-clamp-1">{t.notes}</div>}
+                      </td>
+                      {!contactId && (
+                        <td className="py-2">
+                          {t.contact?.deleted_at ? (
+                            <span className="text-muted-foreground">{t.contact.name} (in trash)</span>
+                          ) : t.contact ? (
+                            <Link to={`/contacts/${t.contact.id}`} state={{ id: t.contact.id }} className="text-primary hover:underline">
+                              {t.contact.name}
+                            </Link>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </td>
+                      )}
+                      {showAssignee && <td className="py-2">{t.assignee?.full_name ?? <span className="text-muted-foreground">—</span>}</td>}
+                      <td className={cn("py-2 whitespace-nowrap", overdue && "text-destructive font-medium", isTaskDueToday(t) && "text-amber-600 font-medium")}>
+                        {formatDueDate(t.due_date)}
+                        {overdue && " · overdue"}
+                        {isTaskDueToday(t) && " · today"}
+                      </td>
+                      <td className="py-2 text-right">
+                        <div className="inline-flex items-center gap-1">
+                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => { setEditingTask(t); setDialogOpen(true); }} aria-label="Edit task">
+                            <Edit2 className="h-4 w-4" />
+                          </Button>
+                          {canDelete && (
+                            <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setTaskToDelete(t)} aria-label="Delete task">
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {tasks.length === 0 && (
+                  <tr>
+                    <td colSpan={4 + (contactId ? 0 : 1) + (showAssignee ? 1 : 0)} className="py-8 text-center text-muted-foreground">
+                      {statusFilter === "open" ? "No open tasks" : "No tasks found"}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      <TaskDialog
+        open={dialogOpen}
+        onOpenChange={(open) => { setDialogOpen(open); if (!open) setEditingTask(null); }}
+        contactId={contactId}
+        task={editingTask}
+        onSaved={() => void fetchTasks()}
+      />
+
+      <ConfirmDialog
+        open={Boolean(taskToDelete)}
+        onOpenChange={(open) => !open && setTaskToDelete(null)}
+        title="Delete task"
+        description={`"${taskToDelete?.title ?? ""}" will be permanently removed.`}
+        confirmLabel="Delete"
+        onConfirm={handleDeleteConfirmed}
+      />
+    </Card>
+  );
+};
+
+export default TasksPanel;
@@ -0,0 +1,279 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import ConfirmDialog from "@/components/ui/confirm-dialog";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { formatINR } from "@/lib/utils";
+import { formatPhone } from "@/lib/phone";
+import { useCompanyCountry } from "@/hooks/useCompanyCountry";
+import { toast } from "sonner";
+
+type TrashKind = "contact" | "purchase";
+
+type TrashedContact = {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  deleted_at: string;
+  deleted_by_profile: { full_name: string | null } | null;
+};
+
+type TrashedPurchase = {
+  id: string;
+  item: string;
+  amount: number;
+  purchase_date: string;
+  deleted_at: string;
+  deleted_by_profile: { full_name: string | null } | null;
+  contact: { name: string; deleted_at: string | null } | null;
+};
+
+type PendingAction = { action: "restore" | "purge"; kind: TrashKind; id: string; label: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TrashManager = () => {
+  const { profile, isAdmin } = useAuth();
+  const { country } = useCompanyCountry();
+  const [contacts, setContacts] = useState<TrashedContact[]>([]);
+  const [purchases, setPurchases] = useState<TrashedPurchase[]>([]);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [retentionInput, setRetentionInput] = useState("30");
+  const [loading, setLoading] = useState(true);
+  const [savingRetention, setSavingRetention] = useState(false);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+
+  const fetchTrash = useCallback(async () => {
+    if (!profile) return;
+    setLoading(true);
+    try {
+      const [contactsRes, purchasesRes, companyRes] = await Promise.all([
+        supabase
+          .from("contacts")
+          .select("id, name, email, phone, deleted_at, deleted_by_profile:profiles!contacts_deleted_by_fkey(full_name)")
+          .eq("company_id", profile.company_id)
+          .not("deleted_at", "is", null)
+          .order("deleted_at", { ascending: false }),
+        supabase
+          .from("purchases")
+          .select("id, item, amount, purchase_date, deleted_at, deleted_by_profile:profiles!purchases_deleted_by_fkey(full_name), contact:contacts(name, deleted_at)")
+          .eq("company_id", profile.company_id)
+          .not("deleted_at", "is", null)
+          .order("deleted_at", { ascending: false }),
+        supabase.from("companies").select("trash_retention_days").eq("id", profile.company_id).single(),
+      ]);
+      if (contactsRes.error) throw contactsRes.error;
+      if (purchasesRes.error) throw purchasesRes.error;
+      if (companyRes.error) throw companyRes.error;
+      setContacts((contactsRes.data as unknown as TrashedContact[]) || []);
+      setPurchases((purchasesRes.data as unknown as TrashedPurchase[]) || []);
+      setRetentionDays(companyRes.data.trash_retention_days);
+      setRetentionInput(String(companyRes.data.trash_retention_days));
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to load trash");
+    } finally {
+      setLoading(false);
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    if (isAdmin) void fetchTrash();
+  }, [fetchTrash, isAdmin]);
+
+  const daysLeft = (deletedAt: string) => Math.max(0, Math.ceil((new Date(deletedAt).getTime() + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+
+  const handleSaveRetention = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const days = Number(retentionInput);
+    if (!Number.isInteger(days) || days < 1 || days > 3650) {
+      toast.error("Retention must be between 1 and 3650 days");
+      return;
+    }
+    setSavingRetention(true);
+    try {
+      const { error } = await supabase.rpc("set_trash_retention", { _days: days });
+      if (error) throw error;
+      setRetentionDays(days);
+      toast.success("Retention period updated");
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to update retention period");
+    } finally {
+      setSavingRetention(false);
+    }
+  };
+
+  const handleConfirmed = async () => {
+    if (!pending) return;
+    const { action, kind, id } = pending;
+    try {
+      const { data, error } = await supabase.rpc(action === "restore" ? "restore_records" : "purge_records", { _kind: kind, _ids: [id] });
+      if (error) throw error;
+      if (!data) {
+        // restore_records skips purchases whose customer contact is still trashed
+        toast.error(kind === "purchase" && action === "restore" ? "Restore the customer contact first" : "Nothing was changed");
+      } else {
+        toast.success(action === "restore" ? "Restored" : "Permanently deleted");
+      }
+      void fetchTrash();
+    } catch (err) {
+      console.error(err);
+      toast.error(action === "restore" ? "Failed to restore" : "Failed to delete permanently");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const actions = (kind: TrashKind, id: string, label: string, canRestore = true) => (
+    <div className="inline-flex items-center gap-1">
+      <Button variant="ghost" size="sm" disabled={!canRestore} onClick={() => setPending({ action: "restore", kind, id, label })} aria-label={`Restore ${label}`}>
+        <RotateCcw className="mr-1 h-4 w-4" /> Restore
+      </Button>
+      <Button variant="ghost" size="sm" onClick={() => setPending({ action: "purge", kind, id, label })} aria-label={`Delete ${label} permanently`}>
+        <Trash2 className="h-4 w-4 text-destructive" />
+      </Button>
+    </div>
+  );
+
+  if (!profile) return null;
+
+  if (!isAdmin) {
+    return <div className="text-center py-12 text-muted-foreground">Only admins can manage the trash.</div>;
+  }
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <CardTitle>Trash</CardTitle>
+            <div className="text-sm text-muted-foreground">Deleted customer contacts and purchases are kept here until they are purged.</div>
+          </div>
+          <form onSubmit={handleSaveRetention} className="flex items-center gap-2 text-sm">
+            <label htmlFor="retention" className="whitespace-nowrap">Purge after</label>
+            <Input id="retention" type="number" min={1} max={3650} className="w-24 h-9" value={retentionInput} onChange={(e) => setRetentionInput(e.target.value)} />
+            <span>days</span>
+            <Button type="submit" size="sm" variant="outline" disabled={savingRetention || Number(retentionInput) === retentionDays}>
+              {savingRetention ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+            </Button>
+          </form>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Tabs defaultValue="contacts">
+            <TabsList>
+              <TabsTrigger value="contacts">Customer Contacts ({contacts.length})</TabsTrigger>
+              <TabsTrigger value="purchases">Purchases ({purchases.length})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="contacts">
+              <div className="overflow-x-auto">
+                <table className="w-full table-auto">
+                  <thead>
+                    <tr className="text-left text-sm text-muted-foreground">
+                      <th className="py-2">Name</th>
+                      <th className="py-2">Email</th>
+                      <th className="py-2">Phone</th>
+                      <th className="py-2">Deleted</th>
+                      <th className="py-2">Purged In</th>
+                      <th className="py-2 text-right">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {contacts.map((c) => (
+                      <tr key={c.id} className="border-t">
+                        <td className="py-2">{c.name}</td>
+                        <td className="py-2">{c.email ?? <span className="text-muted-foreground">—</span>}</td>
+                        <td className="py-2">{c.phone ? formatPhone(c.phone, country) : <span className="text-muted-foreground">—</span>}</td>
+                        <td className="py-2 text-sm">
+                          {new Date(c.deleted_at).toLocaleString()}
+                          {c.deleted_by_profile?.full_name && <div className="text-xs text-muted-foreground">by {c.deleted_by_profile.full_name}</div>}
+                        </td>
+                        <td className="py-2 text-sm">{daysLeft(c.deleted_at)} days</td>
+                        <td className="py-2 text-right">{actions("contact", c.id, c.name)}</td>
+                      </tr>
+                    ))}
+                    {contacts.length === 0 && (
+                      <tr>
+                        <td colSpan={6} className="py-8 text-center text-muted-foreground">No customer contacts in the trash</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="purchases">
+              <div className="overflow-x-auto">
+                <table className="w-full table-auto">
+                  <thead>
+                    <tr className="text-left text-sm text-muted-foreground">
+                      <th className="py-2">Item</th>
+                      <th className="py-2">Customer Contact</th>
+                      <th className="py-2">Amount</th>
+                      <th className="py-2">Deleted</th>
+                      <th className="py-2">Purged In</th>
+                      <th className="py-2 text-right">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {purchases.map((p) => {
+                      const contactTrashed = Boolean(p.contact?.deleted_at);
+                      return (
+                        <tr key={p.id} className="border-t">
+                          <td className="py-2">{p.item}</td>
+                          <td className="py-2">
+                            {p.contact?.name ?? "—"}
+                            {contactTrashed && <span className="ml-1 text-xs text-muted-foreground">(in trash)</span>}
+                          </td>
+                          <td className="py-2">{formatINR(p.amount)}</td>
+                          <td className="py-2 text-sm">
+                            {new Date(p.deleted_at).toLocaleString()}
+                            {p.deleted_by_profile?.full_name && <div className="text-xs text-muted-foreground">by {p.deleted_by_profile.full_name}</div>}
+                          </td>
+                          <td className="py-2 text-sm">{daysLeft(p.deleted_at)} days</td>
+                          <td className="py-2 text-right">{actions("purchase", p.id, p.item, !contactTrashed)}</td>
+                        </tr>
+                      );
+                    })}
+                    {purchases.length === 0 && (
+                      <tr>
+                        <td colSpan={6} className="py-8 text-center text-muted-foreground">No purchases in the trash</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+
+      <ConfirmDialog
+        open={Boolean(pending)}
+        onOpenChange={(open) => !open && setPending(null)}
+        title={pending?.action === "restore" ? "Restore from trash" : "Delete permanently"}
+        description={
+          pending?.action === "restore"
+            ? `Restore "${pending.label}"?${pending.kind === "contact" ? " Purchases deleted along with it are restored too." : ""}`
+            : `Permanently delete "${pending?.label ?? ""}"? This action cannot be undone.`
+        }
+        confirmLabel={pending?.action === "restore" ? "Restore" : "Delete"}
+        onConfirm={handleConfirmed}
+      />
+    </Card>
+  );
+};
+
+export default TrashManager;
@@ -0,0 +1,41 @@
+import React from "react";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import type { ExportFormat } from "@/lib/export";
+
+type Props = {
+  onExport: (format: ExportFormat) => Promise<void> | void;
+  disabled?: boolean;
+  label?: string;
+};
+
+const ExportMenu = ({ onExport, disabled, label = "Export" }: Props) => {
+  const [loading, setLoading] = React.useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setLoading(true);
+    try {
+      await onExport(format);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={disabled || loading}>
+          {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={() => void handleExport("csv")}>CSV (.csv)</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => void handleExport("xlsx")}>Excel (.xlsx)</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
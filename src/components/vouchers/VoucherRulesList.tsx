@@ -13,6 +13,10 @@ import { formatINR } from "@/lib/utils";
 import { toast } from "sonner";
 import ConfirmDialog from "@/components/ui/confirm-dialog";
 import VoucherDialog from "./VoucherDialog";
+import ExportMenu from "@/components/ui/export-menu";
+import { exportRows, type ExportColumn, type ExportFormat } from "@/lib/export";
+import { useConsentStates } from "@/hooks/useConsentStates";
+import { marketingConsent } from "@/lib/consents";
 
 type VoucherRuleRow = Database["public"]["Tables"]["voucher_rules"]["Row"];
 
@@ -163,6 +167,9 @@ const VoucherRulesList = () => {
   const [contactsOptions, setContactsOptions] = useState<Array<{ id: string; name: string }>>([]);
   const [selectedContact, setSelectedContact] = useState<string | null>(null);
   const [issueLoading, setIssueLoading] = useState(false);
+  const { states: consentStates } = useConsentStates(selectedContact ? [selectedContact] : []);
+  const consent = marketingConsent(selectedContact ? consentStates[selectedContact] : undefined);
+  const [consentConfirmOpen, setConsentConfirmOpen] = useState(false);
 
   const [selectedRuleId, setSelectedRuleId] = useState<string | null>(null);
 
@@ -173,13 +180,14 @@ const VoucherRulesList = () => {
     if (!profile) return;
     const fetchContacts = async () => {
       try {
-        let query = supabase.from("contacts").select("id, name").eq("company_id", profile.company_id).limit(200);
+        let query = supabase.from("contacts").select("id, name").eq("company_id", profile.company_id).is("deleted_at", null).limit(200);
         if (!isAdmin && user) {
           query = supabase
             .from("contacts")
             .select("id, name")
             .eq("company_id", profile.company_id)
             .or(`created_by.eq.${user.id},assigned_user_id.eq.${user.id}`)
+            .is("deleted_at", null)
             .limit(200);
         }
         const { data, error } = await query;
@@ -194,7 +202,15 @@ const VoucherRulesList = () => {
   }, [profile, isAdmin, user]);
 
   // recent vouchers list
-  const [vouchersList, setVouchersList] = useState<Array<{ id: string; code: string; status: string; issued_at?: string | null; contact?: { id: string; name?: string } | null; voucher_rule?: { name?: string } | null }>>([]);
+  type VoucherListRow = {
+    id: string;
+    code: string;
+    status: string;
+    issued_at?: string | null;
+    contact?: { id: string; name?: string; created_by?: string | null; assigned_user_id?: string | null } | null;
+    voucher_rule?: { name?: string; discount_type?: string; discount_value?: number } | null;
+  };
+  const [vouchersList, setVouchersList] = useState<VoucherListRow[]>([]);
   const [confirmVoucherOpen, setConfirmVoucherOpen] = useState(false);
   const [voucherToDelete, setVoucherToDelete] = useState<string | null>(null);
 
@@ -204,7 +220,7 @@ const VoucherRulesList = () => {
       const { data, error } = await supabase
         .from("vouchers")
         // alias relations so UI can access `contact` and `voucher_rule` keys
-        .select("id, code, status, issued_at, contact:contacts(id, name), voucher_rule:voucher_rules(name)")
+        .select("id, code, status, issued_at, contact:contacts(id, name, created_by, assigned_user_id), voucher_rule:voucher_rules(name, discount_type, discount_value)")
         .eq("company_id", profile.company_id)
         .order("issued_at", { ascending: false })
         .limit(200);
@@ -220,6 +236,34 @@ const VoucherRulesList = () => {
     void fetchVouchers();
   }, [profile]);
 
+  const formatVoucherStatus = (status: string) => (status === "active" ? "Issued" : status ? status.charAt(0).toUpperCase() + status.slice(1) : "—");
+
+  const handleExportVouchers = async (format: ExportFormat) => {
+    // non-admins only get vouchers for customer contacts they created or are assigned to
+    const rows = isAdmin
+      ? vouchersList
+      : vouchersList.filter((v) => v.contact && (v.contact.created_by === user?.id || v.contact.assigned_user_id === user?.id));
+    const columns: ExportColumn<VoucherListRow>[] = [
+      { header: "Code", value: (v) => v.code },
+      { header: "Rule", value: (v) => v.voucher_rule?.name },
+      { header: "Customer Contact", value: (v) => v.contact?.name },
+      { header: "Discount Type", value: (v) => v.voucher_rule?.discount_type },
+      { header: "Discount Value", value: (v) => (v.voucher_rule ? Number(v.voucher_rule.discount_value) : null) },
+      {
+        header: "Discount (Formatted)",
+        value: (v) => (!v.voucher_rule ? null : v.voucher_rule.discount_type === "percentage" ? `${v.voucher_rule.discount_value}%` : formatINR(Number(v.voucher_rule.discount_value))),
+      },
+      { header: "Issued At", value: (v) => (v.issued_at ? new Date(v.issued_at).toLocaleString() : null) },
+      { header: "Status", value: (v) => formatVoucherStatus(v.status) },
+    ];
+    try {
+      await exportRows(rows, columns, "vouchers", format);
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to export vouchers");
+    }
+  };
+
   // sync selectedRuleId -> issueRule object
   useEffect(() => {
     if (!selectedRuleId) {
@@ -236,13 +280,14 @@ const VoucherRulesList = () => {
   setSelectedContact(null);
     try {
       // admins can pick any contact; users only their contacts (assigned or created)
-      let query = supabase.from("contacts").select("id, name").eq("company_id", profile!.company_id).limit(200);
+      let query = supabase.from("contacts").select("id, name").eq("company_id", profile!.company_id).is("deleted_at", null).limit(200);
       if (!isAdmin && user) {
         query = supabase
           .from("contacts")
           .select("id, name")
           .eq("company_id", profile!.company_id)
           .or(`created_by.eq.${user.id},assigned_user_id.eq.${user.id}`)
+          .is("deleted_at", null)
           .limit(200);
       }
       const { data, error } = await query;
@@ -257,7 +302,20 @@ const VoucherRulesList = () => {
 
   const handleIssue = async (e?: React.FormEvent) => {
     e?.preventDefault();
-      if (!issueRule || !profile || !user || !selectedContact) return;
+    if (!issueRule || !profile || !user || !selectedContact) return;
+    if (consent === "opted_out") {
+      toast.error("This customer contact has opted out of marketing messages");
+      return;
+    }
+    if (consent === "unknown") {
+      setConsentConfirmOpen(true);
+      return;
+    }
+    await issueVoucher();
+  };
+
+  const issueVoucher = async () => {
+    if (!issueRule || !profile || !user || !selectedContact) return;
     setIssueLoading(true);
     try {
       const code = `V-${Math.random().toString(36).slice(2, 9).toUpperCase()}`;
@@ -430,13 +488,30 @@ const VoucherRulesList = () => {
               </div>
 
               <div className="flex-shrink-0">
-                <Button className="h-10" type="submit" disabled={issueLoading || !selectedContact || !issueRule}>{issueLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Issue Voucher"}</Button>
+                <Button className="h-10" type="submit" disabled={issueLoading || !selectedContact || !issueRule || consent === "opted_out"}>{issueLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Issue Voucher"}</Button>
               </div>
             </form>
+            {selectedContact && consent === "opted_out" && (
+              <div className="mt-2 text-sm text-destructive">This customer contact has opted out of marketing messages on every channel.</div>
+            )}
+            {selectedContact && consent === "unknown" && (
+              <div className="mt-2 text-sm text-amber-700">No marketing consent is recorded for this customer contact.</div>
+            )}
+            <ConfirmDialog
+              open={consentConfirmOpen}
+              onOpenChange={setConsentConfirmOpen}
+              title="No marketing consent"
+              description="No marketing consent is recorded for this customer contact. Issue the voucher anyway?"
+              confirmLabel="Issue anyway"
+              onConfirm={issueVoucher}
+            />
 
             {/* recent vouchers table */}
             <div className="mt-4">
-              <h4 className="text-sm font-medium mb-2">Recent Vouchers</h4>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-medium">Recent Vouchers</h4>
+                <ExportMenu onExport={handleExportVouchers} disabled={vouchersList.length === 0} />
+              </div>
               <div className="overflow-x-auto">
                 <table className="w-full table-auto">
                   <thead>
@@ -456,7 +531,7 @@ const VoucherRulesList = () => {
                         <td className="py-2">{v.voucher_rule?.name ?? "—"}</td>
                             <td className="py-2">{v.contact?.name ?? "—"}</td>
                         <td className="py-2">{v.issued_at ? new Date(v.issued_at).toLocaleString() : "-"}</td>
-                            <td className="py-2">{v.status === "active" ? "Issued" : v.status ? v.status.charAt(0).toUpperCase() + v.status.slice(1) : "—"}</td>
+                            <td className="py-2">{formatVoucherStatus(v.status)}</td>
                             {isAdmin && (
                               <td className="py-2 text-right">
                                 <div className="inline-flex items-center justify-end gap-2">
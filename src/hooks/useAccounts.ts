@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Account } from "@/lib/accounts";
+
+export const useAccounts = () => {
+  const { profile } = useAuth();
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!profile) return;
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("accounts")
+      .select("id, name, kind, notes, assigned_user_id, created_by, created_at")
+      .eq("company_id", profile.company_id)
+      .order("name", { ascending: true });
+    if (error) {
+      console.error(error);
+      setAccounts([]);
+    } else {
+      setAccounts((data as Account[]) || []);
+    }
+    setLoading(false);
+  }, [profile]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { accounts, loading, refresh };
+};
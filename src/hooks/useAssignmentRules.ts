@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { AssignmentCandidate, AssignmentResult, AssignmentRule } from "@/lib/assignment";
+import type { Json } from "@/integrations/supabase/types";
+
+// One assignee per candidate, in order; userId is null where no rule matched.
+// Unless dryRun, round-robin rules move on, so call this once per contact actually created.
+export const nextAssignees = async (candidates: AssignmentCandidate[], dryRun = false): Promise<AssignmentResult[]> => {
+  if (candidates.length === 0) return [];
+  const { data, error } = await supabase.rpc("next_assignees", {
+    _contacts: candidates.map((c) => ({ city: c.city ?? null, state: c.state ?? null, tag_ids: c.tag_ids ?? [] })) as unknown as Json,
+    _dry_run: dryRun,
+  });
+  if (error) throw error;
+  return (data ?? []).map((row) => ({ ruleId: row.matched_rule_id ?? null, userId: row.assignee_id ?? null }));
+};
+
+export const useAssignmentRules = () => {
+  const { profile } = useAuth();
+  const [rules, setRules] = useState<AssignmentRule[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!profile) return;
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("assignment_rules")
+      .select("id, name, strategy, user_ids, match_city, match_state, match_tag_id, position, is_active")
+      .eq("company_id", profile.company_id)
+      .order("position", { ascending: true })
+      .order("created_at", { ascending: true });
+    if (error) {
+      console.error(error);
+      setRules([]);
+    } else {
+      setRules((data as AssignmentRule[]) || []);
+    }
+    setLoading(false);
+  }, [profile]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { rules, loading, refresh };
+};
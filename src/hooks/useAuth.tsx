@@ -2,6 +2,7 @@ import { useState, useEffect, createContext, useContext, ReactNode } from "react
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
 import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
 
 interface Profile {
   id: string;
@@ -43,6 +44,12 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       .eq("id", userId)
       .single();
     
+    if (data?.deactivated_at) {
+      // offboarded users keep their login but no longer reach any company data
+      await supabase.auth.signOut();
+      toast.error("Your account has been deactivated. Ask a company admin to reactivate it.");
+      return;
+    }
     if (data) {
       setProfile(data);
     }
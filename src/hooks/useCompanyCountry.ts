@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { asCountryCode, DEFAULT_PHONE_COUNTRY, type CountryCode } from "@/lib/phone";
+
+// the company's default country, used to read phone numbers typed without a country code
+export const useCompanyCountry = () => {
+  const { profile } = useAuth();
+  const [country, setCountry] = useState<CountryCode>(DEFAULT_PHONE_COUNTRY);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!profile) return;
+    setLoading(true);
+    const { data, error } = await supabase.from("companies").select("default_country").eq("id", profile.company_id).single();
+    if (error) {
+      console.error(error);
+    } else {
+      setCountry(asCountryCode(data.default_country));
+    }
+    setLoading(false);
+  }, [profile]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { country, loading, refresh };
+};
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Tag } from "@/lib/tags";
+
+export const useCompanyTags = () => {
+  const { profile, user } = useAuth();
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!profile) return;
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("tags")
+      .select("id, name, color")
+      .eq("company_id", profile.company_id)
+      .order("name", { ascending: true });
+    if (error) {
+      console.error(error);
+      setTags([]);
+    } else {
+      setTags((data as Tag[]) || []);
+    }
+    setLoading(false);
+  }, [profile]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  // returns the existing tag when the name is already taken (case-insensitive)
+  const createTag = useCallback(
+    async (name: string, color = "slate"): Promise<Tag | null> => {
+      if (!profile || !user) return null;
+      const trimmed = name.trim();
+      if (!trimmed) return null;
+      const existing = tags.find((t) => t.name.toLowerCase() === trimmed.toLowerCase());
+      if (existing) return existing;
+
+      const { data, error } = await supabase
+        .from("tags")
+        .insert({ company_id: profile.company_id, created_by: user.id, name: trimmed, color })
+        .select("id, name, color")
+        .single();
+      if (error) throw error;
+      const tag = data as Tag;
+      setTags((prev) => [...prev, tag].sort((a, b) => a.name.localeCompare(b.name)));
+      return tag;
+    },
+    [profile, user, tags],
+  );
+
+  return { tags, loading, refresh, createTag };
+};
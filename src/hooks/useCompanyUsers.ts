@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+
+export type CompanyUser = { id: string; full_name: string | null; email: string; deactivated_at: string | null };
+
+export const useCompanyUsers = () => {
+  const { profile } = useAuth();
+  const [users, setUsers] = useState<CompanyUser[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!profile) return;
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("id, full_name, email, deactivated_at")
+      .eq("company_id", profile.company_id)
+      .order("full_name", { ascending: true });
+    if (error) {
+      console.error(error);
+      setUsers([]);
+    } else {
+      setUsers((data as CompanyUser[]) || []);
+    }
+    setLoading(false);
+  }, [profile]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  // deactivated users keep their names in history but can't be given new work
+  const activeUsers = useMemo(() => users.filter((u) => !u.deactivated_at), [users]);
+
+  return { users, activeUsers, loading, refresh };
+};
@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { ConsentChannel, ConsentState, ConsentStatus } from "@/lib/consents";
+
+export const fetchConsentStates = async (contactIds: string[]) => {
+  const states: Record<string, ConsentState> = {};
+  if (contactIds.length === 0) return states;
+  const { data, error } = await supabase.from("contact_consent_status").select("contact_id, channel, status").in("contact_id", contactIds);
+  if (error) throw error;
+  (data ?? []).forEach((row) => {
+    if (!row.contact_id) return;
+    states[row.contact_id] = { ...states[row.contact_id], [row.channel as ConsentChannel]: row.status as ConsentStatus };
+  });
+  return states;
+};
+
+// current consent per channel for a set of customer contacts
+export const useConsentStates = (contactIds: string[]) => {
+  const [states, setStates] = useState<Record<string, ConsentState>>({});
+  // a stable key so a new array with the same ids does not refetch
+  const key = [...contactIds].sort().join(",");
+
+  const refresh = useCallback(async () => {
+    try {
+      setStates(await fetchConsentStates(key ? key.split(",") : []));
+    } catch (err) {
+      console.error(err);
+      setStates({});
+    }
+  }, [key]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { states, refresh };
+};
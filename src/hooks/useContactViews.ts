@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { asContactFilter, type ContactFilter } from "@/lib/contactFilters";
+import type { Json } from "@/integrations/supabase/types";
+
+export type ContactView = {
+  id: string;
+  name: string;
+  filter: ContactFilter;
+  is_shared: boolean;
+  created_by: string;
+};
+
+// the user's own saved ContactsList views plus those shared with the company
+export const useContactViews = () => {
+  const { profile, user } = useAuth();
+  const [views, setViews] = useState<ContactView[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!profile) return;
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("contact_views")
+      .select("id, name, filter, is_shared, created_by")
+      .eq("company_id", profile.company_id)
+      .order("name", { ascending: true });
+    if (error) {
+      console.error(error);
+      setViews([]);
+    } else {
+      setViews((data ?? []).map((v) => ({ ...v, filter: asContactFilter(v.filter) })));
+    }
+    setLoading(false);
+  }, [profile]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  // saving under the name of one of your own views overwrites it
+  const saveView = useCallback(
+    async (name: string, filter: ContactFilter, isShared: boolean): Promise<ContactView | null> => {
+      if (!profile || !user) return null;
+      const trimmed = name.trim();
+      if (!trimmed) return null;
+      const existing = views.find((v) => v.created_by === user.id && v.name.toLowerCase() === trimmed.toLowerCase());
+      const values = { name: trimmed, filter: filter as unknown as Json, is_shared: isShared };
+
+      const { data, error } = existing
+        ? await supabase.from("contact_views").update({ ...values, updated_at: new Date().toISOString() }).eq("id", existing.id).select("id, name, filter, is_shared, created_by").single()
+        : await supabase
+            .from("contact_views")
+            .insert({ ...values, company_id: profile.company_id, created_by: user.id })
+            .select("id, name, filter, is_shared, created_by")
+            .single();
+      if (error) throw error;
+      const view = { ...data, filter: asContactFilter(data.filter) };
+      setViews((prev) => [...prev.filter((v) => v.id !== view.id), view].sort((a, b) => a.name.localeCompare(b.name)));
+      return view;
+    },
+    [profile, user, views],
+  );
+
+  const deleteView = useCallback(async (id: string) => {
+    const { error } = await supabase.from("contact_views").delete().eq("id", id);
+    if (error) throw error;
+    setViews((prev) => prev.filter((v) => v.id !== id));
+  }, []);
+
+  return { views, loading, refresh, saveView, deleteView };
+};
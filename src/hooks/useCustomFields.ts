@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { CustomFieldDefinition } from "@/lib/customFields";
+
+export const useCustomFields = () => {
+  const { profile } = useAuth();
+  const [fields, setFields] = useState<CustomFieldDefinition[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!profile) return;
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("custom_field_definitions")
+      .select("id, key, label, field_type, options, is_required, position")
+      .eq("company_id", profile.company_id)
+      .order("position", { ascending: true })
+      .order("created_at", { ascending: true });
+    if (error) {
+      console.error(error);
+      setFields([]);
+    } else {
+      setFields((data as CustomFieldDefinition[]) || []);
+    }
+    setLoading(false);
+  }, [profile]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { fields, loading, refresh };
+};
@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { DEFAULT_GST_SETTINGS, type GstSettings } from "@/lib/gst";
+
+// the company's GSTIN, home state and default pricing mode
+export const useGstSettings = () => {
+  const { profile } = useAuth();
+  const [settings, setSettings] = useState<GstSettings>(DEFAULT_GST_SETTINGS);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!profile) return;
+    setLoading(true);
+    const { data, error } = await supabase.from("companies").select("gstin, gst_state, prices_include_tax").eq("id", profile.company_id).single();
+    if (error) {
+      console.error(error);
+    } else {
+      setSettings(data);
+    }
+    setLoading(false);
+  }, [profile]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { settings, loading, refresh };
+};
@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Product } from "@/lib/products";
+
+export const useProducts = () => {
+  const { profile } = useAuth();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!profile) return;
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("products")
+      .select("id, sku, name, category, unit_price, tax_rate, active")
+      .eq("company_id", profile.company_id)
+      .order("name", { ascending: true });
+    if (error) {
+      console.error(error);
+      setProducts([]);
+    } else {
+      setProducts((data as Product[]) || []);
+    }
+    setLoading(false);
+  }, [profile]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { products, loading, refresh };
+};
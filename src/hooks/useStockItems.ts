@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { StockItem } from "@/lib/stock";
+
+export const useStockItems = () => {
+  const { profile } = useAuth();
+  const [stockItems, setStockItems] = useState<StockItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!profile) return;
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("stock_items")
+      .select("id, product_id, on_hand, low_stock_threshold, created_at, product:products!stock_items_product_id_fkey(name, sku, category, active)")
+      .eq("company_id", profile.company_id);
+    if (error) {
+      console.error(error);
+      setStockItems([]);
+    } else {
+      const rows = (data as StockItem[]) || [];
+      setStockItems(rows.sort((a, b) => (a.product?.name ?? "").localeCompare(b.product?.name ?? "")));
+    }
+    setLoading(false);
+  }, [profile]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { stockItems, loading, refresh };
+};
@@ -14,156 +14,1225 @@ export type Database = {
   }
   public: {
     Tables: {
+      accounts: {
+        Row: {
+          assigned_user_id: string | null
+          company_id: string
+          created_at: string
+          created_by: string
+          id: string
+          kind: string
+          name: string
+          notes: string | null
+          updated_at: string
+        }
+        Insert: {
+          assigned_user_id?: string | null
+          company_id: string
+          created_at?: string
+          created_by: string
+          id?: string
+          kind?: string
+          name: string
+          notes?: string | null
+          updated_at?: string
+        }
+        Update: {
+          assigned_user_id?: string | null
+          company_id?: string
+          created_at?: string
+          created_by?: string
+          id?: string
+          kind?: string
+          name?: string
+          notes?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "accounts_assigned_user_id_fkey"
+            columns: ["assigned_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "accounts_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "accounts_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      assignment_rules: {
+        Row: {
+          company_id: string
+          created_at: string
+          id: string
+          is_active: boolean
+          last_assigned_user_id: string | null
+          match_city: string | null
+          match_state: string | null
+          match_tag_id: string | null
+          name: string
+          position: number
+          strategy: string
+          updated_at: string
+          user_ids: string[]
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          last_assigned_user_id?: string | null
+          match_city?: string | null
+          match_state?: string | null
+          match_tag_id?: string | null
+          name: string
+          position?: number
+          strategy?: string
+          updated_at?: string
+          user_ids?: string[]
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          last_assigned_user_id?: string | null
+          match_city?: string | null
+          match_state?: string | null
+          match_tag_id?: string | null
+          name?: string
+          position?: number
+          strategy?: string
+          updated_at?: string
+          user_ids?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assignment_rules_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignment_rules_last_assigned_user_id_fkey"
+            columns: ["last_assigned_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignment_rules_match_tag_id_fkey"
+            columns: ["match_tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          action: string
+          changed_at: string
+          changed_by: string | null
+          changed_fields: string[] | null
+          company_id: string
+          contact_id: string | null
+          id: number
+          new_data: Json | null
+          old_data: Json | null
+          record_id: string
+          table_name: string
+        }
+        Insert: {
+          action: string
+          changed_at?: string
+          changed_by?: string | null
+          changed_fields?: string[] | null
+          company_id: string
+          contact_id?: string | null
+          id?: never
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id: string
+          table_name: string
+        }
+        Update: {
+          action?: string
+          changed_at?: string
+          changed_by?: string | null
+          changed_fields?: string[] | null
+          company_id?: string
+          contact_id?: string | null
+          id?: never
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string
+          table_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "audit_log_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       companies: {
         Row: {
           created_at: string
+          default_country: string
+          gst_state: string | null
+          gstin: string | null
+          id: string
+          industry: string | null
+          name: string
+          prices_include_tax: boolean
+          trash_retention_days: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          default_country?: string
+          gst_state?: string | null
+          gstin?: string | null
+          id?: string
+          industry?: string | null
+          name: string
+          prices_include_tax?: boolean
+          trash_retention_days?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          default_country?: string
+          gst_state?: string | null
+          gstin?: string | null
+          id?: string
+          industry?: string | null
+          name?: string
+          prices_include_tax?: boolean
+          trash_retention_days?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      contact_activities: {
+        Row: {
+          activity_type: string
+          body: string
+          company_id: string
+          contact_id: string
+          created_at: string
+          created_by: string
+          id: string
+          is_pinned: boolean
+          occurred_at: string
+          updated_at: string
+        }
+        Insert: {
+          activity_type: string
+          body: string
+          company_id: string
+          contact_id: string
+          created_at?: string
+          created_by: string
+          id?: string
+          is_pinned?: boolean
+          occurred_at?: string
+          updated_at?: string
+        }
+        Update: {
+          activity_type?: string
+          body?: string
+          company_id?: string
+          contact_id?: string
+          created_at?: string
+          created_by?: string
+          id?: string
+          is_pinned?: boolean
+          occurred_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_activities_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_activities_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contact_consents: {
+        Row: {
+          captured_at: string
+          captured_by: string
+          channel: string
+          company_id: string
+          contact_id: string
+          created_at: string
+          id: string
+          note: string | null
+          source: string
+          status: string
+        }
+        Insert: {
+          captured_at?: string
+          captured_by: string
+          channel: string
+          company_id: string
+          contact_id: string
+          created_at?: string
+          id?: string
+          note?: string | null
+          source: string
+          status: string
+        }
+        Update: {
+          captured_at?: string
+          captured_by?: string
+          channel?: string
+          company_id?: string
+          contact_id?: string
+          created_at?: string
+          id?: string
+          note?: string | null
+          source?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_consents_captured_by_fkey"
+            columns: ["captured_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_consents_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_consents_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contact_merges: {
+        Row: {
+          company_id: string
+          id: string
+          merged_at: string
+          merged_by: string
+          merged_contact: Json
+          merged_contact_id: string
+          purchases_moved: number
+          survivor_id: string | null
+          vouchers_moved: number
+        }
+        Insert: {
+          company_id: string
+          id?: string
+          merged_at?: string
+          merged_by: string
+          merged_contact: Json
+          merged_contact_id: string
+          purchases_moved?: number
+          survivor_id?: string | null
+          vouchers_moved?: number
+        }
+        Update: {
+          company_id?: string
+          id?: string
+          merged_at?: string
+          merged_by?: string
+          merged_contact?: Json
+          merged_contact_id?: string
+          purchases_moved?: number
+          survivor_id?: string | null
+          vouchers_moved?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_merges_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_merges_survivor_id_fkey"
+            columns: ["survivor_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contact_tags: {
+        Row: {
+          company_id: string
+          contact_id: string
+          created_at: string
+          created_by: string
+          tag_id: string
+        }
+        Insert: {
+          company_id: string
+          contact_id: string
+          created_at?: string
+          created_by: string
+          tag_id: string
+        }
+        Update: {
+          company_id?: string
+          contact_id?: string
+          created_at?: string
+          created_by?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_tags_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_tags_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contact_views: {
+        Row: {
+          company_id: string
+          created_at: string
+          created_by: string
+          filter: Json
+          id: string
+          is_shared: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          created_by: string
+          filter?: Json
+          id?: string
+          is_shared?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          created_by?: string
+          filter?: Json
+          id?: string
+          is_shared?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_views_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_views_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contacts: {
+        Row: {
+          account_id: string | null
+          address_line1: string | null
+          address_line2: string | null
+          assigned_user_id: string | null
+          city: string | null
+          company_id: string
+          country: string | null
+          created_at: string
+          created_by: string
+          custom_fields: Json
+          deleted_at: string | null
+          deleted_by: string | null
+          email: string | null
+          erased_at: string | null
+          erased_by: string | null
+          id: string
+          name: string
+          phone: string | null
+          pincode: string | null
+          state: string | null
+          updated_at: string
+        }
+        Insert: {
+          account_id?: string | null
+          address_line1?: string | null
+          address_line2?: string | null
+          assigned_user_id?: string | null
+          city?: string | null
+          company_id: string
+          country?: string | null
+          created_at?: string
+          created_by: string
+          custom_fields?: Json
+          deleted_at?: string | null
+          deleted_by?: string | null
+          email?: string | null
+          erased_at?: string | null
+          erased_by?: string | null
+          id?: string
+          name: string
+          phone?: string | null
+          pincode?: string | null
+          state?: string | null
+          updated_at?: string
+        }
+        Update: {
+          account_id?: string | null
+          address_line1?: string | null
+          address_line2?: string | null
+          assigned_user_id?: string | null
+          city?: string | null
+          company_id?: string
+          country?: string | null
+          created_at?: string
+          created_by?: string
+          custom_fields?: Json
+          deleted_at?: string | null
+          deleted_by?: string | null
+          email?: string | null
+          erased_at?: string | null
+          erased_by?: string | null
+          id?: string
+          name?: string
+          phone?: string | null
+          pincode?: string | null
+          state?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contacts_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contacts_assigned_user_id_fkey"
+            columns: ["assigned_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contacts_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contacts_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contacts_erased_by_fkey"
+            columns: ["erased_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      custom_field_definitions: {
+        Row: {
+          company_id: string
+          created_at: string
+          field_type: string
+          id: string
+          is_required: boolean
+          key: string
+          label: string
+          options: string[]
+          position: number
+          updated_at: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          field_type: string
+          id?: string
+          is_required?: boolean
+          key: string
+          label: string
+          options?: string[]
+          position?: number
+          updated_at?: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          field_type?: string
+          id?: string
+          is_required?: boolean
+          key?: string
+          label?: string
+          options?: string[]
+          position?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "custom_field_definitions_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          active: boolean
+          category: string | null
+          company_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          sku: string
+          tax_rate: number
+          unit_price: number
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          category?: string | null
+          company_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          sku: string
+          tax_rate?: number
+          unit_price?: number
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          category?: string | null
+          company_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          sku?: string
+          tax_rate?: number
+          unit_price?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "products_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          company_id: string
+          created_at: string
+          deactivated_at: string | null
+          deactivated_by: string | null
+          email: string
+          full_name: string | null
+          id: string
+          updated_at: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          deactivated_at?: string | null
+          deactivated_by?: string | null
+          email: string
+          full_name?: string | null
+          id: string
+          updated_at?: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          deactivated_at?: string | null
+          deactivated_by?: string | null
+          email?: string
+          full_name?: string | null
+          id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_deactivated_by_fkey"
+            columns: ["deactivated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_items: {
+        Row: {
+          cgst: number
+          company_id: string
+          created_at: string
+          discount: number
+          id: string
+          igst: number
+          line_total: number | null
+          position: number
+          product: string
+          product_id: string | null
+          purchase_id: string
+          quantity: number
+          sgst: number
+          tax_rate: number
+          taxable_value: number
+          unit_price: number
+        }
+        Insert: {
+          cgst?: number
+          company_id: string
+          created_at?: string
+          discount?: number
+          id?: string
+          igst?: number
+          line_total?: number | null
+          position?: number
+          product: string
+          product_id?: string | null
+          purchase_id: string
+          quantity: number
+          sgst?: number
+          tax_rate?: number
+          taxable_value?: number
+          unit_price: number
+        }
+        Update: {
+          cgst?: number
+          company_id?: string
+          created_at?: string
+          discount?: number
+          id?: string
+          igst?: number
+          line_total?: number | null
+          position?: number
+          product?: string
+          product_id?: string | null
+          purchase_id?: string
+          quantity?: number
+          sgst?: number
+          tax_rate?: number
+          taxable_value?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_items_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_items_purchase_id_fkey"
+            columns: ["purchase_id"]
+            isOneToOne: false
+            referencedRelation: "purchases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_refunds: {
+        Row: {
+          amount: number
+          company_id: string
+          created_at: string
+          created_by: string | null
           id: string
-          industry: string | null
-          name: string
-          updated_at: string
+          purchase_id: string
+          purchase_item_id: string | null
+          quantity: number
+          reason: string
+          refund_date: string
+          restocked: boolean
         }
         Insert: {
+          amount: number
+          company_id: string
           created_at?: string
+          created_by?: string | null
           id?: string
-          industry?: string | null
-          name: string
-          updated_at?: string
+          purchase_id: string
+          purchase_item_id?: string | null
+          quantity?: number
+          reason: string
+          refund_date?: string
+          restocked?: boolean
         }
         Update: {
+          amount?: number
+          company_id?: string
           created_at?: string
+          created_by?: string | null
           id?: string
-          industry?: string | null
-          name?: string
-          updated_at?: string
+          purchase_id?: string
+          purchase_item_id?: string | null
+          quantity?: number
+          reason?: string
+          refund_date?: string
+          restocked?: boolean
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "purchase_refunds_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_refunds_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_refunds_purchase_id_fkey"
+            columns: ["purchase_id"]
+            isOneToOne: false
+            referencedRelation: "purchases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_refunds_purchase_item_id_fkey"
+            columns: ["purchase_item_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_items"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      contacts: {
+      purchases: {
         Row: {
-          address: string | null
-          assigned_user_id: string | null
+          amount: number
+          cgst_total: number
           company_id: string
+          contact_id: string
           created_at: string
           created_by: string
-          email: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+          discount_total: number
           id: string
-          name: string
-          phone: string | null
-          updated_at: string
+          igst_total: number
+          inter_state: boolean
+          item: string
+          place_of_supply: string | null
+          prices_include_tax: boolean
+          purchase_date: string
+          quantity: number
+          refunded_amount: number
+          sgst_total: number
+          subtotal: number
+          tax_total: number
+          taxable_total: number
         }
         Insert: {
-          address?: string | null
-          assigned_user_id?: string | null
+          amount: number
+          cgst_total?: number
           company_id: string
+          contact_id: string
           created_at?: string
           created_by: string
-          email?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          discount_total?: number
           id?: string
-          name: string
-          phone?: string | null
-          updated_at?: string
+          igst_total?: number
+          inter_state?: boolean
+          item: string
+          place_of_supply?: string | null
+          prices_include_tax?: boolean
+          purchase_date?: string
+          quantity?: number
+          refunded_amount?: number
+          sgst_total?: number
+          subtotal?: number
+          tax_total?: number
+          taxable_total?: number
         }
         Update: {
-          address?: string | null
-          assigned_user_id?: string | null
+          amount?: number
+          cgst_total?: number
           company_id?: string
+          contact_id?: string
           created_at?: string
           created_by?: string
-          email?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          discount_total?: number
           id?: string
-          name?: string
-          phone?: string | null
-          updated_at?: string
+          igst_total?: number
+          inter_state?: boolean
+          item?: string
+          place_of_supply?: string | null
+          prices_include_tax?: boolean
+          purchase_date?: string
+          quantity?: number
+          refunded_amount?: number
+          sgst_total?: number
+          subtotal?: number
+          tax_total?: number
+          taxable_total?: number
         }
         Relationships: [
           {
-            foreignKeyName: "contacts_company_id_fkey"
+            foreignKeyName: "purchases_company_id_fkey"
             columns: ["company_id"]
             isOneToOne: false
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "purchases_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchases_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      profiles: {
+      stock_items: {
         Row: {
           company_id: string
           created_at: string
-          email: string
-          full_name: string | null
+          created_by: string | null
           id: string
+          low_stock_threshold: number | null
+          on_hand: number
+          product_id: string
           updated_at: string
         }
         Insert: {
           company_id: string
           created_at?: string
-          email: string
-          full_name?: string | null
-          id: string
+          created_by?: string | null
+          id?: string
+          low_stock_threshold?: number | null
+          on_hand?: number
+          product_id: string
           updated_at?: string
         }
         Update: {
           company_id?: string
           created_at?: string
-          email?: string
-          full_name?: string | null
+          created_by?: string | null
           id?: string
+          low_stock_threshold?: number | null
+          on_hand?: number
+          product_id?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "profiles_company_id_fkey"
+            foreignKeyName: "stock_items_company_id_fkey"
             columns: ["company_id"]
             isOneToOne: false
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "stock_items_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: true
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      purchases: {
+      stock_movements: {
         Row: {
-          amount: number
+          balance_after: number
+          change: number
+          company_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          note: string | null
+          purchase_id: string | null
+          reason: string
+          refund_id: string | null
+          stock_item_id: string
+        }
+        Insert: {
+          balance_after: number
+          change: number
+          company_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          note?: string | null
+          purchase_id?: string | null
+          reason: string
+          refund_id?: string | null
+          stock_item_id: string
+        }
+        Update: {
+          balance_after?: number
+          change?: number
+          company_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          note?: string | null
+          purchase_id?: string | null
+          reason?: string
+          refund_id?: string | null
+          stock_item_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_purchase_id_fkey"
+            columns: ["purchase_id"]
+            isOneToOne: false
+            referencedRelation: "purchases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_refund_id_fkey"
+            columns: ["refund_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_refunds"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_stock_item_id_fkey"
+            columns: ["stock_item_id"]
+            isOneToOne: false
+            referencedRelation: "stock_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tags: {
+        Row: {
+          color: string
           company_id: string
-          contact_id: string
           created_at: string
           created_by: string
           id: string
-          item: string
-          quantity: number
-          purchase_date: string
+          name: string
         }
         Insert: {
-          amount: number
+          color?: string
           company_id: string
-          contact_id: string
           created_at?: string
           created_by: string
           id?: string
-          item: string
-          quantity?: number
-          purchase_date?: string
+          name: string
         }
         Update: {
-          amount?: number
+          color?: string
           company_id?: string
-          contact_id?: string
           created_at?: string
           created_by?: string
           id?: string
-          item?: string
-          quantity?: number
-          purchase_date?: string
+          name?: string
         }
         Relationships: [
           {
-            foreignKeyName: "purchases_company_id_fkey"
+            foreignKeyName: "tags_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tasks: {
+        Row: {
+          assigned_to: string
+          company_id: string
+          completed_at: string | null
+          contact_id: string | null
+          created_at: string
+          created_by: string
+          due_date: string
+          id: string
+          notes: string | null
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          assigned_to: string
+          company_id: string
+          completed_at?: string | null
+          contact_id?: string | null
+          created_at?: string
+          created_by: string
+          due_date: string
+          id?: string
+          notes?: string | null
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          assigned_to?: string
+          company_id?: string
+          completed_at?: string | null
+          contact_id?: string | null
+          created_at?: string
+          created_by?: string
+          due_date?: string
+          id?: string
+          notes?: string | null
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tasks_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_company_id_fkey"
             columns: ["company_id"]
             isOneToOne: false
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "purchases_contact_id_fkey"
+            foreignKeyName: "tasks_contact_id_fkey"
             columns: ["contact_id"]
             isOneToOne: false
             referencedRelation: "contacts"
@@ -311,9 +1380,57 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      contact_consent_status: {
+        Row: {
+          captured_at: string | null
+          captured_by: string | null
+          channel: string | null
+          company_id: string | null
+          contact_id: string | null
+          source: string | null
+          status: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_consents_captured_by_fkey"
+            columns: ["captured_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_consents_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_consents_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      account_revenue: {
+        Args: { "": Database["public"]["Tables"]["accounts"]["Row"] }
+        Returns: number
+      }
+      adjust_stock: {
+        Args: {
+          _change: number
+          _note?: string
+          _purchase_id?: string
+          _reason: string
+          _stock_item_id: string
+        }
+        Returns: number
+      }
+      erase_contact: { Args: { _contact_id: string }; Returns: undefined }
       get_user_company_id: { Args: { _user_id: string }; Returns: string }
       has_role: {
         Args: {
@@ -322,6 +1439,86 @@ export type Database = {
         }
         Returns: boolean
       }
+      last_purchase_date: {
+        Args: { "": Database["public"]["Tables"]["contacts"]["Row"] }
+        Returns: string
+      }
+      member_count: {
+        Args: { "": Database["public"]["Tables"]["accounts"]["Row"] }
+        Returns: number
+      }
+      merge_contacts: {
+        Args: { _duplicate_ids: string[]; _survivor_id: string }
+        Returns: number
+      }
+      next_assignees: {
+        Args: { _contacts: Json; _dry_run?: boolean }
+        Returns: {
+          assignee_id: string
+          matched_rule_id: string
+        }[]
+      }
+      offboard_user: {
+        Args: { _deactivate?: boolean; _to_user_ids: string[]; _user_id: string }
+        Returns: Json
+      }
+      purge_records: {
+        Args: { _ids: string[]; _kind: string }
+        Returns: number
+      }
+      reactivate_user: { Args: { _user_id: string }; Returns: undefined }
+      refund_purchase: {
+        Args: {
+          _amount: number
+          _purchase_id: string
+          _purchase_item_id?: string
+          _quantity?: number
+          _reason: string
+          _refund_date?: string
+          _restock?: boolean
+        }
+        Returns: string
+      }
+      restore_records: {
+        Args: { _ids: string[]; _kind: string }
+        Returns: number
+      }
+      save_purchase: {
+        Args: {
+          _contact_id: string
+          _items: Json
+          _prices_include_tax?: boolean
+          _purchase_date: string
+          _purchase_id: string | null
+        }
+        Returns: string
+      }
+      set_default_country: { Args: { _country: string }; Returns: undefined }
+      set_gst_settings: {
+        Args: { _gstin: string; _prices_include_tax: boolean; _state: string }
+        Returns: undefined
+      }
+      set_trash_retention: { Args: { _days: number }; Returns: undefined }
+      total_spend: {
+        Args: { "": Database["public"]["Tables"]["contacts"]["Row"] }
+        Returns: number
+      }
+      track_stock_item: {
+        Args: {
+          _low_stock_threshold?: number
+          _opening_stock: number
+          _product_id: string
+        }
+        Returns: string
+      }
+      trash_records: {
+        Args: { _ids: string[]; _kind: string }
+        Returns: number
+      }
+      voucher_statuses: {
+        Args: { "": Database["public"]["Tables"]["contacts"]["Row"] }
+        Returns: string[]
+      }
     }
     Enums: {
       app_role: "admin" | "user"
@@ -0,0 +1,22 @@
+export type AccountKind = "business" | "household";
+
+export type Account = {
+  id: string;
+  name: string;
+  kind: AccountKind;
+  notes: string | null;
+  assigned_user_id: string | null;
+  created_by: string;
+  created_at: string;
+};
+
+export const ACCOUNT_KINDS: Array<{ value: AccountKind; label: string }> = [
+  { value: "business", label: "Business" },
+  { value: "household", label: "Household" },
+];
+
+export const accountKindLabel = (kind: string) => ACCOUNT_KINDS.find((k) => k.value === kind)?.label ?? kind;
+
+// the account's owner (creator or assignee) sees every member; others only the members they own
+export const ownsAccount = (account: Pick<Account, "created_by" | "assigned_user_id">, userId: string | undefined) =>
+  Boolean(userId && (account.created_by === userId || account.assigned_user_id === userId));
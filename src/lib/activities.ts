@@ -0,0 +1,36 @@
+export type ActivityType = "note" | "call" | "meeting" | "email";
+
+// written by the system (e.g. when an offboarded user's contacts are handed over), never by hand
+export type SystemActivityType = "transfer";
+
+export type ContactActivity = {
+  id: string;
+  contact_id: string;
+  activity_type: ActivityType | SystemActivityType;
+  body: string;
+  occurred_at: string;
+  is_pinned: boolean;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export const ACTIVITY_TYPES: Array<{ value: ActivityType; label: string }> = [
+  { value: "note", label: "Note" },
+  { value: "call", label: "Call" },
+  { value: "meeting", label: "Meeting" },
+  { value: "email", label: "Email" },
+];
+
+const SYSTEM_ACTIVITY_TYPES: Array<{ value: SystemActivityType; label: string }> = [{ value: "transfer", label: "Reassigned" }];
+
+export const isSystemActivity = (type: string) => SYSTEM_ACTIVITY_TYPES.some((t) => t.value === type);
+
+export const activityTypeLabel = (type: string) => [...ACTIVITY_TYPES, ...SYSTEM_ACTIVITY_TYPES].find((t) => t.value === type)?.label ?? type;
+
+// <input type="datetime-local"> works in local time without a zone suffix
+export const toDateTimeLocal = (iso: string | Date) => {
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
@@ -0,0 +1,153 @@
+import { isPincodeFormat, lookupPincode } from "./pincodes";
+
+export type AddressFields = {
+  address_line1: string | null;
+  address_line2: string | null;
+  city: string | null;
+  state: string | null;
+  pincode: string | null;
+  country: string | null;
+};
+
+export type AddressForm = Record<keyof AddressFields, string>;
+
+export const DEFAULT_COUNTRY = "India";
+
+export const INDIAN_STATES = [
+  "Andhra Pradesh",
+  "Arunachal Pradesh",
+  "Assam",
+  "Bihar",
+  "Chhattisgarh",
+  "Goa",
+  "Gujarat",
+  "Haryana",
+  "Himachal Pradesh",
+  "Jharkhand",
+  "Karnataka",
+  "Kerala",
+  "Madhya Pradesh",
+  "Maharashtra",
+  "Manipur",
+  "Meghalaya",
+  "Mizoram",
+  "Nagaland",
+  "Odisha",
+  "Punjab",
+  "Rajasthan",
+  "Sikkim",
+  "Tamil Nadu",
+  "Telangana",
+  "Tripura",
+  "Uttar Pradesh",
+  "Uttarakhand",
+  "West Bengal",
+  "Andaman and Nicobar Islands",
+  "Chandigarh",
+  "Dadra and Nagar Haveli and Daman and Diu",
+  "Delhi",
+  "Jammu and Kashmir",
+  "Ladakh",
+  "Lakshadweep",
+  "Puducherry",
+];
+
+// old spellings still common in customer data
+const STATE_ALIASES: Record<string, string> = {
+  orissa: "Odisha",
+  pondicherry: "Puducherry",
+  uttaranchal: "Uttarakhand",
+  tamilnadu: "Tamil Nadu",
+  "nct of delhi": "Delhi",
+  "jammu & kashmir": "Jammu and Kashmir",
+};
+
+export const matchIndianState = (value: string) => {
+  const key = value.trim().toLowerCase();
+  return INDIAN_STATES.find((s) => s.toLowerCase() === key) ?? STATE_ALIASES[key] ?? null;
+};
+
+// the names save_purchase also reads as India; a blank country is India too
+const INDIA_NAMES = ["india", "in"];
+
+export const isIndia = (country?: string | null) => !country?.trim() || INDIA_NAMES.includes(country.trim().toLowerCase());
+
+export const emptyAddressForm = (): AddressForm => ({
+  address_line1: "",
+  address_line2: "",
+  city: "",
+  state: "",
+  pincode: "",
+  country: DEFAULT_COUNTRY,
+});
+
+export const addressToForm = (a: Partial<AddressFields>): AddressForm => ({
+  address_line1: a.address_line1 ?? "",
+  address_line2: a.address_line2 ?? "",
+  city: a.city ?? "",
+  state: a.state ?? "",
+  pincode: a.pincode ?? "",
+  country: a.country ?? DEFAULT_COUNTRY,
+});
+
+export const addressFromForm = (form: AddressForm): AddressFields => ({
+  address_line1: form.address_line1.trim() || null,
+  address_line2: form.address_line2.trim() || null,
+  city: form.city.trim() || null,
+  state: form.state.trim() || null,
+  pincode: form.pincode.replace(/\s/g, "") || null,
+  country: form.country.trim() || DEFAULT_COUNTRY,
+});
+
+// returns a message for the first problem, or null when the address is fine
+export const validateAddress = (a: AddressFields) => {
+  if (!a.pincode || !isIndia(a.country)) return null;
+  if (!isPincodeFormat(a.pincode)) return "PIN code must be 6 digits and cannot start with 0";
+  if (!lookupPincode(a.pincode)) return `${a.pincode} is not a known Indian PIN code`;
+  return null;
+};
+
+// fill a missing city or state from an Indian PIN code
+export const fillFromPincode = (a: AddressFields): AddressFields => {
+  const info = a.pincode && isIndia(a.country) ? lookupPincode(a.pincode) : null;
+  return info ? { ...a, state: a.state ?? info.state, city: a.city ?? info.city } : a;
+};
+
+export const formatAddress = (a: Partial<AddressFields>) => {
+  const cityLine = [a.city, [a.state, a.pincode].filter(Boolean).join(" ")].filter(Boolean).join(", ");
+  const parts = [a.address_line1, a.address_line2, cityLine, isIndia(a.country) ? null : a.country];
+  return parts.filter(Boolean).join(", ");
+};
+
+// Best-effort split of a one-line address, the same way the migration split
+// the old contacts.address column: any six-digit number is the PIN, a trailing
+// part naming a state is the state, the part before it the city, the first
+// part line 1 and anything in between line 2.
+export const parseAddress = (text: string): AddressFields => {
+  const result: AddressFields = { ...addressFromForm(emptyAddressForm()) };
+  let rest = text;
+  const pin = rest.match(/(?:^|\D)([1-9]\d{2} ?\d{3})(?:\D|$)/);
+  if (pin) {
+    result.pincode = pin[1].replace(" ", "");
+    rest = rest.split(pin[1]).join("");
+  }
+
+  const parts = rest
+    .split(/\s*[,;\n]\s*/)
+    .map((p) => p.replace(/^[\s.-]+|[\s.-]+$/g, ""))
+    .filter((p) => p && p.toLowerCase() !== "india");
+
+  if (parts.length > 1) {
+    const state = matchIndianState(parts[parts.length - 1]);
+    if (state) {
+      result.state = state;
+      parts.pop();
+    }
+  }
+  if (parts.length > 1) result.city = parts.pop() ?? null;
+  if (parts.length > 0) {
+    result.address_line1 = parts[0];
+    result.address_line2 = parts.slice(1).join(", ") || null;
+  }
+  return fillFromPincode(result);
+};
@@ -0,0 +1,39 @@
+export type AssignmentStrategy = "round_robin" | "least_loaded";
+
+export type AssignmentRule = {
+  id: string;
+  name: string;
+  strategy: AssignmentStrategy;
+  user_ids: string[];
+  match_city: string | null;
+  match_state: string | null;
+  match_tag_id: string | null;
+  position: number;
+  is_active: boolean;
+};
+
+// what next_assignees needs to know about a contact that is about to be created
+export type AssignmentCandidate = {
+  city?: string | null;
+  state?: string | null;
+  tag_ids?: string[];
+};
+
+export type AssignmentResult = { ruleId: string | null; userId: string | null };
+
+export const ASSIGNMENT_STRATEGIES: Array<{ value: AssignmentStrategy; label: string; description: string }> = [
+  { value: "round_robin", label: "Round robin", description: "Each user in turn" },
+  { value: "least_loaded", label: "Least loaded", description: "The user with the fewest open customer contacts" },
+];
+
+export const assignmentStrategyLabel = (strategy: string) => ASSIGNMENT_STRATEGIES.find((s) => s.value === strategy)?.label ?? strategy;
+
+// "City is Pune, Tag is VIP" or "Every new customer contact"
+export const describeRuleMatch = (rule: Pick<AssignmentRule, "match_city" | "match_state" | "match_tag_id">, tagName?: (id: string) => string | undefined) => {
+  const parts = [
+    rule.match_city && `City is ${rule.match_city}`,
+    rule.match_state && `State is ${rule.match_state}`,
+    rule.match_tag_id && `Tag is ${tagName?.(rule.match_tag_id) ?? "a tag"}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : "Every new customer contact";
+};
@@ -0,0 +1,74 @@
+import type { Json } from "@/integrations/supabase/types";
+
+export type AuditAction = "insert" | "update" | "delete";
+
+export type AuditEntry = {
+  id: number;
+  table_name: string;
+  record_id: string;
+  contact_id: string | null;
+  action: AuditAction;
+  old_data: Json | null;
+  new_data: Json | null;
+  changed_fields: string[] | null;
+  changed_by: string | null;
+  changed_at: string;
+  actor?: { full_name: string | null } | null;
+};
+
+export const AUDIT_TABLES: Array<{ value: string; label: string }> = [
+  { value: "contacts", label: "Customer contact" },
+  { value: "purchases", label: "Purchase" },
+  { value: "vouchers", label: "Voucher" },
+  { value: "voucher_rules", label: "Voucher rule" },
+  { value: "products", label: "Product" },
+];
+
+export const auditTableLabel = (table: string) => AUDIT_TABLES.find((t) => t.value === table)?.label ?? table;
+
+// bookkeeping columns that would only add noise to a diff
+const HIDDEN_FIELDS = new Set(["id", "company_id", "created_at", "updated_at"]);
+
+const asRecord = (data: Json | null): Record<string, Json> =>
+  data && typeof data === "object" && !Array.isArray(data) ? (data as Record<string, Json>) : {};
+
+export type AuditChange = { field: string; before: Json | undefined; after: Json | undefined };
+
+export const auditChanges = (entry: AuditEntry): AuditChange[] => {
+  const before = asRecord(entry.old_data);
+  const after = asRecord(entry.new_data);
+  const fields = entry.action === "update" ? entry.changed_fields ?? [] : Object.keys(entry.action === "insert" ? after : before);
+  return fields
+    .filter((f) => !HIDDEN_FIELDS.has(f))
+    .filter((f) => entry.action === "update" || (entry.action === "insert" ? after[f] : before[f]) !== null)
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+};
+
+// soft deletes, restores and erasures are updates to deleted_at / erased_at; name them for what they are
+export const auditActionLabel = (entry: AuditEntry) => {
+  if (entry.action === "update" && entry.changed_fields?.includes("deleted_at")) {
+    return asRecord(entry.new_data).deleted_at ? "Moved to trash" : "Restored";
+  }
+  if (entry.action === "update" && entry.changed_fields?.includes("erased_at")) return "Personal data erased";
+  return { insert: "Created", update: "Updated", delete: "Deleted" }[entry.action] ?? entry.action;
+};
+
+// a short name for the changed row ("Ravi Kumar", "Saree", "V-8K2LQ")
+export const auditRecordName = (entry: AuditEntry) => {
+  const row = { ...asRecord(entry.old_data), ...asRecord(entry.new_data) };
+  const name = row.name ?? row.item ?? row.code;
+  return typeof name === "string" ? name : entry.record_id.slice(0, 8);
+};
+
+export const auditFieldLabel = (field: string) => {
+  const label = field.replace(/_id$/, "").replace(/_/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+export const formatAuditValue = (value: Json | undefined, names: Record<string, string> = {}) => {
+  if (value === undefined || value === null || value === "") return "—";
+  if (typeof value === "string" && names[value]) return names[value];
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
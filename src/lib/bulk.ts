@@ -0,0 +1,24 @@
+export type BulkResult<T> = { item: T; ok: boolean; error?: string };
+
+const errorMessage = (err: unknown) =>
+  err && typeof err === "object" && "message" in err ? String((err as { message: unknown }).message) : String(err);
+
+// Runs fn once per item, a few at a time, and records each item's outcome
+// instead of stopping at the first failure.
+export const runBulk = async <T>(items: T[], fn: (item: T) => Promise<void>, concurrency = 5): Promise<BulkResult<T>[]> => {
+  const results: BulkResult<T>[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        await fn(items[index]);
+        results[index] = { item: items[index], ok: true };
+      } catch (err) {
+        results[index] = { item: items[index], ok: false, error: errorMessage(err) };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+};
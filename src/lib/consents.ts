@@ -0,0 +1,48 @@
+export type ConsentChannel = "email" | "sms" | "whatsapp";
+export type ConsentStatus = "granted" | "withdrawn";
+
+export type ContactConsent = {
+  id: string;
+  contact_id: string;
+  channel: ConsentChannel;
+  status: ConsentStatus;
+  source: string;
+  note: string | null;
+  captured_at: string;
+  captured_by: string;
+  captor?: { full_name: string | null } | null;
+};
+
+// current status per channel; a channel with no record has never been asked
+export type ConsentState = Partial<Record<ConsentChannel, ConsentStatus>>;
+
+export const CONSENT_CHANNELS: Array<{ value: ConsentChannel; label: string }> = [
+  { value: "email", label: "Email" },
+  { value: "sms", label: "SMS" },
+  { value: "whatsapp", label: "WhatsApp" },
+];
+
+export const CONSENT_SOURCES: Array<{ value: string; label: string }> = [
+  { value: "in_store", label: "In store" },
+  { value: "signed_form", label: "Signed form" },
+  { value: "web_form", label: "Web form" },
+  { value: "phone_call", label: "Phone call" },
+  { value: "message_reply", label: "Reply to a message" },
+  { value: "import", label: "Imported" },
+  { value: "other", label: "Other" },
+];
+
+export const consentChannelLabel = (channel: string) => CONSENT_CHANNELS.find((c) => c.value === channel)?.label ?? channel;
+
+export const consentSourceLabel = (source: string) => CONSENT_SOURCES.find((s) => s.value === source)?.label ?? source;
+
+// Vouchers reach customers as marketing messages. A contact who granted any
+// channel can receive one; one who only ever withdrew has opted out and is
+// blocked; one with no record at all is a warning the issuer may override.
+export type MarketingConsent = "granted" | "opted_out" | "unknown";
+
+export const marketingConsent = (state: ConsentState | undefined): MarketingConsent => {
+  const statuses = Object.values(state ?? {});
+  if (statuses.includes("granted")) return "granted";
+  return statuses.length > 0 ? "opted_out" : "unknown";
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { conditionExpression, contactFilterFields, type FilterFieldDef } from "./contactFilters";
+
+const fields = contactFilterFields([], [], false);
+const field = (key: string) => fields.find((f) => f.key === key) as FilterFieldDef;
+
+describe("conditionExpression", () => {
+  it("matches text exactly, ignoring case", () => {
+    expect(conditionExpression(field("city"), { field: "city", op: "equals", value: "Pune" })).toBe("city.ilike.Pune");
+  });
+
+  it("does not treat % and _ as wildcards in an exact match", () => {
+    expect(conditionExpression(field("email"), { field: "email", op: "equals", value: "a_b@x.in" })).toBe("email.ilike.a\\_b@x.in");
+    expect(conditionExpression(field("pincode"), { field: "pincode", op: "equals", value: "50%" })).toBe("pincode.ilike.50\\%");
+  });
+
+  it("escapes backslashes before quoting a value with separators", () => {
+    expect(conditionExpression(field("name"), { field: "name", op: "equals", value: "a_b, c\\d" })).toBe('name.ilike."a\\\\_b, c\\\\\\\\d"');
+  });
+
+  it("escapes wildcards inside a contains match", () => {
+    expect(conditionExpression(field("city"), { field: "city", op: "contains", value: "x_y" })).toBe("city.ilike.%x\\_y%");
+  });
+});
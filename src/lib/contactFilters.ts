@@ -0,0 +1,242 @@
+import type { Json } from "@/integrations/supabase/types";
+import type { CustomFieldDefinition } from "@/lib/customFields";
+import { INDIAN_STATES } from "@/lib/address";
+import { phoneDigits } from "@/lib/phone";
+import { escapeLike } from "@/lib/utils";
+
+// The ContactsList filter builder: a list of conditions matched all together
+// (AND) or any one of them (OR). Filters are plain JSON so they can live in the
+// URL and in saved views, and are turned into PostgREST filter strings here.
+
+export type FilterKind = "text" | "choice" | "number" | "date" | "boolean";
+
+export type FilterOp =
+  | "contains"
+  | "equals"
+  | "is"
+  | "is_not"
+  | "is_empty"
+  | "is_not_empty"
+  | "gte"
+  | "lte"
+  | "between"
+  | "on_or_after"
+  | "on_or_before"
+  | "within_days"
+  | "older_than_days";
+
+export type FilterCondition = { field: string; op: FilterOp; value?: string; value2?: string };
+
+export type ContactFilter = { match: "all" | "any"; conditions: FilterCondition[] };
+
+export type FilterOption = { value: string; label: string };
+
+export type FilterFieldDef = {
+  key: string;
+  label: string;
+  kind: FilterKind;
+  // column or computed field the condition is applied to
+  column: string;
+  ops: FilterOp[];
+  options?: FilterOption[];
+  // the column holds an array (voucher_statuses), so "is" means "contains"
+  array?: boolean;
+};
+
+export const EMPTY_FILTER: ContactFilter = { match: "all", conditions: [] };
+
+export const FILTER_OP_LABELS: Record<FilterOp, string> = {
+  contains: "contains",
+  equals: "is exactly",
+  is: "is",
+  is_not: "is not",
+  is_empty: "is empty",
+  is_not_empty: "is not empty",
+  gte: "is at least",
+  lte: "is at most",
+  between: "is between",
+  on_or_after: "is on or after",
+  on_or_before: "is on or before",
+  within_days: "is in the last N days",
+  older_than_days: "is more than N days ago",
+};
+
+// ops whose value is a number of days rather than a date
+export const DAY_COUNT_OPS: FilterOp[] = ["within_days", "older_than_days"];
+
+const TEXT_OPS: FilterOp[] = ["contains", "equals", "is_empty", "is_not_empty"];
+const DATE_OPS: FilterOp[] = ["on_or_after", "on_or_before", "between", "within_days", "older_than_days"];
+
+export const VOUCHER_STATUS_OPTIONS: FilterOption[] = [
+  { value: "active", label: "Issued" },
+  { value: "redeemed", label: "Redeemed" },
+  { value: "expired", label: "Expired" },
+];
+
+const opsFor = (kind: FilterKind): FilterOp[] => {
+  switch (kind) {
+    case "text":
+      return TEXT_OPS;
+    case "choice":
+      return ["is", "is_not", "is_empty", "is_not_empty"];
+    case "number":
+      return ["gte", "lte", "between", "equals"];
+    case "date":
+      return [...DATE_OPS, "is_empty"];
+    case "boolean":
+      return ["is"];
+  }
+};
+
+const customFieldDef = (def: CustomFieldDefinition): FilterFieldDef => {
+  const base = { key: `custom:${def.key}`, label: def.label, column: `custom_fields->>${def.key}` };
+  switch (def.field_type) {
+    case "select":
+      return { ...base, kind: "choice", ops: opsFor("choice"), options: def.options.map((o) => ({ value: o, label: o })) };
+    case "boolean":
+      return { ...base, kind: "boolean", ops: ["is"], options: [{ value: "true", label: "Yes" }, { value: "false", label: "No" }] };
+    // values inside custom_fields compare as text, so numbers and dates only support exact matches
+    case "number":
+    case "date":
+      return { ...base, kind: def.field_type, ops: ["equals", "is_empty", "is_not_empty"] };
+    default:
+      return { ...base, kind: "text", ops: TEXT_OPS };
+  }
+};
+
+// every field the builder offers; assigned user choices come from the company's users
+export const contactFilterFields = (customFields: CustomFieldDefinition[], users: FilterOption[], includeAssignee: boolean): FilterFieldDef[] => [
+  { key: "name", label: "Name", kind: "text", column: "name", ops: ["contains", "equals"] },
+  { key: "email", label: "Email", kind: "text", column: "email", ops: TEXT_OPS },
+  { key: "phone", label: "Phone", kind: "text", column: "phone", ops: ["contains", "is_empty", "is_not_empty"] },
+  { key: "city", label: "City", kind: "text", column: "city", ops: TEXT_OPS },
+  { key: "state", label: "State", kind: "choice", column: "state", ops: opsFor("choice"), options: INDIAN_STATES.map((s) => ({ value: s, label: s })) },
+  { key: "pincode", label: "PIN Code", kind: "text", column: "pincode", ops: TEXT_OPS },
+  ...(includeAssignee ? [{ key: "assigned_user", label: "Assigned user", kind: "choice" as const, column: "assigned_user_id", ops: opsFor("choice"), options: users }] : []),
+  { key: "created_at", label: "Created", kind: "date", column: "created_at", ops: DATE_OPS },
+  { key: "total_spend", label: "Total spend", kind: "number", column: "total_spend", ops: opsFor("number") },
+  { key: "last_purchase_date", label: "Last purchase", kind: "date", column: "last_purchase_date", ops: opsFor("date") },
+  { key: "voucher_status", label: "Has a voucher that is", kind: "choice", column: "voucher_statuses", ops: ["is", "is_not"], options: VOUCHER_STATUS_OPTIONS, array: true },
+  ...customFields.map(customFieldDef),
+];
+
+export const newCondition = (def: FilterFieldDef): FilterCondition => ({
+  field: def.key,
+  op: def.ops[0],
+  value: def.kind === "boolean" ? "true" : "",
+});
+
+const needsValue = (op: FilterOp) => op !== "is_empty" && op !== "is_not_empty";
+
+// values in a PostgREST logic tree are quoted when they hold its separators
+const literal = (value: string) => (/[,()":\s]/.test(value) ? `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"` : value);
+
+const isDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const addDays = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+// YYYY-MM-DD in the browser's time zone
+export const localDate = (d = new Date()) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+
+// One condition as a PostgREST filter (e.g. "total_spend.gte.5000"), or null
+// while it is still incomplete so half-filled rows don't filter anything.
+export const conditionExpression = (def: FilterFieldDef, condition: FilterCondition, today = localDate()): string | null => {
+  const col = def.column;
+  const value = (condition.value ?? "").trim();
+  const value2 = (condition.value2 ?? "").trim();
+  if (!def.ops.includes(condition.op)) return null;
+  if (needsValue(condition.op) && value === "") return null;
+
+  switch (condition.op) {
+    case "is_empty":
+      return def.kind === "text" ? `or(${col}.is.null,${col}.eq."")` : `${col}.is.null`;
+    case "is_not_empty":
+      return def.kind === "text" ? `and(${col}.not.is.null,${col}.neq."")` : `${col}.not.is.null`;
+    case "contains": {
+      // phones are stored as E.164, so match on digits without a trunk prefix
+      const term = def.key === "phone" ? phoneDigits(value).replace(/^0+/, "") : value;
+      return term ? `${col}.ilike.${literal(`%${escapeLike(term)}%`)}` : null;
+    }
+    case "equals":
+      // case-insensitive, but % and _ in the value are matched as themselves
+      if (def.kind === "text") return `${col}.ilike.${literal(escapeLike(value))}`;
+      if (def.kind === "number" && !Number.isFinite(Number(value))) return null;
+      return `${col}.eq.${literal(value)}`;
+    case "is":
+      if (def.array) return `${col}.cs.{${literal(value)}}`;
+      // contacts saved before a yes/no field existed have no value, which reads as "no"
+      if (def.kind === "boolean" && value === "false") return `or(${col}.is.null,${col}.eq.false)`;
+      return `${col}.eq.${literal(value)}`;
+    case "is_not":
+      if (def.array) return `${col}.not.cs.{${literal(value)}}`;
+      return `or(${col}.neq.${literal(value)},${col}.is.null)`;
+    case "gte":
+    case "lte":
+      return Number.isFinite(Number(value)) ? `${col}.${condition.op}.${value}` : null;
+    case "between":
+      if (def.kind === "number") {
+        if (!Number.isFinite(Number(value)) || !Number.isFinite(Number(value2)) || value2 === "") return null;
+        return `and(${col}.gte.${value},${col}.lte.${value2})`;
+      }
+      if (!isDate(value) || !isDate(value2)) return null;
+      return `and(${col}.gte.${value},${col}.lt.${addDays(value2, 1)})`;
+    case "on_or_after":
+      return isDate(value) ? `${col}.gte.${value}` : null;
+    case "on_or_before":
+      // "on or before" includes the whole day, also for timestamp columns
+      return isDate(value) ? `${col}.lt.${addDays(value, 1)}` : null;
+    case "within_days":
+    case "older_than_days": {
+      const days = Number(value);
+      if (!Number.isInteger(days) || days < 0) return null;
+      const since = addDays(today, -days);
+      return condition.op === "within_days" ? `${col}.gte.${since}` : `${col}.lt.${since}`;
+    }
+  }
+};
+
+// the complete conditions of a filter; fields that no longer exist are skipped
+export const filterExpressions = (filter: ContactFilter, fields: FilterFieldDef[], today = localDate()) =>
+  filter.conditions
+    .map((c) => {
+      const def = fields.find((f) => f.key === c.field);
+      return def ? conditionExpression(def, c, today) : null;
+    })
+    .filter((e): e is string => Boolean(e));
+
+const FILTER_OPS = new Set(Object.keys(FILTER_OP_LABELS));
+
+// saved views and URLs are untrusted JSON; keep only well-formed conditions
+export const asContactFilter = (raw: Json | unknown): ContactFilter => {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return EMPTY_FILTER;
+  const obj = raw as Record<string, unknown>;
+  const conditions = Array.isArray(obj.conditions) ? obj.conditions : [];
+  return {
+    match: obj.match === "any" ? "any" : "all",
+    conditions: conditions
+      .filter((c): c is Record<string, unknown> => Boolean(c) && typeof c === "object")
+      .filter((c) => typeof c.field === "string" && typeof c.op === "string" && FILTER_OPS.has(c.op))
+      .map((c) => ({
+        field: c.field as string,
+        op: c.op as FilterOp,
+        ...(typeof c.value === "string" ? { value: c.value } : {}),
+        ...(typeof c.value2 === "string" ? { value2: c.value2 } : {}),
+      })),
+  };
+};
+
+export const encodeContactFilter = (filter: ContactFilter) => JSON.stringify(filter);
+
+export const decodeContactFilter = (param: string | null): ContactFilter | null => {
+  if (!param) return null;
+  try {
+    return asContactFilter(JSON.parse(param));
+  } catch {
+    return null;
+  }
+};
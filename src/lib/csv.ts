@@ -0,0 +1,63 @@
+// Minimal RFC 4180 CSV parser: handles quoted fields, escaped quotes ("")
+// and embedded newlines. Returns rows as arrays of raw string cells.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // strip UTF-8 BOM written by Excel
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // drop fully blank lines (e.g. trailing newline at EOF)
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+const escapeCell = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+  const s = String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+// Serialize rows (first row = headers) to CSV text using CRLF line endings.
+export function toCsv(rows: unknown[][]): string {
+  return rows.map((r) => r.map(escapeCell).join(",")).join("\r\n");
+}
@@ -0,0 +1,89 @@
+import type { Json } from "@/integrations/supabase/types";
+
+export type CustomFieldType = "text" | "number" | "date" | "select" | "boolean";
+
+export type CustomFieldDefinition = {
+  id: string;
+  key: string;
+  label: string;
+  field_type: CustomFieldType;
+  options: string[];
+  is_required: boolean;
+  position: number;
+};
+
+export type CustomFieldValues = Record<string, Json | undefined>;
+
+export const CUSTOM_FIELD_TYPES: Array<{ value: CustomFieldType; label: string }> = [
+  { value: "text", label: "Text" },
+  { value: "number", label: "Number" },
+  { value: "date", label: "Date" },
+  { value: "select", label: "Dropdown" },
+  { value: "boolean", label: "Yes / No" },
+];
+
+// "Preferred Store" -> "preferred_store"; keys must start with a letter
+export function customFieldKey(label: string) {
+  const key = label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  return /^[a-z]/.test(key) ? key : `field_${key}`;
+}
+
+// jsonb may come back as anything; treat non-objects as "no values"
+export function asCustomFieldValues(raw: Json | null | undefined): CustomFieldValues {
+  return raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as CustomFieldValues) : {};
+}
+
+const isEmpty = (value: Json | undefined) => value === null || value === undefined || value === "";
+
+// Returns an error message per invalid field key; an empty object means valid.
+export function validateCustomFields(defs: CustomFieldDefinition[], values: CustomFieldValues) {
+  const errors: Record<string, string> = {};
+  defs.forEach((def) => {
+    const value = values[def.key];
+    if (isEmpty(value)) {
+      // an unchecked boolean is a valid "no", so required only applies to the other types
+      if (def.is_required && def.field_type !== "boolean") errors[def.key] = `${def.label} is required`;
+      return;
+    }
+    switch (def.field_type) {
+      case "number":
+        if (typeof value !== "number" || Number.isNaN(value)) errors[def.key] = `${def.label} must be a number`;
+        break;
+      case "date":
+        if (typeof value !== "string" || Number.isNaN(Date.parse(value))) errors[def.key] = `${def.label} must be a valid date`;
+        break;
+      case "select":
+        if (typeof value !== "string" || !def.options.includes(value)) errors[def.key] = `${def.label} must be one of ${def.options.join(", ")}`;
+        break;
+      case "boolean":
+        if (typeof value !== "boolean") errors[def.key] = `${def.label} must be yes or no`;
+        break;
+    }
+  });
+  return errors;
+}
+
+// Converts the raw string an input produced into the JSON value stored for that field type.
+export function parseCustomFieldInput(def: CustomFieldDefinition, raw: string | boolean): Json {
+  if (def.field_type === "boolean") return Boolean(raw);
+  const s = String(raw).trim();
+  if (s === "") return null;
+  if (def.field_type === "number") return Number(s);
+  return s;
+}
+
+export function formatCustomFieldValue(def: CustomFieldDefinition, value: Json | undefined) {
+  if (isEmpty(value)) return "—";
+  switch (def.field_type) {
+    case "boolean":
+      return value ? "Yes" : "No";
+    case "date":
+      return typeof value === "string" ? new Date(value).toLocaleDateString() : String(value);
+    default:
+      return String(value);
+  }
+}
@@ -0,0 +1,141 @@
+import { escapeLike } from "./utils";
+
+export type DuplicateCandidate = {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+};
+
+export type DuplicateMatch<T extends DuplicateCandidate = DuplicateCandidate> = {
+  contact: T;
+  reasons: string[];
+};
+
+// names at or above this similarity are treated as "probably the same person"
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+export function normalizeEmail(email?: string | null) {
+  return (email ?? "").trim().toLowerCase();
+}
+
+// Compare phones on their last 10 digits so "+91 98450-12345", "098450 12345"
+// and "9845012345" all collapse to the same key.
+export function normalizePhone(phone?: string | null) {
+  const digits = (phone ?? "").replace(/\D/g, "");
+  return digits.length > 10 ? digits.slice(-10) : digits;
+}
+
+export function normalizeName(name?: string | null) {
+  return (name ?? "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(" ");
+}
+
+const levenshtein = (a: string, b: string) => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+// 0..1 similarity of two names, ignoring case, punctuation and word order
+export function nameSimilarity(a?: string | null, b?: string | null) {
+  const na = normalizeName(a);
+  const nb = normalizeName(b);
+  if (!na || !nb) return 0;
+  return 1 - levenshtein(na, nb) / Math.max(na.length, nb.length);
+}
+
+export function findDuplicates<T extends DuplicateCandidate>(
+  input: { name?: string | null; email?: string | null; phone?: string | null },
+  candidates: T[],
+  excludeId?: string | null,
+): DuplicateMatch<T>[] {
+  const email = normalizeEmail(input.email);
+  const phone = normalizePhone(input.phone);
+
+  return candidates
+    .filter((c) => c.id !== excludeId)
+    .map((c) => {
+      const reasons: string[] = [];
+      if (email && normalizeEmail(c.email) === email) reasons.push("Same email");
+      if (phone && normalizePhone(c.phone) === phone) reasons.push("Same phone");
+      if (nameSimilarity(input.name, c.name) >= NAME_SIMILARITY_THRESHOLD) reasons.push("Similar name");
+      return { contact: c, reasons };
+    })
+    .filter((m) => m.reasons.length > 0);
+}
+
+// values in a PostgREST logic tree, quoted so commas and parentheses stay inside them
+const quoted = (value: string) => `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+// A PostgREST "or" filter narrowing the contacts worth passing to
+// findDuplicates: the same email, a phone ending in the same digits, or a name
+// with a word starting the same way. Null when there is nothing to look for.
+export function duplicateCandidateFilter(input: { name?: string | null; email?: string | null; phone?: string | null }) {
+  const parts = new Set<string>();
+  const email = normalizeEmail(input.email);
+  if (email) parts.add(`email.ilike.${quoted(escapeLike(email))}`);
+  const phone = normalizePhone(input.phone);
+  if (phone.length >= 6) parts.add(`phone.like.${quoted(`%${phone}`)}`);
+  normalizeName(input.name)
+    .split(" ")
+    .filter((word) => word.length >= 2)
+    .forEach((word) => parts.add(`name.ilike.${quoted(`%${escapeLike(word.slice(0, 3))}%`)}`));
+  return parts.size > 0 ? Array.from(parts).join(",") : null;
+}
+
+// Groups contacts that are likely duplicates of each other (connected by any match).
+export function groupDuplicates<T extends DuplicateCandidate>(contacts: T[]): T[][] {
+  const parent = contacts.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const union = (a: number, b: number) => {
+    parent[find(a)] = find(b);
+  };
+
+  // exact email/phone matches are cheap to bucket
+  const byKey = new Map<string, number>();
+  contacts.forEach((c, i) => {
+    const keys = [normalizeEmail(c.email) && `e:${normalizeEmail(c.email)}`, normalizePhone(c.phone) && `p:${normalizePhone(c.phone)}`].filter(Boolean) as string[];
+    keys.forEach((k) => {
+      const seen = byKey.get(k);
+      if (seen === undefined) byKey.set(k, i);
+      else union(i, seen);
+    });
+  });
+
+  // fuzzy names are pairwise, so only compare names that share a first letter
+  const byInitial = new Map<string, number[]>();
+  contacts.forEach((c, i) => {
+    const initial = normalizeName(c.name).charAt(0);
+    if (!initial) return;
+    byInitial.set(initial, [...(byInitial.get(initial) ?? []), i]);
+  });
+  byInitial.forEach((idxs) => {
+    for (let x = 0; x < idxs.length; x++) {
+      for (let y = x + 1; y < idxs.length; y++) {
+        if (nameSimilarity(contacts[idxs[x]].name, contacts[idxs[y]].name) >= NAME_SIMILARITY_THRESHOLD) union(idxs[x], idxs[y]);
+      }
+    }
+  });
+
+  const groups = new Map<number, T[]>();
+  contacts.forEach((c, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), c]);
+  });
+  return Array.from(groups.values()).filter((g) => g.length > 1);
+}
@@ -0,0 +1,51 @@
+import { toCsv } from "@/lib/csv";
+
+export type ExportFormat = "csv" | "xlsx";
+
+export type ExportColumn<T> = {
+  header: string;
+  value: (row: T) => string | number | boolean | null | undefined;
+};
+
+const triggerDownload = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+};
+
+// e.g. exportFilename("contacts", "csv") -> contacts-YYYY-MM-DD.csv
+export function exportFilename(base: string, format: ExportFormat | "json" | "vcf") {
+  return `${base}-${new Date().toISOString().slice(0, 10)}.${format}`;
+}
+
+export async function exportRows<T>(rows: T[], columns: ExportColumn<T>[], base: string, format: ExportFormat) {
+  const table = [columns.map((c) => c.header), ...rows.map((r) => columns.map((c) => c.value(r) ?? null))];
+
+  if (format === "csv") {
+    // BOM so Excel opens UTF-8 (₹, non-latin names) correctly
+    const blob = new Blob(["\uFEFF", toCsv(table)], { type: "text/csv;charset=utf-8" });
+    triggerDownload(blob, exportFilename(base, format));
+    return;
+  }
+
+  // the spreadsheet writer is only loaded when someone actually exports a spreadsheet
+  const { default: writeXlsxFile } = await import("write-excel-file/browser");
+  const blob = await writeXlsxFile(table, { sheet: base.slice(0, 31) }).toBlob();
+  triggerDownload(blob, exportFilename(base, format));
+}
+
+// a single structured document rather than a table, e.g. a customer's data bundle
+export function exportJson(data: unknown, base: string) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json;charset=utf-8" });
+  triggerDownload(blob, exportFilename(base, "json"));
+}
+
+// contact cards a phone's address book can import
+export function exportVCards(text: string, base: string) {
+  triggerDownload(new Blob([text], { type: "text/vcard;charset=utf-8" }), exportFilename(base, "vcf"));
+}
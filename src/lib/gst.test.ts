@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { isInterState, lineTax, refundShares, splitTax, taxTotals } from "./gst";
+
+describe("isInterState", () => {
+  it("reads India however the country is written", () => {
+    ["India", "india ", "IN", " in", "", null].forEach((country) => expect(isInterState("Karnataka", { state: "Karnataka", country })).toBe(false));
+  });
+
+  it("taxes a customer abroad or in another state as inter-state", () => {
+    expect(isInterState("Karnataka", { state: "Karnataka", country: "Nepal" })).toBe(true);
+    expect(isInterState("Karnataka", { state: "Kerala", country: "IN" })).toBe(true);
+  });
+});
+
+describe("lineTax", () => {
+  it("adds GST to a price entered without it", () => {
+    expect(lineTax(100, 18, false)).toEqual({ taxable: 100, tax: 18 });
+  });
+
+  it("takes GST out of a price entered with it", () => {
+    expect(lineTax(118, 18, true)).toEqual({ taxable: 100, tax: 18 });
+    expect(lineTax(100, 5, true)).toEqual({ taxable: 95.24, tax: 4.76 });
+  });
+
+  it("rounds a half paisa up", () => {
+    expect(lineTax(1.005, 0, false)).toEqual({ taxable: 1.01, tax: 0 });
+    expect(lineTax(2.135, 0, false).taxable).toBe(2.14);
+    expect(lineTax(4.015, 0, false).taxable).toBe(4.02);
+    expect(lineTax(10.1, 5, false).tax).toBe(0.51);
+    expect(lineTax(42.7, 5, false).tax).toBe(2.14);
+  });
+
+  it("rounds tax the way save_purchase does for every price up to ₹1000", () => {
+    for (let paisa = 0; paisa <= 100000; paisa++) {
+      // numeric round(amount * 18 / 100, 2), in whole paisa
+      const expected = Math.floor((paisa * 18 + 50) / 100);
+      expect(Math.round(lineTax(paisa / 100, 18, false).tax * 100)).toBe(expected);
+    }
+  });
+});
+
+describe("splitTax", () => {
+  it("gives CGST the rounded half and SGST the rest", () => {
+    expect(splitTax(0.03, false)).toEqual({ cgst: 0.02, sgst: 0.01, igst: 0 });
+    expect(splitTax(18.01, false)).toEqual({ cgst: 9.01, sgst: 9, igst: 0 });
+  });
+
+  it("makes CGST and SGST add up to the tax for every amount of paisa", () => {
+    for (let paisa = 0; paisa <= 10000; paisa++) {
+      const tax = paisa / 100;
+      const { cgst, sgst } = splitTax(tax, false);
+      expect(Math.round((cgst + sgst) * 100)).toBe(paisa);
+      expect(Math.abs(cgst - sgst)).toBeLessThanOrEqual(0.0100001);
+    }
+  });
+
+  it("charges the whole tax as IGST between states", () => {
+    expect(splitTax(18.01, true)).toEqual({ cgst: 0, sgst: 0, igst: 18.01 });
+  });
+});
+
+describe("taxTotals", () => {
+  it("adds up the lines so the total is the taxable value plus tax", () => {
+    const totals = taxTotals(
+      [
+        { amount: 99.99, rate: 18 },
+        { amount: 10.05, rate: 5 },
+      ],
+      true,
+      false,
+    );
+    expect(totals.cgst + totals.sgst).toBeCloseTo(totals.tax, 10);
+    expect(totals.total).toBe(110.04);
+  });
+});
+
+describe("refundShares", () => {
+  const fivePercent = { taxable: 100, cgst: 2.5, sgst: 2.5, igst: 0 };
+  const eighteenPercent = { taxable: 200, cgst: 18, sgst: 18, igst: 0 };
+
+  it("takes a refund off every line in proportion to what was paid for it", () => {
+    const [low, high] = refundShares([fivePercent, eighteenPercent], 341 / 2);
+    expect(low).toMatchObject({ taxable: 50, cgst: 1.25, sgst: 1.25 });
+    expect(high).toMatchObject({ taxable: 100, cgst: 9, sgst: 9 });
+  });
+
+  it("never takes back more than a line was charged", () => {
+    const [share] = refundShares([fivePercent], 500);
+    expect(share).toMatchObject(fivePercent);
+  });
+
+  it("has nothing to take back from lines without an amount", () => {
+    expect(refundShares([], 10)).toEqual([]);
+  });
+});
@@ -0,0 +1,83 @@
+import { isIndia } from "./address";
+
+// the GST slabs, offered as suggestions; any rate from 0 to 100 can be entered
+export const GST_RATES = [0, 0.25, 3, 5, 12, 18, 28];
+
+export type GstSettings = {
+  gstin: string | null;
+  gst_state: string | null;
+  prices_include_tax: boolean;
+};
+
+export const DEFAULT_GST_SETTINGS: GstSettings = { gstin: null, gst_state: null, prices_include_tax: true };
+
+export const isGstinFormat = (value: string) => /^[0-9]{2}[A-Z0-9]{13}$/.test(value.trim().toUpperCase());
+
+export type TaxSplit = { cgst: number; sgst: number; igst: number };
+
+export type TaxTotals = TaxSplit & { taxable: number; tax: number; total: number };
+
+// Rounds half a paisa up, as numeric round() does in save_purchase. Amounts
+// like 2.135 are stored just under themselves, so the paisa count is first
+// cut to 15 significant digits to drop that error.
+const round2 = (n: number) => Math.round(Number((n * 100).toPrecision(15))) / 100;
+
+// An unknown state on either side is a sale within the state; a customer
+// outside India is always inter-state. save_purchase decides the same way.
+export const isInterState = (companyState: string | null | undefined, customer: { state?: string | null; country?: string | null } | null | undefined) => {
+  if (!customer) return false;
+  if (!isIndia(customer.country)) return true;
+  if (!companyState?.trim() || !customer.state?.trim()) return false;
+  return companyState.trim().toLowerCase() !== customer.state.trim().toLowerCase();
+};
+
+// the taxable value and tax in an amount entered with or without GST in it
+export const lineTax = (amount: number, rate: number, inclusive: boolean) => {
+  if (inclusive) {
+    const taxable = round2((amount * 100) / (100 + rate));
+    return { taxable, tax: round2(amount - taxable) };
+  }
+  return { taxable: round2(amount), tax: round2((amount * rate) / 100) };
+};
+
+// CGST takes the rounded half and SGST the rest, so the two always add up
+export const splitTax = (tax: number, interState: boolean): TaxSplit => {
+  if (interState) return { cgst: 0, sgst: 0, igst: tax };
+  const cgst = round2(tax / 2);
+  return { cgst, sgst: round2(tax - cgst), igst: 0 };
+};
+
+export const taxTotals = (lines: Array<{ amount: number; rate: number }>, inclusive: boolean, interState: boolean): TaxTotals => {
+  const totals = { taxable: 0, cgst: 0, sgst: 0, igst: 0, tax: 0, total: 0 };
+  lines.forEach((l) => {
+    const { taxable, tax } = lineTax(l.amount, l.rate, inclusive);
+    const split = splitTax(tax, interState);
+    totals.taxable += taxable;
+    totals.cgst += split.cgst;
+    totals.sgst += split.sgst;
+    totals.igst += split.igst;
+  });
+  totals.tax = round2(totals.cgst + totals.sgst + totals.igst);
+  totals.total = round2(totals.taxable + totals.tax);
+  return totals;
+};
+
+export type TaxedLine = TaxSplit & { taxable: number };
+
+// The taxable value and tax a refund takes back from the lines it is against:
+// each gives up the same share of what was paid for it, so a refund on a whole
+// order comes off every rate in proportion.
+export const refundShares = <L extends TaxedLine>(lines: L[], amount: number): Array<TaxedLine & { line: L }> => {
+  const paid = lines.reduce((sum, l) => sum + l.taxable + l.cgst + l.sgst + l.igst, 0);
+  if (paid <= 0) return [];
+  const share = Math.min(amount / paid, 1);
+  return lines.map((line) => ({
+    line,
+    taxable: line.taxable * share,
+    cgst: line.cgst * share,
+    sgst: line.sgst * share,
+    igst: line.igst * share,
+  }));
+};
+
+export const supplyLabel = (interState: boolean) => (interState ? "Inter-state supply: IGST" : "Intra-state supply: CGST + SGST");
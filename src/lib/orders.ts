@@ -0,0 +1,84 @@
+// One line of an order as edited in a form: numbers stay strings until saved
+export type OrderLineForm = {
+  key: string;
+  // the catalog product picked for this line; null for a free-text item
+  product_id: string | null;
+  product: string;
+  quantity: string;
+  unit_price: string;
+  discount: string;
+  tax_rate: string;
+};
+
+// the shape save_purchase takes for each line
+export type OrderLine = {
+  product_id: string | null;
+  product: string;
+  quantity: number;
+  unit_price: number;
+  discount: number;
+  tax_rate: number;
+};
+
+export type OrderTotals = { units: number; subtotal: number; discount: number; total: number };
+
+let nextKey = 0;
+
+export const emptyOrderLine = (): OrderLineForm => ({ key: `line-${nextKey++}`, product_id: null, product: "", quantity: "1", unit_price: "", discount: "", tax_rate: "0" });
+
+export const orderLineForm = (line: OrderLine): OrderLineForm => ({
+  key: `line-${nextKey++}`,
+  product_id: line.product_id,
+  product: line.product,
+  quantity: String(line.quantity),
+  unit_price: String(line.unit_price),
+  discount: line.discount ? String(line.discount) : "",
+  tax_rate: String(line.tax_rate),
+});
+
+const num = (value: string) => (value.trim() === "" ? 0 : Number(value));
+
+export const lineTotal = (line: OrderLineForm) => {
+  const total = num(line.quantity) * num(line.unit_price) - num(line.discount);
+  return Number.isFinite(total) ? total : 0;
+};
+
+export const orderTotals = (lines: OrderLineForm[]): OrderTotals => {
+  const totals = { units: 0, subtotal: 0, discount: 0, total: 0 };
+  lines.forEach((l) => {
+    const qty = num(l.quantity);
+    const gross = qty * num(l.unit_price);
+    if (!Number.isFinite(gross)) return;
+    totals.units += qty;
+    totals.subtotal += gross;
+    totals.discount += num(l.discount) || 0;
+  });
+  totals.total = totals.subtotal - totals.discount;
+  return totals;
+};
+
+// the first problem with the order, worded for a toast, or null when it can be saved
+export const validateOrderLines = (lines: OrderLineForm[]): string | null => {
+  if (lines.length === 0) return "Add at least one item";
+  for (const [i, l] of lines.entries()) {
+    const label = lines.length > 1 ? `Line ${i + 1}: ` : "";
+    const qty = num(l.quantity);
+    const price = Number(l.unit_price);
+    const discount = num(l.discount);
+    const taxRate = num(l.tax_rate);
+    if (!l.product.trim()) return `${label}Item is required`;
+    if (!Number.isInteger(qty) || qty <= 0) return `${label}Enter a valid quantity`;
+    if (l.unit_price.trim() === "" || isNaN(price) || price < 0) return `${label}Enter a valid unit price`;
+    if (isNaN(discount) || discount < 0) return `${label}Enter a valid discount`;
+    if (discount > qty * price) return `${label}The discount is more than the line is worth`;
+    if (isNaN(taxRate) || taxRate < 0 || taxRate > 100) return `${label}Enter a tax rate between 0 and 100`;
+  }
+  return null;
+};
+
+export const toOrderLines = (lines: OrderLineForm[]): OrderLine[] =>
+  lines.map((l) => ({ product_id: l.product_id, product: l.product.trim(), quantity: num(l.quantity), unit_price: Number(l.unit_price), discount: num(l.discount), tax_rate: num(l.tax_rate) }));
+
+// what an order brought in once its refunds are taken off
+export const netAmount = (order: { amount?: number | string | null; refunded_amount?: number | string | null }) =>
+  Number(order.amount ?? 0) - Number(order.refunded_amount ?? 0);
@@ -0,0 +1,32 @@
+import { getCountries, getCountryCallingCode, parsePhoneNumberFromString, type CountryCode } from "libphonenumber-js";
+
+export type { CountryCode };
+
+export const DEFAULT_PHONE_COUNTRY: CountryCode = "IN";
+
+const regionNames = new Intl.DisplayNames(["en"], { type: "region" });
+
+export const PHONE_COUNTRIES = getCountries()
+  .map((code) => ({ code, label: `${regionNames.of(code) ?? code} (+${getCountryCallingCode(code)})` }))
+  .sort((a, b) => a.label.localeCompare(b.label));
+
+export const asCountryCode = (value?: string | null): CountryCode =>
+  value && (getCountries() as string[]).includes(value) ? (value as CountryCode) : DEFAULT_PHONE_COUNTRY;
+
+// "+91 98450-12345", "098450 12345" and "9845012345" all become "+919845012345";
+// null when the input is not a valid number for the country
+export const toE164 = (raw: string, country: CountryCode) => {
+  const parsed = parsePhoneNumberFromString(raw.trim(), country);
+  return parsed && parsed.isValid() ? parsed.number : null;
+};
+
+// national format for numbers from the company's own country, international
+// for the rest; values saved before normalisation are shown as typed
+export const formatPhone = (value: string | null | undefined, country: CountryCode) => {
+  if (!value) return "";
+  const parsed = parsePhoneNumberFromString(value, country);
+  if (!parsed) return value;
+  return parsed.country === country ? parsed.formatNational() : parsed.formatInternational();
+};
+
+export const phoneDigits = (value: string) => value.replace(/\D/g, "");
@@ -0,0 +1,151 @@
+// Offline India Post PIN code data, keyed by the first three digits (the
+// sorting district). Enough to validate a PIN and fill in its state, and the
+// city for the larger sorting districts, without a network lookup.
+
+// [first prefix, last prefix, state], checked in order, so narrower ranges
+// that carve a state out of its neighbour's circle come first
+const STATE_RANGES: Array<[number, number, string]> = [
+  [110, 110, "Delhi"],
+  [121, 136, "Haryana"],
+  [160, 160, "Chandigarh"],
+  [140, 160, "Punjab"],
+  [171, 177, "Himachal Pradesh"],
+  [194, 194, "Ladakh"],
+  [180, 194, "Jammu and Kashmir"],
+  [246, 246, "Uttarakhand"],
+  [248, 249, "Uttarakhand"],
+  [262, 263, "Uttarakhand"],
+  [201, 285, "Uttar Pradesh"],
+  [301, 345, "Rajasthan"],
+  [360, 396, "Gujarat"],
+  [403, 403, "Goa"],
+  [400, 445, "Maharashtra"],
+  [450, 488, "Madhya Pradesh"],
+  [490, 497, "Chhattisgarh"],
+  [500, 509, "Telangana"],
+  [515, 535, "Andhra Pradesh"],
+  [560, 591, "Karnataka"],
+  [600, 643, "Tamil Nadu"],
+  [670, 695, "Kerala"],
+  [737, 737, "Sikkim"],
+  [744, 744, "Andaman and Nicobar Islands"],
+  [700, 743, "West Bengal"],
+  [751, 770, "Odisha"],
+  [781, 788, "Assam"],
+  [790, 792, "Arunachal Pradesh"],
+  [793, 794, "Meghalaya"],
+  [795, 795, "Manipur"],
+  [796, 796, "Mizoram"],
+  [797, 798, "Nagaland"],
+  [799, 799, "Tripura"],
+  [814, 816, "Jharkhand"],
+  [822, 822, "Jharkhand"],
+  [825, 835, "Jharkhand"],
+  [800, 855, "Bihar"],
+];
+
+// whole PINs that belong to a different state than the rest of their district
+const STATE_OVERRIDES: Array<[RegExp, string]> = [
+  [/^605(0\d\d|1[01]\d)$/, "Puducherry"],
+  [/^6096\d\d$/, "Puducherry"],
+  [/^67331\d$/, "Puducherry"],
+  [/^533464$/, "Puducherry"],
+  [/^68255\d$/, "Lakshadweep"],
+  [/^396(19\d|2[0-3]\d)$/, "Dadra and Nagar Haveli and Daman and Diu"],
+  [/^36252\d$/, "Dadra and Nagar Haveli and Daman and Diu"],
+];
+
+const CITIES: Record<string, string> = {
+  "110": "New Delhi",
+  "121": "Faridabad",
+  "122": "Gurugram",
+  "141": "Ludhiana",
+  "143": "Amritsar",
+  "144": "Jalandhar",
+  "147": "Patiala",
+  "160": "Chandigarh",
+  "171": "Shimla",
+  "180": "Jammu",
+  "190": "Srinagar",
+  "208": "Kanpur",
+  "211": "Prayagraj",
+  "221": "Varanasi",
+  "226": "Lucknow",
+  "243": "Bareilly",
+  "248": "Dehradun",
+  "250": "Meerut",
+  "273": "Gorakhpur",
+  "282": "Agra",
+  "302": "Jaipur",
+  "313": "Udaipur",
+  "324": "Kota",
+  "342": "Jodhpur",
+  "360": "Rajkot",
+  "380": "Ahmedabad",
+  "382": "Gandhinagar",
+  "390": "Vadodara",
+  "395": "Surat",
+  "400": "Mumbai",
+  "411": "Pune",
+  "416": "Kolhapur",
+  "422": "Nashik",
+  "431": "Chhatrapati Sambhajinagar",
+  "440": "Nagpur",
+  "452": "Indore",
+  "462": "Bhopal",
+  "474": "Gwalior",
+  "482": "Jabalpur",
+  "492": "Raipur",
+  "500": "Hyderabad",
+  "506": "Warangal",
+  "520": "Vijayawada",
+  "522": "Guntur",
+  "530": "Visakhapatnam",
+  "560": "Bengaluru",
+  "570": "Mysuru",
+  "575": "Mangaluru",
+  "580": "Hubballi",
+  "600": "Chennai",
+  "620": "Tiruchirappalli",
+  "625": "Madurai",
+  "636": "Salem",
+  "641": "Coimbatore",
+  "673": "Kozhikode",
+  "680": "Thrissur",
+  "682": "Kochi",
+  "695": "Thiruvananthapuram",
+  "700": "Kolkata",
+  "711": "Howrah",
+  "734": "Siliguri",
+  "737": "Gangtok",
+  "744": "Port Blair",
+  "751": "Bhubaneswar",
+  "753": "Cuttack",
+  "781": "Guwahati",
+  "791": "Itanagar",
+  "793": "Shillong",
+  "795": "Imphal",
+  "796": "Aizawl",
+  "797": "Kohima",
+  "799": "Agartala",
+  "800": "Patna",
+  "826": "Dhanbad",
+  "831": "Jamshedpur",
+  "834": "Ranchi",
+};
+
+export type PincodeInfo = { pincode: string; state: string; city: string | null };
+
+export const isPincodeFormat = (value: string) => /^[1-9]\d{5}$/.test(value);
+
+// null when the PIN is malformed or no sorting district uses its prefix
+export const lookupPincode = (value: string): PincodeInfo | null => {
+  const pincode = value.replace(/\s/g, "");
+  if (!isPincodeFormat(pincode)) return null;
+  const prefix = Number(pincode.slice(0, 3));
+  const state =
+    STATE_OVERRIDES.find(([pattern]) => pattern.test(pincode))?.[1] ??
+    STATE_RANGES.find(([from, to]) => prefix >= from && prefix <= to)?.[2];
+  if (!state) return null;
+  return { pincode, state, city: CITIES[pincode.slice(0, 3)] ?? null };
+};
@@ -0,0 +1,21 @@
+export type Product = {
+  id: string;
+  sku: string;
+  name: string;
+  category: string | null;
+  unit_price: number;
+  tax_rate: number;
+  active: boolean;
+};
+
+// "T-shirt", "Tshirt" and "T Shirt" all become "tshirt"
+export const productKey = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// the catalog product a free-text item name or SKU stands for, if any
+export const matchProduct = (products: Product[], text: string): Product | undefined => {
+  const key = productKey(text);
+  if (!key) return undefined;
+  return products.find((p) => productKey(p.sku) === key) ?? products.find((p) => productKey(p.name) === key);
+};
+
+export const productLabel = (product: Pick<Product, "sku" | "name">) => `${product.name} (${product.sku})`;
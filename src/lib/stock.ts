@@ -0,0 +1,41 @@
+export type StockMovementReason = "opening" | "sale" | "sale_reversal" | "return" | "adjustment";
+
+export type StockItem = {
+  id: string;
+  product_id: string;
+  on_hand: number;
+  low_stock_threshold: number | null;
+  created_at: string;
+  product: { name: string; sku: string; category: string | null; active: boolean } | null;
+};
+
+export type StockMovement = {
+  id: string;
+  change: number;
+  balance_after: number;
+  reason: StockMovementReason;
+  purchase_id: string | null;
+  note: string | null;
+  created_at: string;
+  actor?: { full_name: string | null } | null;
+};
+
+export const STOCK_MOVEMENT_REASONS: Array<{ value: StockMovementReason; label: string }> = [
+  { value: "opening", label: "Opening stock" },
+  { value: "sale", label: "Sale" },
+  { value: "sale_reversal", label: "Sale reversed" },
+  { value: "return", label: "Return" },
+  { value: "adjustment", label: "Adjustment" },
+];
+
+export const stockReasonLabel = (reason: string) => STOCK_MOVEMENT_REASONS.find((r) => r.value === reason)?.label ?? reason;
+
+export type StockStatus = "out" | "low" | "ok";
+
+export const stockStatus = (item: Pick<StockItem, "on_hand" | "low_stock_threshold">): StockStatus => {
+  if (item.on_hand <= 0) return "out";
+  if (item.low_stock_threshold !== null && item.on_hand <= item.low_stock_threshold) return "low";
+  return "ok";
+};
+
+export const STOCK_STATUS_LABELS: Record<StockStatus, string> = { out: "Out of stock", low: "Low stock", ok: "In stock" };
@@ -0,0 +1,18 @@
+export type Tag = {
+  id: string;
+  name: string;
+  color: string;
+};
+
+// palette keys are stored in tags.color; classes live here so Tailwind picks them up
+export const TAG_COLORS: Record<string, string> = {
+  slate: "bg-slate-100 text-slate-800 border-slate-200",
+  blue: "bg-blue-100 text-blue-800 border-blue-200",
+  green: "bg-green-100 text-green-800 border-green-200",
+  amber: "bg-amber-100 text-amber-800 border-amber-200",
+  red: "bg-red-100 text-red-800 border-red-200",
+  purple: "bg-purple-100 text-purple-800 border-purple-200",
+  pink: "bg-pink-100 text-pink-800 border-pink-200",
+};
+
+export const tagColorClass = (color?: string | null) => TAG_COLORS[color ?? ""] ?? TAG_COLORS.slate;
@@ -0,0 +1,34 @@
+export type TaskStatus = "open" | "done" | "cancelled";
+
+export type Task = {
+  id: string;
+  contact_id: string | null;
+  title: string;
+  notes: string | null;
+  due_date: string;
+  assigned_to: string;
+  status: TaskStatus;
+  completed_at: string | null;
+  created_by: string;
+  created_at: string;
+  contact?: { id: string; name: string; deleted_at?: string | null } | null;
+  assignee?: { id: string; full_name: string | null } | null;
+};
+
+export const TASK_STATUSES: Array<{ value: TaskStatus; label: string }> = [
+  { value: "open", label: "Open" },
+  { value: "done", label: "Done" },
+  { value: "cancelled", label: "Cancelled" },
+];
+
+// due_date is a plain date, so compare against today's local date string
+export const todayISODate = () => {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+};
+
+export const isTaskOverdue = (task: Pick<Task, "status" | "due_date">) => task.status === "open" && task.due_date < todayISODate();
+
+export const isTaskDueToday = (task: Pick<Task, "status" | "due_date">) => task.status === "open" && task.due_date === todayISODate();
+
+export const formatDueDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
@@ -5,6 +5,16 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+// same rule the contact forms have always used; shared so bulk imports validate identically
+export function isValidEmail(email: string) {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
+
+// a value matched literally by like/ilike, where % and _ are otherwise wildcards
+export function escapeLike(value: string) {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
 export function formatINR(amount?: number | null) {
   if (amount === null || amount === undefined) return "—";
   try {
@@ -0,0 +1,184 @@
+import type { AddressFields } from "@/lib/address";
+
+// Reads vCard 2.1 / 3.0 / 4.0 as exported by phone contact apps and writes
+// 3.0, which every phone imports.
+
+export type VCard = {
+  name: string;
+  email: string | null;
+  phone: string | null;
+  address: {
+    street: string;
+    extended: string;
+    city: string;
+    region: string;
+    postalCode: string;
+    country: string;
+  } | null;
+};
+
+export type VCardContact = AddressFields & {
+  name: string;
+  email: string | null;
+  phone: string | null;
+};
+
+type Property = { name: string; params: string[]; value: string };
+
+// splits on separators that are not backslash-escaped and unescapes the parts
+const splitValue = (value: string, separator?: string) => {
+  const parts: string[] = [];
+  let current = "";
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (ch === "\\" && i + 1 < value.length) {
+      const next = value[++i];
+      current += next === "n" || next === "N" ? "\n" : next;
+    } else if (ch === separator) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts.map((p) => p.trim());
+};
+
+// vCard 2.1 exports (older Android phones) encode non-ASCII names this way
+const decodeQuotedPrintable = (value: string) => {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === "=" && /^[0-9A-Fa-f]{2}$/.test(value.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(value.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(value.charCodeAt(i));
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+};
+
+const parseProperty = (line: string): Property | null => {
+  const colon = line.indexOf(":");
+  if (colon < 0) return null;
+  const [name, ...params] = line.slice(0, colon).split(";");
+  const value = line.slice(colon + 1);
+  return {
+    // drop Apple's "item1." grouping prefix
+    name: name.replace(/^.*\./, "").toUpperCase(),
+    params: params.map((p) => p.toUpperCase()),
+    value: params.some((p) => /QUOTED-PRINTABLE/i.test(p)) ? decodeQuotedPrintable(value) : value,
+  };
+};
+
+const isPreferred = (prop: Property) => prop.params.some((p) => p === "PREF" || /^PREF=/.test(p) || (/^TYPE=/.test(p) && /\bPREF\b/.test(p)));
+
+const unescapeValue = (value: string) => splitValue(value)[0];
+
+// the preferred value if one is marked, otherwise the first
+const pick = (props: Property[]) => {
+  const prop = props.find(isPreferred) ?? props[0];
+  return prop ? unescapeValue(prop.value) || null : null;
+};
+
+const toCard = (props: Property[]): VCard => {
+  const byName = (name: string) => props.filter((p) => p.name === name && p.value.trim());
+
+  let name = unescapeValue(byName("FN")[0]?.value ?? "");
+  if (!name && byName("N")[0]) {
+    const [family = "", given = "", additional = ""] = splitValue(byName("N")[0].value, ";");
+    name = [given, additional, family].filter(Boolean).join(" ");
+  }
+
+  const phone = pick(byName("TEL"));
+  const adr = byName("ADR").find(isPreferred) ?? byName("ADR")[0];
+  let address: VCard["address"] = null;
+  if (adr) {
+    const [, extended = "", street = "", city = "", region = "", postalCode = "", country = ""] = splitValue(adr.value, ";");
+    address = { street: street.replace(/\n+/g, ", "), extended: extended.replace(/\n+/g, ", "), city, region, postalCode, country };
+  }
+
+  return {
+    name: name.trim(),
+    email: pick(byName("EMAIL")),
+    // vCard 4.0 writes phones as tel: URIs
+    phone: phone ? phone.replace(/^tel:/i, "") : null,
+    address,
+  };
+};
+
+export const parseVCards = (text: string): VCard[] => {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rawLines = input.replace(/\r\n?/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+
+  // quoted-printable values continue onto the next line after a trailing "="
+  const lines: string[] = [];
+  for (let i = 0; i < rawLines.length; i++) {
+    let line = rawLines[i];
+    if (/QUOTED-PRINTABLE/i.test(line.split(":")[0])) {
+      while (line.endsWith("=") && i + 1 < rawLines.length) line = line.slice(0, -1) + rawLines[++i];
+    }
+    lines.push(line);
+  }
+
+  const cards: VCard[] = [];
+  let current: Property[] | null = null;
+  lines.forEach((line) => {
+    if (/^BEGIN:VCARD$/i.test(line.trim())) {
+      current = [];
+    } else if (/^END:VCARD$/i.test(line.trim())) {
+      if (current) cards.push(toCard(current));
+      current = null;
+    } else if (current) {
+      const prop = parseProperty(line);
+      if (prop) current.push(prop);
+    }
+  });
+  return cards;
+};
+
+const escapeValue = (value: string | null | undefined) => (value ?? "").replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/([,;])/g, "\\$1");
+
+const utf8Length = (ch: string) => {
+  const code = ch.codePointAt(0) ?? 0;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+// lines longer than 75 octets are folded onto continuation lines starting with a space
+const fold = (line: string) => {
+  const out: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const ch of line) {
+    const len = utf8Length(ch);
+    if (size + len > 75) {
+      out.push(current);
+      current = " ";
+      size = 1;
+    }
+    current += ch;
+    size += len;
+  }
+  out.push(current);
+  return out.join("\r\n");
+};
+
+export const toVCard = (contact: VCardContact) => {
+  const words = contact.name.trim().split(/\s+/);
+  // N wants family;given — take the last word as the family name
+  const family = words.length > 1 ? words[words.length - 1] : "";
+  const given = words.length > 1 ? words.slice(0, -1).join(" ") : words[0] ?? "";
+
+  const lines = ["BEGIN:VCARD", "VERSION:3.0", `N:${escapeValue(family)};${escapeValue(given)};;;`, `FN:${escapeValue(contact.name)}`];
+  if (contact.email) lines.push(`EMAIL;TYPE=INTERNET:${escapeValue(contact.email)}`);
+  if (contact.phone) lines.push(`TEL;TYPE=CELL:${escapeValue(contact.phone)}`);
+  if (contact.address_line1 || contact.city || contact.state || contact.pincode) {
+    const parts = ["", contact.address_line2, contact.address_line1, contact.city, contact.state, contact.pincode, contact.country];
+    lines.push(`ADR;TYPE=HOME:${parts.map(escapeValue).join(";")}`);
+  }
+  lines.push("END:VCARD");
+  return lines.map(fold).join("\r\n") + "\r\n";
+};
+
+export const toVCards = (contacts: VCardContact[]) => contacts.map(toVCard).join("");
@@ -0,0 +1 @@
+export const generateVoucherCode = () => `V-${Math.random().toString(36).slice(2, 9).toUpperCase()}`;
@@ -0,0 +1,417 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
+import DashboardLayout from "@/components/dashboard/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Edit2, Loader2, Plus, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useCompanyCountry } from "@/hooks/useCompanyCountry";
+import { formatINR } from "@/lib/utils";
+import { formatPhone } from "@/lib/phone";
+import { netAmount } from "@/lib/orders";
+import { accountKindLabel, ownsAccount, type Account } from "@/lib/accounts";
+import AccountDialog from "@/components/accounts/AccountDialog";
+import { toast } from "sonner";
+
+type Member = {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  created_by: string | null;
+  assigned_user_id: string | null;
+};
+
+type AccountPurchase = { id: string; item: string; amount: number; refunded_amount: number; purchase_date: string; contact_id: string };
+
+type AccountVoucher = {
+  id: string;
+  code: string;
+  status: string;
+  issued_at: string;
+  contact_id: string;
+  voucher_rule?: { name?: string } | null;
+};
+
+type Candidate = { id: string; name: string; email: string | null; account?: { name: string } | null };
+
+const formatVoucherStatus = (status: string) => (status === "active" ? "Issued" : status ? status.charAt(0).toUpperCase() + status.slice(1) : "—");
+
+const AccountProfile = () => {
+  const params = useParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const id = (location.state as { id?: string } | null)?.id ?? params.id;
+  const { user, profile, isAdmin } = useAuth();
+  const { country } = useCompanyCountry();
+  const [account, setAccount] = useState<Account | null>(null);
+  const [assignedUserName, setAssignedUserName] = useState<string | null>(null);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [purchases, setPurchases] = useState<AccountPurchase[]>([]);
+  const [vouchers, setVouchers] = useState<AccountVoucher[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editOpen, setEditOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+
+  // the account's owner sees every member; anyone else only the members they own
+  const seesAll = Boolean(account && (isAdmin || ownsAccount(account, user?.id)));
+
+  const fetchAccount = useCallback(async () => {
+    if (!id || !profile || !user) return;
+    setLoading(true);
+    try {
+      const { data: accountRow, error: accountError } = await supabase
+        .from("accounts")
+        .select("id, name, kind, notes, assigned_user_id, created_by, created_at, assigned_user:profiles!accounts_assigned_user_id_fkey(full_name)")
+        .eq("id", id)
+        .eq("company_id", profile.company_id)
+        .single();
+      if (accountError) throw accountError;
+      const { assigned_user, ...rest } = accountRow as unknown as Account & { assigned_user: { full_name: string | null } | null };
+      setAccount(rest);
+      setAssignedUserName(assigned_user?.full_name ?? null);
+
+      let membersQuery = supabase
+        .from("contacts")
+        .select("id, name, email, phone, created_by, assigned_user_id")
+        .eq("account_id", id)
+        .eq("company_id", profile.company_id)
+        .is("deleted_at", null)
+        .order("name", { ascending: true });
+      if (!isAdmin && !ownsAccount(rest, user.id)) {
+        membersQuery = membersQuery.or(`created_by.eq.${user.id},assigned_user_id.eq.${user.id}`);
+      }
+      const { data: memberRows, error: membersError } = await membersQuery;
+      if (membersError) throw membersError;
+      const memberList = (memberRows as Member[]) || [];
+      setMembers(memberList);
+
+      const memberIds = memberList.map((m) => m.id);
+      if (memberIds.length === 0) {
+        setPurchases([]);
+        setVouchers([]);
+        return;
+      }
+      const [purchasesRes, vouchersRes] = await Promise.all([
+        supabase
+          .from("purchases")
+          .select("id, item, amount, refunded_amount, purchase_date, contact_id")
+          .in("contact_id", memberIds)
+          .eq("company_id", profile.company_id)
+          .is("deleted_at", null)
+          .order("purchase_date", { ascending: false }),
+        supabase
+          .from("vouchers")
+          .select("id, code, status, issued_at, contact_id, voucher_rule:voucher_rules(name)")
+          .in("contact_id", memberIds)
+          .eq("company_id", profile.company_id)
+          .order("issued_at", { ascending: false }),
+      ]);
+      if (purchasesRes.error) throw purchasesRes.error;
+      if (vouchersRes.error) throw vouchersRes.error;
+      setPurchases((purchasesRes.data as AccountPurchase[]) || []);
+      setVouchers((vouchersRes.data as AccountVoucher[]) || []);
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to load account");
+    } finally {
+      setLoading(false);
+    }
+  }, [id, profile, user, isAdmin]);
+
+  useEffect(() => {
+    void fetchAccount();
+  }, [fetchAccount]);
+
+  const memberName = useMemo(() => new Map(members.map((m) => [m.id, m.name])), [members]);
+
+  const revenueByMember = useMemo(() => {
+    const totals = new Map<string, { purchases: number; revenue: number }>();
+    purchases.forEach((p) => {
+      const t = totals.get(p.contact_id) ?? { purchases: 0, revenue: 0 };
+      t.purchases += 1;
+      t.revenue += netAmount(p);
+      totals.set(p.contact_id, t);
+    });
+    return totals;
+  }, [purchases]);
+
+  const accountRevenue = purchases.reduce((s, p) => s + netAmount(p), 0);
+
+  // search customer contacts to add, within what this user may see
+  useEffect(() => {
+    const term = search.trim();
+    if (!profile || !user || !id || term.length < 2) {
+      setCandidates([]);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      let query = supabase
+        .from("contacts")
+        .select("id, name, email, account:accounts!contacts_account_id_fkey(name)")
+        .eq("company_id", profile.company_id)
+        .is("deleted_at", null)
+        .is("erased_at", null)
+        .ilike("name", `%${term}%`)
+        .or(`account_id.is.null,account_id.neq.${id}`)
+        .order("name", { ascending: true })
+        .limit(8);
+      if (!isAdmin) query = query.or(`created_by.eq.${user.id},assigned_user_id.eq.${user.id}`);
+      const { data, error } = await query;
+      if (error) {
+        console.error(error);
+        return;
+      }
+      setCandidates((data as unknown as Candidate[]) || []);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search, profile, user, id, isAdmin]);
+
+  const setMemberAccount = async (contactId: string, accountId: string | null) => {
+    try {
+      const { error } = await supabase.from("contacts").update({ account_id: accountId, updated_at: new Date().toISOString() }).eq("id", contactId);
+      if (error) throw error;
+      toast.success(accountId ? "Customer contact added to the account" : "Customer contact removed from the account");
+      setSearch("");
+      void fetchAccount();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to update the account's customer contacts");
+    }
+  };
+
+  const openContact = (contactId: string) => navigate(`/contacts/${contactId}`, { state: { id: contactId } });
+
+  if (loading && !account) {
+    return (
+      <DashboardLayout title="Account">
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!account) {
+    return (
+      <DashboardLayout title="Account">
+        <div className="py-12 text-center text-muted-foreground">Account not found.</div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout title={account.name}>
+      <div className="grid gap-4 lg:grid-cols-3">
+        <div className="lg:col-span-2 space-y-4">
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>Customer Contacts ({members.length})</CardTitle>
+              {!seesAll && <div className="text-sm text-muted-foreground">Showing only the customer contacts assigned to you.</div>}
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="overflow-x-auto">
+                <table className="w-full table-auto">
+                  <thead>
+                    <tr className="text-left text-sm text-muted-foreground">
+                      <th className="py-2">Name</th>
+                      <th className="py-2">Email</th>
+                      <th className="py-2">Phone</th>
+                      <th className="py-2">Purchases</th>
+                      <th className="py-2">Individual Revenue</th>
+                      <th className="py-2 text-right"> </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {members.map((m) => {
+                      const totals = revenueByMember.get(m.id);
+                      return (
+                        <tr key={m.id} className="border-t cursor-pointer hover:bg-muted/5" onClick={() => openContact(m.id)}>
+                          <td className="py-2 font-medium">{m.name}</td>
+                          <td className="py-2">{m.email ?? "—"}</td>
+                          <td className="py-2">{m.phone ? formatPhone(m.phone, country) : "—"}</td>
+                          <td className="py-2">{totals?.purchases ?? 0}</td>
+                          <td className="py-2">{formatINR(totals?.revenue ?? 0)}</td>
+                          <td className="py-2 text-right">
+                            {seesAll && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-8 w-8 p-0"
+                                aria-label="Remove from account"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  void setMemberAccount(m.id, null);
+                                }}
+                              >
+                                <X className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                    {members.length === 0 && (
+                      <tr>
+                        <td colSpan={6} className="py-8 text-center text-muted-foreground">No customer contacts in this account yet.</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
+              {seesAll && (
+                <div className="space-y-2">
+                  <Input placeholder="Add a customer contact by name" value={search} onChange={(e) => setSearch(e.target.value)} />
+                  {candidates.length > 0 && (
+                    <ul className="rounded-md border divide-y">
+                      {candidates.map((c) => (
+                        <li key={c.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                          <div>
+                            <div className="font-medium">{c.name}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {c.email ?? ""}
+                              {c.account?.name ? `${c.email ? " · " : ""}moves from ${c.account.name}` : ""}
+                            </div>
+                          </div>
+                          <Button size="sm" variant="outline" onClick={() => void setMemberAccount(c.id, account.id)}>
+                            <Plus className="mr-1 h-4 w-4" />
+                            Add
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>Purchases</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full table-auto">
+                  <thead>
+                    <tr className="text-left text-sm text-muted-foreground">
+                      <th className="py-2">Item</th>
+                      <th className="py-2">Customer Contact</th>
+                      <th className="py-2">Amount</th>
+                      <th className="py-2">Date</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {purchases.map((p) => (
+                      <tr key={p.id} className="border-t">
+                        <td className="py-2">{p.item}</td>
+                        <td className="py-2">{memberName.get(p.contact_id) ?? "—"}</td>
+                        <td className="py-2">
+                          {formatINR(netAmount(p))}
+                          {Number(p.refunded_amount) > 0 && <div className="text-xs text-muted-foreground">{formatINR(p.refunded_amount)} refunded</div>}
+                        </td>
+                        <td className="py-2">{new Date(p.purchase_date).toLocaleDateString()}</td>
+                      </tr>
+                    ))}
+                    {purchases.length === 0 && (
+                      <tr>
+                        <td colSpan={4} className="py-8 text-center text-muted-foreground">No purchases recorded for this account.</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>Vouchers</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full table-auto">
+                  <thead>
+                    <tr className="text-left text-sm text-muted-foreground">
+                      <th className="py-2">Code</th>
+                      <th className="py-2">Customer Contact</th>
+                      <th className="py-2">Rule</th>
+                      <th className="py-2">Status</th>
+                      <th className="py-2">Issued</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {vouchers.map((v) => (
+                      <tr key={v.id} className="border-t">
+                        <td className="py-2 font-mono">{v.code}</td>
+                        <td className="py-2">{memberName.get(v.contact_id) ?? "—"}</td>
+                        <td className="py-2">{v.voucher_rule?.name ?? "—"}</td>
+                        <td className="py-2">{formatVoucherStatus(v.status)}</td>
+                        <td className="py-2">{new Date(v.issued_at).toLocaleDateString()}</td>
+                      </tr>
+                    ))}
+                    {vouchers.length === 0 && (
+                      <tr>
+                        <td colSpan={5} className="py-8 text-center text-muted-foreground">No vouchers issued to this account's customer contacts.</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-4">
+          <Card className="shadow-md border-l-4 border-primary/60 bg-primary/5">
+            <CardHeader>
+              <CardTitle>Account Revenue</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-3xl font-bold text-primary">{formatINR(accountRevenue)}</div>
+              <div className="text-sm text-muted-foreground mt-1">
+                {purchases.length} purchases across {members.length} customer contacts
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-md">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>Account Details</CardTitle>
+              {seesAll && (
+                <Button size="sm" variant="ghost" onClick={() => setEditOpen(true)}>
+                  <Edit2 className="mr-2 h-4 w-4" />
+                  Edit
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <div>
+                <div className="text-sm text-muted-foreground">Type</div>
+                <div className="font-medium">{accountKindLabel(account.kind)}</div>
+              </div>
+              <div>
+                <div className="text-sm text-muted-foreground">Assigned To</div>
+                <div className="font-medium">{assignedUserName ?? (account.assigned_user_id ? "Former user" : "Unassigned")}</div>
+              </div>
+              {account.notes && (
+                <div>
+                  <div className="text-sm text-muted-foreground">Notes</div>
+                  <div className="whitespace-pre-wrap text-sm">{account.notes}</div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <AccountDialog open={editOpen} onOpenChange={setEditOpen} account={account} onSaved={() => void fetchAccount()} />
+    </DashboardLayout>
+  );
+};
+
+export default AccountProfile;
@@ -0,0 +1,12 @@
+import AccountsList from "@/components/accounts/AccountsList";
+import DashboardLayout from "@/components/dashboard/DashboardLayout";
+
+const Accounts = () => {
+  return (
+    <DashboardLayout title="Accounts">
+      <AccountsList />
+    </DashboardLayout>
+  );
+};
+
+export default Accounts;
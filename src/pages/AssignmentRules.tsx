@@ -0,0 +1,12 @@
+import DashboardLayout from "@/components/dashboard/DashboardLayout";
+import AssignmentRulesManager from "@/components/company/AssignmentRulesManager";
+
+const AssignmentRulesPage = () => {
+  return (
+    <DashboardLayout title="Assignment Rules">
+      <AssignmentRulesManager />
+    </DashboardLayout>
+  );
+};
+
+export default AssignmentRulesPage;
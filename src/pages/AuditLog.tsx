@@ -0,0 +1,12 @@
+import DashboardLayout from "@/components/dashboard/DashboardLayout";
+import AuditLog from "@/components/audit/AuditLog";
+
+const AuditLogPage = () => {
+  return (
+    <DashboardLayout title="Audit Log">
+      <AuditLog />
+    </DashboardLayout>
+  );
+};
+
+export default AuditLogPage;
@@ -0,0 +1,12 @@
+import DashboardLayout from "@/components/dashboard/DashboardLayout";
+import ContactMerge from "@/components/contacts/ContactMerge";
+
+const ContactMergePage = () => {
+  return (
+    <DashboardLayout title="Merge Duplicate Contacts">
+      <ContactMerge />
+    </DashboardLayout>
+  );
+};
+
+export default ContactMergePage;
@@ -7,29 +7,55 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Loader2 } from "lucide-react";
 import { toast } from "sonner";
 import { formatINR } from "@/lib/utils";
-import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Edit2, Trash2 } from "lucide-react";
+import { Download, Edit2, Trash2, Undo2 } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import PurchaseDialog from "@/components/purchases/PurchaseDialog";
+import RecordPurchase from "@/components/purchases/RecordPurchase";
+import RefundDialog from "@/components/purchases/RefundDialog";
+import { netAmount } from "@/lib/orders";
 import ConfirmDialog from "@/components/ui/confirm-dialog";
-
-type Contact = {
+import TagChip from "@/components/tags/TagChip";
+import TagPicker from "@/components/tags/TagPicker";
+import { useCompanyTags } from "@/hooks/useCompanyTags";
+import type { Tag } from "@/lib/tags";
+import type { Json } from "@/integrations/supabase/types";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { asCustomFieldValues, formatCustomFieldValue } from "@/lib/customFields";
+import { formatAddress, type AddressFields } from "@/lib/address";
+import { formatPhone } from "@/lib/phone";
+import { useCompanyCountry } from "@/hooks/useCompanyCountry";
+import ContactTimeline from "@/components/contacts/ContactTimeline";
+import TasksPanel from "@/components/tasks/TasksPanel";
+import AuditHistory from "@/components/audit/AuditHistory";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import ContactConsents from "@/components/contacts/ContactConsents";
+import { useConsentStates } from "@/hooks/useConsentStates";
+import { marketingConsent } from "@/lib/consents";
+import ContactPrivacyActions from "@/components/contacts/ContactPrivacyActions";
+import { exportVCards } from "@/lib/export";
+import { toVCard } from "@/lib/vcard";
+
+type Contact = AddressFields & {
   id: string;
   name: string;
   email: string | null;
   phone: string | null;
-  address: string | null;
   company_id: string;
+  custom_fields?: Json;
+  erased_at?: string | null;
+  account?: { id: string; name: string } | null;
 };
 
 type Purchase = {
   id: string;
   item: string;
   amount: number;
+  refunded_amount: number;
   purchase_date: string;
   created_at: string;
+  created_by?: string | null;
 };
 
 type Voucher = {
@@ -38,6 +64,8 @@ type Voucher = {
   status: string;
   issued_at: string;
   redeemed_at: string | null;
+  issued_by?: string | null;
+  redeemed_by?: string | null;
   voucher_rule?: { name?: string } | null;
 };
 
@@ -48,6 +76,7 @@ const ContactProfile = () => {
   const idFromState = (location.state as { id?: string } | null)?.id;
   const id = idFromState ?? params.id;
   const { user, profile, isAdmin } = useAuth();
+  const { country } = useCompanyCountry();
   // Contact may include assignment metadata
   type ContactWithAssignment = Contact & { assigned_user_id?: string | null; created_by?: string | null };
   const [contact, setContact] = useState<ContactWithAssignment | null>(null);
@@ -56,9 +85,11 @@ const ContactProfile = () => {
   const [loading, setLoading] = useState(true);
   const [totalsAllowed, setTotalsAllowed] = useState(false);
   const [assignedUserName, setAssignedUserName] = useState<string | null>(null);
-
-  // purchase form state
-  const [item, setItem] = useState("");
+  const [contactTags, setContactTags] = useState<Tag[]>([]);
+  const { tags: companyTags, createTag } = useCompanyTags();
+  const { fields: customFields } = useCustomFields();
+  const { states: consentStates, refresh: refreshConsent } = useConsentStates(id ? [id] : []);
+  const consent = marketingConsent(id ? consentStates[id] : undefined);
 
   const formatVoucherStatus = (s: string | undefined | null) => {
     if (!s) return "—";
@@ -75,9 +106,6 @@ const ContactProfile = () => {
   };
   const [confirmPurchaseOpen, setConfirmPurchaseOpen] = useState(false);
   const [purchaseToDelete, setPurchaseToDelete] = useState<string | null>(null);
-  const [amount, setAmount] = useState<number | "">("");
-  const [quantity, setQuantity] = useState<number | "">(1);
-  const [date, setDate] = useState<string>(new Date().toISOString().slice(0, 10));
 
   const fetchContactAndPurchases = useCallback(async () => {
     if (!id || !profile) return;
@@ -86,9 +114,10 @@ const ContactProfile = () => {
     try {
       const { data: contactData, error: contactError } = await supabase
         .from("contacts")
-        .select("*")
+        .select("*, account:accounts!contacts_account_id_fkey(id, name)")
         .eq("id", id)
         .eq("company_id", profile.company_id)
+        .is("deleted_at", null)
         .single();
 
       if (contactError) throw contactError;
@@ -128,6 +157,7 @@ const ContactProfile = () => {
           .select("*")
           .eq("contact_id", id)
           .eq("company_id", profile.company_id)
+          .is("deleted_at", null)
           .order("purchase_date", { ascending: false });
 
         if (purchasesRes.error) throw purchasesRes.error;
@@ -138,7 +168,7 @@ const ContactProfile = () => {
 
       const { data: vouchersData, error: vouchersError } = await supabase
         .from("vouchers")
-        .select("*, voucher_rules(name)")
+        .select("*, voucher_rule:voucher_rules(name)")
         .eq("contact_id", id)
         .eq("company_id", profile.company_id)
         .order("issued_at", { ascending: false });
@@ -160,9 +190,45 @@ const ContactProfile = () => {
     void fetchContactAndPurchases();
   }, [fetchContactAndPurchases]);
 
-  const totalSpend = purchases.reduce((s, p) => s + Number(p.amount || 0), 0);
+  const fetchContactTags = useCallback(async () => {
+    if (!id) return;
+    const { data, error } = await supabase.from("contact_tags").select("tag:tags(id, name, color)").eq("contact_id", id);
+    if (error) {
+      console.error(error);
+      return;
+    }
+    setContactTags(((data as unknown as Array<{ tag: Tag | null }>) || []).map((r) => r.tag).filter(Boolean) as Tag[]);
+  }, [id]);
+
+  useEffect(() => {
+    void fetchContactTags();
+  }, [fetchContactTags]);
+
+  const handleToggleTag = async (tag: Tag, selected: boolean) => {
+    if (!contact || !profile || !user) return;
+    try {
+      if (selected) {
+        const { error } = await supabase
+          .from("contact_tags")
+          .upsert({ contact_id: contact.id, tag_id: tag.id, company_id: profile.company_id, created_by: user.id }, { onConflict: "contact_id,tag_id", ignoreDuplicates: true });
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from("contact_tags").delete().match({ contact_id: contact.id, tag_id: tag.id });
+        if (error) throw error;
+      }
+      void fetchContactTags();
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to update tags");
+    }
+  };
+
+  const totalSpend = purchases.reduce((s, p) => s + netAmount(p), 0);
+  const totalRefunded = purchases.reduce((s, p) => s + Number(p.refunded_amount || 0), 0);
 
   const canIssueVoucher = Boolean(isAdmin || (user && contact && (contact.created_by === user.id || contact.assigned_user_id === user.id)));
+  // the same ownership rule governs who can edit the contact's tags
+  const canEditTags = canIssueVoucher;
 
   // Issue voucher state
   const [issueOpen, setIssueOpen] = useState(false);
@@ -171,6 +237,7 @@ const ContactProfile = () => {
   const [issueLoading, setIssueLoading] = useState(false);
   const [editingOpen, setEditingOpen] = useState(false);
   const [editingPurchaseId, setEditingPurchaseId] = useState<string | null>(null);
+  const [refundPurchaseId, setRefundPurchaseId] = useState<string | null>(null);
 
   const openIssue = async () => {
     if (!profile) return;
@@ -195,6 +262,10 @@ const ContactProfile = () => {
   const handleIssueVoucher = async (e?: React.FormEvent) => {
     e?.preventDefault();
     if (!selectedRuleId || !profile || !user || !contact) return;
+    if (consent === "opted_out") {
+      toast.error(`${contact.name} has opted out of marketing messages`);
+      return;
+    }
     setIssueLoading(true);
     try {
       const code = `V-${Math.random().toString(36).slice(2, 9).toUpperCase()}`;
@@ -221,43 +292,6 @@ const ContactProfile = () => {
     }
   };
 
-  const handleAddPurchase = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!contact || !user || !profile) return;
-
-    const insert: {
-      company_id: string;
-      contact_id: string;
-      created_by: string;
-      item: string;
-      amount: number;
-      quantity?: number;
-      purchase_date: string;
-    } = {
-      company_id: profile.company_id,
-      contact_id: contact.id,
-      created_by: user.id,
-      item,
-      // store total amount = unit price * quantity
-      amount: (typeof amount === "number" ? amount : Number(amount)) * (typeof quantity === "number" ? quantity : Number(quantity)),
-      quantity: typeof quantity === "number" ? quantity : Number(quantity),
-      purchase_date: date,
-    };
-
-    try {
-      const { error } = await supabase.from("purchases").insert(insert);
-      if (error) throw error;
-      toast.success("Purchase recorded");
-      setItem("");
-      setAmount("");
-      setDate(new Date().toISOString().slice(0, 10));
-      fetchContactAndPurchases();
-    } catch (error: unknown) {
-      if (error instanceof Error) toast.error(error.message);
-      else toast.error(String(error));
-    }
-  };
-
   if (loading) {
     return (
       <DashboardLayout title="Customer Contact">
@@ -285,108 +319,125 @@ const ContactProfile = () => {
       </div>
       <div className="grid gap-6 md:grid-cols-3">
         <div className="md:col-span-2">
-          <Card className="shadow-md mb-4">
-            <CardHeader>
-              <CardTitle>Purchases</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="overflow-x-auto">
-                <table className="w-full table-auto">
-                  <thead>
-                    <tr className="text-left text-sm text-muted-foreground">
-                      <th className="py-2">Item</th>
-                      <th className="py-2">Amount</th>
-                      <th className="py-2">Date</th>
-                      <th className="py-2 text-right"> </th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {purchases.map((p) => (
-                      <tr key={p.id} className="border-t">
-                        <td className="py-2">{p.item}</td>
-                        <td className="py-2">{formatINR(p.amount)}</td>
-                        <td className="py-2">{new Date(p.purchase_date).toLocaleDateString()}</td>
-                        <td className="py-2 text-right">
-                          <div className="inline-flex items-center gap-2">
-                            <Button size="sm" variant="ghost" onClick={async (e) => { e.stopPropagation(); setEditingPurchaseId(p.id); setEditingOpen(true); }} aria-label="Edit purchase">
-                              <Edit2 className="h-4 w-4" />
-                            </Button>
-                            <Button size="sm" variant="ghost" onClick={(e) => { e.stopPropagation(); setPurchaseToDelete(p.id); setConfirmPurchaseOpen(true); }} aria-label="Delete purchase">
-                              <Trash2 className="h-4 w-4 text-destructive" />
-                            </Button>
-                          </div>
-                        </td>
-                      </tr>
-                    ))}
-                    {purchases.length === 0 && (
-                      <tr>
-                        <td colSpan={4} className="py-8 text-center text-muted-foreground">
-                          No purchases recorded for this customer contact.
-                        </td>
-                      </tr>
-                    )}
-                  </tbody>
-                </table>
-              </div>
-            </CardContent>
-          </Card>
+          {contact.erased_at && (
+            <div className="mb-4 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+              This customer contact's personal data was erased on {new Date(contact.erased_at).toLocaleDateString()}. Their purchases and vouchers are kept for reporting.
+            </div>
+          )}
+          <Tabs defaultValue="overview">
+            <TabsList className="mb-4">
+              <TabsTrigger value="overview">Overview</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
+            <TabsContent value="overview" className="mt-0">
+              <Card className="shadow-md mb-4">
+                <CardHeader>
+                  <CardTitle>Purchases</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="overflow-x-auto">
+                    <table className="w-full table-auto">
+                      <thead>
+                        <tr className="text-left text-sm text-muted-foreground">
+                          <th className="py-2">Item</th>
+                          <th className="py-2">Amount</th>
+                          <th className="py-2">Date</th>
+                          <th className="py-2 text-right"> </th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {purchases.map((p) => (
+                          <tr key={p.id} className="border-t">
+                            <td className="py-2">{p.item}</td>
+                            <td className="py-2">
+                              {formatINR(netAmount(p))}
+                              {Number(p.refunded_amount) > 0 && (
+                                <div className="text-xs text-muted-foreground">
+                                  {formatINR(p.amount)} less {formatINR(p.refunded_amount)} refunded
+                                </div>
+                              )}
+                            </td>
+                            <td className="py-2">{new Date(p.purchase_date).toLocaleDateString()}</td>
+                            <td className="py-2 text-right">
+                              <div className="inline-flex items-center gap-2">
+                                <Button size="sm" variant="ghost" onClick={async (e) => { e.stopPropagation(); setEditingPurchaseId(p.id); setEditingOpen(true); }} aria-label="Edit purchase">
+                                  <Edit2 className="h-4 w-4" />
+                                </Button>
+                                <Button size="sm" variant="ghost" onClick={(e) => { e.stopPropagation(); setRefundPurchaseId(p.id); }} disabled={netAmount(p) <= 0} aria-label="Refund purchase">
+                                  <Undo2 className="h-4 w-4" />
+                                </Button>
+                                <Button size="sm" variant="ghost" onClick={(e) => { e.stopPropagation(); setPurchaseToDelete(p.id); setConfirmPurchaseOpen(true); }} aria-label="Delete purchase">
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                              </div>
+                            </td>
+                          </tr>
+                        ))}
+                        {purchases.length === 0 && (
+                          <tr>
+                            <td colSpan={4} className="py-8 text-center text-muted-foreground">
+                              No purchases recorded for this customer contact.
+                            </td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                </CardContent>
+              </Card>
+
+                <RefundDialog open={Boolean(refundPurchaseId)} onOpenChange={(open) => !open && setRefundPurchaseId(null)} purchaseId={refundPurchaseId} onSaved={() => void fetchContactAndPurchases()} />
+                <PurchaseDialog open={editingOpen} onOpenChange={(open) => { setEditingOpen(open); if (!open) setEditingPurchaseId(null); }} purchaseId={editingPurchaseId} onSaved={() => void fetchContactAndPurchases()} />
+
+                <ConfirmDialog
+                  open={confirmPurchaseOpen}
+                  onOpenChange={(open) => setConfirmPurchaseOpen(open)}
+                  title="Delete purchase"
+                  description="Are you sure you want to delete this purchase? An admin can restore it from the trash."
+                  confirmLabel="Delete"
+                  onConfirm={async () => {
+                    if (!purchaseToDelete) return;
+                    try {
+                      const { data: trashed, error } = await supabase.rpc("trash_records", { _kind: "purchase", _ids: [purchaseToDelete] });
+                      if (error) throw error;
+                      if (!trashed) throw new Error("You don't have permission to delete this purchase");
+                      toast.success("Purchase moved to trash");
+                      void fetchContactAndPurchases();
+                    } catch (err) {
+                      console.error(err);
+                      toast.error("Failed to delete purchase");
+                    } finally {
+                      setPurchaseToDelete(null);
+                    }
+                  }}
+                />
 
-            <PurchaseDialog open={editingOpen} onOpenChange={(open) => { setEditingOpen(open); if (!open) setEditingPurchaseId(null); }} purchaseId={editingPurchaseId} onSaved={() => void fetchContactAndPurchases()} />
-
-            <ConfirmDialog
-              open={confirmPurchaseOpen}
-              onOpenChange={(open) => setConfirmPurchaseOpen(open)}
-              title="Delete purchase"
-              description="Are you sure you want to delete this purchase? This action cannot be undone."
-              confirmLabel="Delete"
-              onConfirm={async () => {
-                if (!purchaseToDelete) return;
-                try {
-                  const { error } = await supabase.from("purchases").delete().eq("id", purchaseToDelete);
-                  if (error) throw error;
-                  toast.success("Purchase deleted");
-                  void fetchContactAndPurchases();
-                } catch (err) {
-                  console.error(err);
-                  toast.error("Failed to delete purchase");
-                } finally {
-                  setPurchaseToDelete(null);
-                }
-              }}
-            />
+              <Card className="shadow-md">
+                <CardHeader>
+                  <CardTitle>Record Purchase</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <RecordPurchase contactId={contact.id} onSaved={() => void fetchContactAndPurchases()} />
+                </CardContent>
+              </Card>
+
+              <div className="mt-4">
+                <TasksPanel title="Follow-up Tasks" scope="company" contactId={contact.id} canCreate={canIssueVoucher} />
+              </div>
 
-          <Card className="shadow-md">
-            <CardHeader>
-              <CardTitle>Record Purchase</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <form onSubmit={handleAddPurchase} className="grid gap-3">
-                <Input placeholder="Item" value={item} onChange={(e) => setItem(e.target.value)} required />
-                <Input
-                  placeholder="Amount"
-                  type="number"
-                  min="0"
-                  step="0.01"
-                  value={amount === "" ? "" : String(amount)}
-                  onChange={(e) => setAmount(e.target.value === "" ? "" : Number(e.target.value))}
-                  required
-                />
-                <Input
-                  placeholder="Quantity"
-                  type="number"
-                  min="1"
-                  step="1"
-                  value={quantity === "" ? "" : String(quantity)}
-                  onChange={(e) => setQuantity(e.target.value === "" ? "" : Number(e.target.value))}
-                  required
-                />
-                <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} required />
-                <div>
-                  <Button type="submit">Record Purchase</Button>
-                </div>
-              </form>
-            </CardContent>
-          </Card>
+              <ContactTimeline contactId={contact.id} purchases={purchases} vouchers={vouchers} canAdd={canIssueVoucher} />
+            </TabsContent>
+            <TabsContent value="history" className="mt-0">
+              <Card className="shadow-md">
+                <CardHeader>
+                  <CardTitle>History</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <AuditHistory contactId={contact.id} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
         </div>
 
         <div>
@@ -396,7 +447,10 @@ const ContactProfile = () => {
             </CardHeader>
             <CardContent>
               {totalsAllowed ? (
-                <div className="text-3xl font-bold text-primary">{formatINR(totalSpend)}</div>
+                <>
+                  <div className="text-3xl font-bold text-primary">{formatINR(totalSpend)}</div>
+                  {totalRefunded > 0 && <div className="text-sm text-muted-foreground mt-1">After {formatINR(totalRefunded)} refunded</div>}
+                </>
               ) : (
                 <div className="text-sm text-muted-foreground">You are not authorised to view total spend for this customer contact.</div>
               )}
@@ -412,6 +466,32 @@ const ContactProfile = () => {
                 <div className="text-sm text-muted-foreground">Name</div>
                 <div className="font-medium">{contact.name}</div>
               </div>
+              <div>
+                <div className="text-sm text-muted-foreground">Tags</div>
+                <div className="flex flex-wrap items-center gap-1 mt-1">
+                  {contactTags.map((t) => (
+                    <TagChip key={t.id} tag={t} onRemove={canEditTags ? () => void handleToggleTag(t, false) : undefined} />
+                  ))}
+                  {contactTags.length === 0 && <span className="text-sm text-muted-foreground">—</span>}
+                </div>
+                {canEditTags && (
+                  <div className="mt-2">
+                    <TagPicker label="Edit tags" tags={companyTags} selectedIds={contactTags.map((t) => t.id)} onToggle={handleToggleTag} onCreate={createTag} />
+                  </div>
+                )}
+              </div>
+              {contact.account && (
+                <div>
+                  <div className="text-sm text-muted-foreground">Account</div>
+                  <button
+                    type="button"
+                    className="font-medium text-primary hover:underline"
+                    onClick={() => contact.account && navigate(`/accounts/${contact.account.id}`, { state: { id: contact.account.id } })}
+                  >
+                    {contact.account.name}
+                  </button>
+                </div>
+              )}
               {contact.email && (
                 <div>
                   <div className="text-sm text-muted-foreground">Email</div>
@@ -421,24 +501,34 @@ const ContactProfile = () => {
               {contact.phone && (
                 <div>
                   <div className="text-sm text-muted-foreground">Phone</div>
-                  <div className="font-medium">{contact.phone}</div>
+                  <div className="font-medium">{formatPhone(contact.phone, country)}</div>
                 </div>
               )}
-              {contact.address && (
+              {formatAddress(contact) && (
                 <div>
                   <div className="text-sm text-muted-foreground">Address</div>
-                  <div className="font-medium">{contact.address}</div>
+                  <div className="font-medium">{formatAddress(contact)}</div>
                 </div>
               )}
+              {customFields.map((def) => (
+                <div key={def.id}>
+                  <div className="text-sm text-muted-foreground">{def.label}</div>
+                  <div className="font-medium">{formatCustomFieldValue(def, asCustomFieldValues(contact.custom_fields)[def.key])}</div>
+                </div>
+              ))}
               {isAdmin && (
                 <div>
                   <div className="text-sm text-muted-foreground">Assigned To</div>
-                  <div className="font-medium">{assignedUserName ?? (contact.assigned_user_id ? contact.assigned_user_id : <span className="text-muted-foreground">—</span>)}</div>
+                  <div className="font-medium">{assignedUserName ?? <span className="text-muted-foreground">{contact.assigned_user_id ? "Former user" : "—"}</span>}</div>
                 </div>
               )}
-              {canIssueVoucher && (
-                <div className="mt-3">
-                  <Button onClick={openIssue}>Issue Voucher</Button>
+              {!contact.erased_at && (
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {canIssueVoucher && <Button onClick={openIssue}>Issue Voucher</Button>}
+                  <Button variant="outline" onClick={() => exportVCards(toVCard(contact), `customer-contact-${contact.id}`)}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Save vCard
+                  </Button>
                 </div>
               )}
               {/* Total Spend is shown above in a highlighted card and respects role-based access */}
@@ -476,15 +566,32 @@ const ContactProfile = () => {
                       </select>
                     </div>
 
+                    {consent === "opted_out" && (
+                      <div className="rounded-md border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+                        This customer contact has opted out of marketing messages on every channel, so vouchers cannot be issued to them.
+                      </div>
+                    )}
+                    {consent === "unknown" && (
+                      <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+                        No marketing consent is recorded for this customer contact. Record their consent first, or issue anyway if they asked for this voucher.
+                      </div>
+                    )}
+
                     <DialogFooter>
                       <Button type="button" variant="outline" onClick={() => setIssueOpen(false)}>Cancel</Button>
-                      <Button type="submit" disabled={issueLoading}>{issueLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Issue"}</Button>
+                      <Button type="submit" disabled={issueLoading || consent === "opted_out"}>
+                        {issueLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : consent === "unknown" ? "Issue anyway" : "Issue"}
+                      </Button>
                     </DialogFooter>
                   </form>
                 </DialogContent>
               </Dialog>
             </CardContent>
           </Card>
+
+          <ContactConsents contactId={contact.id} canEdit={canIssueVoucher} onChange={() => void refreshConsent()} />
+
+          {isAdmin && <ContactPrivacyActions contact={contact} onErased={() => void fetchContactAndPurchases()} />}
         </div>
       </div>
     </DashboardLayout>
@@ -0,0 +1,12 @@
+import DashboardLayout from "@/components/dashboard/DashboardLayout";
+import CustomFieldsManager from "@/components/company/CustomFieldsManager";
+
+const CustomFieldsPage = () => {
+  return (
+    <DashboardLayout title="Custom Fields">
+      <CustomFieldsManager />
+    </DashboardLayout>
+  );
+};
+
+export default CustomFieldsPage;
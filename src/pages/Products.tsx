@@ -0,0 +1,16 @@
+import DashboardLayout from "@/components/dashboard/DashboardLayout";
+import ProductCatalog from "@/components/products/ProductCatalog";
+import GstSettings from "@/components/products/GstSettings";
+
+const Products = () => {
+  return (
+    <DashboardLayout title="Products">
+      <div className="space-y-4">
+        <GstSettings />
+        <ProductCatalog />
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Products;
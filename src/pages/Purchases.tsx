@@ -3,24 +3,41 @@ import DashboardLayout from "@/components/dashboard/DashboardLayout";
 import { supabase } from "@/integrations/supabase/client";
 import type { Database } from "@/integrations/supabase/types";
 import { useAuth } from "@/hooks/useAuth";
-import { Loader2, ChevronDown, ChevronUp, Search, Edit2, Trash2 } from "lucide-react";
+import { Loader2, ChevronDown, ChevronUp, Search, Edit2, Trash2, Undo2 } from "lucide-react";
 import { formatINR } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import PurchaseDialog from "@/components/purchases/PurchaseDialog";
+import RefundDialog from "@/components/purchases/RefundDialog";
+import { netAmount } from "@/lib/orders";
 import { toast } from "sonner";
 import ConfirmDialog from "@/components/ui/confirm-dialog";
 import RecordPurchase from "@/components/purchases/RecordPurchase";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Input } from "@/components/ui/input";
+import ExportMenu from "@/components/ui/export-menu";
+import { exportRows, type ExportColumn, type ExportFormat } from "@/lib/export";
 
 type PurchaseJoined = {
   id: string;
   item: string;
   amount: number;
+  refunded_amount: number;
+  quantity: number;
+  subtotal: number;
+  discount_total: number;
+  prices_include_tax: boolean;
+  place_of_supply: string | null;
+  taxable_total: number;
+  cgst_total: number;
+  sgst_total: number;
+  igst_total: number;
+  tax_total: number;
   purchase_date: string;
+  purchase_items: Array<{ product: string; quantity: number; unit_price: number; discount: number; tax_rate: number; position: number }>;
   contacts: {
     id: string;
     name: string;
+    created_by?: string | null;
     assigned_user_id?: string | null;
   } | null;
 };
@@ -34,6 +51,7 @@ const PurchasesPage = () => {
   const [sortAsc, setSortAsc] = useState(false);
   const [editingOpen, setEditingOpen] = useState(false);
   const [editingPurchaseId, setEditingPurchaseId] = useState<string | null>(null);
+  const [refundPurchaseId, setRefundPurchaseId] = useState<string | null>(null);
   const [confirmPurchaseOpen, setConfirmPurchaseOpen] = useState(false);
   const [purchaseToDelete, setPurchaseToDelete] = useState<string | null>(null);
 
@@ -45,8 +63,9 @@ const PurchasesPage = () => {
       // Build base query: join contacts to get customer name
       let query = supabase
         .from("purchases")
-        .select("id, item, amount, purchase_date, contacts(id, name, assigned_user_id)")
-        .eq("company_id", profile.company_id);
+        .select("id, item, amount, refunded_amount, quantity, subtotal, discount_total, prices_include_tax, place_of_supply, taxable_total, cgst_total, sgst_total, igst_total, tax_total, purchase_date, purchase_items(product, quantity, unit_price, discount, tax_rate, position), contacts(id, name, created_by, assigned_user_id)")
+        .eq("company_id", profile.company_id)
+        .is("deleted_at", null);
 
       // Role-based filter: non-admins only see purchases for contacts assigned to them
       if (!isAdmin && user) {
@@ -84,6 +103,46 @@ const PurchasesPage = () => {
     return () => clearTimeout(id);
   }, [searchTerm, fetchPurchases]);
 
+  const handleExport = async (format: ExportFormat) => {
+    // the embedded contacts filter only nulls out the join, so re-apply the visibility rule to exported rows
+    const rows = isAdmin
+      ? purchases
+      : purchases.filter((p) => p.contacts && (p.contacts.created_by === user?.id || p.contacts.assigned_user_id === user?.id));
+    const columns: ExportColumn<PurchaseJoined>[] = [
+      { header: "Customer Name", value: (p) => p.contacts?.name ?? "Unknown" },
+      { header: "Item", value: (p) => p.item },
+      { header: "Quantity", value: (p) => p.quantity },
+      {
+        header: "Line Items",
+        value: (p) =>
+          [...(p.purchase_items ?? [])]
+            .sort((a, b) => a.position - b.position)
+            .map((i) => `${i.product} × ${i.quantity} @ ${Number(i.unit_price)}${Number(i.discount) > 0 ? ` less ${Number(i.discount)}` : ""}${Number(i.tax_rate) > 0 ? ` + ${Number(i.tax_rate)}% GST` : ""}`)
+            .join("; "),
+      },
+      { header: "Subtotal", value: (p) => Number(p.subtotal) },
+      { header: "Discount", value: (p) => Number(p.discount_total) },
+      { header: "Prices Include GST", value: (p) => (p.prices_include_tax ? "Yes" : "No") },
+      { header: "Place of Supply", value: (p) => p.place_of_supply ?? "" },
+      { header: "Taxable Value", value: (p) => Number(p.taxable_total) },
+      { header: "CGST", value: (p) => Number(p.cgst_total) },
+      { header: "SGST", value: (p) => Number(p.sgst_total) },
+      { header: "IGST", value: (p) => Number(p.igst_total) },
+      { header: "Total GST", value: (p) => Number(p.tax_total) },
+      { header: "Amount", value: (p) => Number(p.amount) },
+      { header: "Amount (Formatted)", value: (p) => formatINR(p.amount) },
+      { header: "Refunded", value: (p) => Number(p.refunded_amount) },
+      { header: "Net Amount", value: (p) => netAmount(p) },
+      { header: "Date", value: (p) => p.purchase_date.slice(0, 10) },
+    ];
+    try {
+      await exportRows(rows, columns, "purchases", format);
+    } catch (err) {
+      console.error(err);
+      toast.error("Failed to export purchases");
+    }
+  };
+
   const toggleSort = (col: "date" | "amount") => {
     if (sortBy === col) {
       setSortAsc(!sortAsc);
@@ -119,6 +178,7 @@ const PurchasesPage = () => {
                 <Input className="pl-10" placeholder="Search purchases or customer..." value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} />
               </div>
             </div>
+            <ExportMenu onExport={handleExport} disabled={loading || purchases.length === 0} />
           </div>
           {loading ? (
             <table className="min-w-full">
@@ -166,14 +226,28 @@ const PurchasesPage = () => {
                 {purchases.map((p) => (
                   <tr key={p.id} className="hover:bg-muted/5">
                     <td className="px-4 py-3">{p.contacts?.name ?? "Unknown"}</td>
-                    <td className="px-4 py-3">{p.item}</td>
-                    <td className="px-4 py-3">{formatINR(p.amount)}</td>
+                    <td className="px-4 py-3">
+                      {p.item}
+                      {(p.purchase_items?.length ?? 0) > 1 && <span className="ml-2 text-xs text-muted-foreground">{p.purchase_items.length} lines</span>}
+                    </td>
+                    <td className="px-4 py-3">
+                      {formatINR(netAmount(p))}
+                      {Number(p.tax_total) > 0 && <div className="text-xs text-muted-foreground">incl. {formatINR(p.tax_total)} GST</div>}
+                      {Number(p.refunded_amount) > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          {formatINR(p.amount)} less {formatINR(p.refunded_amount)} refunded
+                        </div>
+                      )}
+                    </td>
                     <td className="px-4 py-3">{new Date(p.purchase_date).toLocaleDateString()}</td>
                     <td className="px-4 py-3 text-right">
                       <div className="inline-flex items-center gap-2">
                         <Button size="sm" variant="ghost" onClick={() => { setEditingPurchaseId(p.id); setEditingOpen(true); }} aria-label="Edit purchase">
                           <Edit2 className="h-4 w-4" />
                         </Button>
+                        <Button size="sm" variant="ghost" onClick={() => setRefundPurchaseId(p.id)} disabled={netAmount(p) <= 0} aria-label="Refund purchase">
+                          <Undo2 className="h-4 w-4" />
+                        </Button>
                         <Button size="sm" variant="ghost" onClick={(e) => { e.stopPropagation(); setPurchaseToDelete(p.id); setConfirmPurchaseOpen(true); }} aria-label="Delete purchase">
                           <Trash2 className="h-4 w-4 text-destructive" />
                         </Button>
@@ -192,18 +266,20 @@ const PurchasesPage = () => {
         </div>
       </div>
       <PurchaseDialog open={editingOpen} onOpenChange={(open) => { setEditingOpen(open); if (!open) setEditingPurchaseId(null); }} purchaseId={editingPurchaseId} onSaved={() => void fetchPurchases()} />
+      <RefundDialog open={Boolean(refundPurchaseId)} onOpenChange={(open) => !open && setRefundPurchaseId(null)} purchaseId={refundPurchaseId} onSaved={() => void fetchPurchases()} />
       <ConfirmDialog
         open={confirmPurchaseOpen}
         onOpenChange={(open) => setConfirmPurchaseOpen(open)}
         title="Delete purchase"
-        description="Are you sure you want to delete this purchase? This action cannot be undone."
+        description="Are you sure you want to delete this purchase? An admin can restore it from the trash."
         confirmLabel="Delete"
         onConfirm={async () => {
           if (!purchaseToDelete) return;
           try {
-            const { error } = await supabase.from("purchases").delete().eq("id", purchaseToDelete);
+            const { data: trashed, error } = await supabase.rpc("trash_records", { _kind: "purchase", _ids: [purchaseToDelete] });
             if (error) throw error;
-            toast.success("Purchase deleted");
+            if (!trashed) throw new Error("You don't have permission to delete this purchase");
+            toast.success("Purchase moved to trash");
             void fetchPurchases();
           } catch (err) {
             console.error(err);
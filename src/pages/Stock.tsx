@@ -0,0 +1,12 @@
+import DashboardLayout from "@/components/dashboard/DashboardLayout";
+import StockList from "@/components/stock/StockList";
+
+const Stock = () => {
+  return (
+    <DashboardLayout title="Stock">
+      <StockList />
+    </DashboardLayout>
+  );
+};
+
+export default Stock;
@@ -0,0 +1,12 @@
+import DashboardLayout from "@/components/dashboard/DashboardLayout";
+import TrashManager from "@/components/trash/TrashManager";
+
+const TrashPage = () => {
+  return (
+    <DashboardLayout title="Trash">
+      <TrashManager />
+    </DashboardLayout>
+  );
+};
+
+export default TrashPage;
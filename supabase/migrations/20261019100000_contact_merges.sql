@@ -0,0 +1,79 @@
+-- Record of customer contacts that were merged into another contact.
+-- The merged row itself is deleted, so a snapshot of it is kept here.
+create table public.contact_merges (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  survivor_id uuid references public.contacts(id) on delete set null,
+  merged_contact_id uuid not null,
+  merged_contact jsonb not null,
+  purchases_moved integer not null default 0,
+  vouchers_moved integer not null default 0,
+  merged_by uuid not null,
+  merged_at timestamptz not null default now()
+);
+
+create index contact_merges_company_id_idx on public.contact_merges (company_id, merged_at desc);
+create index contact_merges_survivor_id_idx on public.contact_merges (survivor_id);
+
+alter table public.contact_merges enable row level security;
+
+create policy "Admins can view contact merges in their company"
+  on public.contact_merges for select
+  using (company_id = public.get_user_company_id(auth.uid()) and public.has_role(auth.uid(), 'admin'));
+
+-- Re-points purchases and vouchers of each duplicate onto the survivor, fills
+-- any empty survivor fields from the duplicate, logs the merge and deletes the
+-- duplicate. Runs as one transaction so a failure leaves nothing half-merged.
+create or replace function public.merge_contacts(_survivor_id uuid, _duplicate_ids uuid[])
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _company_id uuid;
+  _dup public.contacts%rowtype;
+  _purchases integer;
+  _vouchers integer;
+  _merged integer := 0;
+begin
+  if not public.has_role(auth.uid(), 'admin') then
+    raise exception 'Only admins can merge customer contacts';
+  end if;
+
+  select company_id into _company_id from public.contacts where id = _survivor_id;
+  if _company_id is null or _company_id <> public.get_user_company_id(auth.uid()) then
+    raise exception 'Customer contact not found';
+  end if;
+
+  if _survivor_id = any(_duplicate_ids) then
+    raise exception 'The surviving customer contact cannot also be merged away';
+  end if;
+
+  for _dup in
+    select * from public.contacts where id = any(_duplicate_ids) and company_id = _company_id
+  loop
+    update public.purchases set contact_id = _survivor_id where contact_id = _dup.id;
+    get diagnostics _purchases = row_count;
+
+    update public.vouchers set contact_id = _survivor_id where contact_id = _dup.id;
+    get diagnostics _vouchers = row_count;
+
+    update public.contacts
+      set email = coalesce(email, _dup.email),
+          phone = coalesce(phone, _dup.phone),
+          address = coalesce(address, _dup.address),
+          assigned_user_id = coalesce(assigned_user_id, _dup.assigned_user_id),
+          updated_at = now()
+      where id = _survivor_id;
+
+    insert into public.contact_merges (company_id, survivor_id, merged_contact_id, merged_contact, purchases_moved, vouchers_moved, merged_by)
+    values (_company_id, _survivor_id, _dup.id, to_jsonb(_dup), _purchases, _vouchers, auth.uid());
+
+    delete from public.contacts where id = _dup.id;
+    _merged := _merged + 1;
+  end loop;
+
+  return _merged;
+end;
+$$;
@@ -0,0 +1,112 @@
+-- Company-scoped labels for customer contacts ("wholesale", "VIP", ...)
+create table public.tags (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  color text not null default 'slate',
+  created_by uuid not null,
+  created_at timestamptz not null default now()
+);
+
+create unique index tags_company_name_key on public.tags (company_id, lower(name));
+
+create table public.contact_tags (
+  contact_id uuid not null references public.contacts(id) on delete cascade,
+  tag_id uuid not null references public.tags(id) on delete cascade,
+  company_id uuid not null references public.companies(id) on delete cascade,
+  created_by uuid not null,
+  created_at timestamptz not null default now(),
+  primary key (contact_id, tag_id)
+);
+
+create index contact_tags_tag_id_idx on public.contact_tags (tag_id);
+
+alter table public.tags enable row level security;
+alter table public.contact_tags enable row level security;
+
+create policy "Users can view tags in their company"
+  on public.tags for select
+  using (company_id = public.get_user_company_id(auth.uid()));
+
+create policy "Users can create tags in their company"
+  on public.tags for insert
+  with check (company_id = public.get_user_company_id(auth.uid()) and created_by = auth.uid());
+
+create policy "Admins can update tags in their company"
+  on public.tags for update
+  using (company_id = public.get_user_company_id(auth.uid()) and public.has_role(auth.uid(), 'admin'));
+
+create policy "Admins can delete tags in their company"
+  on public.tags for delete
+  using (company_id = public.get_user_company_id(auth.uid()) and public.has_role(auth.uid(), 'admin'));
+
+create policy "Users can view contact tags in their company"
+  on public.contact_tags for select
+  using (company_id = public.get_user_company_id(auth.uid()));
+
+create policy "Users can tag contacts in their company"
+  on public.contact_tags for insert
+  with check (company_id = public.get_user_company_id(auth.uid()) and created_by = auth.uid());
+
+create policy "Users can untag contacts in their company"
+  on public.contact_tags for delete
+  using (company_id = public.get_user_company_id(auth.uid()));
+
+-- merging contacts now also carries the duplicate's tags over to the survivor
+create or replace function public.merge_contacts(_survivor_id uuid, _duplicate_ids uuid[])
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _company_id uuid;
+  _dup public.contacts%rowtype;
+  _purchases integer;
+  _vouchers integer;
+  _merged integer := 0;
+begin
+  if not public.has_role(auth.uid(), 'admin') then
+    raise exception 'Only admins can merge customer contacts';
+  end if;
+
+  select company_id into _company_id from public.contacts where id = _survivor_id;
+  if _company_id is null or _company_id <> public.get_user_company_id(auth.uid()) then
+    raise exception 'Customer contact not found';
+  end if;
+
+  if _survivor_id = any(_duplicate_ids) then
+    raise exception 'The surviving customer contact cannot also be merged away';
+  end if;
+
+  for _dup in
+    select * from public.contacts where id = any(_duplicate_ids) and company_id = _company_id
+  loop
+    update public.purchases set contact_id = _survivor_id where contact_id = _dup.id;
+    get diagnostics _purchases = row_count;
+
+    update public.vouchers set contact_id = _survivor_id where contact_id = _dup.id;
+    get diagnostics _vouchers = row_count;
+
+    insert into public.contact_tags (contact_id, tag_id, company_id, created_by)
+      select _survivor_id, tag_id, company_id, created_by from public.contact_tags where contact_id = _dup.id
+      on conflict do nothing;
+
+    update public.contacts
+      set email = coalesce(email, _dup.email),
+          phone = coalesce(phone, _dup.phone),
+          address = coalesce(address, _dup.address),
+          assigned_user_id = coalesce(assigned_user_id, _dup.assigned_user_id),
+          updated_at = now()
+      where id = _survivor_id;
+
+    insert into public.contact_merges (company_id, survivor_id, merged_contact_id, merged_contact, purchases_moved, vouchers_moved, merged_by)
+    values (_company_id, _survivor_id, _dup.id, to_jsonb(_dup), _purchases, _vouchers, auth.uid());
+
+    delete from public.contacts where id = _dup.id;
+    _merged := _merged + 1;
+  end loop;
+
+  return _merged;
+end;
+$$;
@@ -0,0 +1,97 @@
+-- Admin-defined extra fields on customer contacts. Values live in
+-- contacts.custom_fields keyed by custom_field_definitions.key.
+create table public.custom_field_definitions (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  key text not null check (key ~ '^[a-z][a-z0-9_]*$'),
+  label text not null check (length(trim(label)) > 0),
+  field_type text not null check (field_type in ('text', 'number', 'date', 'select', 'boolean')),
+  options text[] not null default '{}',
+  is_required boolean not null default false,
+  position integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (company_id, key)
+);
+
+alter table public.custom_field_definitions enable row level security;
+
+create policy "Users can view custom fields in their company"
+  on public.custom_field_definitions for select
+  using (company_id = public.get_user_company_id(auth.uid()));
+
+create policy "Admins can create custom fields in their company"
+  on public.custom_field_definitions for insert
+  with check (company_id = public.get_user_company_id(auth.uid()) and public.has_role(auth.uid(), 'admin'));
+
+create policy "Admins can update custom fields in their company"
+  on public.custom_field_definitions for update
+  using (company_id = public.get_user_company_id(auth.uid()) and public.has_role(auth.uid(), 'admin'));
+
+create policy "Admins can delete custom fields in their company"
+  on public.custom_field_definitions for delete
+  using (company_id = public.get_user_company_id(auth.uid()) and public.has_role(auth.uid(), 'admin'));
+
+alter table public.contacts add column custom_fields jsonb not null default '{}'::jsonb;
+
+create index contacts_custom_fields_idx on public.contacts using gin (custom_fields);
+
+-- merging keeps the survivor's custom field values and fills gaps from the duplicate
+create or replace function public.merge_contacts(_survivor_id uuid, _duplicate_ids uuid[])
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _company_id uuid;
+  _dup public.contacts%rowtype;
+  _purchases integer;
+  _vouchers integer;
+  _merged integer := 0;
+begin
+  if not public.has_role(auth.uid(), 'admin') then
+    raise exception 'Only admins can merge customer contacts';
+  end if;
+
+  select company_id into _company_id from public.contacts where id = _survivor_id;
+  if _company_id is null or _company_id <> public.get_user_company_id(auth.uid()) then
+    raise exception 'Customer contact not found';
+  end if;
+
+  if _survivor_id = any(_duplicate_ids) then
+    raise exception 'The surviving customer contact cannot also be merged away';
+  end if;
+
+  for _dup in
+    select * from public.contacts where id = any(_duplicate_ids) and company_id = _company_id
+  loop
+    update public.purchases set contact_id = _survivor_id where contact_id = _dup.id;
+    get diagnostics _purchases = row_count;
+
+    update public.vouchers set contact_id = _survivor_id where contact_id = _dup.id;
+    get diagnostics _vouchers = row_count;
+
+    insert into public.contact_tags (contact_id, tag_id, company_id, created_by)
+      select _survivor_id, tag_id, company_id, created_by from public.contact_tags where contact_id = _dup.id
+      on conflict do nothing;
+
+    update public.contacts
+      set email = coalesce(email, _dup.email),
+          phone = coalesce(phone, _dup.phone),
+          address = coalesce(address, _dup.address),
+          assigned_user_id = coalesce(assigned_user_id, _dup.assigned_user_id),
+          custom_fields = _dup.custom_fields || custom_fields,
+          updated_at = now()
+      where id = _survivor_id;
+
+    insert into public.contact_merges (company_id, survivor_id, merged_contact_id, merged_contact, purchases_moved, vouchers_moved, merged_by)
+    values (_company_id, _survivor_id, _dup.id, to_jsonb(_dup), _purchases, _vouchers, auth.uid());
+
+    delete from public.contacts where id = _dup.id;
+    _merged := _merged + 1;
+  end loop;
+
+  return _merged;
+end;
+$$;
@@ -0,0 +1,96 @@
+-- User-authored entries on a customer contact's timeline. Purchases and
+-- vouchers are merged into the timeline client-side from their own tables.
+create table public.contact_activities (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  contact_id uuid not null references public.contacts(id) on delete cascade,
+  activity_type text not null check (activity_type in ('note', 'call', 'meeting', 'email')),
+  body text not null check (length(trim(body)) > 0),
+  occurred_at timestamptz not null default now(),
+  is_pinned boolean not null default false,
+  created_by uuid not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index contact_activities_contact_id_idx on public.contact_activities (contact_id, occurred_at desc);
+
+alter table public.contact_activities enable row level security;
+
+create policy "Users can view activities in their company"
+  on public.contact_activities for select
+  using (company_id = public.get_user_company_id(auth.uid()));
+
+create policy "Users can log activities in their company"
+  on public.contact_activities for insert
+  with check (company_id = public.get_user_company_id(auth.uid()) and created_by = auth.uid());
+
+create policy "Authors and admins can update activities"
+  on public.contact_activities for update
+  using (company_id = public.get_user_company_id(auth.uid()) and (created_by = auth.uid() or public.has_role(auth.uid(), 'admin')));
+
+create policy "Authors and admins can delete activities"
+  on public.contact_activities for delete
+  using (company_id = public.get_user_company_id(auth.uid()) and (created_by = auth.uid() or public.has_role(auth.uid(), 'admin')));
+
+-- merging contacts now also moves the duplicate's timeline entries to the survivor
+create or replace function public.merge_contacts(_survivor_id uuid, _duplicate_ids uuid[])
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _company_id uuid;
+  _dup public.contacts%rowtype;
+  _purchases integer;
+  _vouchers integer;
+  _merged integer := 0;
+begin
+  if not public.has_role(auth.uid(), 'admin') then
+    raise exception 'Only admins can merge customer contacts';
+  end if;
+
+  select company_id into _company_id from public.contacts where id = _survivor_id;
+  if _company_id is null or _company_id <> public.get_user_company_id(auth.uid()) then
+    raise exception 'Customer contact not found';
+  end if;
+
+  if _survivor_id = any(_duplicate_ids) then
+    raise exception 'The surviving customer contact cannot also be merged away';
+  end if;
+
+  for _dup in
+    select * from public.contacts where id = any(_duplicate_ids) and company_id = _company_id
+  loop
+    update public.purchases set contact_id = _survivor_id where contact_id = _dup.id;
+    get diagnostics _purchases = row_count;
+
+    update public.vouchers set contact_id = _survivor_id where contact_id = _dup.id;
+    get diagnostics _vouchers = row_count;
+
+    update public.contact_activities set contact_id = _survivor_id where contact_id = _dup.id;
+
+    insert into public.contact_tags (contact_id, tag_id, company_id, created_by)
+      select _survivor_id, tag_id, company_id, created_by from public.contact_tags where contact_id = _dup.id
+      on conflict do nothing;
+
+    update public.contacts
+      set email = coalesce(email, _dup.email),
+          phone = coalesce(phone, _dup.phone),
+          address = coalesce(address, _dup.address),
+          assigned_user_id = coalesce(assigned_user_id, _dup.assigned_user_id),
+          custom_fields = _dup.custom_fields || custom_fields,
+          updated_at = now()
+      where id = _survivor_id;
+
+    insert into public.contact_merges (company_id, survivor_id, merged_contact_id, merged_contact, purchases_moved, vouchers_moved, merged_by)
+    values (_company_id, _survivor_id, _dup.id, to_jsonb(_dup), _purchases, _vouchers, auth.uid());
+
+    delete from public.contacts where id = _dup.id;
+    _merged := _merged + 1;
+  end loop;
+
+  return _merged;
+end;
+$$;
@@ -0,0 +1,109 @@
+-- Follow-up tasks ("call back Friday") assigned to a company user and
+-- optionally linked to a customer contact.
+create table public.tasks (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  contact_id uuid references public.contacts(id) on delete cascade,
+  title text not null check (length(trim(title)) > 0),
+  notes text,
+  due_date date not null,
+  assigned_to uuid not null references public.profiles(id),
+  status text not null default 'open' check (status in ('open', 'done', 'cancelled')),
+  completed_at timestamptz,
+  created_by uuid not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index tasks_assigned_to_idx on public.tasks (assigned_to, status, due_date);
+create index tasks_contact_id_idx on public.tasks (contact_id);
+
+alter table public.tasks enable row level security;
+
+create policy "Users can view their tasks, admins all company tasks"
+  on public.tasks for select
+  using (
+    company_id = public.get_user_company_id(auth.uid())
+    and (public.has_role(auth.uid(), 'admin') or assigned_to = auth.uid() or created_by = auth.uid())
+  );
+
+create policy "Users can create tasks in their company"
+  on public.tasks for insert
+  with check (company_id = public.get_user_company_id(auth.uid()) and created_by = auth.uid());
+
+create policy "Assignees, creators and admins can update tasks"
+  on public.tasks for update
+  using (
+    company_id = public.get_user_company_id(auth.uid())
+    and (public.has_role(auth.uid(), 'admin') or assigned_to = auth.uid() or created_by = auth.uid())
+  );
+
+create policy "Creators and admins can delete tasks"
+  on public.tasks for delete
+  using (
+    company_id = public.get_user_company_id(auth.uid())
+    and (public.has_role(auth.uid(), 'admin') or created_by = auth.uid())
+  );
+
+-- merging contacts now also moves the duplicate's tasks to the survivor
+create or replace function public.merge_contacts(_survivor_id uuid, _duplicate_ids uuid[])
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _company_id uuid;
+  _dup public.contacts%rowtype;
+  _purchases integer;
+  _vouchers integer;
+  _merged integer := 0;
+begin
+  if not public.has_role(auth.uid(), 'admin') then
+    raise exception 'Only admins can merge customer contacts';
+  end if;
+
+  select company_id into _company_id from public.contacts where id = _survivor_id;
+  if _company_id is null or _company_id <> public.get_user_company_id(auth.uid()) then
+    raise exception 'Customer contact not found';
+  end if;
+
+  if _survivor_id = any(_duplicate_ids) then
+    raise exception 'The surviving customer contact cannot also be merged away';
+  end if;
+
+  for _dup in
+    select * from public.contacts where id = any(_duplicate_ids) and company_id = _company_id
+  loop
+    update public.purchases set contact_id = _survivor_id where contact_id = _dup.id;
+    get diagnostics _purchases = row_count;
+
+    update public.vouchers set contact_id = _survivor_id where contact_id = _dup.id;
+    get diagnostics _vouchers = row_count;
+
+    update public.contact_activities set contact_id = _survivor_id where contact_id = _dup.id;
+    update public.tasks set contact_id = _survivor_id where contact_id = _dup.id;
+
+    insert into public.contact_tags (contact_id, tag_id, company_id, created_by)
+      select _survivor_id, tag_id, company_id, created_by from public.contact_tags where contact_id = _dup.id
+      on conflict do nothing;
+
+    update public.contacts
+      set email = coalesce(email, _dup.email),
+          phone = coalesce(phone, _dup.phone),
+          address = coalesce(address, _dup.address),
+          assigned_user_id = coalesce(assigned_user_id, _dup.assigned_user_id),
+          custom_fields = _dup.custom_fields || custom_fields,
+          updated_at = now()
+      where id = _survivor_id;
+
+    insert into public.contact_merges (company_id, survivor_id, merged_contact_id, merged_contact, purchases_moved, vouchers_moved, merged_by)
+    values (_company_id, _survivor_id, _dup.id, to_jsonb(_dup), _purchases, _vouchers, auth.uid());
+
+    delete from public.contacts where id = _dup.id;
+    _merged := _merged + 1;
+  end loop;
+
+  return _merged;
+end;
+$$;
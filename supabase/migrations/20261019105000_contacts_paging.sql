@@ -0,0 +1,15 @@
+-- ContactsList pages, sorts and filters on the server, so it needs the
+-- assigned user as an embeddable relation and indexes for its sort orders.
+update public.contacts c
+  set assigned_user_id = null
+  where assigned_user_id is not null
+    and not exists (select 1 from public.profiles p where p.id = c.assigned_user_id);
+
+alter table public.contacts
+  add constraint contacts_assigned_user_id_fkey
+  foreign key (assigned_user_id) references public.profiles(id) on delete set null;
+
+create index contacts_company_created_at_idx on public.contacts (company_id, created_at desc);
+create index contacts_company_name_idx on public.contacts (company_id, lower(name));
+create index contacts_assigned_user_id_idx on public.contacts (assigned_user_id);
+create index contacts_created_by_idx on public.contacts (created_by);
@@ -0,0 +1,188 @@
+-- Deleting a customer contact or purchase now moves it to the trash. Admins
+-- can restore or purge trashed rows; anything left longer than the company's
+-- retention period is purged by a nightly job.
+alter table public.contacts
+  add column deleted_at timestamptz,
+  add column deleted_by uuid references public.profiles(id) on delete set null;
+
+alter table public.purchases
+  add column deleted_at timestamptz,
+  add column deleted_by uuid references public.profiles(id) on delete set null;
+
+create index contacts_deleted_at_idx on public.contacts (company_id, deleted_at) where deleted_at is not null;
+create index purchases_deleted_at_idx on public.purchases (company_id, deleted_at) where deleted_at is not null;
+
+alter table public.companies
+  add column trash_retention_days integer not null default 30 check (trash_retention_days between 1 and 3650);
+
+-- _kind is 'contact' or 'purchase'. Trashing a contact trashes its purchases
+-- with the same timestamp so restoring the contact brings exactly those back.
+create or replace function public.trash_records(_kind text, _ids uuid[])
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _company_id uuid := public.get_user_company_id(auth.uid());
+  _is_admin boolean := public.has_role(auth.uid(), 'admin');
+  _now timestamptz := now();
+  _count integer;
+begin
+  if _kind = 'contact' then
+    with trashed as (
+      update public.contacts
+        set deleted_at = _now, deleted_by = auth.uid()
+        where id = any(_ids)
+          and company_id = _company_id
+          and deleted_at is null
+          and (_is_admin or created_by = auth.uid() or assigned_user_id = auth.uid())
+        returning id
+    )
+    update public.purchases
+      set deleted_at = _now, deleted_by = auth.uid()
+      where contact_id in (select id from trashed) and deleted_at is null;
+
+    select count(*) into _count from public.contacts where id = any(_ids) and deleted_at = _now;
+  elsif _kind = 'purchase' then
+    update public.purchases p
+      set deleted_at = _now, deleted_by = auth.uid()
+      where p.id = any(_ids)
+        and p.company_id = _company_id
+        and p.deleted_at is null
+        and (
+          _is_admin
+          or p.created_by = auth.uid()
+          or exists (
+            select 1 from public.contacts c
+            where c.id = p.contact_id and (c.created_by = auth.uid() or c.assigned_user_id = auth.uid())
+          )
+        );
+    get diagnostics _count = row_count;
+  else
+    raise exception 'Unknown record type %', _kind;
+  end if;
+
+  return _count;
+end;
+$$;
+
+create or replace function public.restore_records(_kind text, _ids uuid[])
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _company_id uuid := public.get_user_company_id(auth.uid());
+  _count integer;
+begin
+  if not public.has_role(auth.uid(), 'admin') then
+    raise exception 'Only admins can restore from the trash';
+  end if;
+
+  if _kind = 'contact' then
+    update public.purchases p
+      set deleted_at = null, deleted_by = null
+      from public.contacts c
+      where c.id = any(_ids)
+        and c.company_id = _company_id
+        and p.contact_id = c.id
+        and p.deleted_at = c.deleted_at;
+
+    update public.contacts
+      set deleted_at = null, deleted_by = null
+      where id = any(_ids) and company_id = _company_id and deleted_at is not null;
+    get diagnostics _count = row_count;
+  elsif _kind = 'purchase' then
+    -- a purchase can only come back while its customer contact is live
+    update public.purchases p
+      set deleted_at = null, deleted_by = null
+      where p.id = any(_ids)
+        and p.company_id = _company_id
+        and p.deleted_at is not null
+        and exists (select 1 from public.contacts c where c.id = p.contact_id and c.deleted_at is null);
+    get diagnostics _count = row_count;
+  else
+    raise exception 'Unknown record type %', _kind;
+  end if;
+
+  return _count;
+end;
+$$;
+
+create or replace function public.purge_records(_kind text, _ids uuid[])
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _company_id uuid := public.get_user_company_id(auth.uid());
+  _count integer;
+begin
+  if not public.has_role(auth.uid(), 'admin') then
+    raise exception 'Only admins can purge the trash';
+  end if;
+
+  if _kind = 'contact' then
+    delete from public.contacts where id = any(_ids) and company_id = _company_id and deleted_at is not null;
+  elsif _kind = 'purchase' then
+    delete from public.purchases where id = any(_ids) and company_id = _company_id and deleted_at is not null;
+  else
+    raise exception 'Unknown record type %', _kind;
+  end if;
+  get diagnostics _count = row_count;
+
+  return _count;
+end;
+$$;
+
+create or replace function public.set_trash_retention(_days integer)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_role(auth.uid(), 'admin') then
+    raise exception 'Only admins can change the trash retention period';
+  end if;
+
+  update public.companies
+    set trash_retention_days = _days, updated_at = now()
+    where id = public.get_user_company_id(auth.uid());
+end;
+$$;
+
+create or replace function public.purge_expired_trash()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _purchases integer;
+  _contacts integer;
+begin
+  delete from public.purchases p
+    using public.companies co
+    where co.id = p.company_id
+      and p.deleted_at < now() - make_interval(days => co.trash_retention_days);
+  get diagnostics _purchases = row_count;
+
+  delete from public.contacts c
+    using public.companies co
+    where co.id = c.company_id
+      and c.deleted_at < now() - make_interval(days => co.trash_retention_days);
+  get diagnostics _contacts = row_count;
+
+  return _purchases + _contacts;
+end;
+$$;
+
+revoke execute on function public.purge_expired_trash() from public, anon, authenticated;
+
+create extension if not exists pg_cron;
+
+select cron.schedule('purge-expired-trash', '30 2 * * *', 'select public.purge_expired_trash()');
@@ -0,0 +1,101 @@
+-- Append-only history of every change to contacts, purchases, vouchers and
+-- voucher rules. Rows are written by triggers only; there are no insert,
+-- update or delete policies, so clients can read the log but never edit it.
+create table public.audit_log (
+  id bigint generated always as identity primary key,
+  company_id uuid not null references public.companies(id) on delete cascade,
+  table_name text not null,
+  record_id uuid not null,
+  -- the customer contact the row belongs to, so a profile can show the
+  -- history of its purchases and vouchers too; kept after the contact is gone
+  contact_id uuid,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  old_data jsonb,
+  new_data jsonb,
+  changed_fields text[],
+  changed_by uuid references public.profiles(id) on delete set null,
+  changed_at timestamptz not null default now()
+);
+
+create index audit_log_company_changed_at_idx on public.audit_log (company_id, changed_at desc);
+create index audit_log_record_idx on public.audit_log (table_name, record_id, changed_at desc);
+create index audit_log_contact_idx on public.audit_log (contact_id, changed_at desc);
+
+alter table public.audit_log enable row level security;
+
+create policy "Admins can view the company audit log"
+  on public.audit_log for select
+  using (company_id = public.get_user_company_id(auth.uid()) and public.has_role(auth.uid(), 'admin'));
+
+create policy "Users can view history of their customer contacts"
+  on public.audit_log for select
+  using (
+    company_id = public.get_user_company_id(auth.uid())
+    and exists (
+      select 1 from public.contacts c
+      where c.id = audit_log.contact_id and (c.created_by = auth.uid() or c.assigned_user_id = auth.uid())
+    )
+  );
+
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _old jsonb;
+  _new jsonb;
+  _row jsonb;
+  _changed text[];
+begin
+  if tg_op <> 'INSERT' then
+    _old := to_jsonb(old);
+  end if;
+  if tg_op <> 'DELETE' then
+    _new := to_jsonb(new);
+  end if;
+  _row := coalesce(_new, _old);
+
+  if tg_op = 'UPDATE' then
+    select array_agg(n.key order by n.key) into _changed
+      from jsonb_each(_new) n
+      where n.key <> 'updated_at' and n.value is distinct from _old -> n.key;
+    -- touching only updated_at is not worth a history entry
+    if _changed is null then
+      return new;
+    end if;
+  end if;
+
+  insert into public.audit_log (company_id, table_name, record_id, contact_id, action, old_data, new_data, changed_fields, changed_by)
+  values (
+    (_row ->> 'company_id')::uuid,
+    tg_table_name,
+    (_row ->> 'id')::uuid,
+    case when tg_table_name = 'contacts' then (_row ->> 'id')::uuid else (_row ->> 'contact_id')::uuid end,
+    lower(tg_op),
+    _old,
+    _new,
+    _changed,
+    auth.uid()
+  );
+
+  return coalesce(new, old);
+end;
+$$;
+
+create trigger contacts_audit
+  after insert or update or delete on public.contacts
+  for each row execute function public.audit_row_change();
+
+create trigger purchases_audit
+  after insert or update or delete on public.purchases
+  for each row execute function public.audit_row_change();
+
+create trigger vouchers_audit
+  after insert or update or delete on public.vouchers
+  for each row execute function public.audit_row_change();
+
+create trigger voucher_rules_audit
+  after insert or update or delete on public.voucher_rules
+  for each row execute function public.audit_row_change();
@@ -0,0 +1,172 @@
+-- Replace the free-text contacts.address with structured fields so customer
+-- contacts can be filtered and reported on by city and state.
+alter table public.contacts
+  add column address_line1 text,
+  add column address_line2 text,
+  add column city text,
+  add column state text,
+  add column pincode text,
+  add column country text default 'India',
+  add constraint contacts_pincode_format check (
+    pincode is null or country is distinct from 'India' or pincode ~ '^[1-9][0-9]{5}$'
+  );
+
+create index contacts_company_state_idx on public.contacts (company_id, state);
+create index contacts_company_city_idx on public.contacts (company_id, lower(city));
+
+-- Best-effort split of an old address such as
+-- "12 MG Road, Indiranagar, Bengaluru, Karnataka 560038": the PIN code is any
+-- six-digit number, a trailing part naming a state becomes the state, the part
+-- before it the city, the first part line 1 and anything in between line 2.
+-- Addresses without commas are kept whole in line 1.
+create function pg_temp.parse_address(
+  _address text,
+  out line1 text,
+  out line2 text,
+  out city text,
+  out state text,
+  out pincode text
+)
+language plpgsql
+as $$
+declare
+  _pin text;
+  _parts text[];
+  _last text;
+  _n integer;
+begin
+  _pin := substring(_address from '(?:^|[^0-9])([1-9][0-9]{2} ?[0-9]{3})(?:[^0-9]|$)');
+  if _pin is not null then
+    pincode := replace(_pin, ' ', '');
+    _address := replace(_address, _pin, '');
+  end if;
+
+  _parts := array(
+    select btrim(p, ' -.')
+    from unnest(regexp_split_to_array(_address, '\s*[,;\n]\s*')) with ordinality as t(p, i)
+    where btrim(p, ' -.') <> '' and lower(btrim(p, ' -.')) <> 'india'
+    order by i
+  );
+  _n := coalesce(array_length(_parts, 1), 0);
+
+  if _n > 1 then
+    _last := lower(_parts[_n]);
+    select s.name into state
+    from (values
+      ('andhra pradesh', 'Andhra Pradesh'), ('arunachal pradesh', 'Arunachal Pradesh'), ('assam', 'Assam'),
+      ('bihar', 'Bihar'), ('chhattisgarh', 'Chhattisgarh'), ('goa', 'Goa'), ('gujarat', 'Gujarat'),
+      ('haryana', 'Haryana'), ('himachal pradesh', 'Himachal Pradesh'), ('jharkhand', 'Jharkhand'),
+      ('karnataka', 'Karnataka'), ('kerala', 'Kerala'), ('madhya pradesh', 'Madhya Pradesh'),
+      ('maharashtra', 'Maharashtra'), ('manipur', 'Manipur'), ('meghalaya', 'Meghalaya'), ('mizoram', 'Mizoram'),
+      ('nagaland', 'Nagaland'), ('odisha', 'Odisha'), ('orissa', 'Odisha'), ('punjab', 'Punjab'),
+      ('rajasthan', 'Rajasthan'), ('sikkim', 'Sikkim'), ('tamil nadu', 'Tamil Nadu'), ('tamilnadu', 'Tamil Nadu'),
+      ('telangana', 'Telangana'), ('tripura', 'Tripura'), ('uttar pradesh', 'Uttar Pradesh'),
+      ('uttarakhand', 'Uttarakhand'), ('uttaranchal', 'Uttarakhand'), ('west bengal', 'West Bengal'),
+      ('andaman and nicobar islands', 'Andaman and Nicobar Islands'), ('chandigarh', 'Chandigarh'),
+      ('dadra and nagar haveli and daman and diu', 'Dadra and Nagar Haveli and Daman and Diu'),
+      ('delhi', 'Delhi'), ('nct of delhi', 'Delhi'), ('jammu and kashmir', 'Jammu and Kashmir'),
+      ('jammu & kashmir', 'Jammu and Kashmir'), ('ladakh', 'Ladakh'), ('lakshadweep', 'Lakshadweep'),
+      ('puducherry', 'Puducherry'), ('pondicherry', 'Puducherry')
+    ) as s(alias, name)
+    where s.alias = _last;
+
+    if state is not null then
+      _n := _n - 1;
+    end if;
+  end if;
+
+  if _n > 1 then
+    city := _parts[_n];
+    _n := _n - 1;
+  end if;
+
+  if _n >= 1 then
+    line1 := _parts[1];
+    line2 := nullif(array_to_string(_parts[2:_n], ', '), '');
+  end if;
+end;
+$$;
+
+update public.contacts c
+  set address_line1 = p.line1,
+      address_line2 = p.line2,
+      city = p.city,
+      state = p.state,
+      pincode = p.pincode
+  from (select id, (pg_temp.parse_address(address)).* from public.contacts where nullif(btrim(address), '') is not null) p
+  where p.id = c.id;
+
+alter table public.contacts drop column address;
+
+-- merge_contacts copied the old address onto the survivor; fill in the
+-- structured address instead, as a whole, so parts of two addresses never mix.
+create or replace function public.merge_contacts(_survivor_id uuid, _duplicate_ids uuid[])
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _company_id uuid;
+  _dup public.contacts%rowtype;
+  _purchases integer;
+  _vouchers integer;
+  _merged integer := 0;
+begin
+  if not public.has_role(auth.uid(), 'admin') then
+    raise exception 'Only admins can merge customer contacts';
+  end if;
+
+  select company_id into _company_id from public.contacts where id = _survivor_id;
+  if _company_id is null or _company_id <> public.get_user_company_id(auth.uid()) then
+    raise exception 'Customer contact not found';
+  end if;
+
+  if _survivor_id = any(_duplicate_ids) then
+    raise exception 'The surviving customer contact cannot also be merged away';
+  end if;
+
+  for _dup in
+    select * from public.contacts where id = any(_duplicate_ids) and company_id = _company_id
+  loop
+    update public.purchases set contact_id = _survivor_id where contact_id = _dup.id;
+    get diagnostics _purchases = row_count;
+
+    update public.vouchers set contact_id = _survivor_id where contact_id = _dup.id;
+    get diagnostics _vouchers = row_count;
+
+    update public.contact_activities set contact_id = _survivor_id where contact_id = _dup.id;
+    update public.tasks set contact_id = _survivor_id where contact_id = _dup.id;
+
+    insert into public.contact_tags (contact_id, tag_id, company_id, created_by)
+      select _survivor_id, tag_id, company_id, created_by from public.contact_tags where contact_id = _dup.id
+      on conflict do nothing;
+
+    update public.contacts
+      set email = coalesce(email, _dup.email),
+          phone = coalesce(phone, _dup.phone),
+          assigned_user_id = coalesce(assigned_user_id, _dup.assigned_user_id),
+          custom_fields = _dup.custom_fields || custom_fields,
+          updated_at = now()
+      where id = _survivor_id;
+
+    update public.contacts
+      set address_line1 = _dup.address_line1,
+          address_line2 = _dup.address_line2,
+          city = _dup.city,
+          state = _dup.state,
+          pincode = _dup.pincode,
+          country = _dup.country
+      where id = _survivor_id
+        and address_line1 is null and city is null and state is null and pincode is null;
+
+    insert into public.contact_merges (company_id, survivor_id, merged_contact_id, merged_contact, purchases_moved, vouchers_moved, merged_by)
+    values (_company_id, _survivor_id, _dup.id, to_jsonb(_dup), _purchases, _vouchers, auth.uid());
+
+    delete from public.contacts where id = _dup.id;
+    _merged := _merged + 1;
+  end loop;
+
+  return _merged;
+end;
+$$;
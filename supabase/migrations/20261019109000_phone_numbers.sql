@@ -0,0 +1,44 @@
+-- Phones are stored in E.164 ("+919845012345") so the same number always
+-- matches however it was typed. Numbers typed without a country code are read
+-- in the company's default country.
+alter table public.companies
+  add column default_country text not null default 'IN'
+  check (default_country ~ '^[A-Z]{2}$');
+
+create or replace function public.set_default_country(_country text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_role(auth.uid(), 'admin') then
+    raise exception 'Only admins can change the default country';
+  end if;
+
+  update public.companies
+    set default_country = upper(_country), updated_at = now()
+    where id = public.get_user_company_id(auth.uid());
+end;
+$$;
+
+-- Existing companies are Indian, so normalise the phone shapes seen in Indian
+-- data: ten-digit mobiles with or without a leading 0, 91 or 0091, and numbers
+-- already written with a "+". Anything else (landlines with STD codes, short
+-- or garbled values) is left as typed and normalised the next time it is edited.
+update public.contacts c
+  set phone = n.e164
+  from (
+    select id,
+      case
+        when btrim(phone) like '+%' and length(d) between 8 and 15 then '+' || d
+        when d ~ '^[6-9][0-9]{9}$' then '+91' || d
+        when d ~ '^0[6-9][0-9]{9}$' then '+91' || substr(d, 2)
+        when d ~ '^91[6-9][0-9]{9}$' then '+' || d
+        when d ~ '^0091[6-9][0-9]{9}$' then '+' || substr(d, 3)
+      end as e164
+    from (select id, phone, regexp_replace(phone, '[^0-9]', '', 'g') as d from public.contacts where phone is not null) p
+  ) n
+  where n.id = c.id and n.e164 is not null and n.e164 <> c.phone;
+
+create index contacts_company_phone_idx on public.contacts (company_id, phone);
@@ -0,0 +1,131 @@
+-- Marketing consent per customer contact and channel. Every change is a new
+-- row, so the table doubles as the consent history; rows are never edited or
+-- deleted, which keeps the proof of opt-in intact. The current state of a
+-- channel is its most recent row.
+create table public.contact_consents (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  contact_id uuid not null references public.contacts(id) on delete cascade,
+  channel text not null check (channel in ('email', 'sms', 'whatsapp')),
+  status text not null check (status in ('granted', 'withdrawn')),
+  source text not null check (source in ('in_store', 'web_form', 'phone_call', 'signed_form', 'message_reply', 'import', 'other')),
+  note text,
+  captured_at timestamptz not null default now(),
+  captured_by uuid not null references public.profiles(id),
+  created_at timestamptz not null default now()
+);
+
+create index contact_consents_contact_idx on public.contact_consents (contact_id, channel, captured_at desc);
+
+alter table public.contact_consents enable row level security;
+
+create policy "Users can view consent of their customer contacts"
+  on public.contact_consents for select
+  using (
+    company_id = public.get_user_company_id(auth.uid())
+    and (
+      public.has_role(auth.uid(), 'admin')
+      or exists (
+        select 1 from public.contacts c
+        where c.id = contact_consents.contact_id and (c.created_by = auth.uid() or c.assigned_user_id = auth.uid())
+      )
+    )
+  );
+
+create policy "Users can record consent for their customer contacts"
+  on public.contact_consents for insert
+  with check (
+    company_id = public.get_user_company_id(auth.uid())
+    and captured_by = auth.uid()
+    and (
+      public.has_role(auth.uid(), 'admin')
+      or exists (
+        select 1 from public.contacts c
+        where c.id = contact_consents.contact_id and (c.created_by = auth.uid() or c.assigned_user_id = auth.uid())
+      )
+    )
+  );
+
+-- the latest record per contact and channel; security_invoker keeps the
+-- table's policies in force for whoever queries the view
+create view public.contact_consent_status
+with (security_invoker = true)
+as
+select distinct on (contact_id, channel)
+  contact_id, company_id, channel, status, source, captured_at, captured_by
+from public.contact_consents
+order by contact_id, channel, captured_at desc, created_at desc;
+
+-- merging contacts now also moves the duplicate's consent history to the
+-- survivor; the newest record per channel still wins
+create or replace function public.merge_contacts(_survivor_id uuid, _duplicate_ids uuid[])
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _company_id uuid;
+  _dup public.contacts%rowtype;
+  _purchases integer;
+  _vouchers integer;
+  _merged integer := 0;
+begin
+  if not public.has_role(auth.uid(), 'admin') then
+    raise exception 'Only admins can merge customer contacts';
+  end if;
+
+  select company_id into _company_id from public.contacts where id = _survivor_id;
+  if _company_id is null or _company_id <> public.get_user_company_id(auth.uid()) then
+    raise exception 'Customer contact not found';
+  end if;
+
+  if _survivor_id = any(_duplicate_ids) then
+    raise exception 'The surviving customer contact cannot also be merged away';
+  end if;
+
+  for _dup in
+    select * from public.contacts where id = any(_duplicate_ids) and company_id = _company_id
+  loop
+    update public.purchases set contact_id = _survivor_id where contact_id = _dup.id;
+    get diagnostics _purchases = row_count;
+
+    update public.vouchers set contact_id = _survivor_id where contact_id = _dup.id;
+    get diagnostics _vouchers = row_count;
+
+    update public.contact_activities set contact_id = _survivor_id where contact_id = _dup.id;
+    update public.tasks set contact_id = _survivor_id where contact_id = _dup.id;
+    update public.contact_consents set contact_id = _survivor_id where contact_id = _dup.id;
+
+    insert into public.contact_tags (contact_id, tag_id, company_id, created_by)
+      select _survivor_id, tag_id, company_id, created_by from public.contact_tags where contact_id = _dup.id
+      on conflict do nothing;
+
+    update public.contacts
+      set email = coalesce(email, _dup.email),
+          phone = coalesce(phone, _dup.phone),
+          assigned_user_id = coalesce(assigned_user_id, _dup.assigned_user_id),
+          custom_fields = _dup.custom_fields || custom_fields,
+          updated_at = now()
+      where id = _survivor_id;
+
+    update public.contacts
+      set address_line1 = _dup.address_line1,
+          address_line2 = _dup.address_line2,
+          city = _dup.city,
+          state = _dup.state,
+          pincode = _dup.pincode,
+          country = _dup.country
+      where id = _survivor_id
+        and address_line1 is null and city is null and state is null and pincode is null;
+
+    insert into public.contact_merges (company_id, survivor_id, merged_contact_id, merged_contact, purchases_moved, vouchers_moved, merged_by)
+    values (_company_id, _survivor_id, _dup.id, to_jsonb(_dup), _purchases, _vouchers, auth.uid());
+
+    delete from public.contacts where id = _dup.id;
+    _merged := _merged + 1;
+  end loop;
+
+  return _merged;
+end;
+$$;
@@ -0,0 +1,69 @@
+-- Saved ContactsList filters. A view is private to its author unless shared
+-- with the company; only the author (or an admin, for shared views) can change it.
+create table public.contact_views (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  filter jsonb not null default '{}'::jsonb,
+  is_shared boolean not null default false,
+  created_by uuid not null references public.profiles(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index contact_views_author_name_key on public.contact_views (company_id, created_by, lower(name));
+
+alter table public.contact_views enable row level security;
+
+create policy "Users can view their own and shared contact views"
+  on public.contact_views for select
+  using (company_id = public.get_user_company_id(auth.uid()) and (is_shared or created_by = auth.uid()));
+
+create policy "Users can save contact views"
+  on public.contact_views for insert
+  with check (company_id = public.get_user_company_id(auth.uid()) and created_by = auth.uid());
+
+create policy "Authors can update their contact views"
+  on public.contact_views for update
+  using (company_id = public.get_user_company_id(auth.uid()) and created_by = auth.uid());
+
+create policy "Authors and admins can delete contact views"
+  on public.contact_views for delete
+  using (
+    company_id = public.get_user_company_id(auth.uid())
+    and (created_by = auth.uid() or (is_shared and public.has_role(auth.uid(), 'admin')))
+  );
+
+-- Computed fields: PostgREST exposes a function taking a contacts row as a
+-- virtual column, so the filter builder can select and filter on these like
+-- ordinary columns (e.g. total_spend=gte.5000). They run with the caller's
+-- rights, so purchases and vouchers hidden by RLS are not counted.
+create or replace function public.total_spend(public.contacts)
+returns numeric
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(sum(amount), 0) from public.purchases where contact_id = $1.id and deleted_at is null;
+$$;
+
+create or replace function public.last_purchase_date(public.contacts)
+returns date
+language sql
+stable
+set search_path = public
+as $$
+  select max(purchase_date)::date from public.purchases where contact_id = $1.id and deleted_at is null;
+$$;
+
+create or replace function public.voucher_statuses(public.contacts)
+returns text[]
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(array_agg(distinct status), '{}') from public.vouchers where contact_id = $1.id;
+$$;
+
+create index if not exists purchases_contact_id_idx on public.purchases (contact_id);
+create index if not exists vouchers_contact_id_idx on public.vouchers (contact_id);
@@ -0,0 +1,119 @@
+-- Automatic assignment of new customer contacts. Active rules are tried in
+-- position order; the first whose city / state / tag conditions match the new
+-- contact (a rule with none matches everything) hands it to one of its users,
+-- either in turn (round robin) or to whoever has the fewest open contacts.
+create table public.assignment_rules (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  strategy text not null default 'round_robin' check (strategy in ('round_robin', 'least_loaded')),
+  user_ids uuid[] not null default '{}',
+  match_city text,
+  match_state text,
+  match_tag_id uuid references public.tags(id) on delete cascade,
+  position integer not null default 0,
+  is_active boolean not null default true,
+  -- round robin continues after this user
+  last_assigned_user_id uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index assignment_rules_company_position_idx on public.assignment_rules (company_id, position);
+
+alter table public.assignment_rules enable row level security;
+
+create policy "Users can view assignment rules in their company"
+  on public.assignment_rules for select
+  using (company_id = public.get_user_company_id(auth.uid()));
+
+create policy "Admins can create assignment rules"
+  on public.assignment_rules for insert
+  with check (company_id = public.get_user_company_id(auth.uid()) and public.has_role(auth.uid(), 'admin'));
+
+create policy "Admins can update assignment rules"
+  on public.assignment_rules for update
+  using (company_id = public.get_user_company_id(auth.uid()) and public.has_role(auth.uid(), 'admin'));
+
+create policy "Admins can delete assignment rules"
+  on public.assignment_rules for delete
+  using (company_id = public.get_user_company_id(auth.uid()) and public.has_role(auth.uid(), 'admin'));
+
+-- Picks an assignee for each contact about to be created, in order. Each
+-- element of _contacts is {"city": ..., "state": ..., "tag_ids": [...]}. A row
+-- with a null assignee_id means no rule matched, and the caller keeps its own
+-- default. With _dry_run the round-robin position is not saved, which is how
+-- the admin page previews rules.
+create or replace function public.next_assignees(_contacts jsonb, _dry_run boolean default false)
+returns table (matched_rule_id uuid, assignee_id uuid)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _company_id uuid := public.get_user_company_id(auth.uid());
+  _contact jsonb;
+  _rule public.assignment_rules%rowtype;
+  _pool uuid[];
+  _last uuid;
+  -- picks made earlier in this call, so a batch spreads out like single inserts would
+  _pointers jsonb := '{}'::jsonb;
+  _extra jsonb := '{}'::jsonb;
+begin
+  if _company_id is null then
+    raise exception 'Not a member of a company';
+  end if;
+
+  for _contact in select value from jsonb_array_elements(coalesce(_contacts, '[]'::jsonb))
+  loop
+    matched_rule_id := null;
+    assignee_id := null;
+
+    select * into _rule
+      from public.assignment_rules r
+      where r.company_id = _company_id
+        and r.is_active
+        and (r.match_city is null or lower(trim(r.match_city)) = lower(trim(coalesce(_contact->>'city', ''))))
+        and (r.match_state is null or r.match_state = _contact->>'state')
+        and (r.match_tag_id is null or coalesce(_contact->'tag_ids', '[]'::jsonb) ? r.match_tag_id::text)
+      order by r.position, r.created_at
+      limit 1
+      for update;
+
+    if found then
+      matched_rule_id := _rule.id;
+
+      -- users who left the company stay in the rule but no longer receive contacts
+      select array_agg(t.u order by t.ord) into _pool
+        from unnest(_rule.user_ids) with ordinality as t(u, ord)
+        where exists (select 1 from public.profiles p where p.id = t.u and p.company_id = _company_id);
+
+      if _pool is not null then
+        if _rule.strategy = 'least_loaded' then
+          select t.u into assignee_id
+            from unnest(_pool) with ordinality as t(u, ord)
+            order by (
+              select count(*) from public.contacts c
+              where c.assigned_user_id = t.u and c.company_id = _company_id and c.deleted_at is null and c.erased_at is null
+            ) + coalesce((_extra->>t.u::text)::integer, 0), t.ord
+            limit 1;
+          _extra := _extra || jsonb_build_object(assignee_id::text, coalesce((_extra->>assignee_id::text)::integer, 0) + 1);
+        else
+          _last := coalesce((_pointers->>_rule.id::text)::uuid, _rule.last_assigned_user_id);
+          -- the first user after the last one picked, wrapping around to the start
+          select t.u into assignee_id
+            from unnest(_pool) with ordinality as t(u, ord)
+            order by t.ord <= coalesce(array_position(_pool, _last), 0), t.ord
+            limit 1;
+          _pointers := _pointers || jsonb_build_object(_rule.id::text, assignee_id);
+          if not _dry_run then
+            update public.assignment_rules set last_assigned_user_id = assignee_id where id = _rule.id;
+          end if;
+        end if;
+      end if;
+    end if;
+
+    return next;
+  end loop;
+end;
+$$;
@@ -0,0 +1,141 @@
+-- Offboarding: when someone leaves, an admin hands their customer contacts,
+-- open tasks and unredeemed vouchers to other users in one step, and can
+-- deactivate the profile so it no longer reaches any company data.
+alter table public.profiles
+  add column deactivated_at timestamptz,
+  add column deactivated_by uuid references public.profiles(id) on delete set null;
+
+-- a deactivated user belongs to no company, which every company policy checks
+create or replace function public.get_user_company_id(_user_id uuid)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select company_id from public.profiles where id = _user_id and deactivated_at is null
+$$;
+
+-- transfers are written into the contact's timeline by the system
+alter table public.contact_activities drop constraint contact_activities_activity_type_check;
+alter table public.contact_activities
+  add constraint contact_activities_activity_type_check check (activity_type in ('note', 'call', 'meeting', 'email', 'transfer'));
+
+-- Moves everything _user_id owns to _to_user_ids: one user takes it all, or
+-- several share it in turn. A contact counts as theirs when it is assigned to
+-- them, or unassigned and created by them. Open tasks and active vouchers go
+-- to whoever now has their contact. Returns how many of each were moved.
+create or replace function public.offboard_user(_user_id uuid, _to_user_ids uuid[], _deactivate boolean default true)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _company_id uuid := public.get_user_company_id(auth.uid());
+  _from_name text;
+  _count integer := coalesce(array_length(_to_user_ids, 1), 0);
+  _i integer := 0;
+  _to uuid;
+  _contact record;
+  _owners jsonb := '{}'::jsonb;
+  _contacts integer := 0;
+  _tasks integer := 0;
+  _vouchers integer := 0;
+begin
+  if not public.has_role(auth.uid(), 'admin') then
+    raise exception 'Only admins can offboard users';
+  end if;
+
+  select coalesce(full_name, email) into _from_name from public.profiles where id = _user_id and company_id = _company_id;
+  if _from_name is null then
+    raise exception 'User not found';
+  end if;
+  if _user_id = auth.uid() then
+    raise exception 'You cannot offboard yourself';
+  end if;
+  if _count = 0 then
+    raise exception 'Choose at least one user to receive the transfer';
+  end if;
+  if _user_id = any(_to_user_ids) or exists (
+    select 1 from unnest(_to_user_ids) as t(u)
+    where not exists (select 1 from public.profiles p where p.id = t.u and p.company_id = _company_id and p.deactivated_at is null)
+  ) then
+    raise exception 'Transfers can only go to other active users in the company';
+  end if;
+
+  for _contact in
+    select c.id from public.contacts c
+    where c.company_id = _company_id
+      and (c.assigned_user_id = _user_id or (c.assigned_user_id is null and c.created_by = _user_id))
+    order by c.name, c.id
+  loop
+    _to := _to_user_ids[1 + _i % _count];
+    _i := _i + 1;
+    _owners := _owners || jsonb_build_object(_contact.id::text, _to);
+
+    update public.contacts set assigned_user_id = _to, updated_at = now() where id = _contact.id;
+
+    insert into public.contact_activities (company_id, contact_id, activity_type, body, created_by)
+    select _company_id, _contact.id, 'transfer',
+      format('Reassigned from %s to %s when %s left the company', _from_name, coalesce(p.full_name, p.email), _from_name),
+      auth.uid()
+    from public.profiles p where p.id = _to;
+
+    _contacts := _contacts + 1;
+  end loop;
+
+  -- work on a transferred contact follows it; anything else is shared out in turn
+  update public.tasks t
+    set assigned_to = coalesce((_owners->>t.contact_id::text)::uuid, _to_user_ids[1 + (n.rn - 1) % _count]),
+        updated_at = now()
+    from (
+      select id, row_number() over (order by due_date, id) as rn
+      from public.tasks
+      where company_id = _company_id and assigned_to = _user_id and status = 'open'
+    ) n
+    where t.id = n.id;
+  get diagnostics _tasks = row_count;
+
+  update public.vouchers v
+    set issued_by = coalesce(c.assigned_user_id, _to_user_ids[1])
+    from public.contacts c
+    where c.id = v.contact_id
+      and v.company_id = _company_id
+      and v.issued_by = _user_id
+      and v.status = 'active';
+  get diagnostics _vouchers = row_count;
+
+  update public.assignment_rules
+    set user_ids = array_remove(user_ids, _user_id),
+        last_assigned_user_id = nullif(last_assigned_user_id, _user_id),
+        updated_at = now()
+    where company_id = _company_id and _user_id = any(user_ids);
+
+  if _deactivate then
+    update public.profiles set deactivated_at = now(), deactivated_by = auth.uid() where id = _user_id;
+  end if;
+
+  return jsonb_build_object('contacts', _contacts, 'tasks', _tasks, 'vouchers', _vouchers);
+end;
+$$;
+
+create or replace function public.reactivate_user(_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_role(auth.uid(), 'admin') then
+    raise exception 'Only admins can reactivate users';
+  end if;
+
+  update public.profiles
+    set deactivated_at = null, deactivated_by = null
+    where id = _user_id and company_id = public.get_user_company_id(auth.uid());
+  if not found then
+    raise exception 'User not found';
+  end if;
+end;
+$$;
@@ -0,0 +1,248 @@
+-- Accounts group customer contacts who buy together: a business with several
+-- buyers, or a household. An account has its own assignee; a contact belongs
+-- to at most one account.
+create table public.accounts (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  kind text not null default 'business' check (kind in ('business', 'household')),
+  notes text,
+  assigned_user_id uuid references public.profiles(id) on delete set null,
+  created_by uuid not null references public.profiles(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index accounts_company_name_idx on public.accounts (company_id, lower(name));
+
+alter table public.contacts
+  add column account_id uuid references public.accounts(id) on delete set null;
+
+create index contacts_account_id_idx on public.contacts (account_id) where account_id is not null;
+
+alter table public.accounts enable row level security;
+
+create policy "Users can view accounts in their company"
+  on public.accounts for select
+  using (company_id = public.get_user_company_id(auth.uid()));
+
+create policy "Users can create accounts in their company"
+  on public.accounts for insert
+  with check (company_id = public.get_user_company_id(auth.uid()) and created_by = auth.uid());
+
+create policy "Owners and admins can update accounts"
+  on public.accounts for update
+  using (
+    company_id = public.get_user_company_id(auth.uid())
+    and (public.has_role(auth.uid(), 'admin') or created_by = auth.uid() or assigned_user_id = auth.uid())
+  );
+
+create policy "Admins can delete accounts"
+  on public.accounts for delete
+  using (company_id = public.get_user_company_id(auth.uid()) and public.has_role(auth.uid(), 'admin'));
+
+-- PostgREST computed fields for the accounts list
+create or replace function public.member_count(public.accounts)
+returns integer
+language sql
+stable
+as $$
+  select count(*)::integer from public.contacts where account_id = $1.id and deleted_at is null;
+$$;
+
+create or replace function public.account_revenue(public.accounts)
+returns numeric
+language sql
+stable
+as $$
+  select coalesce(sum(p.amount), 0)
+  from public.purchases p
+  join public.contacts c on c.id = p.contact_id
+  where c.account_id = $1.id and c.deleted_at is null and p.deleted_at is null;
+$$;
+
+-- a merged-away contact's account carries over when the survivor has none
+create or replace function public.merge_contacts(_survivor_id uuid, _duplicate_ids uuid[])
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _company_id uuid;
+  _dup public.contacts%rowtype;
+  _purchases integer;
+  _vouchers integer;
+  _merged integer := 0;
+begin
+  if not public.has_role(auth.uid(), 'admin') then
+    raise exception 'Only admins can merge customer contacts';
+  end if;
+
+  select company_id into _company_id from public.contacts where id = _survivor_id;
+  if _company_id is null or _company_id <> public.get_user_company_id(auth.uid()) then
+    raise exception 'Customer contact not found';
+  end if;
+
+  if _survivor_id = any(_duplicate_ids) then
+    raise exception 'The surviving customer contact cannot also be merged away';
+  end if;
+
+  for _dup in
+    select * from public.contacts where id = any(_duplicate_ids) and company_id = _company_id
+  loop
+    update public.purchases set contact_id = _survivor_id where contact_id = _dup.id;
+    get diagnostics _purchases = row_count;
+
+    update public.vouchers set contact_id = _survivor_id where contact_id = _dup.id;
+    get diagnostics _vouchers = row_count;
+
+    update public.contact_activities set contact_id = _survivor_id where contact_id = _dup.id;
+    update public.tasks set contact_id = _survivor_id where contact_id = _dup.id;
+    update public.contact_consents set contact_id = _survivor_id where contact_id = _dup.id;
+
+    insert into public.contact_tags (contact_id, tag_id, company_id, created_by)
+      select _survivor_id, tag_id, company_id, created_by from public.contact_tags where contact_id = _dup.id
+      on conflict do nothing;
+
+    update public.contacts
+      set email = coalesce(email, _dup.email),
+          phone = coalesce(phone, _dup.phone),
+          assigned_user_id = coalesce(assigned_user_id, _dup.assigned_user_id),
+          account_id = coalesce(account_id, _dup.account_id),
+          custom_fields = _dup.custom_fields || custom_fields,
+          updated_at = now()
+      where id = _survivor_id;
+
+    update public.contacts
+      set address_line1 = _dup.address_line1,
+          address_line2 = _dup.address_line2,
+          city = _dup.city,
+          state = _dup.state,
+          pincode = _dup.pincode,
+          country = _dup.country
+      where id = _survivor_id
+        and address_line1 is null and city is null and state is null and pincode is null;
+
+    insert into public.contact_merges (company_id, survivor_id, merged_contact_id, merged_contact, purchases_moved, vouchers_moved, merged_by)
+    values (_company_id, _survivor_id, _dup.id, to_jsonb(_dup), _purchases, _vouchers, auth.uid());
+
+    delete from public.contacts where id = _dup.id;
+    _merged := _merged + 1;
+  end loop;
+
+  return _merged;
+end;
+$$;
+
+-- Moves everything _user_id owns to _to_user_ids: one user takes it all, or
+-- several share it in turn. A contact counts as theirs when it is assigned to
+-- them, or unassigned and created by them. Open tasks and active vouchers go
+-- to whoever now has their contact, and accounts assigned to them are shared
+-- out like contacts. Returns how many of each were moved.
+create or replace function public.offboard_user(_user_id uuid, _to_user_ids uuid[], _deactivate boolean default true)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _company_id uuid := public.get_user_company_id(auth.uid());
+  _from_name text;
+  _count integer := coalesce(array_length(_to_user_ids, 1), 0);
+  _i integer := 0;
+  _to uuid;
+  _contact record;
+  _owners jsonb := '{}'::jsonb;
+  _contacts integer := 0;
+  _tasks integer := 0;
+  _vouchers integer := 0;
+  _accounts integer := 0;
+begin
+  if not public.has_role(auth.uid(), 'admin') then
+    raise exception 'Only admins can offboard users';
+  end if;
+
+  select coalesce(full_name, email) into _from_name from public.profiles where id = _user_id and company_id = _company_id;
+  if _from_name is null then
+    raise exception 'User not found';
+  end if;
+  if _user_id = auth.uid() then
+    raise exception 'You cannot offboard yourself';
+  end if;
+  if _count = 0 then
+    raise exception 'Choose at least one user to receive the transfer';
+  end if;
+  if _user_id = any(_to_user_ids) or exists (
+    select 1 from unnest(_to_user_ids) as t(u)
+    where not exists (select 1 from public.profiles p where p.id = t.u and p.company_id = _company_id and p.deactivated_at is null)
+  ) then
+    raise exception 'Transfers can only go to other active users in the company';
+  end if;
+
+  for _contact in
+    select c.id from public.contacts c
+    where c.company_id = _company_id
+      and (c.assigned_user_id = _user_id or (c.assigned_user_id is null and c.created_by = _user_id))
+    order by c.name, c.id
+  loop
+    _to := _to_user_ids[1 + _i % _count];
+    _i := _i + 1;
+    _owners := _owners || jsonb_build_object(_contact.id::text, _to);
+
+    update public.contacts set assigned_user_id = _to, updated_at = now() where id = _contact.id;
+
+    insert into public.contact_activities (company_id, contact_id, activity_type, body, created_by)
+    select _company_id, _contact.id, 'transfer',
+      format('Reassigned from %s to %s when %s left the company', _from_name, coalesce(p.full_name, p.email), _from_name),
+      auth.uid()
+    from public.profiles p where p.id = _to;
+
+    _contacts := _contacts + 1;
+  end loop;
+
+  -- work on a transferred contact follows it; anything else is shared out in turn
+  update public.tasks t
+    set assigned_to = coalesce((_owners->>t.contact_id::text)::uuid, _to_user_ids[1 + (n.rn - 1) % _count]),
+        updated_at = now()
+    from (
+      select id, row_number() over (order by due_date, id) as rn
+      from public.tasks
+      where company_id = _company_id and assigned_to = _user_id and status = 'open'
+    ) n
+    where t.id = n.id;
+  get diagnostics _tasks = row_count;
+
+  update public.vouchers v
+    set issued_by = coalesce(c.assigned_user_id, _to_user_ids[1])
+    from public.contacts c
+    where c.id = v.contact_id
+      and v.company_id = _company_id
+      and v.issued_by = _user_id
+      and v.status = 'active';
+  get diagnostics _vouchers = row_count;
+
+  update public.accounts a
+    set assigned_user_id = _to_user_ids[1 + (n.rn - 1) % _count],
+        updated_at = now()
+    from (
+      select id, row_number() over (order by name, id) as rn
+      from public.accounts
+      where company_id = _company_id and assigned_user_id = _user_id
+    ) n
+    where a.id = n.id;
+  get diagnostics _accounts = row_count;
+
+  update public.assignment_rules
+    set user_ids = array_remove(user_ids, _user_id),
+        last_assigned_user_id = nullif(last_assigned_user_id, _user_id),
+        updated_at = now()
+    where company_id = _company_id and _user_id = any(user_ids);
+
+  if _deactivate then
+    update public.profiles set deactivated_at = now(), deactivated_by = auth.uid() where id = _user_id;
+  end if;
+
+  return jsonb_build_object('contacts', _contacts, 'tasks', _tasks, 'vouchers', _vouchers, 'accounts', _accounts);
+end;
+$$;
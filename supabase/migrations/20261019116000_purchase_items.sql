@@ -0,0 +1,116 @@
+-- Orders with several line items. A purchases row is now the order header:
+-- amount stays the order total (so reports and voucher rules read it as
+-- before), item lists the products on the order, and quantity is the number
+-- of units. The lines themselves live in purchase_items.
+alter table public.purchases
+  add column subtotal numeric(12, 2),
+  add column discount_total numeric(12, 2) not null default 0;
+
+create table public.purchase_items (
+  id uuid primary key default gen_random_uuid(),
+  purchase_id uuid not null references public.purchases(id) on delete cascade,
+  company_id uuid not null references public.companies(id) on delete cascade,
+  position integer not null default 0,
+  product text not null check (length(trim(product)) > 0),
+  quantity integer not null check (quantity > 0),
+  unit_price numeric(12, 2) not null check (unit_price >= 0),
+  -- a flat amount off this line
+  discount numeric(12, 2) not null default 0 check (discount >= 0),
+  line_total numeric(12, 2) generated always as (quantity * unit_price - discount) stored,
+  created_at timestamptz not null default now(),
+  check (discount <= quantity * unit_price)
+);
+
+create index purchase_items_purchase_id_idx on public.purchase_items (purchase_id, position);
+
+alter table public.purchase_items enable row level security;
+
+-- lines are only written through save_purchase, which runs with the caller's
+-- rights, so whoever may change the order header may change its lines
+create policy "Users can view purchase items in their company"
+  on public.purchase_items for select
+  using (company_id = public.get_user_company_id(auth.uid()));
+
+create policy "Users can add purchase items in their company"
+  on public.purchase_items for insert
+  with check (company_id = public.get_user_company_id(auth.uid()));
+
+create policy "Users can delete purchase items in their company"
+  on public.purchase_items for delete
+  using (company_id = public.get_user_company_id(auth.uid()));
+
+-- Every existing purchase becomes a one-line order. The unit price is rounded
+-- up to the paisa and the difference recorded as a discount, so the order
+-- total stays exactly what was charged.
+insert into public.purchase_items (purchase_id, company_id, position, product, quantity, unit_price, discount)
+select p.id, p.company_id, 0, p.item, greatest(p.quantity, 1), u.unit_price, u.unit_price * greatest(p.quantity, 1) - p.amount
+from public.purchases p
+cross join lateral (select ceil(p.amount * 100 / greatest(p.quantity, 1)) / 100 as unit_price) u;
+
+update public.purchases p
+  set subtotal = i.quantity * i.unit_price,
+      discount_total = i.discount
+  from public.purchase_items i
+  where i.purchase_id = p.id;
+
+alter table public.purchases alter column subtotal set not null, alter column subtotal set default 0;
+
+-- Creates (_purchase_id null) or replaces a whole order. _items is an array of
+-- {"product", "quantity", "unit_price", "discount"} in display order; the
+-- header totals and item summary are recomputed from them.
+create or replace function public.save_purchase(_purchase_id uuid, _contact_id uuid, _purchase_date date, _items jsonb)
+returns uuid
+language plpgsql
+set search_path = public
+as $$
+declare
+  _company_id uuid := public.get_user_company_id(auth.uid());
+  _id uuid := _purchase_id;
+  _products text;
+  _units integer;
+  _subtotal numeric;
+  _discounts numeric;
+begin
+  if jsonb_typeof(_items) is distinct from 'array' or jsonb_array_length(_items) = 0 then
+    raise exception 'An order needs at least one line item';
+  end if;
+
+  create temp table _lines on commit drop as
+    select (e.ord - 1)::integer as position,
+      trim(e.value->>'product') as product,
+      (e.value->>'quantity')::integer as quantity,
+      round((e.value->>'unit_price')::numeric, 2) as unit_price,
+      round(coalesce((e.value->>'discount')::numeric, 0), 2) as discount
+    from jsonb_array_elements(_items) with ordinality as e(value, ord);
+
+  select string_agg(product, ', ' order by position), sum(quantity), sum(quantity * unit_price), sum(discount)
+    into _products, _units, _subtotal, _discounts
+    from _lines;
+
+  if _id is null then
+    insert into public.purchases (company_id, contact_id, created_by, item, quantity, subtotal, discount_total, amount, purchase_date)
+    values (_company_id, _contact_id, auth.uid(), _products, _units, _subtotal, _discounts, _subtotal - _discounts, _purchase_date)
+    returning id into _id;
+  else
+    update public.purchases
+      set item = _products,
+          quantity = _units,
+          subtotal = _subtotal,
+          discount_total = _discounts,
+          amount = _subtotal - _discounts,
+          purchase_date = _purchase_date
+      where id = _id and company_id = _company_id and deleted_at is null;
+    if not found then
+      raise exception 'Purchase not found';
+    end if;
+    delete from public.purchase_items where purchase_id = _id;
+  end if;
+
+  -- the table's checks reject empty products, zero quantities and oversized discounts
+  insert into public.purchase_items (purchase_id, company_id, position, product, quantity, unit_price, discount)
+    select _id, _company_id, position, product, quantity, unit_price, discount from _lines;
+
+  drop table _lines;
+  return _id;
+end;
+$$;
@@ -0,0 +1,119 @@
+-- A company product catalog and price list. Order lines can point at a
+-- catalog product so the same thing sold under different spellings is one
+-- product in reports; lines may still be free text for one-off items.
+create table public.products (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  sku text not null check (length(trim(sku)) > 0),
+  name text not null check (length(trim(name)) > 0),
+  category text,
+  -- the price pre-filled on new order lines; each line keeps what was charged
+  unit_price numeric(12, 2) not null default 0 check (unit_price >= 0),
+  tax_rate numeric(5, 2) not null default 0 check (tax_rate >= 0 and tax_rate <= 100),
+  active boolean not null default true,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index products_company_sku_idx on public.products (company_id, lower(sku));
+create index products_company_name_idx on public.products (company_id, name);
+
+alter table public.products enable row level security;
+
+create policy "Users can view products in their company"
+  on public.products for select
+  using (company_id = public.get_user_company_id(auth.uid()));
+
+create policy "Admins can create products in their company"
+  on public.products for insert
+  with check (company_id = public.get_user_company_id(auth.uid()) and public.has_role(auth.uid(), 'admin'));
+
+create policy "Admins can update products in their company"
+  on public.products for update
+  using (company_id = public.get_user_company_id(auth.uid()) and public.has_role(auth.uid(), 'admin'));
+
+create policy "Admins can delete products in their company"
+  on public.products for delete
+  using (company_id = public.get_user_company_id(auth.uid()) and public.has_role(auth.uid(), 'admin'));
+
+-- price changes belong in the audit log alongside voucher rules
+create trigger products_audit
+  after insert or update or delete on public.products
+  for each row execute function public.audit_row_change();
+
+alter table public.purchase_items
+  add column product_id uuid references public.products(id) on delete set null;
+
+create index purchase_items_product_id_idx on public.purchase_items (product_id);
+
+-- As before, plus an optional "product_id" on each line. A line that names a
+-- catalog product takes the catalog's name, so the order summary and reports
+-- use one spelling.
+create or replace function public.save_purchase(_purchase_id uuid, _contact_id uuid, _purchase_date date, _items jsonb)
+returns uuid
+language plpgsql
+set search_path = public
+as $$
+declare
+  _company_id uuid := public.get_user_company_id(auth.uid());
+  _id uuid := _purchase_id;
+  _products text;
+  _units integer;
+  _subtotal numeric;
+  _discounts numeric;
+begin
+  if jsonb_typeof(_items) is distinct from 'array' or jsonb_array_length(_items) = 0 then
+    raise exception 'An order needs at least one line item';
+  end if;
+
+  create temp table _lines on commit drop as
+    select (e.ord - 1)::integer as position,
+      nullif(e.value->>'product_id', '')::uuid as product_id,
+      trim(e.value->>'product') as product,
+      (e.value->>'quantity')::integer as quantity,
+      round((e.value->>'unit_price')::numeric, 2) as unit_price,
+      round(coalesce((e.value->>'discount')::numeric, 0), 2) as discount
+    from jsonb_array_elements(_items) with ordinality as e(value, ord);
+
+  if exists (
+    select 1 from _lines l
+    where l.product_id is not null
+      and not exists (select 1 from public.products p where p.id = l.product_id and p.company_id = _company_id)
+  ) then
+    raise exception 'Product not found';
+  end if;
+
+  update _lines l set product = p.name from public.products p where p.id = l.product_id;
+
+  select string_agg(product, ', ' order by position), sum(quantity), sum(quantity * unit_price), sum(discount)
+    into _products, _units, _subtotal, _discounts
+    from _lines;
+
+  if _id is null then
+    insert into public.purchases (company_id, contact_id, created_by, item, quantity, subtotal, discount_total, amount, purchase_date)
+    values (_company_id, _contact_id, auth.uid(), _products, _units, _subtotal, _discounts, _subtotal - _discounts, _purchase_date)
+    returning id into _id;
+  else
+    update public.purchases
+      set item = _products,
+          quantity = _units,
+          subtotal = _subtotal,
+          discount_total = _discounts,
+          amount = _subtotal - _discounts,
+          purchase_date = _purchase_date
+      where id = _id and company_id = _company_id and deleted_at is null;
+    if not found then
+      raise exception 'Purchase not found';
+    end if;
+    delete from public.purchase_items where purchase_id = _id;
+  end if;
+
+  -- the table's checks reject empty products, zero quantities and oversized discounts
+  insert into public.purchase_items (purchase_id, company_id, position, product_id, product, quantity, unit_price, discount)
+    select _id, _company_id, position, product_id, product, quantity, unit_price, discount from _lines;
+
+  drop table _lines;
+  return _id;
+end;
+$$;
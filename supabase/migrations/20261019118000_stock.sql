@@ -0,0 +1,241 @@
+-- Stock levels for catalog products. A product is tracked once it has a
+-- stock_items row; every change to its level is a stock_movements row, and
+-- on_hand is kept equal to the sum of them. Order lines are matched to stock
+-- through their product_id, since the catalog is where item spellings are
+-- unified.
+create table public.stock_items (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  product_id uuid not null unique references public.products(id) on delete cascade,
+  on_hand integer not null default 0,
+  -- warn when on_hand falls to this level or below; null for no warning
+  low_stock_threshold integer check (low_stock_threshold >= 0),
+  created_by uuid references public.profiles(id) on delete set null,
+  -- sales recorded before tracking started never move stock
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.stock_movements (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  stock_item_id uuid not null references public.stock_items(id) on delete cascade,
+  change integer not null check (change <> 0),
+  balance_after integer not null,
+  -- sale and sale_reversal are written for orders; the rest by people
+  reason text not null check (reason in ('opening', 'sale', 'sale_reversal', 'return', 'adjustment')),
+  purchase_id uuid references public.purchases(id) on delete set null,
+  note text,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index stock_movements_item_idx on public.stock_movements (stock_item_id, created_at desc);
+create index stock_movements_purchase_idx on public.stock_movements (purchase_id) where purchase_id is not null;
+
+alter table public.stock_items enable row level security;
+alter table public.stock_movements enable row level security;
+
+-- levels and the ledger change only through the functions below, so there
+-- are no insert policies and only the threshold can be updated directly
+create policy "Users can view stock in their company"
+  on public.stock_items for select
+  using (company_id = public.get_user_company_id(auth.uid()));
+
+create policy "Admins can update stock items in their company"
+  on public.stock_items for update
+  using (company_id = public.get_user_company_id(auth.uid()) and public.has_role(auth.uid(), 'admin'));
+
+create policy "Admins can stop tracking stock in their company"
+  on public.stock_items for delete
+  using (company_id = public.get_user_company_id(auth.uid()) and public.has_role(auth.uid(), 'admin'));
+
+revoke update on public.stock_items from anon, authenticated;
+grant update (low_stock_threshold, updated_at) on public.stock_items to authenticated;
+
+create policy "Users can view stock movements in their company"
+  on public.stock_movements for select
+  using (company_id = public.get_user_company_id(auth.uid()));
+
+-- the one place stock levels change
+create or replace function public.record_stock_movement(_stock_item_id uuid, _change integer, _reason text, _purchase_id uuid, _note text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _item public.stock_items%rowtype;
+begin
+  if _change = 0 then
+    return;
+  end if;
+
+  update public.stock_items
+    set on_hand = on_hand + _change, updated_at = now()
+    where id = _stock_item_id
+    returning * into _item;
+
+  insert into public.stock_movements (company_id, stock_item_id, change, balance_after, reason, purchase_id, note, created_by)
+  values (_item.company_id, _stock_item_id, _change, _item.on_hand, _reason, _purchase_id, _note, auth.uid());
+end;
+$$;
+
+revoke execute on function public.record_stock_movement(uuid, integer, text, uuid, text) from public, anon, authenticated;
+
+-- Brings the stock taken by one order in line with its current lines: a live
+-- order holds its units, a trashed one holds none. Only the difference from
+-- what earlier sale movements already took is written, so running it again
+-- changes nothing.
+create or replace function public.sync_purchase_stock(_purchase_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _row record;
+begin
+  for _row in
+    with wanted as (
+      select s.id as stock_item_id, -sum(i.quantity)::integer as change
+      from public.purchases p
+      join public.purchase_items i on i.purchase_id = p.id
+      join public.stock_items s on s.product_id = i.product_id
+      where p.id = _purchase_id and p.deleted_at is null and p.created_at >= s.created_at
+      group by s.id
+    ),
+    taken as (
+      select m.stock_item_id, sum(m.change)::integer as change
+      from public.stock_movements m
+      where m.purchase_id = _purchase_id and m.reason in ('sale', 'sale_reversal')
+      group by m.stock_item_id
+    )
+    select coalesce(w.stock_item_id, t.stock_item_id) as stock_item_id,
+      coalesce(w.change, 0) - coalesce(t.change, 0) as diff
+    from wanted w
+    full join taken t on t.stock_item_id = w.stock_item_id
+  loop
+    if _row.diff <> 0 then
+      perform public.record_stock_movement(
+        _row.stock_item_id,
+        _row.diff,
+        case when _row.diff < 0 then 'sale' else 'sale_reversal' end,
+        _purchase_id,
+        null
+      );
+    end if;
+  end loop;
+end;
+$$;
+
+revoke execute on function public.sync_purchase_stock(uuid) from public, anon, authenticated;
+
+-- trashing an order puts its units back; restoring it takes them again
+create or replace function public.purchases_sync_stock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.sync_purchase_stock(new.id);
+  return new;
+end;
+$$;
+
+create trigger purchases_sync_stock
+  after update of deleted_at on public.purchases
+  for each row
+  when (old.deleted_at is distinct from new.deleted_at)
+  execute function public.purchases_sync_stock();
+
+-- the lines are written by save_purchase; a statement trigger on them takes
+-- the stock once per order rather than once per line
+create or replace function public.purchase_items_sync_stock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _purchase_id uuid;
+begin
+  for _purchase_id in select distinct purchase_id from changed_items loop
+    perform public.sync_purchase_stock(_purchase_id);
+  end loop;
+  return null;
+end;
+$$;
+
+create trigger purchase_items_sync_stock_insert
+  after insert on public.purchase_items
+  referencing new table as changed_items
+  for each statement execute function public.purchase_items_sync_stock();
+
+-- Starts tracking a catalog product with the units counted today.
+create or replace function public.track_stock_item(_product_id uuid, _opening_stock integer, _low_stock_threshold integer default null)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _company_id uuid := public.get_user_company_id(auth.uid());
+  _id uuid;
+begin
+  if not public.has_role(auth.uid(), 'admin') then
+    raise exception 'Only admins can track stock';
+  end if;
+  if not exists (select 1 from public.products where id = _product_id and company_id = _company_id) then
+    raise exception 'Product not found';
+  end if;
+  if _opening_stock < 0 then
+    raise exception 'Opening stock cannot be negative';
+  end if;
+
+  insert into public.stock_items (company_id, product_id, low_stock_threshold, created_by)
+  values (_company_id, _product_id, _low_stock_threshold, auth.uid())
+  returning id into _id;
+
+  perform public.record_stock_movement(_id, coalesce(_opening_stock, 0), 'opening', null, null);
+  return _id;
+end;
+$$;
+
+-- A manual change to a stock level. Anyone can book returned goods back in;
+-- other corrections (counts, damage, deliveries) are for admins.
+create or replace function public.adjust_stock(_stock_item_id uuid, _change integer, _reason text, _note text default null, _purchase_id uuid default null)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _company_id uuid := public.get_user_company_id(auth.uid());
+  _on_hand integer;
+begin
+  if _reason not in ('return', 'adjustment') then
+    raise exception 'Unknown stock movement reason';
+  end if;
+  if _reason = 'adjustment' and not public.has_role(auth.uid(), 'admin') then
+    raise exception 'Only admins can adjust stock';
+  end if;
+  if _reason = 'return' and coalesce(_change, 0) <= 0 then
+    raise exception 'A return adds stock';
+  end if;
+  if coalesce(_change, 0) = 0 then
+    raise exception 'Enter how many units changed';
+  end if;
+  if not exists (select 1 from public.stock_items where id = _stock_item_id and company_id = _company_id) then
+    raise exception 'Stock item not found';
+  end if;
+  if _purchase_id is not null and not exists (select 1 from public.purchases where id = _purchase_id and company_id = _company_id) then
+    raise exception 'Purchase not found';
+  end if;
+
+  perform public.record_stock_movement(_stock_item_id, _change, _reason, _purchase_id, nullif(trim(_note), ''));
+  select on_hand into _on_hand from public.stock_items where id = _stock_item_id;
+  return _on_hand;
+end;
+$$;
@@ -0,0 +1,291 @@
+-- Refunds on purchases. A refund is its own row, so the order keeps what was
+-- charged and the history of what went back. purchases.refunded_amount is the
+-- running total of its refunds; net revenue is amount - refunded_amount.
+alter table public.purchases
+  add column refunded_amount numeric(12, 2) not null default 0;
+
+create table public.purchase_refunds (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  purchase_id uuid not null references public.purchases(id) on delete cascade,
+  -- the line the returned units came from; null for a refund on the whole order
+  purchase_item_id uuid references public.purchase_items(id) on delete set null,
+  amount numeric(12, 2) not null check (amount > 0),
+  quantity integer not null default 0 check (quantity >= 0),
+  -- whether the returned units went back into stock
+  restocked boolean not null default false,
+  reason text not null check (length(trim(reason)) > 0),
+  refund_date date not null default current_date,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index purchase_refunds_purchase_id_idx on public.purchase_refunds (purchase_id, created_at);
+
+alter table public.purchase_refunds enable row level security;
+
+-- refunds are written only by refund_purchase
+create policy "Users can view refunds in their company"
+  on public.purchase_refunds for select
+  using (company_id = public.get_user_company_id(auth.uid()));
+
+alter table public.stock_movements
+  add column refund_id uuid references public.purchase_refunds(id) on delete set null;
+
+-- as before, with the refund a return movement belongs to
+drop function public.record_stock_movement(uuid, integer, text, uuid, text);
+
+create function public.record_stock_movement(_stock_item_id uuid, _change integer, _reason text, _purchase_id uuid, _note text, _refund_id uuid default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _item public.stock_items%rowtype;
+begin
+  if _change = 0 then
+    return;
+  end if;
+
+  update public.stock_items
+    set on_hand = on_hand + _change, updated_at = now()
+    where id = _stock_item_id
+    returning * into _item;
+
+  insert into public.stock_movements (company_id, stock_item_id, change, balance_after, reason, purchase_id, note, created_by, refund_id)
+  values (_item.company_id, _stock_item_id, _change, _item.on_hand, _reason, _purchase_id, _note, auth.uid(), _refund_id);
+end;
+$$;
+
+revoke execute on function public.record_stock_movement(uuid, integer, text, uuid, text, uuid) from public, anon, authenticated;
+
+-- Refunds part or all of an order. Units can only come back against the line
+-- they were sold on; with _restock they go back into stock as a return.
+create or replace function public.refund_purchase(
+  _purchase_id uuid,
+  _amount numeric,
+  _reason text,
+  _refund_date date default current_date,
+  _purchase_item_id uuid default null,
+  _quantity integer default 0,
+  _restock boolean default false
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _company_id uuid := public.get_user_company_id(auth.uid());
+  _purchase public.purchases%rowtype;
+  _item public.purchase_items%rowtype;
+  _refunded_units integer;
+  _stock_item_id uuid;
+  _id uuid;
+begin
+  select * into _purchase from public.purchases
+    where id = _purchase_id and company_id = _company_id and deleted_at is null;
+  if _purchase.id is null then
+    raise exception 'Purchase not found';
+  end if;
+  if not (
+    public.has_role(auth.uid(), 'admin')
+    or _purchase.created_by = auth.uid()
+    or exists (
+      select 1 from public.contacts c
+      where c.id = _purchase.contact_id and (c.created_by = auth.uid() or c.assigned_user_id = auth.uid())
+    )
+  ) then
+    raise exception 'You cannot refund this purchase';
+  end if;
+
+  if coalesce(_amount, 0) <= 0 then
+    raise exception 'Enter the amount refunded';
+  end if;
+  if _amount > _purchase.amount - _purchase.refunded_amount then
+    raise exception 'Only % is left to refund on this order', _purchase.amount - _purchase.refunded_amount;
+  end if;
+  if length(trim(coalesce(_reason, ''))) = 0 then
+    raise exception 'Give a reason for the refund';
+  end if;
+
+  _quantity := coalesce(_quantity, 0);
+  if _purchase_item_id is not null then
+    select * into _item from public.purchase_items where id = _purchase_item_id and purchase_id = _purchase_id;
+    if _item.id is null then
+      raise exception 'That line is not on this order';
+    end if;
+    select coalesce(sum(quantity), 0) into _refunded_units from public.purchase_refunds where purchase_item_id = _item.id;
+    if _quantity > _item.quantity - _refunded_units then
+      raise exception 'Only % of % can still be returned', _item.quantity - _refunded_units, _item.product;
+    end if;
+  elsif _quantity > 0 then
+    raise exception 'Choose the line the units came back from';
+  end if;
+
+  insert into public.purchase_refunds (company_id, purchase_id, purchase_item_id, amount, quantity, restocked, reason, refund_date, created_by)
+  values (_company_id, _purchase_id, _purchase_item_id, round(_amount, 2), _quantity, coalesce(_restock, false) and _quantity > 0, trim(_reason), coalesce(_refund_date, current_date), auth.uid())
+  returning id into _id;
+
+  update public.purchases set refunded_amount = refunded_amount + round(_amount, 2) where id = _purchase_id;
+
+  if coalesce(_restock, false) and _quantity > 0 then
+    select id into _stock_item_id from public.stock_items where product_id = _item.product_id;
+    if _stock_item_id is not null then
+      perform public.record_stock_movement(_stock_item_id, _quantity, 'return', _purchase_id, trim(_reason), _id);
+    end if;
+  end if;
+
+  return _id;
+end;
+$$;
+
+-- As before, except that restocked refunds count towards what the order
+-- should hold: a live order holds its units less those returned to stock,
+-- and the return movements are part of what it already took.
+create or replace function public.sync_purchase_stock(_purchase_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _row record;
+begin
+  for _row in
+    with wanted as (
+      select s.id as stock_item_id, sum(x.change)::integer as change
+      from (
+        select i.product_id, -i.quantity as change, p.created_at as at
+          from public.purchases p
+          join public.purchase_items i on i.purchase_id = p.id
+          where p.id = _purchase_id and p.deleted_at is null
+        union all
+        select i.product_id, r.quantity, r.created_at
+          from public.purchase_refunds r
+          join public.purchases p on p.id = r.purchase_id
+          join public.purchase_items i on i.id = r.purchase_item_id
+          where r.purchase_id = _purchase_id and r.restocked and p.deleted_at is null
+      ) x
+      join public.stock_items s on s.product_id = x.product_id
+      where x.at >= s.created_at
+      group by s.id
+    ),
+    taken as (
+      select m.stock_item_id, sum(m.change)::integer as change
+      from public.stock_movements m
+      where m.purchase_id = _purchase_id and (m.reason in ('sale', 'sale_reversal') or m.refund_id is not null)
+      group by m.stock_item_id
+    )
+    select coalesce(w.stock_item_id, t.stock_item_id) as stock_item_id,
+      coalesce(w.change, 0) - coalesce(t.change, 0) as diff
+    from wanted w
+    full join taken t on t.stock_item_id = w.stock_item_id
+  loop
+    if _row.diff <> 0 then
+      perform public.record_stock_movement(
+        _row.stock_item_id,
+        _row.diff,
+        case when _row.diff < 0 then 'sale' else 'sale_reversal' end,
+        _purchase_id,
+        null
+      );
+    end if;
+  end loop;
+end;
+$$;
+
+-- As before, but an order that has refunds can no longer be edited: its lines
+-- are what the refunds point at.
+create or replace function public.save_purchase(_purchase_id uuid, _contact_id uuid, _purchase_date date, _items jsonb)
+returns uuid
+language plpgsql
+set search_path = public
+as $$
+declare
+  _company_id uuid := public.get_user_company_id(auth.uid());
+  _id uuid := _purchase_id;
+  _products text;
+  _units integer;
+  _subtotal numeric;
+  _discounts numeric;
+begin
+  if jsonb_typeof(_items) is distinct from 'array' or jsonb_array_length(_items) = 0 then
+    raise exception 'An order needs at least one line item';
+  end if;
+  if _id is not null and exists (select 1 from public.purchase_refunds where purchase_id = _id) then
+    raise exception 'An order with refunds cannot be edited';
+  end if;
+
+  create temp table _lines on commit drop as
+    select (e.ord - 1)::integer as position,
+      nullif(e.value->>'product_id', '')::uuid as product_id,
+      trim(e.value->>'product') as product,
+      (e.value->>'quantity')::integer as quantity,
+      round((e.value->>'unit_price')::numeric, 2) as unit_price,
+      round(coalesce((e.value->>'discount')::numeric, 0), 2) as discount
+    from jsonb_array_elements(_items) with ordinality as e(value, ord);
+
+  if exists (
+    select 1 from _lines l
+    where l.product_id is not null
+      and not exists (select 1 from public.products p where p.id = l.product_id and p.company_id = _company_id)
+  ) then
+    raise exception 'Product not found';
+  end if;
+
+  update _lines l set product = p.name from public.products p where p.id = l.product_id;
+
+  select string_agg(product, ', ' order by position), sum(quantity), sum(quantity * unit_price), sum(discount)
+    into _products, _units, _subtotal, _discounts
+    from _lines;
+
+  if _id is null then
+    insert into public.purchases (company_id, contact_id, created_by, item, quantity, subtotal, discount_total, amount, purchase_date)
+    values (_company_id, _contact_id, auth.uid(), _products, _units, _subtotal, _discounts, _subtotal - _discounts, _purchase_date)
+    returning id into _id;
+  else
+    update public.purchases
+      set item = _products,
+          quantity = _units,
+          subtotal = _subtotal,
+          discount_total = _discounts,
+          amount = _subtotal - _discounts,
+          purchase_date = _purchase_date
+      where id = _id and company_id = _company_id and deleted_at is null;
+    if not found then
+      raise exception 'Purchase not found';
+    end if;
+    delete from public.purchase_items where purchase_id = _id;
+  end if;
+
+  -- the table's checks reject empty products, zero quantities and oversized discounts
+  insert into public.purchase_items (purchase_id, company_id, position, product_id, product, quantity, unit_price, discount)
+    select _id, _company_id, position, product_id, product, quantity, unit_price, discount from _lines;
+
+  drop table _lines;
+  return _id;
+end;
+$$;
+
+-- lifetime spend and account revenue are net of refunds
+create or replace function public.total_spend(public.contacts)
+returns numeric
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(sum(amount - refunded_amount), 0) from public.purchases where contact_id = $1.id and deleted_at is null;
+$$;
+
+create or replace function public.account_revenue(public.accounts)
+returns numeric
+language sql
+stable
+as $$
+  select coalesce(sum(p.amount - p.refunded_amount), 0)
+  from public.purchases p
+  join public.contacts c on c.id = p.contact_id
+  where c.account_id = $1.id and c.deleted_at is null and p.deleted_at is null;
+$$;
@@ -0,0 +1,83 @@
+-- As before, except that the purchase row is locked while the refund is
+-- checked and recorded. Two refunds on the same order now run one after the
+-- other, so together they cannot take back more than was charged, nor return
+-- more units of a line than it sold.
+create or replace function public.refund_purchase(
+  _purchase_id uuid,
+  _amount numeric,
+  _reason text,
+  _refund_date date default current_date,
+  _purchase_item_id uuid default null,
+  _quantity integer default 0,
+  _restock boolean default false
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _company_id uuid := public.get_user_company_id(auth.uid());
+  _purchase public.purchases%rowtype;
+  _item public.purchase_items%rowtype;
+  _refunded_units integer;
+  _stock_item_id uuid;
+  _id uuid;
+begin
+  select * into _purchase from public.purchases
+    where id = _purchase_id and company_id = _company_id and deleted_at is null
+    for update;
+  if _purchase.id is null then
+    raise exception 'Purchase not found';
+  end if;
+  if not (
+    public.has_role(auth.uid(), 'admin')
+    or _purchase.created_by = auth.uid()
+    or exists (
+      select 1 from public.contacts c
+      where c.id = _purchase.contact_id and (c.created_by = auth.uid() or c.assigned_user_id = auth.uid())
+    )
+  ) then
+    raise exception 'You cannot refund this purchase';
+  end if;
+
+  if coalesce(_amount, 0) <= 0 then
+    raise exception 'Enter the amount refunded';
+  end if;
+  if _amount > _purchase.amount - _purchase.refunded_amount then
+    raise exception 'Only % is left to refund on this order', _purchase.amount - _purchase.refunded_amount;
+  end if;
+  if length(trim(coalesce(_reason, ''))) = 0 then
+    raise exception 'Give a reason for the refund';
+  end if;
+
+  _quantity := coalesce(_quantity, 0);
+  if _purchase_item_id is not null then
+    select * into _item from public.purchase_items where id = _purchase_item_id and purchase_id = _purchase_id;
+    if _item.id is null then
+      raise exception 'That line is not on this order';
+    end if;
+    select coalesce(sum(quantity), 0) into _refunded_units from public.purchase_refunds where purchase_item_id = _item.id;
+    if _quantity > _item.quantity - _refunded_units then
+      raise exception 'Only % of % can still be returned', _item.quantity - _refunded_units, _item.product;
+    end if;
+  elsif _quantity > 0 then
+    raise exception 'Choose the line the units came back from';
+  end if;
+
+  insert into public.purchase_refunds (company_id, purchase_id, purchase_item_id, amount, quantity, restocked, reason, refund_date, created_by)
+  values (_company_id, _purchase_id, _purchase_item_id, round(_amount, 2), _quantity, coalesce(_restock, false) and _quantity > 0, trim(_reason), coalesce(_refund_date, current_date), auth.uid())
+  returning id into _id;
+
+  update public.purchases set refunded_amount = refunded_amount + round(_amount, 2) where id = _purchase_id;
+
+  if coalesce(_restock, false) and _quantity > 0 then
+    select id into _stock_item_id from public.stock_items where product_id = _item.product_id;
+    if _stock_item_id is not null then
+      perform public.record_stock_movement(_stock_item_id, _quantity, 'return', _purchase_id, trim(_reason), _id);
+    end if;
+  end if;
+
+  return _id;
+end;
+$$;
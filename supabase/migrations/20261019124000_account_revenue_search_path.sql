@@ -0,0 +1,12 @@
+-- As before, with the search path pinned like the other functions.
+create or replace function public.account_revenue(public.accounts)
+returns numeric
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(sum(p.amount - p.refunded_amount), 0)
+  from public.purchases p
+  join public.contacts c on c.id = p.contact_id
+  where c.account_id = $1.id and c.deleted_at is null and p.deleted_at is null;
+$$;
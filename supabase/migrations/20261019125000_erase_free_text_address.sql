@@ -0,0 +1,91 @@
+-- As before, with the free-text address the structured fields replaced. The
+-- column is gone, but splitting it up was audited, so history written before
+-- then (and merge snapshots from then) still carries it.
+create or replace function public.erase_contact(_contact_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _company_id uuid;
+  -- personal fields, also stripped from history snapshots of the contact
+  _personal constant text[] := array[
+    'name', 'email', 'phone', 'address', 'address_line1', 'address_line2', 'city', 'state', 'pincode', 'custom_fields'
+  ];
+begin
+  if not public.has_role(auth.uid(), 'admin') then
+    raise exception 'Only admins can erase customer contacts';
+  end if;
+
+  select company_id into _company_id from public.contacts where id = _contact_id and erased_at is null;
+  if _company_id is null or _company_id <> public.get_user_company_id(auth.uid()) then
+    raise exception 'Customer contact not found';
+  end if;
+
+  update public.contacts
+    set name = 'Erased customer',
+        email = null,
+        phone = null,
+        address_line1 = null,
+        address_line2 = null,
+        city = null,
+        state = null,
+        pincode = null,
+        custom_fields = '{}'::jsonb,
+        erased_at = now(),
+        erased_by = auth.uid(),
+        updated_at = now()
+    where id = _contact_id;
+
+  -- notes and tasks are free text written about the person
+  delete from public.contact_activities where contact_id = _contact_id;
+  delete from public.tasks where contact_id = _contact_id;
+  -- consent rows stay as proof of what was agreed, without their free-text notes
+  update public.contact_consents set note = null where contact_id = _contact_id;
+
+  -- runs after the update above so the audit entry it just wrote is redacted too
+  with recursive merged as (
+    select merged_contact_id as id from public.contact_merges where survivor_id = _contact_id and company_id = _company_id
+    union
+    select m.merged_contact_id from public.contact_merges m join merged on m.survivor_id = merged.id where m.company_id = _company_id
+  )
+  update public.audit_log
+    set old_data = old_data - _personal,
+        new_data = new_data - _personal
+    where table_name = 'contacts'
+      and (record_id = _contact_id or record_id in (select id from merged));
+
+  with recursive merged as (
+    select id, merged_contact_id from public.contact_merges where survivor_id = _contact_id and company_id = _company_id
+    union
+    select m.id, m.merged_contact_id from public.contact_merges m join merged on m.survivor_id = merged.merged_contact_id where m.company_id = _company_id
+  )
+  update public.contact_merges
+    set merged_contact = merged_contact - _personal
+    where id in (select id from merged);
+end;
+$$;
+
+-- the same for contacts already erased, and the contacts merged into them
+with recursive erased as (
+  select id, company_id from public.contacts where erased_at is not null
+  union
+  select m.merged_contact_id, m.company_id from public.contact_merges m join erased e on m.survivor_id = e.id and m.company_id = e.company_id
+)
+update public.audit_log
+  set old_data = old_data - 'address',
+      new_data = new_data - 'address'
+  where table_name = 'contacts'
+    and record_id in (select id from erased)
+    and (old_data ? 'address' or new_data ? 'address');
+
+with recursive erased as (
+  select id, company_id from public.contacts where erased_at is not null
+  union
+  select m.merged_contact_id, m.company_id from public.contact_merges m join erased e on m.survivor_id = e.id and m.company_id = e.company_id
+)
+update public.contact_merges m
+  set merged_contact = m.merged_contact - 'address'
+  from erased e
+  where m.survivor_id = e.id and m.company_id = e.company_id and m.merged_contact ? 'address';
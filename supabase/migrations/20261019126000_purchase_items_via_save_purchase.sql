@@ -0,0 +1,157 @@
+-- Order lines are written only by save_purchase, which works out their tax
+-- and keeps stock in step. Any user in the company could add or delete lines
+-- directly, even on orders they cannot see, so those policies go and
+-- save_purchase runs with definer rights, checking who may change the order.
+drop policy "Users can add purchase items in their company" on public.purchase_items;
+drop policy "Users can delete purchase items in their company" on public.purchase_items;
+
+-- As before, but as the definer: users record orders only for contacts they
+-- created or are assigned to, and change only orders they may trash or refund.
+create or replace function public.save_purchase(_purchase_id uuid, _contact_id uuid, _purchase_date date, _items jsonb, _prices_include_tax boolean default null)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _company_id uuid := public.get_user_company_id(auth.uid());
+  _is_admin boolean := public.has_role(auth.uid(), 'admin');
+  _company public.companies%rowtype;
+  _contact public.contacts%rowtype;
+  _id uuid := _purchase_id;
+  _inclusive boolean;
+  _inter_state boolean;
+  _products text;
+  _units integer;
+  _subtotal numeric;
+  _discounts numeric;
+  _taxable numeric;
+  _cgst numeric;
+  _sgst numeric;
+  _igst numeric;
+begin
+  if jsonb_typeof(_items) is distinct from 'array' or jsonb_array_length(_items) = 0 then
+    raise exception 'An order needs at least one line item';
+  end if;
+  if _id is not null and not exists (
+    select 1 from public.purchases p
+    where p.id = _id
+      and p.company_id = _company_id
+      and p.deleted_at is null
+      and (
+        _is_admin
+        or p.created_by = auth.uid()
+        or exists (
+          select 1 from public.contacts c
+          where c.id = p.contact_id and (c.created_by = auth.uid() or c.assigned_user_id = auth.uid())
+        )
+      )
+  ) then
+    raise exception 'Purchase not found';
+  end if;
+  if _id is not null and exists (select 1 from public.purchase_refunds where purchase_id = _id) then
+    raise exception 'An order with refunds cannot be edited';
+  end if;
+
+  select * into _company from public.companies where id = _company_id;
+  select * into _contact from public.contacts where id = _contact_id and company_id = _company_id and deleted_at is null;
+  -- an unassigned contact makes the check null rather than false
+  if _contact.id is null or not coalesce(_is_admin or _contact.created_by = auth.uid() or _contact.assigned_user_id = auth.uid(), false) then
+    raise exception 'Customer contact not found';
+  end if;
+  _inclusive := coalesce(_prices_include_tax, _company.prices_include_tax);
+  -- an unknown state on either side is taxed as a sale within the state
+  _inter_state := (coalesce(trim(_contact.country), '') <> '' and lower(trim(_contact.country)) not in ('india', 'in'))
+    or (_company.gst_state is not null and _contact.state is not null and lower(trim(_company.gst_state)) <> lower(trim(_contact.state)));
+
+  create temp table _lines on commit drop as
+    select (e.ord - 1)::integer as position,
+      nullif(e.value->>'product_id', '')::uuid as product_id,
+      trim(e.value->>'product') as product,
+      (e.value->>'quantity')::integer as quantity,
+      round((e.value->>'unit_price')::numeric, 2) as unit_price,
+      round(coalesce((e.value->>'discount')::numeric, 0), 2) as discount,
+      round(coalesce((e.value->>'tax_rate')::numeric, 0), 2) as tax_rate,
+      0::numeric as taxable_value,
+      0::numeric as tax
+    from jsonb_array_elements(_items) with ordinality as e(value, ord);
+
+  if exists (
+    select 1 from _lines l
+    where l.product_id is not null
+      and not exists (select 1 from public.products p where p.id = l.product_id and p.company_id = _company_id)
+  ) then
+    raise exception 'Product not found';
+  end if;
+  if exists (select 1 from _lines where tax_rate < 0 or tax_rate > 100) then
+    raise exception 'Tax rates must be between 0 and 100';
+  end if;
+
+  -- a typed item that names a catalog product (by SKU, then by name) is that product
+  update _lines set product_id = public.match_product(_company_id, product) where product_id is null;
+  update _lines l set product = p.name from public.products p where p.id = l.product_id;
+
+  if _inclusive then
+    update _lines set taxable_value = round((quantity * unit_price - discount) * 100 / (100 + tax_rate), 2);
+    update _lines set tax = quantity * unit_price - discount - taxable_value;
+  else
+    update _lines set taxable_value = quantity * unit_price - discount;
+    update _lines set tax = round(taxable_value * tax_rate / 100, 2);
+  end if;
+
+  select string_agg(product, ', ' order by position), sum(quantity), sum(quantity * unit_price), sum(discount), sum(taxable_value)
+    into _products, _units, _subtotal, _discounts, _taxable
+    from _lines;
+
+  -- CGST takes the rounded half, SGST the rest, so the two always add up
+  select coalesce(sum(case when _inter_state then 0 else round(tax / 2, 2) end), 0),
+      coalesce(sum(case when _inter_state then 0 else tax - round(tax / 2, 2) end), 0),
+      coalesce(sum(case when _inter_state then tax else 0 end), 0)
+    into _cgst, _sgst, _igst
+    from _lines;
+
+  if _id is null then
+    insert into public.purchases (
+      company_id, contact_id, created_by, item, quantity, subtotal, discount_total, amount, purchase_date,
+      prices_include_tax, place_of_supply, inter_state, taxable_total, cgst_total, sgst_total, igst_total, tax_total
+    )
+    values (
+      _company_id, _contact_id, auth.uid(), _products, _units, _subtotal, _discounts, _taxable + _cgst + _sgst + _igst, _purchase_date,
+      _inclusive, _contact.state, _inter_state, _taxable, _cgst, _sgst, _igst, _cgst + _sgst + _igst
+    )
+    returning id into _id;
+  else
+    update public.purchases
+      set item = _products,
+          quantity = _units,
+          subtotal = _subtotal,
+          discount_total = _discounts,
+          amount = _taxable + _cgst + _sgst + _igst,
+          purchase_date = _purchase_date,
+          prices_include_tax = _inclusive,
+          place_of_supply = _contact.state,
+          inter_state = _inter_state,
+          taxable_total = _taxable,
+          cgst_total = _cgst,
+          sgst_total = _sgst,
+          igst_total = _igst,
+          tax_total = _cgst + _sgst + _igst
+      where id = _id and company_id = _company_id and deleted_at is null;
+    if not found then
+      raise exception 'Purchase not found';
+    end if;
+    delete from public.purchase_items where purchase_id = _id;
+  end if;
+
+  -- the table's checks reject empty products, zero quantities and oversized discounts
+  insert into public.purchase_items (purchase_id, company_id, position, product_id, product, quantity, unit_price, discount, tax_rate, taxable_value, cgst, sgst, igst)
+    select _id, _company_id, position, product_id, product, quantity, unit_price, discount, tax_rate, taxable_value,
+      case when _inter_state then 0 else round(tax / 2, 2) end,
+      case when _inter_state then 0 else tax - round(tax / 2, 2) end,
+      case when _inter_state then tax else 0 end
+    from _lines;
+
+  drop table _lines;
+  return _id;
+end;
+$$;
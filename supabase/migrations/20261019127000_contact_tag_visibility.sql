@@ -0,0 +1,34 @@
+-- Tagging and untagging now follow who may work on the contact: admins, or
+-- users who created it or are assigned to it. The contact and the tag must
+-- also belong to the company the row is filed under.
+drop policy "Users can tag contacts in their company" on public.contact_tags;
+drop policy "Users can untag contacts in their company" on public.contact_tags;
+
+create policy "Users can tag contacts they work on"
+  on public.contact_tags for insert
+  with check (
+    company_id = public.get_user_company_id(auth.uid())
+    and created_by = auth.uid()
+    and exists (
+      select 1 from public.contacts c
+      where c.id = contact_tags.contact_id
+        and c.company_id = contact_tags.company_id
+        and (public.has_role(auth.uid(), 'admin') or c.created_by = auth.uid() or c.assigned_user_id = auth.uid())
+    )
+    and exists (
+      select 1 from public.tags t
+      where t.id = contact_tags.tag_id and t.company_id = contact_tags.company_id
+    )
+  );
+
+create policy "Users can untag contacts they work on"
+  on public.contact_tags for delete
+  using (
+    company_id = public.get_user_company_id(auth.uid())
+    and exists (
+      select 1 from public.contacts c
+      where c.id = contact_tags.contact_id
+        and c.company_id = contact_tags.company_id
+        and (public.has_role(auth.uid(), 'admin') or c.created_by = auth.uid() or c.assigned_user_id = auth.uid())
+    )
+  );
@@ -0,0 +1,177 @@
+-- The schema the migrations in ../migrations build on. It predates them, so
+-- for the database tests it is rebuilt here from the generated types as they
+-- stood before the first migration, with Supabase's auth.uid(), its API
+-- roles, and company-wide policies on the original tables.
+create role anon nologin;
+create role authenticated nologin;
+
+create schema auth;
+
+create table auth.users (
+  id uuid primary key default gen_random_uuid(),
+  email text
+);
+
+-- the signed-in user, from the JWT claims PostgREST sets for each request
+create function auth.uid()
+returns uuid
+language sql
+stable
+as $$
+  select nullif(nullif(current_setting('request.jwt.claims', true), '')::jsonb ->> 'sub', '')::uuid
+$$;
+
+grant usage on schema public, auth to anon, authenticated;
+alter default privileges in schema public grant all on tables to anon, authenticated;
+alter default privileges in schema public grant all on sequences to anon, authenticated;
+
+-- pg_cron is not available here; scheduling a job does nothing
+create schema cron;
+
+create function cron.schedule(_name text, _schedule text, _command text)
+returns bigint
+language sql
+as $$
+  select 0::bigint
+$$;
+
+create type public.app_role as enum ('admin', 'user');
+
+create table public.companies (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  industry text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.profiles (
+  id uuid primary key references auth.users(id) on delete cascade,
+  company_id uuid not null references public.companies(id) on delete cascade,
+  email text not null,
+  full_name text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.user_roles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  role public.app_role not null,
+  unique (user_id, role)
+);
+
+create table public.contacts (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  created_by uuid not null,
+  assigned_user_id uuid,
+  name text not null,
+  email text,
+  phone text,
+  address text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.purchases (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  contact_id uuid not null references public.contacts(id) on delete cascade,
+  created_by uuid not null,
+  item text not null,
+  quantity integer not null default 1,
+  amount numeric(12, 2) not null,
+  purchase_date date not null default current_date,
+  created_at timestamptz not null default now()
+);
+
+create table public.voucher_rules (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  name text not null,
+  description text,
+  discount_type text not null,
+  discount_value numeric(12, 2) not null,
+  max_discount_amount numeric(12, 2),
+  min_purchase_amount numeric(12, 2),
+  is_active boolean default true,
+  valid_from timestamptz,
+  valid_until timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.vouchers (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies(id) on delete cascade,
+  contact_id uuid not null references public.contacts(id) on delete cascade,
+  voucher_rule_id uuid not null references public.voucher_rules(id) on delete cascade,
+  code text not null,
+  status text not null default 'active',
+  issued_by uuid not null,
+  issued_at timestamptz not null default now(),
+  redeemed_at timestamptz,
+  redeemed_by uuid,
+  created_at timestamptz not null default now()
+);
+
+create function public.has_role(_user_id uuid, _role public.app_role)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.user_roles where user_id = _user_id and role = _role)
+$$;
+
+create function public.get_user_company_id(_user_id uuid)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select company_id from public.profiles where id = _user_id
+$$;
+
+alter table public.companies enable row level security;
+alter table public.profiles enable row level security;
+alter table public.user_roles enable row level security;
+alter table public.contacts enable row level security;
+alter table public.purchases enable row level security;
+alter table public.voucher_rules enable row level security;
+alter table public.vouchers enable row level security;
+
+create policy "Users can view their company"
+  on public.companies for select
+  using (id = public.get_user_company_id(auth.uid()));
+
+create policy "Users can view profiles in their company"
+  on public.profiles for select
+  using (company_id = public.get_user_company_id(auth.uid()));
+
+create policy "Users can view their own roles"
+  on public.user_roles for select
+  using (user_id = auth.uid());
+
+create policy "Users can manage contacts in their company"
+  on public.contacts for all
+  using (company_id = public.get_user_company_id(auth.uid()))
+  with check (company_id = public.get_user_company_id(auth.uid()));
+
+create policy "Users can manage purchases in their company"
+  on public.purchases for all
+  using (company_id = public.get_user_company_id(auth.uid()))
+  with check (company_id = public.get_user_company_id(auth.uid()));
+
+create policy "Users can manage voucher rules in their company"
+  on public.voucher_rules for all
+  using (company_id = public.get_user_company_id(auth.uid()))
+  with check (company_id = public.get_user_company_id(auth.uid()));
+
+create policy "Users can manage vouchers in their company"
+  on public.vouchers for all
+  using (company_id = public.get_user_company_id(auth.uid()))
+  with check (company_id = public.get_user_company_id(auth.uid()));
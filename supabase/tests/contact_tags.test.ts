@@ -0,0 +1,50 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { createDatabase, seedCompany, signIn } from "./db";
+
+let db: PGlite;
+let ids: Awaited<ReturnType<typeof seedCompany>>;
+let contact: string;
+let tag: string;
+let foreignTag: string;
+
+const tagContact = (tagId: string) =>
+  db.query("insert into public.contact_tags (contact_id, tag_id, company_id, created_by) values ($1, $2, $3, auth.uid())", [contact, tagId, ids.company]);
+
+const untag = async (tagId: string) => (await db.query("delete from public.contact_tags where contact_id = $1 and tag_id = $2", [contact, tagId])).affectedRows;
+
+beforeAll(async () => {
+  db = await createDatabase();
+  ids = await seedCompany(db);
+  // a tag belonging to another company
+  const other = await db.query<{ id: string }>("insert into public.companies (name) values ('Other company') returning id");
+  foreignTag = (await db.query<{ id: string }>("insert into public.tags (company_id, name, created_by) values ($1, 'VIP', $2) returning id", [other.rows[0].id, ids.admin])).rows[0].id;
+
+  await signIn(db, ids.user);
+  contact = (await db.query<{ id: string }>("insert into public.contacts (company_id, created_by, name) values ($1, auth.uid(), 'Asha Rao') returning id", [ids.company])).rows[0].id;
+  tag = (await db.query<{ id: string }>("insert into public.tags (company_id, name, created_by) values ($1, 'Wholesale', auth.uid()) returning id", [ids.company])).rows[0].id;
+}, 120_000);
+
+describe("contact tags", () => {
+  it("can be changed by the people who work on the contact", async () => {
+    await signIn(db, ids.user);
+    await tagContact(tag);
+    expect(await untag(tag)).toBe(1);
+    await signIn(db, ids.admin);
+    await tagContact(tag);
+  });
+
+  it("cannot be changed on contacts the user cannot see", async () => {
+    await signIn(db, ids.other);
+    expect(await untag(tag)).toBe(0);
+    await signIn(db, ids.admin);
+    await untag(tag);
+    await signIn(db, ids.other);
+    await expect(tagContact(tag)).rejects.toThrow("row-level security");
+  });
+
+  it("only use tags of the contact's company", async () => {
+    await signIn(db, ids.user);
+    await expect(tagContact(foreignTag)).rejects.toThrow("row-level security");
+  });
+});
@@ -0,0 +1,64 @@
+import { readdirSync, readFileSync } from "node:fs";
+import { PGlite } from "@electric-sql/pglite";
+
+const migrationsDir = new URL("../migrations/", import.meta.url);
+
+// every migration, oldest first, named by its timestamp
+export const migrations = readdirSync(migrationsDir)
+  .filter((f) => f.endsWith(".sql"))
+  .sort()
+  .map((file) => ({ version: file.slice(0, 14), file }));
+
+// the scheduled trash purge needs pg_cron, which PGlite does not ship; base_schema.sql stands in for cron.schedule
+const runnable = (sql: string) => sql.replace(/^create extension if not exists pg_cron;$/m, "");
+
+// A fresh database with the base schema and the migrations up to, but not
+// including, `before` (all of them when it is left out).
+export async function createDatabase(before?: string) {
+  const db = new PGlite();
+  await db.exec(readFileSync(new URL("./base_schema.sql", import.meta.url), "utf8"));
+  await migrate(db, { before });
+  return db;
+}
+
+// applies the migrations after `after` and before `before`
+export async function migrate(db: PGlite, { after, before }: { after?: string; before?: string } = {}) {
+  for (const m of migrations) {
+    if ((after && m.version <= after) || (before && m.version >= before)) continue;
+    try {
+      await db.exec(runnable(readFileSync(new URL(m.file, migrationsDir), "utf8")));
+    } catch (err) {
+      throw new Error(`${m.file}: ${(err as Error).message}`);
+    }
+  }
+}
+
+// Acts as `userId` from here on, as PostgREST does for a signed-in request;
+// without a user, acts as the database owner again.
+export async function signIn(db: PGlite, userId: string | null) {
+  if (userId) {
+    await db.query("select set_config('request.jwt.claims', $1, false)", [JSON.stringify({ sub: userId, role: "authenticated" })]);
+    await db.exec("set role authenticated");
+  } else {
+    await db.exec("reset role");
+    await db.query("select set_config('request.jwt.claims', '', false)");
+  }
+}
+
+// a company with one user of each role; ids are fixed so tests read plainly
+export async function seedCompany(db: PGlite) {
+  const company = "00000000-0000-0000-0000-0000000000c1";
+  const admin = "00000000-0000-0000-0000-0000000000a1";
+  const user = "00000000-0000-0000-0000-0000000000a2";
+  const other = "00000000-0000-0000-0000-0000000000a3";
+  await db.exec(`
+    insert into auth.users (id, email) values ('${admin}', 'admin@example.com'), ('${user}', 'user@example.com'), ('${other}', 'other@example.com');
+    insert into public.companies (id, name) values ('${company}', 'Test company');
+    insert into public.profiles (id, company_id, email) values
+      ('${admin}', '${company}', 'admin@example.com'),
+      ('${user}', '${company}', 'user@example.com'),
+      ('${other}', '${company}', 'other@example.com');
+    insert into public.user_roles (user_id, role) values ('${admin}', 'admin'), ('${user}', 'user'), ('${other}', 'user');
+  `);
+  return { company, admin, user, other };
+}
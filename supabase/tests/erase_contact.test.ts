@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { createDatabase, migrate, seedCompany, signIn } from "./db";
+
+const ADDRESS = "12 MG Road, Indiranagar, Bengaluru, Karnataka 560038";
+
+const count = async (db: PGlite, sql: string) => Number((await db.query<{ n: number }>(sql)).rows[0].n);
+
+// Contacts recorded while addresses were still one free-text column, with the
+// audit trail already on: splitting the address wrote it into their history,
+// and merging in a duplicate kept a snapshot of it. Migrates up to `before`.
+const recordBeforeSplit = async (before?: string) => {
+  const db = await createDatabase("20261019108000");
+  const ids = await seedCompany(db);
+  await signIn(db, ids.admin);
+  const rows = await db.query<{ id: string }>(
+    "insert into public.contacts (company_id, created_by, name, address) values ($1, $2, 'Asha Rao', $3), ($1, $2, 'Asha R', $3) returning id",
+    [ids.company, ids.admin, ADDRESS],
+  );
+  const [contact, duplicate] = rows.rows.map((r) => r.id);
+  await db.query("select public.merge_contacts($1, $2)", [contact, [duplicate]]);
+  await signIn(db, null);
+  await migrate(db, { after: "20261019107000", before });
+  return { db, ids, contact };
+};
+
+const erase = async (db: PGlite, admin: string, contact: string) => {
+  await signIn(db, admin);
+  await db.query("select public.erase_contact($1)", [contact]);
+  await signIn(db, null);
+};
+
+const expectNoAddress = async (db: PGlite) => {
+  expect(await count(db, "select count(*)::int as n from public.audit_log where concat(old_data, new_data) like '%MG Road%'")).toBe(0);
+  expect(await count(db, "select count(*)::int as n from public.audit_log where table_name = 'contacts' and (old_data ? 'address' or new_data ? 'address')")).toBe(0);
+  expect(await count(db, "select count(*)::int as n from public.contact_merges where merged_contact::text like '%MG Road%'")).toBe(0);
+};
+
+describe("erase_contact", () => {
+  it("removes the old free-text address from history", async () => {
+    const { db, ids, contact } = await recordBeforeSplit();
+    expect(await count(db, "select count(*)::int as n from public.audit_log where old_data::text like '%MG Road%'")).toBeGreaterThan(0);
+    await erase(db, ids.admin, contact);
+    await expectNoAddress(db);
+  }, 120_000);
+
+  it("removes it for contacts erased before erasure covered it", async () => {
+    const { db, ids, contact } = await recordBeforeSplit("20261019125000");
+    await erase(db, ids.admin, contact);
+    expect(await count(db, "select count(*)::int as n from public.contact_merges where merged_contact::text like '%MG Road%'")).toBeGreaterThan(0);
+    await migrate(db, { after: "20261019124000" });
+    await expectNoAddress(db);
+  }, 120_000);
+});
@@ -0,0 +1,65 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { createDatabase, seedCompany, signIn } from "./db";
+
+let db: PGlite;
+let ids: Awaited<ReturnType<typeof seedCompany>>;
+
+// a ₹100 order of two ₹50 lines, recorded by the user on their own contact
+const placeOrder = async () => {
+  await signIn(db, ids.user);
+  const contact = await db.query<{ id: string }>("insert into public.contacts (company_id, created_by, name) values ($1, $2, 'Asha Rao') returning id", [ids.company, ids.user]);
+  const order = await db.query<{ id: string }>(
+    "select public.save_purchase(null, $1, current_date, $2, false) as id",
+    [contact.rows[0].id, JSON.stringify([{ product: "Tea", quantity: 2, unit_price: 50 }])],
+  );
+  const line = await db.query<{ id: string }>("select id from public.purchase_items where purchase_id = $1", [order.rows[0].id]);
+  return { order: order.rows[0].id, line: line.rows[0].id };
+};
+
+const refund = (order: string, amount: number, line: string | null = null, quantity = 0) =>
+  db.query("select public.refund_purchase($1, $2, 'Damaged', current_date, $3, $4)", [order, amount, line, quantity]);
+
+const refunded = async (order: string) =>
+  Number((await db.query<{ refunded_amount: string }>("select refunded_amount from public.purchases where id = $1", [order])).rows[0].refunded_amount);
+
+beforeAll(async () => {
+  db = await createDatabase();
+  ids = await seedCompany(db);
+}, 120_000);
+
+describe("refund_purchase", () => {
+  it("refunds up to what was charged and no more", async () => {
+    const { order } = await placeOrder();
+    await refund(order, 60);
+    await expect(refund(order, 40.01)).rejects.toThrow("Only 40.00 is left to refund on this order");
+    await refund(order, 40);
+    expect(await refunded(order)).toBe(100);
+    await expect(refund(order, 0.01)).rejects.toThrow("Only 0.00 is left to refund on this order");
+  });
+
+  it("returns no more units of a line than it sold", async () => {
+    const { order, line } = await placeOrder();
+    await expect(refund(order, 10, line, 3)).rejects.toThrow("Only 2 of Tea can still be returned");
+    await refund(order, 50, line, 1);
+    await expect(refund(order, 10, line, 2)).rejects.toThrow("Only 1 of Tea can still be returned");
+    expect(await refunded(order)).toBe(50);
+  });
+
+  it("lets only the people who may change the order refund it", async () => {
+    const { order } = await placeOrder();
+    await signIn(db, ids.other);
+    await expect(refund(order, 10)).rejects.toThrow("You cannot refund this purchase");
+    await signIn(db, ids.admin);
+    await refund(order, 10);
+    expect(await refunded(order)).toBe(10);
+  });
+
+  // PGlite has a single connection, so two refunds cannot race here; what
+  // keeps them apart is that the order row is locked before it is checked
+  it("locks the order before checking what is left to refund", async () => {
+    await signIn(db, null);
+    const def = await db.query<{ def: string }>("select pg_get_functiondef('public.refund_purchase'::regproc) as def");
+    expect(def.rows[0].def).toMatch(/from public\.purchases\s+where id = _purchase_id[^;]*for update;/);
+  });
+});
@@ -0,0 +1,76 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { createDatabase, seedCompany, signIn } from "./db";
+import { isInterState } from "../../src/lib/gst";
+
+let db: PGlite;
+let ids: Awaited<ReturnType<typeof seedCompany>>;
+
+const addContact = async (fields: { state?: string | null; country?: string | null } = {}) => {
+  const row = await db.query<{ id: string }>(
+    "insert into public.contacts (company_id, created_by, name, state, country) values ($1, auth.uid(), 'Asha Rao', $2, $3) returning id",
+    [ids.company, fields.state ?? null, fields.country ?? null],
+  );
+  return row.rows[0].id;
+};
+
+const order = (contact: string, purchaseId: string | null = null, quantity = 1) =>
+  db.query<{ id: string }>("select public.save_purchase($1, $2, current_date, $3, false) as id", [
+    purchaseId,
+    contact,
+    JSON.stringify([{ product: "Tea", quantity, unit_price: 100, tax_rate: 18 }]),
+  ]);
+
+const lineCount = async (purchaseId: string) => {
+  await signIn(db, null);
+  const rows = await db.query<{ n: number }>("select count(*)::int as n from public.purchase_items where purchase_id = $1", [purchaseId]);
+  await signIn(db, ids.user);
+  return rows.rows[0].n;
+};
+
+beforeAll(async () => {
+  db = await createDatabase();
+  ids = await seedCompany(db);
+  await db.query("update public.companies set gst_state = 'Karnataka' where id = $1", [ids.company]);
+  await signIn(db, ids.user);
+}, 120_000);
+
+describe("save_purchase", () => {
+  it("decides inter-state supply the way the order preview does", async () => {
+    for (const country of ["India", " india ", "IN", "in", "", null, "Nepal"]) {
+      for (const state of ["Karnataka", "Kerala", null]) {
+        const contact = await addContact({ state, country });
+        const { id } = (await order(contact)).rows[0];
+        const saved = await db.query<{ inter_state: boolean }>("select inter_state from public.purchases where id = $1", [id]);
+        expect({ country, state, interState: saved.rows[0].inter_state }).toEqual({ country, state, interState: isInterState("Karnataka", { state, country }) });
+      }
+    }
+  });
+
+  it("is the only way to write order lines", async () => {
+    const { id } = (await order(await addContact())).rows[0];
+    await expect(
+      db.query("insert into public.purchase_items (purchase_id, company_id, product, quantity, unit_price) values ($1, $2, 'Free tea', 1, 0)", [id, ids.company]),
+    ).rejects.toThrow("row-level security");
+    await db.query("delete from public.purchase_items where purchase_id = $1", [id]);
+    expect(await lineCount(id)).toBe(1);
+
+    await order((await db.query<{ contact_id: string }>("select contact_id from public.purchases where id = $1", [id])).rows[0].contact_id, id, 3);
+    const saved = await db.query<{ quantity: number }>("select quantity from public.purchase_items where purchase_id = $1", [id]);
+    expect(saved.rows.map((r) => r.quantity)).toEqual([3]);
+  });
+
+  it("changes only orders and contacts the user may work on", async () => {
+    const contact = await addContact();
+    const { id } = (await order(contact)).rows[0];
+
+    await signIn(db, ids.other);
+    await expect(order(contact)).rejects.toThrow("Customer contact not found");
+    await expect(order(await addContact(), id)).rejects.toThrow("Purchase not found");
+
+    await signIn(db, ids.admin);
+    await order(contact, id, 2);
+    await signIn(db, ids.user);
+    expect(await lineCount(id)).toBe(1);
+  });
+});